@@ -1,5 +1,6 @@
 -- Prisma 7 schema initialization
--- Generated manually as workaround for prisma.config.ts parsing issues
+-- Generated manually as workaround for prisma.config.ts parsing issues; keep in sync with
+-- schema.prisma
 
 -- Create enum types
 CREATE TYPE "UserRole" AS ENUM ('USER', 'ADMIN', 'MODERATOR');
@@ -9,18 +10,21 @@ CREATE TYPE "NotificationStatus" AS ENUM ('PENDING', 'SENT', 'FAILED', 'READ');
 CREATE TABLE "users" (
     "id" TEXT NOT NULL PRIMARY KEY,
     "email" TEXT NOT NULL UNIQUE,
+    "emailHash" TEXT UNIQUE,
     "emailVerified" TIMESTAMP,
     "name" TEXT,
     "image" TEXT,
     "passwordHash" TEXT,
     "role" "UserRole" NOT NULL DEFAULT 'USER',
+    "tokenVersion" INTEGER NOT NULL DEFAULT 0,
+    "mfaEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "mfaSecret" TEXT,
+    "mfaLastUsedStep" INTEGER,
     "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "updatedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "lastLoginAt" TIMESTAMP
 );
 
-CREATE INDEX "users_email_idx" ON "users"("email");
-
 -- OAuth accounts
 CREATE TABLE "accounts" (
     "id" TEXT NOT NULL PRIMARY KEY,
@@ -47,15 +51,67 @@ CREATE TABLE "sessions" (
     "sessionToken" TEXT NOT NULL UNIQUE,
     "userId" TEXT NOT NULL,
     "expires" TIMESTAMP NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "device" TEXT,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
 );
 
 CREATE INDEX "sessions_userId_idx" ON "sessions"("userId");
 
+-- Refresh tokens (id is the JWT jti), chained into families by rotation
+CREATE TABLE "refresh_tokens" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP NOT NULL,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP,
+    "replacedById" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "mfaVerified" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "refresh_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "refresh_tokens_userId_idx" ON "refresh_tokens"("userId");
+CREATE INDEX "refresh_tokens_familyId_idx" ON "refresh_tokens"("familyId");
+
+-- MFA recovery codes (SHA-256 hashes)
+CREATE TABLE "mfa_recovery_codes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "mfa_recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "mfa_recovery_codes_userId_codeHash_key" UNIQUE ("userId", "codeHash")
+);
+
+-- API keys (SHA-256 hashes)
+CREATE TABLE "api_keys" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL UNIQUE,
+    "keyHash" TEXT NOT NULL UNIQUE,
+    "scopes" TEXT[],
+    "expiresAt" TIMESTAMP NOT NULL,
+    "lastUsedAt" TIMESTAMP,
+    "lastUsedIp" TEXT,
+    "revokedAt" TIMESTAMP,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "api_keys_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "api_keys_userId_idx" ON "api_keys"("userId");
+
 -- Verification tokens
 CREATE TABLE "verification_tokens" (
     "identifier" TEXT NOT NULL,
-    "token" TEXT NOT NULL,
+    "token" TEXT NOT NULL UNIQUE,
     "expires" TIMESTAMP NOT NULL,
     CONSTRAINT "verification_tokens_identifier_token_key" UNIQUE ("identifier", "token")
 );
@@ -65,32 +121,182 @@ CREATE TABLE "profiles" (
     "id" TEXT NOT NULL PRIMARY KEY,
     "userId" TEXT NOT NULL UNIQUE,
     "bio" TEXT,
+    "company" TEXT,
     "location" TEXT,
     "website" TEXT,
-    "avatar" TEXT,
-    "phone" TEXT,
+    "twitter" TEXT,
+    "github" TEXT,
+    "linkedin" TEXT,
     "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "updatedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     CONSTRAINT "profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
 );
 
--- Audit logs
+-- RBAC roles and permissions
+CREATE TABLE "roles" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL UNIQUE,
+    "description" TEXT,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE "role_inheritance" (
+    "roleId" TEXT NOT NULL,
+    "parentId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY ("roleId", "parentId"),
+    CONSTRAINT "role_inheritance_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "role_inheritance_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "role_inheritance_parentId_idx" ON "role_inheritance"("parentId");
+
+CREATE TABLE "permissions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL UNIQUE,
+    "description" TEXT,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE "role_permissions" (
+    "roleId" TEXT NOT NULL,
+    "permissionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY ("roleId", "permissionId"),
+    CONSTRAINT "role_permissions_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "role_permissions_permissionId_fkey" FOREIGN KEY ("permissionId") REFERENCES "permissions"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "role_permissions_permissionId_idx" ON "role_permissions"("permissionId");
+
+CREATE TABLE "user_roles" (
+    "userId" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY ("userId", "roleId"),
+    CONSTRAINT "user_roles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "user_roles_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "user_roles_roleId_idx" ON "user_roles"("roleId");
+
+CREATE TABLE "user_permissions" (
+    "userId" TEXT NOT NULL,
+    "permissionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY ("userId", "permissionId"),
+    CONSTRAINT "user_permissions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "user_permissions_permissionId_fkey" FOREIGN KEY ("permissionId") REFERENCES "permissions"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "user_permissions_permissionId_idx" ON "user_permissions"("permissionId");
+
+-- Audit logs, hash-chained by sequence (no foreign key: rows outlive their users)
 CREATE TABLE "audit_logs" (
     "id" TEXT NOT NULL PRIMARY KEY,
+    "sequence" INTEGER NOT NULL UNIQUE,
     "userId" TEXT,
     "action" TEXT NOT NULL,
     "resource" TEXT NOT NULL,
     "resourceId" TEXT,
-    "details" JSONB,
+    "status" TEXT NOT NULL,
+    "errorMessage" TEXT,
     "ipAddress" TEXT,
     "userAgent" TEXT,
-    "timestamp" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    CONSTRAINT "audit_logs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "previousHash" TEXT,
+    "hash" TEXT NOT NULL
 );
 
 CREATE INDEX "audit_logs_userId_idx" ON "audit_logs"("userId");
+CREATE INDEX "audit_logs_action_idx" ON "audit_logs"("action");
 CREATE INDEX "audit_logs_resource_idx" ON "audit_logs"("resource");
-CREATE INDEX "audit_logs_timestamp_idx" ON "audit_logs"("timestamp");
+CREATE INDEX "audit_logs_createdAt_idx" ON "audit_logs"("createdAt");
+
+-- Audit log rows archived by retention
+CREATE TABLE "audit_log_tombstones" (
+    "sequence" INTEGER NOT NULL PRIMARY KEY,
+    "hash" TEXT NOT NULL,
+    "previousHash" TEXT,
+    "archivePath" TEXT NOT NULL,
+    "archivedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ABAC policies
+CREATE TABLE "abac_policies" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "version" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "combiningAlgorithm" TEXT,
+    "resources" TEXT[],
+    "actions" TEXT[],
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX "abac_policies_enabled_priority_idx" ON "abac_policies"("enabled", "priority");
+
+CREATE TABLE "abac_policy_rules" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "policyId" TEXT NOT NULL,
+    "ruleKey" TEXT NOT NULL,
+    "description" TEXT,
+    "effect" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "obligations" JSONB,
+    "advice" JSONB,
+    CONSTRAINT "abac_policy_rules_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "abac_policies"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "abac_policy_rules_policyId_ruleKey_key" UNIQUE ("policyId", "ruleKey")
+);
+
+CREATE INDEX "abac_policy_rules_policyId_idx" ON "abac_policy_rules"("policyId");
+
+CREATE TABLE "abac_policy_conditions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ruleId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "logicalOperator" TEXT,
+    "attributeSource" TEXT,
+    "attributeKey" TEXT,
+    "comparisonOperator" TEXT,
+    "value" JSONB,
+    CONSTRAINT "abac_policy_conditions_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "abac_policy_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "abac_policy_conditions_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "abac_policy_conditions"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "abac_policy_conditions_ruleId_idx" ON "abac_policy_conditions"("ruleId");
+CREATE INDEX "abac_policy_conditions_parentId_idx" ON "abac_policy_conditions"("parentId");
+
+CREATE TABLE "abac_policy_tags" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "policyId" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    CONSTRAINT "abac_policy_tags_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "abac_policies"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "abac_policy_tags_policyId_tag_key" UNIQUE ("policyId", "tag")
+);
+
+CREATE INDEX "abac_policy_tags_tag_idx" ON "abac_policy_tags"("tag");
+
+CREATE TABLE "abac_policy_versions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "policyId" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "abac_policy_versions_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "abac_policies"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "abac_policy_versions_policyId_idx" ON "abac_policy_versions"("policyId");
+CREATE INDEX "abac_policy_versions_createdAt_idx" ON "abac_policy_versions"("createdAt");
 
 -- Notifications
 CREATE TABLE "notifications" (
@@ -0,0 +1,48 @@
+/**
+ * Re-encrypt encrypted columns and backfill blind indexes.
+ *
+ * Run with `pnpm db:reencrypt`. Does what the re-encryption job on the cleanup queue does
+ * (ReencryptionService), for deployments without queues (DISABLE_QUEUES=true): moves values to
+ * the current master key and encrypts plaintext left in newly declared encrypted fields,
+ * setting their blind indexes. Until then, rows written before User.email was encrypted have no
+ * emailHash and cannot be found by email, so run it once after upgrading. Safe to run again;
+ * exits with status 1 when any value failed.
+ */
+import 'reflect-metadata';
+
+import type { ISecretsManager } from '@repo/types';
+import { container } from 'tsyringe';
+
+import { EncryptionService } from '../src/services/auth/encryption.service';
+import { ReencryptionService } from '../src/services/auth/reencryption.service';
+import { DatabaseService } from '../src/services/database.service';
+import { registerSecretsManager } from '../src/services/secrets/secrets-manager.factory';
+
+async function main(): Promise<void> {
+  registerSecretsManager();
+  const encryption = new EncryptionService();
+  await encryption.loadKeys(container.resolve<ISecretsManager>('SecretsManager'));
+  const db = new DatabaseService(encryption);
+
+  try {
+    const { keyId, scanned, reencrypted, failed } = await new ReencryptionService(
+      db,
+      encryption
+    ).reencryptAll({
+      onBatch: (field, total) => console.log(`${field}: ${total} values scanned`),
+    });
+    console.log(`Re-encrypted ${reencrypted} of ${scanned} values under key ${keyId}`);
+
+    if (failed > 0) {
+      console.error(`${failed} values could not be decrypted and were left unchanged`);
+      process.exitCode = 1;
+    }
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Re-encryption failed', error);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+/**
+ * Database seed for default RBAC roles and ABAC example policies.
+ *
+ * Run with `pnpm db:seed`. Roles and policies are matched by name so the seed
+ * can be re-run safely without creating duplicates or overwriting edits.
+ */
+import 'reflect-metadata';
+
+import { DEFAULT_ROLES } from '../src/services/auth/default-roles';
+import { EncryptionService } from '../src/services/auth/encryption.service';
+import { EXAMPLE_POLICIES } from '../src/services/auth/example-policies';
+import { PrismaPolicyStore } from '../src/services/auth/prisma-policy-store.service';
+import { PrismaRbacStore } from '../src/services/auth/prisma-rbac-store.service';
+import { DatabaseService } from '../src/services/database.service';
+
+async function main(): Promise<void> {
+  const db = new DatabaseService(new EncryptionService());
+  const store = new PrismaPolicyStore(db);
+  const rbac = new PrismaRbacStore(db);
+
+  try {
+    for (const [role, { permissions, inherits }] of Object.entries(DEFAULT_ROLES)) {
+      const existing = await db.role.findUnique({ where: { name: role } });
+      if (existing) {
+        console.log(`Skipping existing role: ${role}`);
+        continue;
+      }
+
+      await rbac.setRolePermissions(role, permissions);
+      if (inherits) {
+        await rbac.setRoleParents(role, inherits);
+      }
+      console.log(`Seeded role: ${role}`);
+    }
+
+    for (const policy of EXAMPLE_POLICIES) {
+      const existing = await db.abacPolicy.findFirst({ where: { name: policy.name } });
+      if (existing) {
+        console.log(`Skipping existing policy: ${policy.name}`);
+        continue;
+      }
+
+      await store.createPolicy({ ...policy, createdBy: 'seed' });
+      console.log(`Seeded policy: ${policy.name}`);
+    }
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Seeding failed', error);
+  process.exit(1);
+});
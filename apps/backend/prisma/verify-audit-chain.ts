@@ -0,0 +1,39 @@
+/**
+ * Verify the audit log hash chain.
+ *
+ * Run with `pnpm audit:verify`. Walks audit_logs in sequence order, recomputing each row's
+ * hash and its link to the row before it, and lists every break. Exits with status 1 when
+ * the chain is broken, so it can run as a scheduled check. Rows archived by retention are
+ * checked through their tombstones.
+ */
+import 'reflect-metadata';
+
+import { PrismaAuditLogStore } from '../src/services/audit/prisma-audit-log-store.service';
+import { EncryptionService } from '../src/services/auth/encryption.service';
+import { DatabaseService } from '../src/services/database.service';
+
+async function main(): Promise<void> {
+  const db = new DatabaseService(new EncryptionService());
+
+  try {
+    const { checked, archived, breaks } = await new PrismaAuditLogStore(db).verifyChain();
+    console.log(`Checked ${checked} audit log rows and ${archived} archived rows`);
+
+    for (const { sequence, id, reason } of breaks) {
+      console.error(`Break at sequence ${sequence} (row ${id}): ${reason}`);
+    }
+    if (breaks.length > 0) {
+      console.error(`Audit log hash chain is broken in ${breaks.length} places`);
+      process.exitCode = 1;
+    } else {
+      console.log('Audit log hash chain is intact');
+    }
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Verification failed', error);
+  process.exit(1);
+});
@@ -217,6 +217,10 @@ const swaggerDefinition = {
       name: 'Health',
       description: 'Health check endpoints',
     },
+    {
+      name: 'Policies',
+      description: 'ABAC policy administration (admin only)',
+    },
   ],
 };
 
@@ -13,16 +13,20 @@
  */
 import 'reflect-metadata';
 
+import type { IAuditLogStore, IPolicyStore, IRbacStore } from '@repo/types';
 import { container } from 'tsyringe';
 
 import { UserController } from './controllers/user.controller';
 import { UserRepository } from './repositories/user.repository';
+import { InMemoryAuditLogStore } from './services/audit/audit-log-store.service';
 import { AuditLogService } from './services/audit/audit-log.service';
 import { AuthorizationService } from './services/auth/authorization.service';
 import { EncryptionService } from './services/auth/encryption.service';
 import { JwtService } from './services/auth/jwt.service';
+import { PolicyDecisionService } from './services/auth/policy-decision.service';
 import { PolicyEngine } from './services/auth/policy-engine.service';
 import { InMemoryPolicyStore } from './services/auth/policy-store.service';
+import { InMemoryRbacStore } from './services/auth/rbac-store.service';
 import { EnvironmentSecretsManager } from './services/secrets/secrets-manager.service';
 import { UserService } from './services/user/user.service';
 
@@ -40,9 +44,29 @@ if (!container.isRegistered(PolicyEngine)) {
 if (!container.isRegistered(InMemoryPolicyStore)) {
   container.registerSingleton(InMemoryPolicyStore);
 }
+// Tests always evaluate ABAC against the in-memory store
+if (!container.isRegistered('PolicyStore')) {
+  container.register<IPolicyStore>('PolicyStore', { useToken: InMemoryPolicyStore });
+}
+if (!container.isRegistered(InMemoryRbacStore)) {
+  container.registerSingleton(InMemoryRbacStore);
+}
+// Tests keep RBAC roles and permissions in memory
+if (!container.isRegistered('RbacStore')) {
+  container.register<IRbacStore>('RbacStore', { useToken: InMemoryRbacStore });
+}
+if (!container.isRegistered(PolicyDecisionService)) {
+  container.registerSingleton(PolicyDecisionService);
+}
 if (!container.isRegistered(AuthorizationService)) {
   container.registerSingleton(AuthorizationService);
 }
+if (!container.isRegistered(InMemoryAuditLogStore)) {
+  container.registerSingleton(InMemoryAuditLogStore);
+}
+if (!container.isRegistered('AuditLogStore')) {
+  container.register<IAuditLogStore>('AuditLogStore', { useToken: InMemoryAuditLogStore });
+}
 if (!container.isRegistered(AuditLogService)) {
   container.registerSingleton(AuditLogService);
 }
@@ -1,5 +1,6 @@
 import 'reflect-metadata';
 
+import type { IAuditLogForwarder, IAuditLogStore, IPolicyStore, IRbacStore } from '@repo/types';
 import * as promClient from 'prom-client';
 import { container } from 'tsyringe';
 
@@ -7,12 +8,32 @@ import { container } from 'tsyringe';
 import { UserController } from './controllers/user.controller';
 import { MetricsService, TracingService } from './infrastructure/observability';
 import { UserRepository } from './repositories/user.repository';
+import { AuditLogForwardingService } from './services/audit/audit-log-forwarding.service';
+import { AuditLogRetentionService } from './services/audit/audit-log-retention.service';
+import { InMemoryAuditLogStore } from './services/audit/audit-log-store.service';
 import { AuditLogService } from './services/audit/audit-log.service';
+import { createAuditLogForwarders } from './services/audit/forwarders/audit-log-forwarder.factory';
+import { ForwardingAuditLogStore } from './services/audit/forwarding-audit-log-store.service';
+import { PrismaAuditLogStore } from './services/audit/prisma-audit-log-store.service';
+import { QueuedAuditLogStore } from './services/audit/queued-audit-log-store.service';
+import { AccessTokenDenylistService } from './services/auth/access-token-denylist.service';
+import { ApiKeyService } from './services/auth/api-key.service';
 import { AuthorizationService } from './services/auth/authorization.service';
 import { EncryptionService } from './services/auth/encryption.service';
+import { ImpersonationService } from './services/auth/impersonation.service';
 import { JwtService } from './services/auth/jwt.service';
+import { LoginThrottleService } from './services/auth/login-throttle.service';
+import { MfaService } from './services/auth/mfa.service';
+import { OidcProvider } from './services/auth/oidc.provider';
+import { PolicyDecisionService } from './services/auth/policy-decision.service';
 import { PolicyEngine } from './services/auth/policy-engine.service';
 import { InMemoryPolicyStore } from './services/auth/policy-store.service';
+import { PrismaPolicyStore } from './services/auth/prisma-policy-store.service';
+import { PrismaRbacStore } from './services/auth/prisma-rbac-store.service';
+import { InMemoryRbacStore } from './services/auth/rbac-store.service';
+import { ReencryptionService } from './services/auth/reencryption.service';
+import { RefreshTokenService } from './services/auth/refresh-token.service';
+import { VerificationTokenService } from './services/auth/verification-token.service';
 import { EnvironmentSecretsManager } from './services/secrets/secrets-manager.service';
 import { UserService } from './services/user/user.service';
 
@@ -34,9 +55,105 @@ if (!container.isRegistered(PolicyEngine)) {
 if (!container.isRegistered(InMemoryPolicyStore)) {
   container.registerSingleton(InMemoryPolicyStore);
 }
+if (!container.isRegistered(PrismaPolicyStore)) {
+  container.registerSingleton(PrismaPolicyStore);
+}
+// POLICY_STORE selects the ABAC policy store backing AuthorizationService:
+// memory (default) | prisma
+if (!container.isRegistered('PolicyStore')) {
+  container.register<IPolicyStore>('PolicyStore', {
+    useToken: process.env['POLICY_STORE'] === 'prisma' ? PrismaPolicyStore : InMemoryPolicyStore,
+  });
+}
+if (!container.isRegistered(InMemoryRbacStore)) {
+  container.registerSingleton(InMemoryRbacStore);
+}
+if (!container.isRegistered(PrismaRbacStore)) {
+  container.registerSingleton(PrismaRbacStore);
+}
+// RBAC_STORE selects where roles and permissions live: prisma (default) | memory
+// Test runs without external services fall back to memory
+if (!container.isRegistered('RbacStore')) {
+  const rbacStore =
+    process.env['RBAC_STORE'] ??
+    (process.env['TEST_EXTERNAL_SERVICES'] === 'false' ? 'memory' : 'prisma');
+  container.register<IRbacStore>('RbacStore', {
+    useToken: rbacStore === 'memory' ? InMemoryRbacStore : PrismaRbacStore,
+  });
+}
+if (!container.isRegistered(PolicyDecisionService)) {
+  container.registerSingleton(PolicyDecisionService);
+}
 if (!container.isRegistered(AuthorizationService)) {
   container.registerSingleton(AuthorizationService);
 }
+if (!container.isRegistered(AccessTokenDenylistService)) {
+  container.registerSingleton(AccessTokenDenylistService);
+}
+if (!container.isRegistered(RefreshTokenService)) {
+  container.registerSingleton(RefreshTokenService);
+}
+if (!container.isRegistered(VerificationTokenService)) {
+  container.registerSingleton(VerificationTokenService);
+}
+if (!container.isRegistered(MfaService)) {
+  container.registerSingleton(MfaService);
+}
+if (!container.isRegistered(LoginThrottleService)) {
+  container.registerSingleton(LoginThrottleService);
+}
+if (!container.isRegistered(ApiKeyService)) {
+  container.registerSingleton(ApiKeyService);
+}
+if (!container.isRegistered(ImpersonationService)) {
+  container.registerSingleton(ImpersonationService);
+}
+if (!container.isRegistered(ReencryptionService)) {
+  container.registerSingleton(ReencryptionService);
+}
+if (!container.isRegistered(OidcProvider)) {
+  container.registerSingleton(OidcProvider);
+}
+if (!container.isRegistered(InMemoryAuditLogStore)) {
+  container.registerSingleton(InMemoryAuditLogStore);
+}
+if (!container.isRegistered(PrismaAuditLogStore)) {
+  container.registerSingleton(PrismaAuditLogStore);
+}
+if (!container.isRegistered(QueuedAuditLogStore)) {
+  container.registerSingleton(QueuedAuditLogStore);
+}
+// AUDIT_LOG_FORWARDERS lists where entries are also sent (SIEM): syslog | http | memory.
+// Test runs without external services forward nowhere
+if (!container.isRegistered('AuditLogForwarders')) {
+  container.register<IAuditLogForwarder[]>('AuditLogForwarders', {
+    useValue: process.env['TEST_EXTERNAL_SERVICES'] === 'false' ? [] : createAuditLogForwarders(),
+  });
+}
+if (!container.isRegistered(AuditLogForwardingService)) {
+  container.registerSingleton(AuditLogForwardingService);
+}
+if (!container.isRegistered(ForwardingAuditLogStore)) {
+  container.registerSingleton(ForwardingAuditLogStore);
+}
+if (!container.isRegistered(AuditLogRetentionService)) {
+  container.registerSingleton(AuditLogRetentionService);
+}
+// AUDIT_LOG_STORE selects where audit entries go: prisma (default; written through the
+// audit-log queue) | memory. Test runs without external services fall back to memory
+if (!container.isRegistered('AuditLogStore')) {
+  const auditLogStore =
+    process.env['AUDIT_LOG_STORE'] ??
+    (process.env['TEST_EXTERNAL_SERVICES'] === 'false' ? 'memory' : 'prisma');
+  const backingStore = auditLogStore === 'memory' ? InMemoryAuditLogStore : QueuedAuditLogStore;
+  container.register<IAuditLogStore>('AuditLogBackingStore', { useToken: backingStore });
+  container.register<IAuditLogStore>('AuditLogStore', {
+    useToken:
+      container.resolve<IAuditLogForwarder[]>('AuditLogForwarders').length > 0
+        ? ForwardingAuditLogStore
+        : backingStore,
+  });
+}
 if (!container.isRegistered(AuditLogService)) {
   container.registerSingleton(AuditLogService);
 }
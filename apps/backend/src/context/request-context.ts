@@ -2,6 +2,12 @@ import { AsyncLocalStorage } from 'node:async_hooks';
 
 type RequestContextStore = {
   correlationId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  // Set once the request is authenticated
+  userId?: string;
+  // Impersonation: the admin acting as userId
+  actorId?: string;
 };
 
 const storage = new AsyncLocalStorage<RequestContextStore>();
@@ -11,7 +17,22 @@ export const requestContext = {
     return storage.run(store, fn);
   },
 
+  get(): Readonly<RequestContextStore> | undefined {
+    return storage.getStore();
+  },
+
   getCorrelationId(): string | undefined {
     return storage.getStore()?.correlationId;
   },
+
+  /**
+   * Record the authenticated user for the rest of the request (no-op outside a request)
+   */
+  setUser(user: { userId: string; actorId?: string }): void {
+    const store = storage.getStore();
+    if (store) {
+      store.userId = user.userId;
+      store.actorId = user.actorId;
+    }
+  },
 };
@@ -4,6 +4,12 @@ import fs from 'node:fs';
 import { createServer, type Server as HttpServer } from 'node:http';
 import path from 'node:path';
 
+import {
+  QueueName,
+  type AuditLogRetentionJobData,
+  type ISecretsManager,
+  type ReencryptionJobData,
+} from '@repo/types';
 import compression from 'compression';
 import cors from 'cors';
 import express, { type Express, type NextFunction, type Request, type Response } from 'express';
@@ -14,15 +20,22 @@ import { container } from 'tsyringe';
 import { setupSwagger } from './config/swagger';
 import type { ITracingService } from './infrastructure/observability';
 import { apiVersionMiddleware } from './middleware/api-version.middleware';
+import { enforceImpersonationPolicy } from './middleware/auth.middleware';
 import { correlationIdMiddleware } from './middleware/correlation-id.middleware';
 import { attachUserIfPresent } from './middleware/jwt.middleware';
 import { metricsMiddleware } from './middleware/metrics.middleware';
+import apiKeysRouter from './routes/api-keys.routes';
+import auditLogsRouter from './routes/audit-logs.routes';
 import authRouter from './routes/auth.routes';
 import bddAdminRouter from './routes/bdd-admin.routes';
 import e2eRouter from './routes/e2e.routes';
 import filesRouter from './routes/files.routes';
+import impersonationRouter from './routes/impersonation.routes';
 import metricsRouter from './routes/metrics.routes';
+import policyAdminRouter from './routes/policy-admin.routes';
 import { usersRouter } from './routes/users-v2.routes';
+import wellKnownRouter from './routes/well-known.routes';
+import { AuditLogForwardingService } from './services/audit/audit-log-forwarding.service';
 import { AuditLogService } from './services/audit/audit-log.service';
 import { AuthorizationService } from './services/auth/authorization.service';
 import { EncryptionService } from './services/auth/encryption.service';
@@ -34,7 +47,7 @@ import { registerNotificationProviders } from './services/notification/notificat
 import { createQueueMonitoringDashboard } from './services/queue/monitoring/bull-board';
 import { initializeQueues } from './services/queue/queue-init';
 import { QueueService } from './services/queue/queue.service';
-import { EnvironmentSecretsManager } from './services/secrets/secrets-manager.service';
+import { registerSecretsManager } from './services/secrets/secrets-manager.factory';
 import { registerStorageProvider } from './services/storage/storage-provider.factory';
 import { WebSocketService } from './services/websocket/websocket.service';
 
@@ -121,6 +134,7 @@ export class App {
 
     this.app.use(apiVersionMiddleware());
     this.app.use(attachUserIfPresent);
+    this.app.use(enforceImpersonationPolicy);
   }
 
   private initializeRoutes(): void {
@@ -235,9 +249,14 @@ export class App {
     });
 
     // Register API routes
+    this.app.use('/.well-known', wellKnownRouter);
     this.app.use('/metrics', metricsRouter);
     this.app.use('/api/auth', authRouter);
+    this.app.use('/api/api-keys', apiKeysRouter);
     this.app.use('/api/admin/bdd', bddAdminRouter);
+    this.app.use('/api/admin/policies', policyAdminRouter);
+    this.app.use('/api/admin/impersonate', impersonationRouter);
+    this.app.use('/api/admin/audit-logs', auditLogsRouter);
     this.app.use('/api/e2e', e2eRouter);
     this.app.use('/api/users', usersRouter);
     this.app.use('/api/files', filesRouter);
@@ -273,6 +292,12 @@ export class App {
     const port = process.env['PORT'] || 3001;
 
     try {
+      // Access tokens cannot be issued or verified before the signing keys are loaded,
+      // nor encrypted fields read before the encryption master keys are
+      const secrets = container.resolve<ISecretsManager>('SecretsManager');
+      await container.resolve(JwtService).loadKeys(secrets);
+      await container.resolve(EncryptionService).loadKeys(secrets);
+
       // Connect to database
       await this.database.connect();
       this.logger.info('Database connected');
@@ -280,6 +305,8 @@ export class App {
       await this.seedDevUsersIfApplicable();
 
       this.initializeQueuesIfEnabled();
+      await this.scheduleReencryptionIfEnabled();
+      await this.scheduleAuditLogRetentionIfEnabled();
 
       // Queue monitoring dashboard (development only)
       if (process.env['NODE_ENV'] === 'development' && this.queuesEnabled()) {
@@ -392,6 +419,49 @@ export class App {
     }
   }
 
+  /**
+   * Queue a job moving encrypted fields to the current encryption master key
+   * The job id names the key, so it runs once per key rather than on every start.
+   */
+  private async scheduleReencryptionIfEnabled(): Promise<void> {
+    if (!this.queuesEnabled()) return;
+
+    try {
+      const keyId = container.resolve(EncryptionService).getCurrentKeyId();
+      await container
+        .resolve(QueueService)
+        .addJob<ReencryptionJobData>(
+          QueueName.CLEANUP,
+          { resourceType: 'encrypted-fields' },
+          { jobId: `reencrypt-${keyId}` }
+        );
+    } catch (error) {
+      this.logger.warn('Failed to schedule re-encryption', { error });
+    }
+  }
+
+  // AUDIT_LOG_RETENTION_SCHEDULE: cron pattern for archiving expired audit log rows
+  // (default: daily at 03:00; "off" disables). Only the database-backed store is archived.
+  private async scheduleAuditLogRetentionIfEnabled(): Promise<void> {
+    const pattern = process.env['AUDIT_LOG_RETENTION_SCHEDULE'] ?? '0 3 * * *';
+    if (!this.queuesEnabled() || pattern === 'off' || process.env['AUDIT_LOG_STORE'] === 'memory') {
+      return;
+    }
+
+    try {
+      await container
+        .resolve(QueueService)
+        .scheduleRepeatingJob<AuditLogRetentionJobData>(
+          QueueName.CLEANUP,
+          'audit-log-retention',
+          { pattern },
+          { resourceType: 'audit-logs' }
+        );
+    } catch (error) {
+      this.logger.warn('Failed to schedule audit log retention', { error });
+    }
+  }
+
   private async initializeWebSocketsIfEnabled(): Promise<void> {
     if (!this.websocketsEnabled()) {
       this.logger.info('WebSockets disabled (DISABLE_WEBSOCKETS=true)');
@@ -436,6 +506,9 @@ export class App {
         });
       }
 
+      // Send audit log entries still waiting for the forwarders (SIEM)
+      await container.resolve(AuditLogForwardingService).close();
+
       await this.database.disconnect();
       await this.cache.disconnect();
 
@@ -455,17 +528,18 @@ export class App {
 container.registerSingleton(LoggerService);
 container.registerSingleton(DatabaseService);
 container.registerSingleton(CacheService);
-container.registerSingleton('JwtService', JwtService);
-container.registerSingleton('EncryptionService', EncryptionService);
+// Same instances as the class tokens, which hold the keys loaded at startup
+container.register('JwtService', { useToken: JwtService });
+container.register('EncryptionService', { useToken: EncryptionService });
 container.registerSingleton('AuthorizationService', AuthorizationService);
-container.registerSingleton('AuditLogService', AuditLogService);
-container.registerSingleton('SecretsManager', EnvironmentSecretsManager);
+container.register('AuditLogService', { useToken: AuditLogService });
 container.registerSingleton(QueueService);
 container.registerSingleton(WebSocketService);
 
-// Register notification and storage providers based on environment
+// Register notification and storage providers and the secrets manager based on environment
 registerNotificationProviders();
 registerStorageProvider();
+registerSecretsManager();
 
 // Only start the HTTP server when this module is executed directly.
 // This prevents side effects when importing `App` in tests (Vitest/Cucumber/etc).
@@ -123,6 +123,14 @@ export class MetricsService implements IMetricsService {
       'reason',
     ]);
 
+    // Authorization metrics
+    this.createHistogram(
+      'abac_evaluation_duration_seconds',
+      'Duration of ABAC policy decisions in seconds',
+      ['cache'],
+      [0.0001, 0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5]
+    );
+
     // Business metrics examples
     this.createCounter('user_registrations_total', 'Total number of user registrations', [
       'source',
@@ -1,11 +1,52 @@
+import { ObligationType, type TokenPayload } from '@repo/types';
 import { NextFunction, Request, Response } from 'express';
 import { container } from 'tsyringe';
 
+import { requestContext } from '../context/request-context';
+import { AuditAction, AuditLogService } from '../services/audit/audit-log.service';
+import { AccessTokenDenylistService } from '../services/auth/access-token-denylist.service';
+import { ApiKeyService, isApiKey } from '../services/auth/api-key.service';
 import { AuthorizationService } from '../services/auth/authorization.service';
+import { ImpersonationService } from '../services/auth/impersonation.service';
 import { JwtService } from '../services/auth/jwt.service';
+import { hasObligation } from '../services/auth/obligations';
+import { hasMatchingPermission } from '../services/auth/permissions';
 
 /**
- * Middleware to authenticate JWT token
+ * Bearer credential (JWT or API key) or X-API-Key header of a request
+ */
+function getRequestCredential(req: Request): string | undefined {
+  const authHeader = req.headers['authorization'];
+  const bearer = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+  return bearer || req.get('x-api-key');
+}
+
+/**
+ * Resolve the identity for an access token or API key
+ * Throws when it is invalid, expired or (access tokens) on the denylist
+ */
+export async function validateCredential(req: Request, token: string): Promise<TokenPayload> {
+  if (isApiKey(token)) {
+    return container.resolve(ApiKeyService).validateApiKey(token, req.ip);
+  }
+
+  const payload = await container.resolve(JwtService).validateAccessToken(token);
+  if (await container.resolve(AccessTokenDenylistService).isRevoked(payload)) {
+    throw new Error('Access token has been revoked');
+  }
+  return payload;
+}
+
+/**
+ * Attach the authenticated identity to the request and its context
+ */
+export function setRequestUser(req: Request, user: TokenPayload): void {
+  req.user = user;
+  requestContext.setUser(user);
+}
+
+/**
+ * Middleware to authenticate a JWT access token or an API key
  */
 export const authenticate = async (
   req: Request,
@@ -13,18 +54,14 @@ export const authenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+    const token = getRequestCredential(req);
 
     if (!token) {
       res.status(401).json({ error: 'No token provided' });
       return;
     }
 
-    const jwtService = container.resolve(JwtService);
-    const payload = await jwtService.validateAccessToken(token);
-
-    req.user = payload;
+    setRequestUser(req, await validateCredential(req, token));
     next();
   } catch {
     res.status(403).json({ error: 'Invalid or expired token' });
@@ -33,6 +70,7 @@ export const authenticate = async (
 
 /**
  * Middleware factory to check for required roles
+ * A role is satisfied by any role that inherits it; API keys never satisfy role checks
  */
 export const requireRole = (...roles: string[]) => {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -41,9 +79,28 @@ export const requireRole = (...roles: string[]) => {
       return;
     }
 
+    if (req.user.scopes) {
+      res.status(403).json({ error: 'Role-restricted endpoints do not accept API keys' });
+      return;
+    }
+
+    // Roles carried in the token claims (e.g. "ADMIN") satisfy the check case-insensitively
+    const tokenRoles = (req.user.roles || []).map((r) => r.toLowerCase());
+    if (roles.some((role) => tokenRoles.includes(role.toLowerCase()))) {
+      next();
+      return;
+    }
+
     const authService = container.resolve(AuthorizationService);
     const userId = req.user.userId;
 
+    // ...as do roles they inherit (an admin token satisfies requireRole('moderator'))
+    const inheritedRoles = await authService.getEffectiveRoles(tokenRoles);
+    if (roles.some((role) => inheritedRoles.includes(role.toLowerCase()))) {
+      next();
+      return;
+    }
+
     for (const role of roles) {
       const hasRole = await authService.hasRole(userId, role);
       if (hasRole) {
@@ -60,6 +117,8 @@ export const requireRole = (...roles: string[]) => {
 
 /**
  * Middleware factory to check for required permissions
+ * All permissions are required; granted wildcard patterns cover them (see matchesPermission)
+ * API key requests additionally need each permission to be covered by the key's scopes
  */
 export const requirePermission = (...permissions: string[]) => {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -70,9 +129,14 @@ export const requirePermission = (...permissions: string[]) => {
 
     const authService = container.resolve(AuthorizationService);
     const userId = req.user.userId;
+    const tokenPermissions = req.user.permissions || [];
 
     for (const permission of permissions) {
-      const hasPermission = await authService.hasPermission(userId, permission);
+      // Permission claims in the token (which may be patterns like "users:*") are checked first
+      const hasPermission =
+        (!req.user.scopes || hasMatchingPermission(req.user.scopes, permission)) &&
+        (hasMatchingPermission(tokenPermissions, permission) ||
+          (await authService.hasPermission(userId, permission)));
       if (!hasPermission) {
         res
           .status(403)
@@ -87,8 +151,17 @@ export const requirePermission = (...permissions: string[]) => {
 
 /**
  * Middleware factory to check resource access
+ * Falls back to ABAC policies when RBAC denies; the decision (with any obligations
+ * and advice) is exposed to route handlers as `req.authorization`
+ * A require-mfa obligation is enforced here: sessions without a verified second factor get 403
+ * API key requests are only evaluated when a key scope covers the action; a ":own" scope only
+ * covers resources whose `ownerId` attribute (from getResourceAttributes) is the key's owner
  */
-export const requireAccess = (resource: string, action: string) => {
+export const requireAccess = (
+  resource: string,
+  action: string,
+  getResourceAttributes?: (req: Request) => Record<string, unknown> | undefined
+) => {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({ error: 'Unauthorized' });
@@ -96,19 +169,129 @@ export const requireAccess = (resource: string, action: string) => {
     }
 
     const authService = container.resolve(AuthorizationService);
-    const userId = req.user.userId;
+    const { userId, email, roles, permissions, scopes, mfaVerified = false } = req.user;
+    const now = new Date();
+
+    const resourceAttributes = getResourceAttributes?.(req);
 
-    const canAccess = await authService.canAccess(userId, resource, action);
+    if (
+      scopes &&
+      !hasMatchingPermission(scopes, `${resource}:${action}`) &&
+      !(
+        hasMatchingPermission(scopes, `${resource}:${action}:own`) &&
+        resourceAttributes?.['ownerId'] === userId
+      )
+    ) {
+      res.status(403).json({ error: `Access denied for ${action} on ${resource}` });
+      return;
+    }
+
+    const decision = await authService.authorizeWithContext({
+      userId,
+      resource,
+      action,
+      userAttributes: { id: userId, email, roles, permissions },
+      resourceAttributes,
+      environmentAttributes: {
+        ipAddress: req.ip,
+        hour: now.getHours(),
+        dayOfWeek: now.getDay(),
+        mfaVerified,
+      },
+    });
 
-    if (!canAccess) {
+    if (!decision.allowed) {
       res.status(403).json({ error: `Access denied for ${action} on ${resource}` });
       return;
     }
 
+    if (!mfaVerified && hasObligation(decision.obligations, ObligationType.REQUIRE_MFA)) {
+      res.status(403).json({ error: 'Multi-factor authentication required', mfaRequired: true });
+      return;
+    }
+
+    req.authorization = decision;
     next();
   };
 };
 
+/**
+ * Reject requests authenticated with an API key
+ * For account and credential management, which needs an interactive session
+ */
+export const rejectApiKeys = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.user?.scopes) {
+    res.status(403).json({ error: 'This endpoint does not accept API keys' });
+    return;
+  }
+  next();
+};
+
+/**
+ * Reject writes made with an impersonation token
+ * Credential, session and API key changes stay with the user; this backs up the
+ * impersonation-credentials rule of IMPERSONATION_POLICY in the routers it covers.
+ */
+export const rejectImpersonatedWrites = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.user?.actorId && !['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+    res.status(403).json({ error: 'Not allowed while impersonating', impersonation: true });
+    return;
+  }
+  next();
+};
+
+/**
+ * Check and audit every request made with an impersonation token
+ * Applied app-wide after attachUserIfPresent; requests are decided by IMPERSONATION_POLICY
+ * and recorded under the acting admin. Other requests pass through unchanged.
+ */
+export const enforceImpersonationPolicy = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const user = req.user;
+  if (!user?.actorId) {
+    next();
+    return;
+  }
+
+  try {
+    const decision = await container
+      .resolve(ImpersonationService)
+      .authorizeRequest(user, { method: req.method, path: req.path });
+    const allowed = decision.effect === 'allow';
+
+    try {
+      await container.resolve(AuditLogService).log({
+        userId: user.actorId,
+        action: AuditAction.IMPERSONATED_REQUEST,
+        resource: 'user',
+        resourceId: user.subjectId,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        success: allowed,
+        metadata: {
+          method: req.method,
+          path: req.path,
+          readOnly: user.readOnly !== false,
+          matchedRules: decision.matchedRules,
+        },
+      });
+    } catch {
+      // Audit logging is optional - continue on error
+    }
+
+    if (!allowed) {
+      res.status(403).json({ error: 'Not allowed while impersonating', impersonation: true });
+      return;
+    }
+    next();
+  } catch {
+    res.status(403).json({ error: 'Not allowed while impersonating', impersonation: true });
+  }
+};
+
 /**
  * Optional authentication - sets user if token is valid but doesn't fail if not
  */
@@ -118,13 +301,10 @@ export const optionalAuth = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
+    const token = getRequestCredential(req);
 
     if (token) {
-      const jwtService = container.resolve(JwtService);
-      const payload = await jwtService.validateAccessToken(token);
-      req.user = payload;
+      setRequestUser(req, await validateCredential(req, token));
     }
   } catch {
     // Ignore errors - authentication is optional
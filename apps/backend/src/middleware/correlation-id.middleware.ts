@@ -17,6 +17,7 @@ function isValidCorrelationId(value: string): boolean {
  * - Accepts client-provided X-Correlation-ID when valid
  * - Otherwise generates one
  * - Echoes it back on the response and attaches it to req.correlationId
+ * - Opens the request context (see context/request-context.ts) with the client's IP and user agent
  */
 export function correlationIdMiddleware(req: Request, res: Response, next: NextFunction): void {
   const raw = req.get(HEADER) ?? req.get(HEADER.toLowerCase());
@@ -27,5 +28,7 @@ export function correlationIdMiddleware(req: Request, res: Response, next: NextF
   res.setHeader(HEADER, correlationId);
 
   // Ensure correlationId is available to all downstream async work.
-  requestContext.run({ correlationId }, () => next());
+  requestContext.run({ correlationId, ipAddress: req.ip, userAgent: req.get('user-agent') }, () =>
+    next()
+  );
 }
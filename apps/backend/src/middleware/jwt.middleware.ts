@@ -1,8 +1,6 @@
-import type { TokenPayload } from '@repo/types';
 import type { NextFunction, Request, Response } from 'express';
-import { container } from 'tsyringe';
 
-import { JwtService } from '../services/auth/jwt.service';
+import { setRequestUser, validateCredential } from './auth.middleware';
 
 function parseCookies(cookieHeader: string | undefined): Map<string, string> {
   const cookies = new Map<string, string>();
@@ -21,11 +19,11 @@ function parseCookies(cookieHeader: string | undefined): Map<string, string> {
 /**
  * Best-effort JWT decode middleware.
  * - If a valid access token exists (Authorization Bearer or cookie "access_token"), attaches it to req.user
+ * - API keys (Authorization Bearer or X-API-Key) attach their owner, limited to the key's scopes
+ * - Denylisted (revoked) access tokens are ignored
  * - Never throws; continues without user on failure
  */
 export function attachUserIfPresent(req: Request, _res: Response, next: NextFunction): void {
-  const jwt = container.resolve<JwtService>('JwtService');
-
   // Try Authorization header first
   const authHeader = req.get('authorization') || req.get('Authorization');
   const bearer = authHeader?.startsWith('Bearer ')
@@ -37,14 +35,14 @@ export function attachUserIfPresent(req: Request, _res: Response, next: NextFunc
   const cookies = parseCookies(typeof cookieHeader === 'string' ? cookieHeader : undefined);
   const cookieToken = cookies.get('access_token');
 
-  const token = bearer || cookieToken;
+  const token = bearer || req.get('x-api-key') || cookieToken;
   if (!token) return next();
 
   void (async () => {
     try {
-      const payload = await jwt.validateAccessToken(token);
+      const payload = await validateCredential(req, token);
       // Attach to request for downstream
-      (req as Request & { user?: TokenPayload }).user = payload;
+      setRequestUser(req, payload);
     } catch {
       // Ignore invalid tokens
     } finally {
@@ -0,0 +1,129 @@
+import 'reflect-metadata';
+
+import express, { type Request, type Response } from 'express';
+import request from 'supertest';
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AuditAction, AuditLogService } from '../services/audit/audit-log.service';
+import { ApiKeyService } from '../services/auth/api-key.service';
+import { AuthorizationService } from '../services/auth/authorization.service';
+
+import router from './api-keys.routes';
+
+const sessionUser: Request['user'] = {
+  userId: 'user-1',
+  email: 'user@example.com',
+  roles: ['USER'],
+  permissions: ['users:read', 'posts:*'],
+  iat: 0,
+  exp: 0,
+};
+
+function makeApp(user: Request['user'] | undefined) {
+  const app = express();
+  app.use(express.json());
+
+  // Minimal middleware to simulate auth
+  app.use((req: Request, _res: Response, next) => {
+    req.user = user;
+    next();
+  });
+
+  app.use('/api/api-keys', router);
+  return app;
+}
+
+describe('API key routes', () => {
+  let apiKeys: {
+    create: ReturnType<typeof vi.fn>;
+    list: ReturnType<typeof vi.fn>;
+    revoke: ReturnType<typeof vi.fn>;
+  };
+  let audit: AuditLogService;
+
+  beforeEach(() => {
+    apiKeys = {
+      create: vi.fn(async (_userId: string, input: { name: string; scopes: string[] }) => ({
+        key: 'pat_0123abcd_secret',
+        apiKey: { id: 'key-1', prefix: 'pat_0123abcd', ...input },
+      })),
+      list: vi.fn(async () => [{ id: 'key-1', name: 'CI' }]),
+      revoke: vi.fn(async (_userId: string, id: string) => id === 'key-1'),
+    };
+    audit = new AuditLogService();
+    container.register(ApiKeyService, { useValue: apiKeys as unknown as ApiKeyService });
+    container.register(AuditLogService, { useValue: audit });
+    container.register(AuthorizationService, {
+      useValue: { hasPermission: vi.fn(async () => false) } as unknown as AuthorizationService,
+    });
+  });
+
+  it('requires authentication', async () => {
+    await request(makeApp(undefined)).get('/api/api-keys').expect(401);
+    await request(makeApp(undefined))
+      .post('/api/api-keys')
+      .send({ name: 'CI', scopes: ['users:read'] })
+      .expect(401);
+  });
+
+  it('rejects requests made with an API key', async () => {
+    const app = makeApp({ ...sessionUser!, apiKeyId: 'key-1', scopes: ['*'] });
+
+    await request(app).get('/api/api-keys').expect(403);
+    await request(app).delete('/api/api-keys/key-1').expect(403);
+    expect(apiKeys.list).not.toHaveBeenCalled();
+    expect(apiKeys.revoke).not.toHaveBeenCalled();
+  });
+
+  it('creates a key with the default expiry and audits it', async () => {
+    const res = await request(makeApp(sessionUser))
+      .post('/api/api-keys')
+      .send({ name: 'CI', scopes: ['users:read', 'posts:write'] })
+      .expect(201);
+
+    expect(res.body.key).toBe('pat_0123abcd_secret');
+    expect(apiKeys.create).toHaveBeenCalledWith('user-1', {
+      name: 'CI',
+      scopes: ['users:read', 'posts:write'],
+      expiresInDays: 90,
+    });
+
+    const logs = await audit.getLogs({ action: AuditAction.API_KEY_CREATED });
+    expect(logs[0]).toMatchObject({ userId: 'user-1', resourceId: 'key-1' });
+    expect(JSON.stringify(logs)).not.toContain('secret');
+  });
+
+  it('rejects invalid payloads and scopes beyond the caller permissions', async () => {
+    const app = makeApp(sessionUser);
+
+    await request(app).post('/api/api-keys').send({ name: 'CI', scopes: [] }).expect(400);
+    await request(app)
+      .post('/api/api-keys')
+      .send({ name: 'CI', scopes: ['users:read'], expiresInDays: 1000 })
+      .expect(400);
+    await request(app)
+      .post('/api/api-keys')
+      .send({ name: 'CI', scopes: ['not a permission'] })
+      .expect(400);
+
+    const res = await request(app)
+      .post('/api/api-keys')
+      .send({ name: 'CI', scopes: ['users:read', 'users:delete'] })
+      .expect(400);
+    expect(res.body.scopes).toEqual(['users:delete']);
+    expect(apiKeys.create).not.toHaveBeenCalled();
+  });
+
+  it('lists and revokes the caller keys', async () => {
+    const app = makeApp(sessionUser);
+
+    const res = await request(app).get('/api/api-keys').expect(200);
+    expect(res.body.apiKeys).toEqual([{ id: 'key-1', name: 'CI' }]);
+    expect(apiKeys.list).toHaveBeenCalledWith('user-1');
+
+    await request(app).delete('/api/api-keys/key-1').expect(204);
+    await request(app).delete('/api/api-keys/key-2').expect(404);
+    expect(await audit.getLogs({ action: AuditAction.API_KEY_REVOKED })).toHaveLength(1);
+  });
+});
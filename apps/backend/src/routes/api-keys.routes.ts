@@ -0,0 +1,156 @@
+import { Router, type Request, type Response } from 'express';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+
+import { rejectApiKeys, rejectImpersonatedWrites } from '../middleware/auth.middleware';
+import { AuditAction, AuditLogService } from '../services/audit/audit-log.service';
+import { ApiKeyService } from '../services/auth/api-key.service';
+import { AuthorizationService } from '../services/auth/authorization.service';
+import { hasMatchingPermission } from '../services/auth/permissions';
+import { getFirstString } from '../utils/request-values';
+
+const router: import('express').Router = Router();
+
+const DEFAULT_EXPIRY_DAYS = 90;
+const MAX_EXPIRY_DAYS = 365;
+
+const PERMISSION_SEGMENT = /^(\*|[\w-]+)$/;
+
+// "resource:action[:scope]" permissions, optionally with wildcards (see matchesPermission)
+const scopeSchema = z
+  .string()
+  .max(128)
+  .refine((scope) => {
+    const segments = scope.split(':');
+    return segments.length <= 3 && segments.every((segment) => PERMISSION_SEGMENT.test(segment));
+  }, 'Scopes must be permissions of the form resource:action[:scope]');
+
+const createApiKeySchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    scopes: z.array(scopeSchema).min(1).max(50),
+    expiresInDays: z.number().int().min(1).max(MAX_EXPIRY_DAYS).default(DEFAULT_EXPIRY_DAYS),
+  })
+  .strict();
+
+async function auditApiKey(
+  req: Request,
+  action: AuditAction,
+  apiKeyId: string,
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  try {
+    await container.resolve(AuditLogService).log({
+      userId: req.user?.userId,
+      action,
+      resource: 'api_key',
+      resourceId: apiKeyId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      success: true,
+      metadata,
+    });
+  } catch {
+    // Audit logging is optional - continue on error
+  }
+}
+
+// Keys are managed from an interactive session; a key cannot mint or revoke keys, nor can an
+// impersonating admin
+router.use(rejectApiKeys);
+router.use(rejectImpersonatedWrites);
+
+/**
+ * POST /api/api-keys
+ * Body: { name, scopes, expiresInDays? }
+ * Requires authentication; every scope must be covered by the caller's own permissions.
+ * The key is returned once and cannot be retrieved again.
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = createApiKeySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid API key payload', details: parsed.error.issues });
+      return;
+    }
+
+    const authService = container.resolve(AuthorizationService);
+    const notHeld: string[] = [];
+    for (const scope of parsed.data.scopes) {
+      const held =
+        hasMatchingPermission(user.permissions || [], scope) ||
+        (await authService.hasPermission(user.userId, scope));
+      if (!held) notHeld.push(scope);
+    }
+    if (notHeld.length > 0) {
+      res.status(400).json({ error: 'Scopes exceed your permissions', scopes: notHeld });
+      return;
+    }
+
+    const created = await container.resolve(ApiKeyService).create(user.userId, parsed.data);
+    await auditApiKey(req, AuditAction.API_KEY_CREATED, created.apiKey.id, {
+      name: created.apiKey.name,
+      prefix: created.apiKey.prefix,
+      scopes: created.apiKey.scopes,
+    });
+
+    res.status(201).json(created);
+  } catch (err) {
+    console.error('Create API key error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/api-keys
+ * Requires authentication; lists the caller's active and expired (not revoked) keys
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const apiKeys = await container.resolve(ApiKeyService).list(userId);
+    res.status(200).json({ apiKeys });
+  } catch (err) {
+    console.error('List API keys error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/api-keys/:id
+ * Requires authentication; revokes one of the caller's keys
+ */
+router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const id = getFirstString(req.params['id']);
+    if (!(await container.resolve(ApiKeyService).revoke(userId, id))) {
+      res.status(404).json({ error: 'API key not found' });
+      return;
+    }
+
+    await auditApiKey(req, AuditAction.API_KEY_REVOKED, id);
+    res.status(204).send();
+  } catch (err) {
+    console.error('Revoke API key error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,220 @@
+import 'reflect-metadata';
+
+import { QueueName } from '@repo/types';
+import express, { type Request, type Response } from 'express';
+import request from 'supertest';
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { InMemoryAuditLogStore } from '../services/audit/audit-log-store.service';
+import { AuditAction } from '../services/audit/audit-log.service';
+import { InMemoryPolicyStore } from '../services/auth/policy-store.service';
+import { InMemoryRbacStore } from '../services/auth/rbac-store.service';
+import { QueueService } from '../services/queue/queue.service';
+import { StorageService } from '../services/storage/storage.service';
+
+import router from './audit-logs.routes';
+
+const adminUser: Request['user'] = {
+  userId: 'admin',
+  email: 'admin@example.com',
+  roles: ['ADMIN'],
+  permissions: [],
+  iat: 0,
+  exp: 0,
+};
+
+function makeAppWithUser(user: Request['user'] | undefined) {
+  const app = express();
+  app.use(express.json());
+
+  // Minimal middleware to simulate auth
+  app.use((req: Request, _res: Response, next) => {
+    req.user = user;
+    next();
+  });
+
+  app.use('/api/admin/audit-logs', router);
+  return app;
+}
+
+describe('unit: /api/admin/audit-logs', () => {
+  let store: InMemoryAuditLogStore;
+  let app: express.Express;
+  const queue = { addJob: vi.fn(), getJob: vi.fn() };
+  const storage = { getSignedUrl: vi.fn() };
+
+  beforeEach(async () => {
+    store = new InMemoryAuditLogStore();
+    container.register('PolicyStore', { useValue: new InMemoryPolicyStore() });
+    container.register('RbacStore', { useValue: new InMemoryRbacStore() });
+    container.register('AuditLogStore', { useValue: store });
+    container.register(QueueService, { useValue: queue as unknown as QueueService });
+    container.register(StorageService, { useValue: storage as unknown as StorageService });
+    queue.addJob.mockReset();
+    queue.getJob.mockReset();
+    storage.getSignedUrl.mockReset();
+    app = makeAppWithUser(adminUser);
+
+    const start = new Date('2026-01-01T00:00:00Z').getTime();
+    for (let i = 0; i < 5; i++) {
+      await store.append({
+        timestamp: new Date(start + i * 3600_000),
+        userId: i % 2 === 0 ? 'user-1' : 'user-2',
+        action: i === 2 ? AuditAction.LOGIN_FAILED : AuditAction.LOGIN,
+        resource: 'authentication',
+        success: i !== 2,
+      });
+    }
+  });
+
+  it('requires the admin role', async () => {
+    const res = await request(makeAppWithUser({ ...adminUser!, roles: ['USER'] })).get(
+      '/api/admin/audit-logs'
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  it('lists entries newest first with pagination metadata', async () => {
+    const res = await request(app).get('/api/admin/audit-logs?pageSize=2');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((log: { sequence: number }) => log.sequence)).toEqual([5, 4]);
+    expect(res.body._meta).toMatchObject({ total: 5, page: 1, pageSize: 2, totalPages: 3 });
+    expect(res.body._links.next.href).toContain('page=2');
+    expect(res.body._meta.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('filters and sorts by the allowed fields', async () => {
+    const res = await request(app).get(
+      '/api/admin/audit-logs?filter[userId][eq]=user-1&filter[timestamp][gte]=2026-01-01T01:00:00Z&sort=timestamp:asc'
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((log: { sequence: number }) => log.sequence)).toEqual([3, 5]);
+    expect(res.body._meta.total).toBe(2);
+
+    const failures = await request(app).get('/api/admin/audit-logs?filter[success][eq]=false');
+    expect(failures.body.data).toEqual([
+      expect.objectContaining({ action: AuditAction.LOGIN_FAILED, success: false }),
+    ]);
+  });
+
+  it('rejects unknown fields, operators and sorts', async () => {
+    for (const query of [
+      'filter[metadata][eq]=x',
+      'filter[timestamp][eq]=2026-01-01',
+      'filter[timestamp][gte]=yesterday',
+      'sort=metadata:asc',
+    ]) {
+      const res = await request(app).get(`/api/admin/audit-logs?${query}`);
+      expect(res.status, query).toBe(400);
+    }
+  });
+
+  it('pages through large ranges with a cursor, keeping the filters', async () => {
+    const first = await request(app).get(
+      '/api/admin/audit-logs?pageSize=2&sort=sequence:asc&filter[action][in]=auth.login'
+    );
+    expect(first.body.data.map((log: { sequence: number }) => log.sequence)).toEqual([1, 2]);
+
+    const second = await request(app).get(
+      `/api/admin/audit-logs?pageSize=2&sort=sequence:asc&filter[action][in]=auth.login&cursor=${first.body._meta.nextCursor}`
+    );
+    expect(second.status).toBe(200);
+    expect(second.body.data.map((log: { sequence: number }) => log.sequence)).toEqual([4, 5]);
+    expect(second.body._meta.total).toBeUndefined();
+    expect(second.body._links.next).toBeUndefined();
+
+    const descending = await request(app).get(
+      `/api/admin/audit-logs?pageSize=2&cursor=${first.body._meta.nextCursor}`
+    );
+    expect(descending.body.data.map((log: { sequence: number }) => log.sequence)).toEqual([1]);
+
+    expect((await request(app).get('/api/admin/audit-logs?cursor=not-a-cursor')).status).toBe(400);
+    expect(
+      (
+        await request(app).get(
+          `/api/admin/audit-logs?sort=timestamp:asc&cursor=${first.body._meta.nextCursor}`
+        )
+      ).status
+    ).toBe(400);
+  });
+
+  it('queues exports on the data export queue and audits the request', async () => {
+    queue.addJob.mockResolvedValue({ id: '42' });
+    const filter = { action: { startsWith: 'auth.' }, success: { eq: false } };
+
+    const res = await request(app)
+      .post('/api/admin/audit-logs/exports')
+      .send({ format: 'ndjson', filter });
+
+    expect(res.status).toBe(202);
+    expect(res.body.data).toEqual({ id: '42', status: 'waiting', format: 'ndjson' });
+    expect(res.body._links.self.href).toContain('/api/admin/audit-logs/exports/42');
+    expect(queue.addJob).toHaveBeenCalledWith(QueueName.DATA_EXPORT, {
+      resourceType: 'audit-logs',
+      requestedBy: 'admin',
+      format: 'ndjson',
+      filter,
+    });
+    expect(await store.find({ action: AuditAction.AUDIT_LOG_EXPORTED })).toEqual([
+      expect.objectContaining({ userId: 'admin', resourceId: '42' }),
+    ]);
+  });
+
+  it('rejects exports with invalid formats or filters', async () => {
+    for (const body of [
+      { format: 'xml' },
+      { format: 'csv', filter: { password: { eq: 'x' } } },
+      { format: 'csv', filter: { sequence: { gt: -1 } } },
+    ]) {
+      const res = await request(app).post('/api/admin/audit-logs/exports').send(body);
+      expect(res.status).toBe(400);
+    }
+    expect(queue.addJob).not.toHaveBeenCalled();
+  });
+
+  it('reports export status with a signed download URL once completed', async () => {
+    queue.getJob.mockResolvedValue({
+      id: '42',
+      data: { resourceType: 'audit-logs', requestedBy: 'admin', format: 'csv' },
+      returnvalue: {
+        success: true,
+        data: { path: 'exports/audit-logs/audit-logs-42.csv', format: 'csv', records: 5 },
+      },
+      processedOn: 1,
+      finishedOn: 2,
+    });
+    storage.getSignedUrl.mockResolvedValue('https://storage.example.com/signed');
+
+    const res = await request(app).get('/api/admin/audit-logs/exports/42');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({
+      id: '42',
+      status: 'completed',
+      format: 'csv',
+      records: 5,
+      downloadUrl: 'https://storage.example.com/signed',
+      expiresIn: 900,
+    });
+    expect(storage.getSignedUrl).toHaveBeenCalledWith('exports/audit-logs/audit-logs-42.csv', {
+      expiresIn: 900,
+    });
+  });
+
+  it('only exposes audit log export jobs', async () => {
+    queue.getJob.mockResolvedValue({
+      id: '7',
+      data: { userId: 'user-1', exportType: 'csv' },
+      returnvalue: null,
+    });
+
+    expect((await request(app).get('/api/admin/audit-logs/exports/7')).status).toBe(404);
+
+    queue.getJob.mockResolvedValue(undefined);
+    expect((await request(app).get('/api/admin/audit-logs/exports/8')).status).toBe(404);
+  });
+});
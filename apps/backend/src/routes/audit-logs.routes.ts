@@ -0,0 +1,339 @@
+import { type AuditLogExportJobData, QueueName } from '@repo/types';
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+
+import { requireRole } from '../middleware/auth.middleware';
+import {
+  auditLogFilterParams,
+  decodeAuditLogCursor,
+  encodeAuditLogCursor,
+  parseAuditLogFilters,
+  parseAuditLogSorting,
+} from '../services/audit/audit-log-query';
+import { AuditAction, AuditLogService } from '../services/audit/audit-log.service';
+import { QueueService } from '../services/queue/queue.service';
+import { StorageService } from '../services/storage/storage.service';
+import { createCollectionLinks, getBaseUrl, hateoas } from '../utils/hateoas';
+import { paginationSchema, parseFilters, parseSorting } from '../utils/query-helpers';
+import { getFirstString, getOptionalString } from '../utils/request-values';
+
+const router: import('express').Router = Router();
+
+const BASE_PATH = '/api/admin/audit-logs';
+
+// Lifetime of export download links
+const DOWNLOAD_URL_TTL = 15 * 60;
+
+const exportRequestSchema = z
+  .object({
+    format: z.enum(['csv', 'ndjson']),
+    filter: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+  })
+  .strict();
+
+type ExportStatus = 'waiting' | 'active' | 'completed' | 'failed';
+
+interface ExportResult {
+  success: boolean;
+  data?: { path: string; format: string; records: number };
+  error?: string;
+}
+
+async function auditExportRequest(
+  req: Request,
+  jobId: string | undefined,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  try {
+    await container.resolve(AuditLogService).log({
+      userId: req.user?.userId,
+      action: AuditAction.AUDIT_LOG_EXPORTED,
+      resource: 'audit_log',
+      resourceId: jobId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      success: true,
+      metadata,
+    });
+  } catch {
+    // Audit logging is optional - continue on error
+  }
+}
+
+// Audit logs are for admins (compliance) only
+router.use(requireRole('admin'));
+
+/**
+ * @swagger
+ * /api/admin/audit-logs:
+ *   get:
+ *     summary: Query the audit log
+ *     description: >
+ *       Filter with `filter[field][operator]=value` on sequence, timestamp, userId, action,
+ *       resource, resourceId, success and ipAddress (`in` takes a comma-separated list) and sort
+ *       with `sort=field:order` (default `sequence:desc`). Pages by `page`/`pageSize` with a
+ *       total count; for large ranges pass the `nextCursor` from a response as `cursor` instead,
+ *       which skips counting and requires sorting by sequence only.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/PageSizeParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Cursor from `_meta.nextCursor` of a previous response
+ *       - in: query
+ *         name: filter[timestamp][gte]
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only entries recorded at or after this time
+ *     responses:
+ *       200:
+ *         description: A page of audit log entries
+ *       400:
+ *         description: Invalid filter, sort or cursor
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const pagination = paginationSchema.safeParse(req.query);
+    if (!pagination.success) {
+      res
+        .status(400)
+        .json({ error: 'Invalid pagination parameters', details: pagination.error.issues });
+      return;
+    }
+    const { page, pageSize, sort } = pagination.data;
+
+    const conditions = parseAuditLogFilters(auditLogFilterParams(req.query));
+    if (!conditions.success) {
+      res.status(400).json({ error: 'Invalid audit log query', details: conditions.error });
+      return;
+    }
+    const sorting = parseAuditLogSorting(parseSorting(sort));
+    if (!sorting.success) {
+      res.status(400).json({ error: 'Invalid audit log query', details: sorting.error });
+      return;
+    }
+
+    const query = {
+      conditions: conditions.data,
+      orderBy:
+        sorting.data.length > 0
+          ? sorting.data
+          : [{ field: 'sequence' as const, order: 'desc' as const }],
+      limit: pageSize,
+    };
+    const bySequence = query.orderBy.every((item) => item.field === 'sequence');
+    const audit = container.resolve(AuditLogService);
+    const cursor = getOptionalString(req.query['cursor']);
+
+    if (cursor !== undefined) {
+      const afterSequence = decodeAuditLogCursor(cursor);
+      if (afterSequence === undefined || !bySequence) {
+        res.status(400).json({
+          error: 'Invalid audit log query',
+          details: afterSequence === undefined ? 'Invalid cursor' : 'Cursors require sort=sequence',
+        });
+        return;
+      }
+
+      const result = await audit.queryLogs({ ...query, afterSequence });
+      const nextCursor = result.hasMore
+        ? encodeAuditLogCursor(result.records[result.records.length - 1]!.sequence)
+        : undefined;
+
+      const selfUrl = new URL(req.originalUrl, getBaseUrl(req));
+      const links = hateoas().self(selfUrl.toString());
+      if (nextCursor) {
+        // Keep the filters and sort, move the cursor
+        const nextUrl = new URL(selfUrl);
+        nextUrl.searchParams.set('cursor', nextCursor);
+        links.addLink('next', nextUrl.toString(), 'GET');
+      }
+
+      res.setHeader('cache-control', 'no-store');
+      res.json(
+        links.addMeta('pageSize', pageSize).addMeta('nextCursor', nextCursor).build(result.records)
+      );
+      return;
+    }
+
+    const result = await audit.queryLogs({
+      ...query,
+      offset: (page - 1) * pageSize,
+      withTotal: true,
+    });
+    const total = result.total ?? 0;
+
+    const links = createCollectionLinks(req, BASE_PATH, page, pageSize, total);
+    if (bySequence && result.hasMore) {
+      // Continue from here with cursor paging
+      links.addMeta(
+        'nextCursor',
+        encodeAuditLogCursor(result.records[result.records.length - 1]!.sequence)
+      );
+    }
+
+    res.setHeader('cache-control', 'no-store');
+    res.json(links.buildPaginated(result.records, total, page, pageSize));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/audit-logs/exports:
+ *   post:
+ *     summary: Export the audit log
+ *     description: >
+ *       Queues an export of the entries matching `filter` (same fields and operators as the
+ *       query endpoint) as CSV or NDJSON, oldest first. Poll the returned status link for the
+ *       download URL.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [format]
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [csv, ndjson]
+ *               filter:
+ *                 type: object
+ *                 example: { action: { startsWith: 'auth.' }, timestamp: { gte: '2026-01-01' } }
+ *     responses:
+ *       202:
+ *         description: Export queued
+ *       400:
+ *         description: Invalid export request
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post('/exports', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = exportRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid export request', details: parsed.error.issues });
+      return;
+    }
+    const { format, filter } = parsed.data;
+
+    const conditions = parseAuditLogFilters(parseFilters({ filter }));
+    if (!conditions.success) {
+      res.status(400).json({ error: 'Invalid export request', details: conditions.error });
+      return;
+    }
+
+    const job = await container
+      .resolve(QueueService)
+      .addJob<AuditLogExportJobData>(QueueName.DATA_EXPORT, {
+        resourceType: 'audit-logs',
+        requestedBy: req.user!.userId,
+        format,
+        filter,
+      });
+
+    await auditExportRequest(req, job.id, { format, filter });
+
+    res.status(202).json(
+      hateoas()
+        .self(`${getBaseUrl(req)}${BASE_PATH}/exports/${job.id}`)
+        .build({ id: job.id, status: 'waiting', format })
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/audit-logs/exports/{id}:
+ *   get:
+ *     summary: Get an audit log export
+ *     description: >
+ *       Status of an export; once completed, includes a signed download URL valid for
+ *       15 minutes (fetch the status again for a fresh one).
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Export status
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/exports/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = getFirstString(req.params['id']);
+    const job = await container
+      .resolve(QueueService)
+      .getJob<AuditLogExportJobData>(QueueName.DATA_EXPORT, id);
+
+    // The data export queue also carries other kinds of exports
+    if (!job || job.data.resourceType !== 'audit-logs') {
+      res.status(404).json({ error: 'Not Found', message: `Export not found: ${id}` });
+      return;
+    }
+
+    const result = job.returnvalue as ExportResult | null | undefined;
+    const status: ExportStatus = result
+      ? result.success
+        ? 'completed'
+        : 'failed'
+      : job.finishedOn
+        ? 'failed'
+        : job.processedOn
+          ? 'active'
+          : 'waiting';
+
+    const body: Record<string, unknown> = { id, status, format: job.data.format };
+    if (status === 'completed' && result?.data) {
+      body['records'] = result.data.records;
+      body['downloadUrl'] = await container
+        .resolve(StorageService)
+        .getSignedUrl(result.data.path, { expiresIn: DOWNLOAD_URL_TTL });
+      body['expiresIn'] = DOWNLOAD_URL_TTL;
+    } else if (status === 'failed') {
+      body['error'] = result?.error ?? 'Export failed';
+    }
+
+    res.setHeader('cache-control', 'no-store');
+    res.json(
+      hateoas()
+        .self(`${getBaseUrl(req)}${BASE_PATH}/exports/${id}`)
+        .build(body)
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
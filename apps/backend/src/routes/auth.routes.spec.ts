@@ -0,0 +1,1184 @@
+import 'reflect-metadata';
+
+import type { EmailOptions } from '@repo/types';
+import express, { type Request, type Response } from 'express';
+import request from 'supertest';
+import { container } from 'tsyringe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { attachUserIfPresent } from '../middleware/jwt.middleware';
+import { AuditAction, AuditLogService } from '../services/audit/audit-log.service';
+import { AccessTokenDenylistService } from '../services/auth/access-token-denylist.service';
+import { AuthorizationService } from '../services/auth/authorization.service';
+import { EncryptionService } from '../services/auth/encryption.service';
+import { JwtService } from '../services/auth/jwt.service';
+import { LoginThrottleService } from '../services/auth/login-throttle.service';
+import { MfaService } from '../services/auth/mfa.service';
+import { OidcProvider } from '../services/auth/oidc.provider';
+import { InMemoryRbacStore } from '../services/auth/rbac-store.service';
+import { RefreshTokenService } from '../services/auth/refresh-token.service';
+import { generateTotp } from '../services/auth/totp';
+import { VerificationTokenService } from '../services/auth/verification-token.service';
+import { CacheService } from '../services/cache.service';
+import { DatabaseService } from '../services/database.service';
+import type { LoggerService } from '../services/logger.service';
+import { NotificationService } from '../services/notification/notification.service';
+
+import router from './auth.routes';
+
+interface FakeUser {
+  id: string;
+  email: string;
+  name: string | null;
+  passwordHash: string | null;
+  role: string;
+  emailVerified: Date | null;
+  tokenVersion: number;
+  mfaEnabled: boolean;
+  mfaSecret: string | null;
+  mfaLastUsedStep: number | null;
+}
+
+interface FakeRecoveryCode {
+  userId: string;
+  codeHash: string;
+  usedAt: Date | null;
+}
+
+/**
+ * Match a record against equality, `{ lt }` and `OR` where clauses
+ */
+function matchesWhere(record: object, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([key, expected]) => {
+    if (key === 'OR') {
+      return (expected as Record<string, unknown>[]).some((clause) => matchesWhere(record, clause));
+    }
+    // eslint-disable-next-line security/detect-object-injection -- Keys come from the test's own where clauses
+    const actual = (record as Record<string, unknown>)[key] ?? null;
+    if (expected && typeof expected === 'object' && 'lt' in expected) {
+      return actual !== null && (actual as number) < (expected as { lt: number }).lt;
+    }
+    return actual === expected;
+  });
+}
+
+interface FakeToken {
+  identifier: string;
+  token: string;
+  expires: Date;
+}
+
+/**
+ * Minimal in-memory stand-in for the Prisma delegates used by registration
+ */
+function createFakeDb() {
+  const users: FakeUser[] = [];
+  let tokens: FakeToken[] = [];
+  const refreshTokens: Record<string, unknown>[] = [];
+  let sessions: Record<string, unknown>[] = [];
+  let recoveryCodes: FakeRecoveryCode[] = [];
+
+  const db = {
+    users,
+    refreshTokens,
+    sessions: () => sessions,
+    recoveryCodes: () => recoveryCodes,
+    tokens: () => tokens,
+    user: {
+      findUnique: vi.fn(async ({ where }: { where: Partial<FakeUser> }) =>
+        where.email
+          ? (users.find((u) => u.email === where.email) ?? null)
+          : (users.find((u) => u.id === where.id) ?? null)
+      ),
+      create: vi.fn(
+        async ({ data, select }: { data: Partial<FakeUser>; select?: Record<string, boolean> }) => {
+          const user: FakeUser = {
+            id: `user-${users.length + 1}`,
+            email: data.email!,
+            name: data.name ?? null,
+            passwordHash: data.passwordHash ?? null,
+            role: 'USER',
+            emailVerified: null,
+            tokenVersion: 0,
+            mfaEnabled: false,
+            mfaSecret: null,
+            mfaLastUsedStep: null,
+          };
+          users.push(user);
+          return select
+            ? Object.fromEntries(
+                Object.keys(select).map((key) => [key, user[key as keyof FakeUser]])
+              )
+            : user;
+        }
+      ),
+      update: vi.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: { id: string };
+          data: Omit<Partial<FakeUser>, 'tokenVersion'> & { tokenVersion?: { increment: number } };
+        }) => {
+          const user = users.find((u) => u.id === where.id)!;
+          const { tokenVersion, ...fields } = data;
+          Object.assign(user, fields);
+          user.tokenVersion += tokenVersion?.increment ?? 0;
+          return user;
+        }
+      ),
+      updateMany: vi.fn(
+        async ({ where, data }: { where: Record<string, unknown>; data: Partial<FakeUser> }) => {
+          const matches = users.filter((u) => matchesWhere(u, where));
+          matches.forEach((u) => Object.assign(u, data));
+          return { count: matches.length };
+        }
+      ),
+    },
+    mfaRecoveryCode: {
+      createMany: vi.fn(async ({ data }: { data: Omit<FakeRecoveryCode, 'usedAt'>[] }) => {
+        recoveryCodes.push(...data.map((code) => ({ ...code, usedAt: null })));
+        return { count: data.length };
+      }),
+      deleteMany: vi.fn(async ({ where }: { where: { userId: string } }) => {
+        const before = recoveryCodes.length;
+        recoveryCodes = recoveryCodes.filter((c) => c.userId !== where.userId);
+        return { count: before - recoveryCodes.length };
+      }),
+      updateMany: vi.fn(
+        async ({ where, data }: { where: Record<string, unknown>; data: { usedAt: Date } }) => {
+          const matches = recoveryCodes.filter((c) => matchesWhere(c, where));
+          matches.forEach((c) => Object.assign(c, data));
+          return { count: matches.length };
+        }
+      ),
+      count: vi.fn(
+        async ({ where }: { where: Record<string, unknown> }) =>
+          recoveryCodes.filter((c) => matchesWhere(c, where)).length
+      ),
+    },
+    verificationToken: {
+      findUnique: vi.fn(
+        async ({ where }: { where: { token: string } }) =>
+          tokens.find((t) => t.token === where.token) ?? null
+      ),
+      create: vi.fn(async ({ data }: { data: FakeToken }) => {
+        tokens.push(data);
+        return data;
+      }),
+      deleteMany: vi.fn(async ({ where }: { where: Partial<FakeToken> }) => {
+        const before = tokens.length;
+        tokens = tokens.filter((t) => t.identifier !== where.identifier && t.token !== where.token);
+        return { count: before - tokens.length };
+      }),
+    },
+    refreshToken: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        refreshTokens.push({ revokedAt: null, replacedById: null, ...data });
+        return data;
+      }),
+      findUnique: vi.fn(
+        async ({ where }: { where: { id: string } }) =>
+          refreshTokens.find((t) => t['id'] === where.id) ?? null
+      ),
+      updateMany: vi.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: Record<string, unknown>;
+          data: Record<string, unknown>;
+        }) => {
+          const matched = refreshTokens.filter((t) =>
+            // eslint-disable-next-line security/detect-object-injection -- Keys come from the test's own where clauses
+            Object.entries(where).every(([key, value]) => (t[key] ?? null) === value)
+          );
+          matched.forEach((t) => Object.assign(t, data));
+          return { count: matched.length };
+        }
+      ),
+    },
+    session: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        sessions.push({ createdAt: new Date(), lastSeenAt: new Date(), ...data });
+        return data;
+      }),
+      findFirst: vi.fn(
+        async ({ where }: { where: { id: string; userId: string } }) =>
+          sessions.find((s) => s['id'] === where.id && s['userId'] === where.userId) ?? null
+      ),
+      findMany: vi.fn(async ({ where }: { where: { userId: string } }) =>
+        sessions.filter((s) => s['userId'] === where.userId)
+      ),
+      updateMany: vi.fn(async () => ({ count: 1 })),
+      deleteMany: vi.fn(async ({ where }: { where: { id?: string; userId?: string } }) => {
+        const before = sessions.length;
+        sessions = sessions.filter((s) =>
+          where.id ? s['id'] !== where.id : s['userId'] !== where.userId
+        );
+        return { count: before - sessions.length };
+      }),
+    },
+    $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+  };
+
+  return db;
+}
+
+function makeApp(user?: Request['user']) {
+  const app = express();
+  app.use(express.json());
+
+  // Minimal middleware to simulate auth
+  app.use((req: Request, _res: Response, next) => {
+    req.user = user;
+    next();
+  });
+
+  app.use('/api/auth', router);
+  return app;
+}
+
+function cookieValue(res: request.Response, name: string): string | undefined {
+  const cookies = ([] as string[]).concat(res.headers['set-cookie'] ?? []);
+  const cookie = cookies.find((c) => c.startsWith(`${name}=`));
+  return cookie?.split(';')[0]?.slice(name.length + 1);
+}
+
+function tokenFrom(email: EmailOptions): string {
+  const match = /token=([^\s"&]+)/.exec(email.text ?? '');
+  return decodeURIComponent(match?.[1] ?? '');
+}
+
+let db: ReturnType<typeof createFakeDb>;
+let sent: EmailOptions[];
+let audit: AuditLogService;
+
+beforeEach(() => {
+  db = createFakeDb();
+  sent = [];
+  audit = new AuditLogService();
+
+  container.register(DatabaseService, { useValue: db as unknown as DatabaseService });
+  container.register(VerificationTokenService, {
+    useValue: new VerificationTokenService(db as unknown as DatabaseService),
+  });
+  const encryption = new EncryptionService();
+  container.register('EncryptionService', { useValue: encryption });
+  container.register(MfaService, {
+    useValue: new MfaService(db as unknown as DatabaseService, encryption),
+  });
+  container.register(NotificationService, {
+    useValue: {
+      queueEmail: vi.fn(async (options: EmailOptions) => {
+        sent.push(options);
+        return 'job-1';
+      }),
+      sendEmail: vi.fn(),
+    } as unknown as NotificationService,
+  });
+  const jwt = new JwtService();
+  container.register('JwtService', { useValue: jwt });
+  container.register(RefreshTokenService, {
+    useValue: new RefreshTokenService(db as unknown as DatabaseService, jwt),
+  });
+  container.register(AuditLogService, { useValue: audit });
+  process.env['REDIS_MOCK'] = 'true';
+  const cacheLogger = { info: vi.fn(), error: vi.fn() } as unknown as LoggerService;
+  container.register(LoginThrottleService, {
+    useValue: new LoginThrottleService(new CacheService(cacheLogger)),
+  });
+  container.register(AccessTokenDenylistService, {
+    useValue: new AccessTokenDenylistService(new CacheService(cacheLogger), jwt),
+  });
+  container.register(AuthorizationService, {
+    useValue: new AuthorizationService(undefined, undefined, undefined, new InMemoryRbacStore()),
+  });
+});
+
+describe('unit: /api/auth registration', () => {
+  it('rejects weak passwords with the failed requirements', async () => {
+    const res = await request(makeApp())
+      .post('/api/auth/register')
+      .send({ email: 'new@example.com', password: 'weakpass' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toContain('Password must contain an uppercase letter');
+    expect(db.user.create).not.toHaveBeenCalled();
+  });
+
+  it('registers an unverified user and sends a verification link', async () => {
+    const res = await request(makeApp())
+      .post('/api/auth/register')
+      .send({ email: ' New@Example.com ', password: 'StrongP@ss1', name: 'New User' });
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({
+      user: { email: 'new@example.com', name: 'New User', role: 'USER' },
+      verificationRequired: true,
+    });
+    expect(res.body.user.passwordHash).toBeUndefined();
+
+    const [user] = db.users;
+    expect(user?.passwordHash).toMatch(/^\$2[aby]\$/);
+    expect(user?.passwordHash).not.toContain('StrongP@ss1');
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]?.to).toBe('new@example.com');
+    // Only a hash of the emailed token is stored
+    const token = tokenFrom(sent[0]!);
+    expect(token).not.toBe('');
+    expect(db.tokens()[0]?.token).not.toBe(token);
+  });
+
+  it('rejects duplicate emails', async () => {
+    const app = makeApp();
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'dup@example.com', password: 'StrongP@ss1' });
+
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'dup@example.com', password: 'StrongP@ss1' });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('signs in with the email as it was registered, whatever its case', async () => {
+    const app = makeApp();
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'Alice@Example.com', password: 'StrongP@ss1' });
+    expect(db.users[0]?.email).toBe('alice@example.com');
+
+    for (const email of ['Alice@Example.com', ' ALICE@example.com ']) {
+      const res = await request(app)
+        .post('/api/auth/login')
+        .send({ email, password: 'StrongP@ss1' });
+      expect(res.status).toBe(200);
+    }
+  });
+
+  it('verifies the email once with the emailed token', async () => {
+    const app = makeApp();
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'verify@example.com', password: 'StrongP@ss1' });
+    const token = tokenFrom(sent[0]!);
+
+    const res = await request(app).get('/api/auth/verify-email').query({ token });
+    expect(res.status).toBe(200);
+    expect(db.users[0]?.emailVerified).toBeInstanceOf(Date);
+
+    const reused = await request(app).get('/api/auth/verify-email').query({ token });
+    expect(reused.status).toBe(400);
+  });
+
+  it('rejects expired verification tokens', async () => {
+    const app = makeApp();
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'late@example.com', password: 'StrongP@ss1' });
+    db.tokens()[0]!.expires = new Date(Date.now() - 1000);
+
+    const res = await request(app)
+      .get('/api/auth/verify-email')
+      .query({ token: tokenFrom(sent[0]!) });
+
+    expect(res.status).toBe(400);
+    expect(db.users[0]?.emailVerified).toBeNull();
+  });
+
+  it('resends verification only for unverified accounts without revealing which exist', async () => {
+    const app = makeApp();
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'again@example.com', password: 'StrongP@ss1' });
+
+    const unknown = await request(app)
+      .post('/api/auth/verify-email/resend')
+      .send({ email: 'nobody@example.com' });
+    const known = await request(app)
+      .post('/api/auth/verify-email/resend')
+      .send({ email: 'again@example.com' });
+
+    expect(unknown.status).toBe(202);
+    expect(known.status).toBe(202);
+    expect(sent).toHaveLength(2);
+    // The resent link replaces the original one
+    expect(db.tokens()).toHaveLength(1);
+  });
+});
+
+describe('unit: /api/auth password reset and change', () => {
+  async function registerUser(app: express.Express, email = 'reset@example.com') {
+    await request(app).post('/api/auth/register').send({ email, password: 'StrongP@ss1' });
+    sent = [];
+    return db.users.find((u) => u.email === email)!;
+  }
+
+  it('accepts unknown emails without sending anything', async () => {
+    const res = await request(makeApp())
+      .post('/api/auth/forgot-password')
+      .send({ email: 'nobody@example.com' });
+
+    expect(res.status).toBe(202);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('resets the password with a single-use token and revokes refresh tokens', async () => {
+    const app = makeApp();
+    const user = await registerUser(app);
+    const oldRefresh = new JwtService().generateRefreshToken(user.id, user.tokenVersion);
+
+    const forgot = await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: 'reset@example.com' });
+    expect(forgot.status).toBe(202);
+    expect(sent).toHaveLength(1);
+    const token = tokenFrom(sent[0]!);
+    expect(db.tokens().map((t) => t.identifier)).toContain(`password-reset:${user.id}`);
+
+    const weak = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token, password: 'weak' });
+    expect(weak.status).toBe(400);
+
+    const reset = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token, password: 'N3w!Password' });
+    expect(reset.status).toBe(200);
+    expect(await new EncryptionService().compareHash('N3w!Password', user.passwordHash!)).toBe(
+      true
+    );
+    expect(user.tokenVersion).toBe(1);
+
+    const reused = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token, password: 'An0ther!Password' });
+    expect(reused.status).toBe(400);
+
+    const refresh = await request(app)
+      .post('/api/auth/refresh')
+      .set('Cookie', `refresh_token=${oldRefresh}`);
+    expect(refresh.status).toBe(401);
+
+    const actions = (await audit.getLogs({ userId: user.id })).map((l) => l.action);
+    expect(actions).toContain(AuditAction.PASSWORD_RESET_REQUESTED);
+    expect(actions).toContain(AuditAction.PASSWORD_RESET);
+  });
+
+  it('does not accept email verification tokens as reset tokens', async () => {
+    const app = makeApp();
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'mixed@example.com', password: 'StrongP@ss1' });
+
+    const res = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: tokenFrom(sent[0]!), password: 'N3w!Password' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('requires authentication to change the password', async () => {
+    const res = await request(makeApp())
+      .post('/api/auth/change-password')
+      .send({ currentPassword: 'StrongP@ss1', newPassword: 'N3w!Password' });
+    expect(res.status).toBe(401);
+  });
+
+  it('changes the password, revoking other sessions but keeping this one', async () => {
+    const user = await registerUser(makeApp(), 'change@example.com');
+    const app = makeApp({
+      userId: user.id,
+      email: user.email,
+      roles: ['USER'],
+      permissions: [],
+      iat: 0,
+      exp: 0,
+    });
+    const otherSession = new JwtService().generateRefreshToken(user.id, user.tokenVersion);
+
+    const wrong = await request(app)
+      .post('/api/auth/change-password')
+      .send({ currentPassword: 'Wr0ng!Password', newPassword: 'N3w!Password' });
+    expect(wrong.status).toBe(400);
+
+    const res = await request(app)
+      .post('/api/auth/change-password')
+      .send({ currentPassword: 'StrongP@ss1', newPassword: 'N3w!Password' });
+    expect(res.status).toBe(200);
+    expect(user.tokenVersion).toBe(1);
+
+    const revoked = await request(app)
+      .post('/api/auth/refresh')
+      .set('Cookie', `refresh_token=${otherSession}`);
+    expect(revoked.status).toBe(401);
+
+    const current = await request(app)
+      .post('/api/auth/refresh')
+      .set('Cookie', `refresh_token=${cookieValue(res, 'refresh_token')}`);
+    expect(current.status).toBe(200);
+
+    const logs = await audit.getLogs({ userId: user.id, action: AuditAction.PASSWORD_CHANGE });
+    expect(logs.map((l) => l.success)).toEqual([false, true]);
+  });
+
+  it('locks out guessing the current password', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const user = await registerUser(makeApp(), 'guess@example.com');
+      const app = makeApp({
+        userId: user.id,
+        email: user.email,
+        roles: ['USER'],
+        permissions: [],
+        iat: 0,
+        exp: 0,
+      });
+      const change = (currentPassword: string) =>
+        request(app)
+          .post('/api/auth/change-password')
+          .send({ currentPassword, newPassword: 'N3w!Password' });
+
+      for (let i = 0; i < 4; i++) {
+        expect((await change('Wr0ng!Password')).status).toBe(400);
+        vi.advanceTimersByTime(60 * 1000);
+      }
+      expect((await change('Wr0ng!Password')).status).toBe(429);
+      expect((await change('StrongP@ss1')).status).toBe(429);
+      expect(user.tokenVersion).toBe(0);
+      expect(sent).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('unit: /api/auth refresh token rotation', () => {
+  async function signIn(app: express.Express) {
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'rotate@example.com', password: 'StrongP@ss1' });
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'rotate@example.com', password: 'StrongP@ss1' });
+    expect(login.status).toBe(200);
+    return cookieValue(login, 'refresh_token')!;
+  }
+
+  const refreshWith = (app: express.Express, token: string) =>
+    request(app).post('/api/auth/refresh').set('Cookie', `refresh_token=${token}`);
+
+  it('rotates the refresh token on every refresh', async () => {
+    const app = makeApp();
+    const first = await signIn(app);
+
+    const res = await refreshWith(app, first);
+    expect(res.status).toBe(200);
+    const second = cookieValue(res, 'refresh_token')!;
+    expect(second).not.toBe(first);
+
+    expect((await refreshWith(app, second)).status).toBe(200);
+  });
+
+  it('revokes the token family when an old refresh token is replayed', async () => {
+    const app = makeApp();
+    const first = await signIn(app);
+    const second = cookieValue(await refreshWith(app, first), 'refresh_token')!;
+
+    const replay = await refreshWith(app, first);
+    expect(replay.status).toBe(401);
+
+    const logs = await audit.getLogs({ action: AuditAction.SUSPICIOUS_ACTIVITY });
+    expect(logs).toHaveLength(1);
+    expect(logs[0]?.metadata).toHaveProperty('familyId');
+
+    // The legitimate successor is revoked along with the replayed token
+    expect((await refreshWith(app, second)).status).toBe(401);
+  });
+
+  it('revokes the session family on logout', async () => {
+    const app = makeApp();
+    const token = await signIn(app);
+
+    await request(app).post('/api/auth/logout').set('Cookie', `refresh_token=${token}`);
+
+    expect((await refreshWith(app, token)).status).toBe(401);
+  });
+
+  it('denylists the access token on logout', async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(attachUserIfPresent);
+    app.use('/api/auth', router);
+
+    await signIn(app);
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'rotate@example.com', password: 'StrongP@ss1' });
+    const bearer = `Bearer ${cookieValue(login, 'access_token')}`;
+
+    expect((await request(app).get('/api/auth/me').set('Authorization', bearer)).status).toBe(200);
+    await request(app).post('/api/auth/logout').set('Authorization', bearer).expect(200);
+    expect((await request(app).get('/api/auth/me').set('Authorization', bearer)).status).toBe(401);
+  });
+
+  it('logs out all devices', async () => {
+    const app = makeApp();
+    const laptop = await signIn(app);
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'rotate@example.com', password: 'StrongP@ss1' });
+    const phone = cookieValue(login, 'refresh_token')!;
+    const user = db.users[0]!;
+
+    const unauthenticated = await request(app).post('/api/auth/logout-all');
+    expect(unauthenticated.status).toBe(401);
+
+    const res = await request(
+      makeApp({
+        userId: user.id,
+        email: user.email,
+        roles: ['USER'],
+        permissions: [],
+        iat: 0,
+        exp: 0,
+      })
+    ).post('/api/auth/logout-all');
+    expect(res.status).toBe(200);
+    expect(res.body.revoked).toBe(2);
+
+    expect((await refreshWith(app, laptop)).status).toBe(401);
+    expect((await refreshWith(app, phone)).status).toBe(401);
+  });
+});
+
+describe('unit: /api/auth me', () => {
+  afterEach(() => {
+    delete process.env['AUTH_ENABLE_DEV_FALLBACK'];
+  });
+
+  it.each([
+    ['from the database', 'false', { id: 'admin-1', email: 'admin@example.com', name: 'Admin' }],
+    ['in the dev fallback', 'true', { id: 'admin-1', email: null, name: null }],
+  ])('reports an impersonation %s', async (_, fallback, actor) => {
+    process.env['AUTH_ENABLE_DEV_FALLBACK'] = fallback;
+    const app = express();
+    app.use(attachUserIfPresent);
+    app.use('/api/auth', router);
+    db.users.push(
+      ...['admin-1', 'user-1'].map((id) => ({
+        id,
+        email: id === 'admin-1' ? 'admin@example.com' : 'user@example.com',
+        name: id === 'admin-1' ? 'Admin' : 'User',
+        passwordHash: null,
+        role: 'USER',
+        emailVerified: null,
+        tokenVersion: 0,
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaLastUsedStep: null,
+      }))
+    );
+    const token = new JwtService().generateAccessToken({
+      userId: 'user-1',
+      email: 'user@example.com',
+      roles: ['USER'],
+      permissions: [],
+      actorId: 'admin-1',
+      subjectId: 'user-1',
+      readOnly: true,
+    });
+
+    const res = await request(app).get('/api/auth/me').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toMatchObject({ id: 'user-1', email: 'user@example.com' });
+    expect(res.body.impersonation).toMatchObject({ actor, readOnly: true });
+    expect(Date.parse(res.body.impersonation.expiresAt)).toBeGreaterThan(Date.now());
+  });
+});
+
+describe('unit: /api/auth sessions', () => {
+  function makeTokenApp() {
+    const app = express();
+    app.use(express.json());
+    app.use(attachUserIfPresent);
+    app.use('/api/auth', router);
+    return app;
+  }
+
+  async function login(app: express.Express, userAgent: string) {
+    const res = await request(app)
+      .post('/api/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ email: 'sessions@example.com', password: 'StrongP@ss1' });
+    expect(res.status).toBe(200);
+    return {
+      bearer: `Bearer ${cookieValue(res, 'access_token')}`,
+      refresh: cookieValue(res, 'refresh_token')!,
+    };
+  }
+
+  let app: express.Express;
+  let laptop: { bearer: string; refresh: string };
+  let phone: { bearer: string; refresh: string };
+
+  beforeEach(async () => {
+    app = makeTokenApp();
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'sessions@example.com', password: 'StrongP@ss1' });
+    laptop = await login(
+      app,
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15'
+    );
+    phone = await login(
+      app,
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36'
+    );
+  });
+
+  it('requires authentication', async () => {
+    expect((await request(app).get('/api/auth/sessions')).status).toBe(401);
+    expect((await request(app).delete('/api/auth/sessions/any')).status).toBe(401);
+  });
+
+  it('lists active sessions with their device, marking the current one', async () => {
+    const res = await request(app).get('/api/auth/sessions').set('Authorization', laptop.bearer);
+
+    expect(res.status).toBe(200);
+    expect(res.body.sessions).toHaveLength(2);
+    expect(res.body.sessions).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ device: 'Safari on macOS', current: true }),
+        expect.objectContaining({ device: 'Chrome on Android', current: false }),
+      ])
+    );
+  });
+
+  it("revokes another session's refresh and access tokens", async () => {
+    const list = await request(app).get('/api/auth/sessions').set('Authorization', laptop.bearer);
+    const other = list.body.sessions.find((s: { current: boolean }) => !s.current);
+
+    const res = await request(app)
+      .delete(`/api/auth/sessions/${other.id}`)
+      .set('Authorization', laptop.bearer);
+    expect(res.status).toBe(200);
+    expect(cookieValue(res, 'access_token')).toBeUndefined();
+
+    expect((await request(app).get('/api/auth/me').set('Authorization', phone.bearer)).status).toBe(
+      401
+    );
+    expect(
+      (await request(app).post('/api/auth/refresh').set('Cookie', `refresh_token=${phone.refresh}`))
+        .status
+    ).toBe(401);
+    expect(
+      (await request(app).get('/api/auth/me').set('Authorization', laptop.bearer)).status
+    ).toBe(200);
+
+    const logs = await audit.getLogs({ action: AuditAction.LOGOUT });
+    expect(logs[0]?.metadata).toEqual({ sessionId: other.id });
+  });
+
+  it("does not reveal or revoke other users' sessions", async () => {
+    const [session] = db.sessions();
+    const res = await request(
+      makeApp({
+        userId: 'someone-else',
+        email: 'else@example.com',
+        roles: ['USER'],
+        permissions: [],
+        iat: 0,
+        exp: 0,
+      })
+    ).delete(`/api/auth/sessions/${session!['id']}`);
+
+    expect(res.status).toBe(404);
+    expect(db.sessions()).toHaveLength(2);
+  });
+});
+
+describe('unit: /api/auth multi-factor authentication', () => {
+  const THIRTY_SECONDS = 30 * 1000;
+
+  function authAs(user: FakeUser, mfaVerified = false) {
+    return makeApp({
+      userId: user.id,
+      email: user.email,
+      roles: ['USER'],
+      permissions: [],
+      mfaVerified,
+      iat: 0,
+      exp: 0,
+    });
+  }
+
+  /**
+   * Register a user and enable MFA, returning the TOTP secret and recovery codes
+   */
+  async function enrollUser(app: express.Express) {
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'mfa@example.com', password: 'StrongP@ss1' });
+    const user = db.users.find((u) => u.email === 'mfa@example.com')!;
+
+    const enroll = await request(authAs(user)).post('/api/auth/mfa/enroll');
+    expect(enroll.status).toBe(200);
+    expect(enroll.body.otpauthUri).toContain('otpauth://totp/');
+    const secret: string = enroll.body.secret;
+
+    const confirm = await request(authAs(user))
+      .post('/api/auth/mfa/enroll/confirm')
+      .send({ code: generateTotp(secret, Date.now() - THIRTY_SECONDS) });
+    expect(confirm.status).toBe(200);
+
+    return { user, secret, recoveryCodes: confirm.body.recoveryCodes as string[] };
+  }
+
+  async function passwordLogin(app: express.Express) {
+    const res = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'mfa@example.com', password: 'StrongP@ss1' });
+    expect(res.status).toBe(200);
+    return res;
+  }
+
+  it('stores the secret encrypted and enables MFA only after confirmation', async () => {
+    const app = makeApp();
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'mfa@example.com', password: 'StrongP@ss1' });
+    const user = db.users[0]!;
+
+    const enroll = await request(authAs(user)).post('/api/auth/mfa/enroll');
+    expect(user.mfaEnabled).toBe(false);
+    expect(user.mfaSecret).not.toBe(enroll.body.secret);
+    expect(await new EncryptionService().decrypt(user.mfaSecret!)).toBe(enroll.body.secret);
+
+    const wrong = await request(authAs(user))
+      .post('/api/auth/mfa/enroll/confirm')
+      .send({ code: '000000' });
+    expect(wrong.status).toBe(400);
+
+    const confirm = await request(authAs(user))
+      .post('/api/auth/mfa/enroll/confirm')
+      .send({ code: generateTotp(enroll.body.secret) });
+    expect(confirm.status).toBe(200);
+    expect(confirm.body.recoveryCodes).toHaveLength(10);
+    expect(user.mfaEnabled).toBe(true);
+
+    // Only hashes of the recovery codes are stored
+    const stored = db.recoveryCodes().map((c) => c.codeHash);
+    expect(stored).not.toContain(confirm.body.recoveryCodes[0]);
+
+    const again = await request(authAs(user)).post('/api/auth/mfa/enroll');
+    expect(again.status).toBe(409);
+  });
+
+  it('requires a TOTP code after the password and marks the session MFA-verified', async () => {
+    const app = makeApp();
+    const { secret } = await enrollUser(app);
+
+    const login = await passwordLogin(app);
+    expect(login.body).toMatchObject({ authenticated: false, mfaRequired: true });
+    expect(cookieValue(login, 'access_token')).toBeUndefined();
+
+    const wrong = await request(app)
+      .post('/api/auth/mfa/verify')
+      .send({ mfaToken: login.body.mfaToken, code: '000000' });
+    expect(wrong.status).toBe(401);
+    expect(await audit.getLogs({ action: AuditAction.MFA_FAILED })).toHaveLength(1);
+
+    const res = await request(app)
+      .post('/api/auth/mfa/verify')
+      .send({ mfaToken: login.body.mfaToken, code: generateTotp(secret) });
+    expect(res.status).toBe(200);
+    expect(res.body.authenticated).toBe(true);
+
+    const access = await new JwtService().validateAccessToken(cookieValue(res, 'access_token')!);
+    expect(access.mfaVerified).toBe(true);
+
+    // MFA status survives refresh token rotation
+    const refreshed = await request(app)
+      .post('/api/auth/refresh')
+      .set('Cookie', `refresh_token=${cookieValue(res, 'refresh_token')}`);
+    const rotated = await new JwtService().validateAccessToken(
+      cookieValue(refreshed, 'access_token')!
+    );
+    expect(rotated.mfaVerified).toBe(true);
+  });
+
+  it('rejects a TOTP code that was already used', async () => {
+    const app = makeApp();
+    const { secret } = await enrollUser(app);
+    const code = generateTotp(secret);
+
+    const first = await passwordLogin(app);
+    const ok = await request(app)
+      .post('/api/auth/mfa/verify')
+      .send({ mfaToken: first.body.mfaToken, code });
+    expect(ok.status).toBe(200);
+
+    const second = await passwordLogin(app);
+    const replay = await request(app)
+      .post('/api/auth/mfa/verify')
+      .send({ mfaToken: second.body.mfaToken, code });
+    expect(replay.status).toBe(401);
+  });
+
+  it('accepts each recovery code once', async () => {
+    const app = makeApp();
+    const { recoveryCodes } = await enrollUser(app);
+    const code = recoveryCodes[0]!.toLowerCase();
+
+    const first = await passwordLogin(app);
+    const ok = await request(app)
+      .post('/api/auth/mfa/verify')
+      .send({ mfaToken: first.body.mfaToken, code });
+    expect(ok.status).toBe(200);
+    expect(ok.body.recoveryCodesRemaining).toBe(9);
+
+    const second = await passwordLogin(app);
+    const reused = await request(app)
+      .post('/api/auth/mfa/verify')
+      .send({ mfaToken: second.body.mfaToken, code });
+    expect(reused.status).toBe(401);
+  });
+
+  it('does not accept access or refresh tokens as MFA tokens', async () => {
+    const app = makeApp();
+    const { user, secret } = await enrollUser(app);
+    const tokens = new JwtService().generateTokens({
+      userId: user.id,
+      email: user.email,
+      roles: ['USER'],
+      permissions: [],
+    });
+
+    for (const mfaToken of [tokens.accessToken, tokens.refreshToken]) {
+      const res = await request(app)
+        .post('/api/auth/mfa/verify')
+        .send({ mfaToken, code: generateTotp(secret) });
+      expect(res.status).toBe(401);
+    }
+  });
+
+  it('requires a valid code to disable MFA', async () => {
+    const app = makeApp();
+    const { user, secret } = await enrollUser(app);
+
+    const wrong = await request(authAs(user, true))
+      .post('/api/auth/mfa/disable')
+      .send({ code: '000000' });
+    expect(wrong.status).toBe(401);
+    expect(user.mfaEnabled).toBe(true);
+
+    const res = await request(authAs(user, true))
+      .post('/api/auth/mfa/disable')
+      .send({ code: generateTotp(secret) });
+    expect(res.status).toBe(200);
+    expect(user.mfaEnabled).toBe(false);
+    expect(user.mfaSecret).toBeNull();
+    expect(db.recoveryCodes()).toHaveLength(0);
+
+    const login = await passwordLogin(app);
+    expect(login.body.authenticated).toBe(true);
+  });
+
+  it('locks out guessing codes to disable MFA or replace recovery codes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const app = makeApp();
+      const { user, secret } = await enrollUser(app);
+      const post = (path: string, code: string) =>
+        request(authAs(user, true)).post(`/api/auth/mfa/${path}`).send({ code });
+
+      for (let i = 0; i < 4; i++) {
+        expect((await post(i % 2 ? 'disable' : 'recovery-codes', '000000')).status).toBe(401);
+        vi.advanceTimersByTime(60 * 1000);
+      }
+      const locking = await post('disable', '000000');
+      expect(locking.status).toBe(429);
+      expect(locking.body.error).toBe('Account temporarily locked');
+
+      expect((await post('disable', generateTotp(secret))).status).toBe(429);
+      expect((await post('recovery-codes', generateTotp(secret))).status).toBe(429);
+      expect(user.mfaEnabled).toBe(true);
+      expect(await audit.getLogs({ action: AuditAction.ACCOUNT_LOCKED })).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('unit: /api/auth OIDC login', () => {
+  function registerOidc(provider: Partial<OidcProvider>) {
+    container.register(OidcProvider, {
+      useValue: { providerId: 'oidc', isConfigured: () => true, ...provider } as OidcProvider,
+    });
+  }
+
+  it('is unavailable until an issuer is configured', async () => {
+    registerOidc({ isConfigured: () => false });
+
+    const res = await request(makeApp()).get('/api/auth/oidc/login');
+    expect(res.status).toBe(404);
+  });
+
+  it('redirects to the provider', async () => {
+    registerOidc({
+      createAuthorizationUrl: vi.fn(async () => ({
+        url: 'https://idp.example.com/authorize?state=abc',
+        state: 'abc',
+      })),
+    });
+
+    const res = await request(makeApp()).get('/api/auth/oidc/login');
+    expect(res.status).toBe(302);
+    expect(res.headers['location']).toBe('https://idp.example.com/authorize?state=abc');
+  });
+
+  it('sets the auth cookies and audits the login on a successful callback', async () => {
+    const verifyCallback = vi.fn(async () => ({
+      success: true,
+      userId: 'user-1',
+      created: true,
+      tokens: {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresIn: 900,
+        tokenType: 'Bearer',
+      },
+    }));
+    registerOidc({ verifyCallback });
+
+    const res = await request(makeApp()).get('/api/auth/oidc/callback?code=c1&state=s1');
+    expect(res.status).toBe(302);
+    expect(res.headers['location']).toBe('http://localhost:3000/dashboard');
+    expect(verifyCallback).toHaveBeenCalledWith('c1', 's1', expect.any(Object));
+    expect(cookieValue(res, 'access_token')).toBe('access');
+    expect(cookieValue(res, 'refresh_token')).toBe('refresh');
+    expect(await audit.getLogs({ action: AuditAction.REGISTER })).toHaveLength(1);
+    expect(await audit.getLogs({ action: AuditAction.LOGIN })).toHaveLength(1);
+  });
+
+  it('sends accounts with MFA to the MFA step without cookies', async () => {
+    registerOidc({
+      verifyCallback: vi.fn(async () => ({
+        success: true,
+        userId: 'user-1',
+        created: false,
+        mfaToken: 'mfa-pending',
+      })),
+    });
+
+    const res = await request(makeApp()).get('/api/auth/oidc/callback?code=c1&state=s1');
+    expect(res.status).toBe(302);
+    expect(res.headers['location']).toBe('http://localhost:3000/auth/mfa#mfaToken=mfa-pending');
+    expect(cookieValue(res, 'access_token')).toBeUndefined();
+    expect(await audit.getLogs({ action: AuditAction.LOGIN })).toHaveLength(0);
+  });
+
+  it('redirects to the failure page without cookies when the provider reports an error', async () => {
+    const verifyCallback = vi.fn();
+    registerOidc({ verifyCallback });
+
+    const res = await request(makeApp()).get(
+      '/api/auth/oidc/callback?error=access_denied&state=s1'
+    );
+    expect(res.status).toBe(302);
+    expect(res.headers['location']).toBe('http://localhost:3000/auth/signin?error=oidc');
+    expect(verifyCallback).not.toHaveBeenCalled();
+    expect(cookieValue(res, 'access_token')).toBeUndefined();
+    const failures = await audit.getLogs({ action: AuditAction.LOGIN_FAILED });
+    expect(failures[0]?.errorMessage).toBe('access_denied');
+  });
+});
+
+describe('unit: /api/auth brute-force protection', () => {
+  const login = (app: express.Express, password: string) =>
+    request(app).post('/api/auth/login').send({ email: 'locked@example.com', password });
+
+  async function registerUser(app: express.Express) {
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'locked@example.com', password: 'StrongP@ss1' });
+    sent = [];
+    return db.users[0]!;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('delays attempts after repeated failures', async () => {
+    const app = makeApp();
+    await registerUser(app);
+
+    for (let i = 0; i < 3; i++) {
+      expect((await login(app, 'wrong')).status).toBe(401);
+    }
+
+    // Even the right password waits out the delay
+    const delayed = await login(app, 'StrongP@ss1');
+    expect(delayed.status).toBe(429);
+    expect(delayed.headers['retry-after']).toBe('1');
+
+    vi.advanceTimersByTime(1000);
+    expect((await login(app, 'StrongP@ss1')).status).toBe(200);
+  });
+
+  it('locks the account, audits the lockout and emails an unlock link', async () => {
+    const app = makeApp();
+    const user = await registerUser(app);
+
+    for (let i = 0; i < 4; i++) {
+      await login(app, 'wrong');
+      vi.advanceTimersByTime(60 * 1000);
+    }
+    const locking = await login(app, 'wrong');
+    expect(locking.status).toBe(429);
+    expect(locking.body.error).toBe('Account temporarily locked');
+
+    const locked = await login(app, 'StrongP@ss1');
+    expect(locked.status).toBe(429);
+
+    const logs = await audit.getLogs({ action: AuditAction.ACCOUNT_LOCKED });
+    expect(logs).toHaveLength(1);
+    expect(logs[0]?.userId).toBe(user.id);
+
+    expect(sent).toHaveLength(1);
+    const unlock = await request(app).get(
+      `/api/auth/unlock?token=${encodeURIComponent(tokenFrom(sent[0]!))}`
+    );
+    expect(unlock.status).toBe(200);
+    expect(await audit.getLogs({ action: AuditAction.ACCOUNT_UNLOCKED })).toHaveLength(1);
+
+    expect((await login(app, 'StrongP@ss1')).status).toBe(200);
+  });
+
+  it('locks unknown emails the same way without sending email', async () => {
+    const app = makeApp();
+
+    for (let i = 0; i < 5; i++) {
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'ghost@example.com', password: 'wrong' });
+      vi.advanceTimersByTime(60 * 1000);
+    }
+
+    const res = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'ghost@example.com', password: 'wrong' });
+    expect(res.status).toBe(429);
+    expect(sent).toHaveLength(0);
+  });
+});
@@ -1,10 +1,32 @@
-import type { TokenResult } from '@repo/types';
+import type { User } from '@prisma/client';
+import type { EmailOptions, TokenResult } from '@repo/types';
 import { Router, type Request, type Response } from 'express';
 import { container } from 'tsyringe';
+import { z } from 'zod';
 
+import type { IMetricsService } from '../infrastructure/observability';
+import { rejectApiKeys, rejectImpersonatedWrites } from '../middleware/auth.middleware';
+import { AuditAction, AuditLogService } from '../services/audit/audit-log.service';
+import { AccessTokenDenylistService } from '../services/auth/access-token-denylist.service';
+import { AuthorizationService } from '../services/auth/authorization.service';
+import { getDefaultRolePermissions } from '../services/auth/default-roles';
 import { EncryptionService } from '../services/auth/encryption.service';
 import { JwtService } from '../services/auth/jwt.service';
+import {
+  LoginThrottleService,
+  type LoginThrottleStatus,
+} from '../services/auth/login-throttle.service';
+import { MfaService, type MfaMethod } from '../services/auth/mfa.service';
+import { OidcProvider, type OidcAuthResult } from '../services/auth/oidc.provider';
+import { validatePasswordStrength } from '../services/auth/password-policy';
+import {
+  RefreshTokenService,
+  type RefreshTokenContext,
+} from '../services/auth/refresh-token.service';
+import { VerificationTokenService } from '../services/auth/verification-token.service';
 import { DatabaseService } from '../services/database.service';
+import { NotificationService } from '../services/notification/notification.service';
+import { getFirstString } from '../utils/request-values';
 
 const router: import('express').Router = Router();
 
@@ -16,6 +38,274 @@ function devFallbackEnabled(): boolean {
   return process.env['NODE_ENV'] === 'development';
 }
 
+const DEFAULT_EMAIL_VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_PASSWORD_RESET_TTL_SECONDS = 60 * 60;
+const DEFAULT_UNLOCK_TTL_SECONDS = 24 * 60 * 60;
+
+// Avoid deprecated z.string().email() signature warnings in newer Zod typings.
+const emailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(254)
+  .refine((val) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(val), {
+    message: 'Invalid email address',
+  });
+
+const registerSchema = z.object({
+  email: emailSchema,
+  password: z.string(),
+  name: z.string().trim().min(1).max(128).optional(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string(),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string(),
+});
+
+const mfaCodeSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+});
+
+const mfaVerifySchema = mfaCodeSchema.extend({
+  mfaToken: z.string().min(1),
+});
+
+function emailVerificationRequired(): boolean {
+  return process.env['AUTH_REQUIRE_EMAIL_VERIFICATION'] === 'true';
+}
+
+function ttlFromEnv(name: string, fallback: number): number {
+  // eslint-disable-next-line security/detect-object-injection -- Env var name is a literal from this module
+  const ttl = Number(process.env[name]);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : fallback;
+}
+
+/**
+ * Queue an email for background delivery, sending it directly when queues are unavailable
+ * Delivery failures are logged rather than failing the request
+ */
+async function deliverEmail(options: EmailOptions): Promise<void> {
+  try {
+    const notifications = container.resolve(NotificationService);
+    try {
+      await notifications.queueEmail(options);
+    } catch {
+      // Queues may be disabled (DISABLE_QUEUES=true) - send synchronously instead
+      await notifications.sendEmail(options);
+    }
+  } catch (err) {
+    console.error('Email delivery error', err);
+  }
+}
+
+/**
+ * Issue an email verification token and send the verification link
+ */
+async function sendVerificationEmail(userId: string, email: string): Promise<void> {
+  const token = await container
+    .resolve(VerificationTokenService)
+    .issue(
+      'email-verification',
+      userId,
+      ttlFromEnv('AUTH_EMAIL_VERIFICATION_TTL', DEFAULT_EMAIL_VERIFICATION_TTL_SECONDS)
+    );
+
+  const baseUrl =
+    process.env['AUTH_EMAIL_VERIFICATION_URL'] || 'http://localhost:3001/api/auth/verify-email';
+  const link = `${baseUrl}?token=${encodeURIComponent(token)}`;
+
+  await deliverEmail({
+    to: email,
+    subject: 'Verify your email address',
+    text: `Confirm your email address by opening this link:\n\n${link}\n\nIf you did not create an account, you can ignore this email.`,
+    html: `<p>Confirm your email address by opening this link:</p><p><a href="${link}">Verify email</a></p><p>If you did not create an account, you can ignore this email.</p>`,
+  });
+}
+
+/**
+ * Replace a user's password and revoke all of their refresh tokens
+ */
+async function updatePassword(userId: string, password: string): Promise<number> {
+  const db = container.resolve(DatabaseService);
+  const enc = container.resolve<EncryptionService>('EncryptionService');
+  const passwordHash = await enc.hash(password);
+  const user = await db.user.update({
+    where: { id: userId },
+    data: { passwordHash, tokenVersion: { increment: 1 } },
+    select: { tokenVersion: true },
+  });
+  await container.resolve(RefreshTokenService).revokeAllForUser(userId);
+  return user.tokenVersion;
+}
+
+function tokenContext(req: Request): RefreshTokenContext {
+  return { ipAddress: req.ip, userAgent: req.get('user-agent') };
+}
+
+type CredentialFailure = 'invalid_credentials' | 'invalid_mfa_code' | 'invalid_current_password';
+
+function countAuthFailure(reason: CredentialFailure | 'throttled'): void {
+  try {
+    container
+      .resolve<IMetricsService>('MetricsService')
+      .incrementCounter('auth_failures_total', { method: 'local', reason });
+  } catch {
+    // Metrics are optional
+  }
+}
+
+function countRegistration(source: 'email' | 'oidc'): void {
+  try {
+    container
+      .resolve<IMetricsService>('MetricsService')
+      .incrementCounter('user_registrations_total', { source });
+  } catch {
+    // Metrics are optional
+  }
+}
+
+async function auditAuth(params: Parameters<AuditLogService['logAuth']>[0]): Promise<void> {
+  try {
+    await container.resolve(AuditLogService).logAuth(params);
+  } catch {
+    // Audit logging is optional - continue on error
+  }
+}
+
+/**
+ * Issue a new session (token family) for a user whose credentials have been checked
+ */
+async function startSession(
+  req: Request,
+  res: Response,
+  user: User,
+  mfaVerified: boolean
+): Promise<{
+  user: Pick<User, 'id' | 'email' | 'name' | 'image' | 'role'>;
+  authenticated: true;
+  tokenType: string;
+}> {
+  const { roles, permissions } = await container
+    .resolve(AuthorizationService)
+    .getTokenClaims(user.id, user.role);
+  const tokens = await container
+    .resolve(RefreshTokenService)
+    .issue(
+      { userId: user.id, email: user.email, roles, permissions, mfaVerified },
+      user.tokenVersion,
+      tokenContext(req)
+    );
+
+  setAuthCookies(res, tokens);
+  await container
+    .resolve(DatabaseService)
+    .user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      image: user.image,
+      role: user.role,
+    },
+    authenticated: true,
+    tokenType: tokens.tokenType,
+  };
+}
+
+/**
+ * Email a link that lifts an account lockout
+ */
+async function sendUnlockEmail(
+  userId: string,
+  email: string,
+  lockoutSeconds: number
+): Promise<void> {
+  const token = await container
+    .resolve(VerificationTokenService)
+    .issue('account-unlock', userId, ttlFromEnv('AUTH_UNLOCK_TTL', DEFAULT_UNLOCK_TTL_SECONDS));
+
+  const baseUrl = process.env['AUTH_UNLOCK_URL'] || 'http://localhost:3001/api/auth/unlock';
+  const link = `${baseUrl}?token=${encodeURIComponent(token)}`;
+  const minutes = Math.ceil(lockoutSeconds / 60);
+
+  await deliverEmail({
+    to: email,
+    subject: 'Your account has been locked',
+    text: `Your account was locked for ${minutes} minutes after repeated failed sign-in attempts.\n\nIf this was you, unlock it now by opening this link:\n\n${link}\n\nIf it was not you, consider changing your password.`,
+    html: `<p>Your account was locked for ${minutes} minutes after repeated failed sign-in attempts.</p><p>If this was you, <a href="${link}">unlock your account</a> now.</p><p>If it was not you, consider changing your password.</p>`,
+  });
+}
+
+/**
+ * Reject a throttled login attempt with 429 and Retry-After
+ */
+function sendThrottled(
+  res: Response,
+  throttle: Exclude<LoginThrottleStatus, { status: 'allowed' }>
+): void {
+  countAuthFailure('throttled');
+  res.setHeader('Retry-After', String(throttle.retryAfter));
+  res.status(429).json({
+    error: throttle.status === 'locked' ? 'Account temporarily locked' : 'Too many login attempts',
+    retryAfter: throttle.retryAfter,
+  });
+}
+
+/**
+ * Count a failed credential check against the account and IP, locking the account at the
+ * threshold; responds 429 when this failure locked the account and 401 otherwise
+ */
+async function rejectCredentials(
+  req: Request,
+  res: Response,
+  email: string,
+  user: { id: string; email: string } | null,
+  reason: CredentialFailure
+): Promise<void> {
+  countAuthFailure(reason);
+  const throttle = container.resolve(LoginThrottleService);
+  const { failures, locked } = await throttle.recordFailure(email, req.ip);
+
+  if (!locked) {
+    // A signed-in user mistyping the current password keeps the session (400, not 401)
+    if (reason === 'invalid_current_password') {
+      res.status(400).json({ error: 'Current password is incorrect' });
+      return;
+    }
+    res
+      .status(401)
+      .json({ error: reason === 'invalid_mfa_code' ? 'Invalid MFA code' : 'Invalid credentials' });
+    return;
+  }
+
+  const lockoutSeconds = throttle.getLockoutDuration();
+  try {
+    await container.resolve(AuditLogService).logSecurityEvent({
+      userId: user?.id,
+      action: AuditAction.ACCOUNT_LOCKED,
+      resource: 'authentication',
+      success: false,
+      errorMessage: 'Account locked after repeated failed logins',
+      metadata: { failures, lockoutSeconds, ipAddress: req.ip },
+    });
+  } catch {
+    // Audit logging is optional - continue on error
+  }
+  if (user) {
+    await sendUnlockEmail(user.id, user.email, lockoutSeconds);
+  }
+
+  sendThrottled(res, { status: 'locked', retryAfter: lockoutSeconds });
+}
+
 function setAuthCookies(res: Response, tokens: TokenResult): void {
   const isProd = process.env['NODE_ENV'] === 'production';
   const cookieBase = {
@@ -57,13 +347,21 @@ function getCookie(req: Request, name: string): string | undefined {
   return undefined;
 }
 
+// Sessions, passwords and MFA are managed by people, not machine clients or impersonating admins
+router.use(rejectApiKeys);
+router.use(rejectImpersonatedWrites);
+
 /**
  * POST /api/auth/login
  * Body: { email, password }
  */
 router.post('/login', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, password } = req.body || {};
+    const { password } = req.body || {};
+    // Emails are stored as registered through emailSchema, and looked up by an exact blind index
+    const email = String(req.body?.email ?? '')
+      .trim()
+      .toLowerCase();
     if (!email || !password) {
       res.status(400).json({ error: 'Email and password are required' });
       return;
@@ -72,37 +370,44 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
     const db = container.resolve(DatabaseService);
     const enc = container.resolve<EncryptionService>('EncryptionService');
     const jwt = container.resolve<JwtService>('JwtService');
+    const throttle = container.resolve(LoginThrottleService);
+
+    const status = await throttle.check(email, req.ip);
+    if (status.status !== 'allowed') {
+      sendThrottled(res, status);
+      return;
+    }
+
     try {
       const user = await db.user.findUnique({ where: { email } });
       if (!user?.passwordHash) {
-        res.status(401).json({ error: 'Invalid credentials' });
+        await rejectCredentials(req, res, email, null, 'invalid_credentials');
         return;
       }
 
       const ok = await enc.compareHash(password, user.passwordHash);
       if (!ok) {
-        res.status(401).json({ error: 'Invalid credentials' });
+        await rejectCredentials(req, res, email, user, 'invalid_credentials');
         return;
       }
+      await throttle.reset(user.email);
 
-      const roles = [user.role];
-      const permissions: string[] = []; // can be populated later
-      const tokens = jwt.generateTokens({ userId: user.id, email: user.email, roles, permissions });
+      if (emailVerificationRequired() && !user.emailVerified) {
+        res.status(403).json({ error: 'Email address not verified' });
+        return;
+      }
 
-      setAuthCookies(res, tokens);
-      await db.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+      // With MFA enabled the password only earns a short-lived token for /mfa/verify
+      if (user.mfaEnabled) {
+        res.status(200).json({
+          authenticated: false,
+          mfaRequired: true,
+          mfaToken: jwt.generateMfaPendingToken(user.id),
+        });
+        return;
+      }
 
-      res.status(200).json({
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          image: user.image,
-          role: user.role,
-        },
-        authenticated: true,
-        tokenType: tokens.tokenType,
-      });
+      res.status(200).json(await startSession(req, res, user, false));
     } catch (error_) {
       // Fallback for dev/test when DB is unavailable
       if (!devFallbackEnabled()) {
@@ -140,7 +445,7 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
       }
 
       const roles = [fu.role];
-      const permissions: string[] = [];
+      const permissions = getDefaultRolePermissions(fu.role.toLowerCase());
       const tokens = jwt.generateTokens({ userId: fu.id, email, roles, permissions });
       setAuthCookies(res, tokens);
       res.status(200).json({
@@ -155,6 +460,372 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * POST /api/auth/register
+ * Body: { email, password, name? }
+ * Creates an unverified USER account and emails a verification link
+ */
+router.post('/register', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = registerSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid registration payload', details: parsed.error.issues });
+      return;
+    }
+
+    const { email, password, name } = parsed.data;
+    const strength = validatePasswordStrength(password);
+    if (!strength.valid) {
+      res
+        .status(400)
+        .json({ error: 'Password does not meet requirements', details: strength.errors });
+      return;
+    }
+
+    const db = container.resolve(DatabaseService);
+    const enc = container.resolve<EncryptionService>('EncryptionService');
+
+    const existing = await db.user.findUnique({ where: { email }, select: { id: true } });
+    if (existing) {
+      res.status(409).json({ error: 'Email already registered' });
+      return;
+    }
+
+    const passwordHash = await enc.hash(password);
+    const user = await db.user.create({
+      data: { email, name: name ?? null, passwordHash },
+      select: { id: true, email: true, name: true, role: true },
+    });
+
+    await sendVerificationEmail(user.id, user.email);
+
+    countRegistration('email');
+    await auditAuth({ userId: user.id, action: AuditAction.REGISTER, success: true });
+
+    res.status(201).json({ user, verificationRequired: true });
+  } catch (err) {
+    // Concurrent registration of the same email hits the unique constraint
+    if ((err as { code?: string }).code === 'P2002') {
+      res.status(409).json({ error: 'Email already registered' });
+      return;
+    }
+    console.error('Registration error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/auth/verify-email?token=...
+ * Consumes an email verification token and marks the user's email as verified
+ */
+router.get('/verify-email', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = typeof req.query['token'] === 'string' ? req.query['token'] : undefined;
+    if (!token) {
+      res.status(400).json({ error: 'Verification token is required' });
+      return;
+    }
+
+    const userId = await container
+      .resolve(VerificationTokenService)
+      .consume('email-verification', token);
+    if (!userId) {
+      res.status(400).json({ error: 'Invalid or expired verification token' });
+      return;
+    }
+
+    const db = container.resolve(DatabaseService);
+    const { count } = await db.user.updateMany({
+      where: { id: userId, emailVerified: null },
+      data: { emailVerified: new Date() },
+    });
+    if (count > 0) {
+      await auditAuth({ userId, action: AuditAction.EMAIL_VERIFIED, success: true });
+    }
+
+    res.status(200).json({ verified: true });
+  } catch (err) {
+    console.error('Email verification error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email/resend
+ * Body: { email }
+ * Always responds 202 so the endpoint cannot be used to discover accounts
+ */
+router.post('/verify-email/resend', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = z.object({ email: emailSchema }).safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'A valid email is required' });
+      return;
+    }
+
+    const db = container.resolve(DatabaseService);
+    const user = await db.user.findUnique({
+      where: { email: parsed.data.email },
+      select: { id: true, email: true, emailVerified: true },
+    });
+    if (user && !user.emailVerified) {
+      await sendVerificationEmail(user.id, user.email);
+    }
+
+    res.status(202).json({ success: true });
+  } catch (err) {
+    console.error('Resend verification error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/auth/unlock?token=...
+ * Consumes an account unlock token (sent when an account is locked) and lifts the lockout
+ */
+router.get('/unlock', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = typeof req.query['token'] === 'string' ? req.query['token'] : undefined;
+    if (!token) {
+      res.status(400).json({ error: 'Unlock token is required' });
+      return;
+    }
+
+    const userId = await container
+      .resolve(VerificationTokenService)
+      .consume('account-unlock', token);
+    const user = userId
+      ? await container
+          .resolve(DatabaseService)
+          .user.findUnique({ where: { id: userId }, select: { id: true, email: true } })
+      : null;
+    if (!user) {
+      res.status(400).json({ error: 'Invalid or expired unlock token' });
+      return;
+    }
+
+    await container.resolve(LoginThrottleService).unlock(user.email);
+    try {
+      await container.resolve(AuditLogService).logSecurityEvent({
+        userId: user.id,
+        action: AuditAction.ACCOUNT_UNLOCKED,
+        resource: 'authentication',
+        success: true,
+        metadata: { ipAddress: req.ip },
+      });
+    } catch {
+      // Audit logging is optional - continue on error
+    }
+
+    res.status(200).json({ success: true });
+  } catch (err) {
+    console.error('Unlock error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Body: { email }
+ * Emails a single-use reset link; always responds 202 so accounts cannot be discovered
+ */
+router.post('/forgot-password', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = z.object({ email: emailSchema }).safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'A valid email is required' });
+      return;
+    }
+
+    const db = container.resolve(DatabaseService);
+    const user = await db.user.findUnique({
+      where: { email: parsed.data.email },
+      select: { id: true, email: true },
+    });
+
+    if (user) {
+      const token = await container
+        .resolve(VerificationTokenService)
+        .issue(
+          'password-reset',
+          user.id,
+          ttlFromEnv('AUTH_PASSWORD_RESET_TTL', DEFAULT_PASSWORD_RESET_TTL_SECONDS)
+        );
+
+      const baseUrl =
+        process.env['AUTH_PASSWORD_RESET_URL'] || 'http://localhost:3000/auth/reset-password';
+      const link = `${baseUrl}?token=${encodeURIComponent(token)}`;
+
+      await deliverEmail({
+        to: user.email,
+        subject: 'Reset your password',
+        text: `Reset your password by opening this link:\n\n${link}\n\nIf you did not request a password reset, you can ignore this email.`,
+        html: `<p>Reset your password by opening this link:</p><p><a href="${link}">Reset password</a></p><p>If you did not request a password reset, you can ignore this email.</p>`,
+      });
+      await auditAuth({
+        userId: user.id,
+        action: AuditAction.PASSWORD_RESET_REQUESTED,
+        success: true,
+        ipAddress: req.ip,
+      });
+    }
+
+    res.status(202).json({ success: true });
+  } catch (err) {
+    console.error('Forgot password error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Body: { token, password }
+ * Sets a new password from a reset token and revokes all existing refresh tokens
+ */
+router.post('/reset-password', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = resetPasswordSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res
+        .status(400)
+        .json({ error: 'Invalid password reset payload', details: parsed.error.issues });
+      return;
+    }
+
+    const { token, password } = parsed.data;
+    const strength = validatePasswordStrength(password);
+    if (!strength.valid) {
+      res
+        .status(400)
+        .json({ error: 'Password does not meet requirements', details: strength.errors });
+      return;
+    }
+
+    const userId = await container
+      .resolve(VerificationTokenService)
+      .consume('password-reset', token);
+    if (!userId) {
+      await auditAuth({
+        action: AuditAction.PASSWORD_RESET,
+        success: false,
+        ipAddress: req.ip,
+        errorMessage: 'Invalid or expired reset token',
+      });
+      res.status(400).json({ error: 'Invalid or expired reset token' });
+      return;
+    }
+
+    await updatePassword(userId, password);
+    await auditAuth({
+      userId,
+      action: AuditAction.PASSWORD_RESET,
+      success: true,
+      ipAddress: req.ip,
+    });
+
+    clearAuthCookies(res);
+    res.status(200).json({ success: true });
+  } catch (err) {
+    console.error('Reset password error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/change-password
+ * Body: { currentPassword, newPassword }
+ * Requires authentication; revokes all existing refresh tokens and re-issues this session's tokens
+ */
+router.post('/change-password', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = changePasswordSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res
+        .status(400)
+        .json({ error: 'Invalid change password payload', details: parsed.error.issues });
+      return;
+    }
+
+    const { currentPassword, newPassword } = parsed.data;
+    const strength = validatePasswordStrength(newPassword);
+    if (!strength.valid) {
+      res
+        .status(400)
+        .json({ error: 'Password does not meet requirements', details: strength.errors });
+      return;
+    }
+
+    const db = container.resolve(DatabaseService);
+    const enc = container.resolve<EncryptionService>('EncryptionService');
+    const user = await db.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    // Guessing the current password counts towards the same lockout as guessing it at login
+    const throttle = container.resolve(LoginThrottleService);
+    const status = await throttle.check(user.email, req.ip);
+    if (status.status !== 'allowed') {
+      sendThrottled(res, status);
+      return;
+    }
+
+    const ok = user.passwordHash
+      ? await enc.compareHash(currentPassword, user.passwordHash)
+      : false;
+    if (!ok) {
+      await auditAuth({
+        userId,
+        action: AuditAction.PASSWORD_CHANGE,
+        success: false,
+        ipAddress: req.ip,
+        errorMessage: 'Current password is incorrect',
+      });
+      await rejectCredentials(req, res, user.email, user, 'invalid_current_password');
+      return;
+    }
+    await throttle.reset(user.email);
+
+    if (currentPassword === newPassword) {
+      res.status(400).json({ error: 'New password must be different from the current password' });
+      return;
+    }
+
+    const tokenVersion = await updatePassword(userId, newPassword);
+    await auditAuth({
+      userId,
+      action: AuditAction.PASSWORD_CHANGE,
+      success: true,
+      ipAddress: req.ip,
+    });
+
+    // Keep this session signed in with a new token family carrying the new version
+    const { roles, permissions } = await container
+      .resolve(AuthorizationService)
+      .getTokenClaims(userId, user.role);
+    const tokens = await container
+      .resolve(RefreshTokenService)
+      .issue(
+        { userId, email: user.email, roles, permissions, mfaVerified: req.user?.mfaVerified },
+        tokenVersion,
+        tokenContext(req)
+      );
+    setAuthCookies(res, tokens);
+
+    res.status(200).json({ success: true });
+  } catch (err) {
+    console.error('Change password error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * POST /api/auth/refresh
  */
@@ -170,17 +841,46 @@ router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const { userId } = await jwt.validateRefreshToken(refresh);
+    const claims = await jwt.validateRefreshToken(refresh);
+    const { userId, tokenVersion } = claims;
     const user = await db.user.findUnique({ where: { id: userId } });
-    if (!user) {
+    // A bumped token version (password change/reset) revokes older refresh tokens
+    if (!user || user.tokenVersion !== tokenVersion) {
       res.status(401).json({ error: 'Invalid refresh token' });
       return;
     }
 
-    const roles = [user.role];
-    const permissions: string[] = [];
-    const tokens = jwt.generateTokens({ userId, email: user.email, roles, permissions });
-    setAuthCookies(res, tokens);
+    // Re-resolve claims so role and permission changes apply on refresh
+    const { roles, permissions } = await container
+      .resolve(AuthorizationService)
+      .getTokenClaims(userId, user.role);
+    const rotation = await container
+      .resolve(RefreshTokenService)
+      .rotate(
+        claims,
+        { userId, email: user.email, roles, permissions },
+        user.tokenVersion,
+        tokenContext(req)
+      );
+
+    if (rotation.status === 'reused') {
+      await auditAuth({
+        userId,
+        action: AuditAction.SUSPICIOUS_ACTIVITY,
+        success: false,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        errorMessage: 'Refresh token reuse detected; token family revoked',
+        metadata: { familyId: rotation.familyId },
+      });
+    }
+    if (rotation.status !== 'rotated') {
+      clearAuthCookies(res);
+      res.status(401).json({ error: 'Invalid refresh token' });
+      return;
+    }
+
+    setAuthCookies(res, rotation.tokens);
     res.status(200).json({ success: true });
   } catch {
     res.status(401).json({ error: 'Invalid or expired refresh token' });
@@ -189,14 +889,461 @@ router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
 
 /**
  * POST /api/auth/logout
+ * Revokes this session's access token and refresh token family (best effort) and clears
+ * the auth cookies
  */
-router.post('/logout', async (_req: Request, res: Response): Promise<void> => {
+router.post('/logout', async (req: Request, res: Response): Promise<void> => {
+  if (req.user?.jti) {
+    await container.resolve(AccessTokenDenylistService).revokeToken(req.user);
+  }
+
+  const refresh = getCookie(req, 'refresh_token');
+  if (refresh) {
+    try {
+      const { familyId } = await container
+        .resolve<JwtService>('JwtService')
+        .validateRefreshToken(refresh);
+      if (familyId) {
+        await container.resolve(RefreshTokenService).revokeFamily(familyId);
+      }
+    } catch {
+      // Invalid or expired tokens need no revocation
+    }
+  }
+
   clearAuthCookies(res);
   res.status(200).json({ success: true });
 });
 
+/**
+ * POST /api/auth/logout-all
+ * Requires authentication; revokes every refresh and access token of the user on all devices
+ */
+router.post('/logout-all', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const revoked = await container.resolve(RefreshTokenService).revokeAllForUser(userId);
+    await container.resolve(AccessTokenDenylistService).revokeUser(userId);
+    await auditAuth({
+      userId,
+      action: AuditAction.LOGOUT,
+      success: true,
+      ipAddress: req.ip,
+      metadata: { allDevices: true, revokedTokens: revoked },
+    });
+
+    clearAuthCookies(res);
+    res.status(200).json({ success: true, revoked });
+  } catch (err) {
+    console.error('Logout all error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * Requires authentication; lists the user's active login sessions, marking the current one
+ */
+router.get('/sessions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const sessions = await container.resolve(RefreshTokenService).listSessions(user.userId);
+    res.status(200).json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === user.sessionId,
+      })),
+    });
+  } catch (err) {
+    console.error('List sessions error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Requires authentication; ends one of the user's sessions, revoking its refresh and access
+ * tokens. Ending the current session also clears the auth cookies.
+ */
+router.delete('/sessions/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const sessionId = getFirstString(req.params['id']);
+    const revoked = await container
+      .resolve(RefreshTokenService)
+      .revokeSession(user.userId, sessionId);
+    if (!revoked) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    await container.resolve(AccessTokenDenylistService).revokeSession(sessionId);
+    await auditAuth({
+      userId: user.userId,
+      action: AuditAction.LOGOUT,
+      success: true,
+      ipAddress: req.ip,
+      metadata: { sessionId },
+    });
+
+    if (sessionId === user.sessionId) {
+      clearAuthCookies(res);
+    }
+    res.status(200).json({ success: true });
+  } catch (err) {
+    console.error('Revoke session error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Check an MFA code for a signed-in user, auditing failures
+ */
+async function verifyMfaCode(
+  req: Request,
+  userId: string,
+  code: string
+): Promise<MfaMethod | null> {
+  const method = await container.resolve(MfaService).verify(userId, code);
+  if (!method) {
+    await auditAuth({
+      userId,
+      action: AuditAction.MFA_FAILED,
+      success: false,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      errorMessage: 'Invalid MFA code',
+    });
+  }
+  return method;
+}
+
+/**
+ * verifyMfaCode counted towards the same lockout as guessing passwords
+ * Sends the 401/429 response itself and returns null when the code is not accepted.
+ */
+async function verifyThrottledMfaCode(
+  req: Request,
+  res: Response,
+  user: { id: string; email: string },
+  code: string
+): Promise<MfaMethod | null> {
+  const throttle = container.resolve(LoginThrottleService);
+  const status = await throttle.check(user.email, req.ip);
+  if (status.status !== 'allowed') {
+    sendThrottled(res, status);
+    return null;
+  }
+
+  const method = await verifyMfaCode(req, user.id, code);
+  if (!method) {
+    await rejectCredentials(req, res, user.email, user, 'invalid_mfa_code');
+    return null;
+  }
+  await throttle.reset(user.email);
+  return method;
+}
+
+/**
+ * POST /api/auth/mfa/verify
+ * Body: { mfaToken, code }
+ * Completes a login that returned mfaRequired, using a TOTP or recovery code
+ */
+router.post('/mfa/verify', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = mfaVerifySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid MFA payload', details: parsed.error.issues });
+      return;
+    }
+
+    let userId: string;
+    try {
+      ({ userId } = await container
+        .resolve<JwtService>('JwtService')
+        .validateMfaPendingToken(parsed.data.mfaToken));
+    } catch {
+      res.status(401).json({ error: 'Invalid or expired MFA token' });
+      return;
+    }
+
+    const user = await container
+      .resolve(DatabaseService)
+      .user.findUnique({ where: { id: userId } });
+    if (!user?.mfaEnabled) {
+      res.status(401).json({ error: 'Invalid or expired MFA token' });
+      return;
+    }
+
+    const method = await verifyThrottledMfaCode(req, res, user, parsed.data.code);
+    if (!method) {
+      return;
+    }
+
+    const session = await startSession(req, res, user, true);
+    await auditAuth({
+      userId: user.id,
+      action: AuditAction.LOGIN,
+      success: true,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      metadata: { mfaMethod: method },
+    });
+
+    res.status(200).json({
+      ...session,
+      ...(method === 'recovery-code' && {
+        recoveryCodesRemaining: await container.resolve(MfaService).countRecoveryCodes(user.id),
+      }),
+    });
+  } catch (err) {
+    console.error('MFA verify error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/enroll
+ * Requires authentication; returns a new TOTP secret and otpauth:// URI to scan
+ * MFA stays disabled until the enrollment is confirmed with a code
+ */
+router.post('/mfa/enroll', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const user = await container
+      .resolve(DatabaseService)
+      .user.findUnique({ where: { id: userId } });
+    if (!user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    if (user.mfaEnabled) {
+      res.status(409).json({ error: 'MFA is already enabled' });
+      return;
+    }
+
+    const enrollment = await container.resolve(MfaService).startEnrollment(userId, user.email);
+    res.status(200).json(enrollment);
+  } catch (err) {
+    console.error('MFA enroll error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/enroll/confirm
+ * Body: { code }
+ * Requires authentication; enables MFA and returns one-time recovery codes (shown once)
+ */
+router.post('/mfa/enroll/confirm', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = mfaCodeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid MFA payload', details: parsed.error.issues });
+      return;
+    }
+
+    const recoveryCodes = await container
+      .resolve(MfaService)
+      .confirmEnrollment(userId, parsed.data.code);
+    if (!recoveryCodes) {
+      res.status(400).json({ error: 'Invalid MFA code' });
+      return;
+    }
+
+    await auditAuth({ userId, action: AuditAction.MFA_ENABLED, success: true, ipAddress: req.ip });
+    res.status(200).json({ enabled: true, recoveryCodes });
+  } catch (err) {
+    console.error('MFA confirm error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/disable
+ * Body: { code }
+ * Requires authentication and a current TOTP or recovery code
+ * Wrong codes count towards the login lockout
+ */
+router.post('/mfa/disable', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = mfaCodeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid MFA payload', details: parsed.error.issues });
+      return;
+    }
+
+    const user = { id: userId, email: req.user!.email };
+    if (!(await verifyThrottledMfaCode(req, res, user, parsed.data.code))) {
+      return;
+    }
+
+    await container.resolve(MfaService).disable(userId);
+    await auditAuth({ userId, action: AuditAction.MFA_DISABLED, success: true, ipAddress: req.ip });
+    res.status(200).json({ success: true });
+  } catch (err) {
+    console.error('MFA disable error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/recovery-codes
+ * Body: { code }
+ * Requires authentication and a current TOTP or recovery code; replaces all recovery codes
+ * Wrong codes count towards the login lockout
+ */
+router.post('/mfa/recovery-codes', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = mfaCodeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid MFA payload', details: parsed.error.issues });
+      return;
+    }
+
+    const user = { id: userId, email: req.user!.email };
+    if (!(await verifyThrottledMfaCode(req, res, user, parsed.data.code))) {
+      return;
+    }
+
+    const recoveryCodes = await container.resolve(MfaService).regenerateRecoveryCodes(userId);
+    res.status(200).json({ recoveryCodes });
+  } catch (err) {
+    console.error('MFA recovery codes error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/auth/oidc/login
+ * Redirects to the configured OpenID Connect provider (authorization code flow with PKCE)
+ */
+router.get('/oidc/login', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const oidc = container.resolve(OidcProvider);
+    if (!oidc.isConfigured()) {
+      res.status(404).json({ error: 'OIDC login is not configured' });
+      return;
+    }
+
+    const { url } = await oidc.createAuthorizationUrl();
+    res.redirect(302, url);
+  } catch (err) {
+    console.error('OIDC login error', err);
+    res.status(502).json({ error: 'OIDC provider unavailable' });
+  }
+});
+
+/**
+ * GET /api/auth/oidc/callback?code=...&state=...
+ * Completes an OIDC login, sets the auth cookies and redirects back to the frontend
+ * (to OIDC_MFA_REDIRECT with an mfaToken when the account has MFA enabled)
+ */
+router.get('/oidc/callback', async (req: Request, res: Response): Promise<void> => {
+  const failureRedirect =
+    process.env['OIDC_FAILURE_REDIRECT'] || 'http://localhost:3000/auth/signin?error=oidc';
+  const successRedirect = process.env['OIDC_SUCCESS_REDIRECT'] || 'http://localhost:3000/dashboard';
+
+  try {
+    const oidc = container.resolve(OidcProvider);
+    const code = typeof req.query['code'] === 'string' ? req.query['code'] : '';
+    const state = typeof req.query['state'] === 'string' ? req.query['state'] : '';
+
+    // The provider reports denied consent and similar failures with ?error=
+    const result: OidcAuthResult =
+      code && !req.query['error']
+        ? await oidc.verifyCallback(code, state, tokenContext(req))
+        : { success: false, error: String(req.query['error'] ?? 'Missing authorization code') };
+
+    // Accounts with MFA continue at the frontend's MFA step, which posts to /mfa/verify; the
+    // token goes in the fragment so it stays out of server logs and Referer headers
+    if (result.success && result.mfaToken) {
+      const mfaRedirect = process.env['OIDC_MFA_REDIRECT'] || 'http://localhost:3000/auth/mfa';
+      res.redirect(302, `${mfaRedirect}#mfaToken=${encodeURIComponent(result.mfaToken)}`);
+      return;
+    }
+
+    if (!result.success || !result.tokens || !result.userId) {
+      await auditAuth({
+        action: AuditAction.LOGIN_FAILED,
+        success: false,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        errorMessage: result.error,
+        metadata: { provider: oidc.providerId },
+      });
+      res.redirect(302, failureRedirect);
+      return;
+    }
+
+    if (result.created) {
+      countRegistration('oidc');
+      await auditAuth({
+        userId: result.userId,
+        action: AuditAction.REGISTER,
+        success: true,
+        metadata: { provider: oidc.providerId },
+      });
+    }
+    await auditAuth({
+      userId: result.userId,
+      action: AuditAction.LOGIN,
+      success: true,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      metadata: { provider: oidc.providerId },
+    });
+
+    setAuthCookies(res, result.tokens);
+    res.redirect(302, successRedirect);
+  } catch (err) {
+    console.error('OIDC callback error', err);
+    res.redirect(302, failureRedirect);
+  }
+});
+
 /**
  * GET /api/auth/me
+ * While impersonating, also returns `impersonation` with the acting admin and the token's
+ * read-only flag and expiry
  */
 router.get('/me', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -206,12 +1353,23 @@ router.get('/me', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Impersonation details come from the token, so the dev fallback reports them too
+    const { actorId, readOnly, exp } = req.user!;
+    const impersonation = actorId
+      ? {
+          actor: { id: actorId, email: null as string | null, name: null as string | null },
+          readOnly: readOnly !== false,
+          expiresAt: new Date(exp * 1000).toISOString(),
+        }
+      : undefined;
+
     // In dev fallback, return info from JWT without DB
     if (devFallbackEnabled()) {
       const { email, roles } = req.user!;
-      res
-        .status(200)
-        .json({ user: { id: userId, email, name: null, image: null, role: roles?.[0] ?? 'USER' } });
+      res.status(200).json({
+        user: { id: userId, email, name: null, image: null, role: roles?.[0] ?? 'USER' },
+        impersonation,
+      });
       return;
     }
 
@@ -226,7 +1384,18 @@ router.get('/me', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    res.status(200).json({ user });
+    if (!impersonation) {
+      res.status(200).json({ user });
+      return;
+    }
+
+    const actor = await db.user.findUnique({
+      where: { id: impersonation.actor.id },
+      select: { id: true, email: true, name: true },
+    });
+    res
+      .status(200)
+      .json({ user, impersonation: { ...impersonation, actor: actor ?? impersonation.actor } });
   } catch {
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -0,0 +1,213 @@
+import 'reflect-metadata';
+
+import type { TokenPayload } from '@repo/types';
+import express, { type Request, type Response } from 'express';
+import request from 'supertest';
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  enforceImpersonationPolicy,
+  rejectImpersonatedWrites,
+} from '../middleware/auth.middleware';
+import { attachUserIfPresent } from '../middleware/jwt.middleware';
+import { AuditAction, AuditLogService } from '../services/audit/audit-log.service';
+import { AccessTokenDenylistService } from '../services/auth/access-token-denylist.service';
+import { AuthorizationService } from '../services/auth/authorization.service';
+import { ImpersonationService } from '../services/auth/impersonation.service';
+import { JwtService } from '../services/auth/jwt.service';
+import { PolicyEngine } from '../services/auth/policy-engine.service';
+import { InMemoryRbacStore } from '../services/auth/rbac-store.service';
+import { CacheService } from '../services/cache.service';
+import type { DatabaseService } from '../services/database.service';
+import type { LoggerService } from '../services/logger.service';
+
+import router from './impersonation.routes';
+
+const users = [
+  { id: 'admin-1', email: 'admin@example.com', name: 'Admin', role: 'ADMIN' },
+  { id: 'admin-2', email: 'other-admin@example.com', name: 'Other admin', role: 'ADMIN' },
+  { id: 'user-1', email: 'user@example.com', name: 'User', role: 'USER' },
+];
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(attachUserIfPresent);
+  app.use(enforceImpersonationPolicy);
+  app.use('/api/admin/impersonate', router);
+
+  // Stand-ins for ordinary and credential-changing endpoints
+  const whoami = (req: Request, res: Response): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    res.json({ userId: req.user.userId });
+  };
+  app.get('/api/things', whoami);
+  app.post('/api/things', whoami);
+  app.post('/api/auth/change-password', whoami);
+  app.post('/api/account/password', rejectImpersonatedWrites, whoami);
+  return app;
+}
+
+describe('Impersonation routes', () => {
+  let jwt: JwtService;
+  let audit: AuditLogService;
+  let app: express.Express;
+
+  const bearer = (payload: Omit<TokenPayload, 'iat' | 'exp' | 'jti'>): string =>
+    `Bearer ${jwt.generateAccessToken(payload)}`;
+  const admin = (): string =>
+    bearer({ userId: 'admin-1', email: 'admin@example.com', roles: ['ADMIN'], permissions: [] });
+
+  async function impersonate(body: Record<string, unknown> = { reason: 'Ticket #42' }) {
+    const res = await request(app)
+      .post('/api/admin/impersonate/user-1')
+      .set('Authorization', admin())
+      .send(body);
+    expect(res.status).toBe(201);
+    return `Bearer ${res.body.accessToken}`;
+  }
+
+  beforeEach(() => {
+    jwt = new JwtService();
+    audit = new AuditLogService();
+    const db = {
+      user: {
+        findUnique: vi.fn(
+          async ({ where }: { where: { id: string } }) =>
+            users.find((u) => u.id === where.id) ?? null
+        ),
+      },
+    };
+    const authorization = new AuthorizationService(
+      undefined,
+      undefined,
+      undefined,
+      new InMemoryRbacStore()
+    );
+    const logger = { info: vi.fn(), error: vi.fn() } as unknown as LoggerService;
+
+    container.register(JwtService, { useValue: jwt });
+    container.register(AuditLogService, { useValue: audit });
+    container.register(AuthorizationService, { useValue: authorization });
+    container.register(AccessTokenDenylistService, {
+      useValue: new AccessTokenDenylistService(new CacheService(logger), jwt),
+    });
+    container.register(ImpersonationService, {
+      useValue: new ImpersonationService(
+        db as unknown as DatabaseService,
+        jwt,
+        authorization,
+        new PolicyEngine()
+      ),
+    });
+    app = makeApp();
+  });
+
+  it('is admin only and requires a reason', async () => {
+    await request(app).post('/api/admin/impersonate/user-1').send({ reason: 'Ticket' }).expect(401);
+    await request(app)
+      .post('/api/admin/impersonate/user-1')
+      .set(
+        'Authorization',
+        bearer({ userId: 'user-2', email: 'u2@example.com', roles: ['USER'], permissions: [] })
+      )
+      .send({ reason: 'Ticket' })
+      .expect(403);
+    await request(app)
+      .post('/api/admin/impersonate/user-1')
+      .set('Authorization', admin())
+      .send({})
+      .expect(400);
+  });
+
+  it('issues a time-boxed token naming the admin and the user, and audits it', async () => {
+    const res = await request(app)
+      .post('/api/admin/impersonate/user-1')
+      .set('Authorization', admin())
+      .send({ reason: 'Ticket #42' });
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ readOnly: true, subject: { id: 'user-1' } });
+    expect(res.body.expiresIn).toBeLessThanOrEqual(jwt.getAccessTokenTtl());
+    expect(([] as string[]).concat(res.headers['set-cookie'] ?? [])[0]).toMatch(/^access_token=/);
+
+    const claims = await jwt.validateAccessToken(res.body.accessToken);
+    expect(claims).toMatchObject({
+      userId: 'user-1',
+      actorId: 'admin-1',
+      subjectId: 'user-1',
+      readOnly: true,
+      roles: ['USER'],
+    });
+    expect(claims.exp - claims.iat).toBe(res.body.expiresIn);
+
+    const [log] = await audit.getLogs({ action: AuditAction.IMPERSONATION_STARTED });
+    expect(log).toMatchObject({
+      userId: 'admin-1',
+      resourceId: 'user-1',
+      success: true,
+      metadata: expect.objectContaining({ reason: 'Ticket #42', readOnly: true }),
+    });
+  });
+
+  it('refuses unknown users, admins and self-impersonation', async () => {
+    const start = (id: string) =>
+      request(app)
+        .post(`/api/admin/impersonate/${id}`)
+        .set('Authorization', admin())
+        .send({ reason: 'Ticket' });
+
+    expect((await start('missing')).status).toBe(404);
+    expect((await start('admin-2')).status).toBe(403);
+    expect((await start('admin-1')).status).toBe(403);
+
+    const logs = await audit.getLogs({ action: AuditAction.IMPERSONATION_STARTED });
+    expect(logs).toHaveLength(3);
+    expect(logs.every((log) => !log.success)).toBe(true);
+  });
+
+  it('is read-only by default and audits every request', async () => {
+    const token = await impersonate();
+
+    const read = await request(app).get('/api/things').set('Authorization', token);
+    expect(read.status).toBe(200);
+    expect(read.body.userId).toBe('user-1');
+
+    const write = await request(app).post('/api/things').set('Authorization', token);
+    expect(write.status).toBe(403);
+    expect(write.body.impersonation).toBe(true);
+
+    const logs = await audit.getLogs({ action: AuditAction.IMPERSONATED_REQUEST });
+    expect(logs.map((log) => [log.userId, log.resourceId, log.success])).toEqual([
+      ['admin-1', 'user-1', true],
+      ['admin-1', 'user-1', false],
+    ]);
+  });
+
+  it('allows writes when requested, but never credential changes', async () => {
+    const token = await impersonate({ reason: 'Reproduce checkout bug', readOnly: false });
+
+    await request(app).post('/api/things').set('Authorization', token).expect(200);
+    await request(app).post('/api/auth/change-password').set('Authorization', token).expect(403);
+    // Routes match case-insensitively, so the policy must too
+    await request(app).post('/API/AUTH/change-password').set('Authorization', token).expect(403);
+    // Routers that guard credentials reject impersonated writes themselves
+    await request(app).post('/api/account/password').set('Authorization', token).expect(403);
+    await request(app).post('/api/account/password').set('Authorization', admin()).expect(200);
+  });
+
+  it('ends the impersonation by revoking its token', async () => {
+    const token = await impersonate();
+
+    const res = await request(app).delete('/api/admin/impersonate').set('Authorization', token);
+    expect(res.status).toBe(200);
+    expect(await audit.getLogs({ action: AuditAction.IMPERSONATION_ENDED })).toHaveLength(1);
+
+    await request(app).get('/api/things').set('Authorization', token).expect(401);
+    await request(app).delete('/api/admin/impersonate').set('Authorization', admin()).expect(400);
+  });
+});
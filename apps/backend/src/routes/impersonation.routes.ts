@@ -0,0 +1,153 @@
+import { Router, type Request, type Response } from 'express';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+
+import { requireRole } from '../middleware/auth.middleware';
+import { AuditAction, AuditLogService } from '../services/audit/audit-log.service';
+import { AccessTokenDenylistService } from '../services/auth/access-token-denylist.service';
+import { ImpersonationService } from '../services/auth/impersonation.service';
+import { getFirstString } from '../utils/request-values';
+
+const router: import('express').Router = Router();
+
+const startImpersonationSchema = z
+  .object({
+    reason: z.string().trim().min(3).max(500),
+    readOnly: z.boolean().default(true),
+  })
+  .strict();
+
+async function auditImpersonation(
+  req: Request,
+  params: {
+    actorId: string;
+    action: AuditAction;
+    subjectId: string;
+    success: boolean;
+    errorMessage?: string;
+    metadata?: Record<string, unknown>;
+  }
+): Promise<void> {
+  const { actorId, subjectId, ...entry } = params;
+  try {
+    await container.resolve(AuditLogService).log({
+      ...entry,
+      userId: actorId,
+      resource: 'user',
+      resourceId: subjectId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+  } catch {
+    // Audit logging is optional - continue on error
+  }
+}
+
+/**
+ * POST /api/admin/impersonate/:userId
+ * Body: { reason, readOnly? }
+ * Admin only; starts acting as the user. The impersonation token is set as the access token
+ * cookie and returned; it expires after IMPERSONATION_TTL seconds (at most the access token
+ * lifetime) and is read-only unless `readOnly: false` is given.
+ */
+router.post(
+  '/:userId',
+  requireRole('admin'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const actor = req.user!;
+      const subjectId = getFirstString(req.params['userId']);
+
+      const parsed = startImpersonationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        res
+          .status(400)
+          .json({ error: 'Invalid impersonation payload', details: parsed.error.issues });
+        return;
+      }
+      const { reason, readOnly } = parsed.data;
+
+      const result = await container
+        .resolve(ImpersonationService)
+        .start(actor, subjectId, { readOnly });
+
+      if (result.status !== 'started') {
+        await auditImpersonation(req, {
+          actorId: actor.actorId ?? actor.userId,
+          action: AuditAction.IMPERSONATION_STARTED,
+          subjectId,
+          success: false,
+          errorMessage: result.status === 'forbidden' ? result.error : 'User not found',
+          metadata: { reason, readOnly },
+        });
+        if (result.status === 'not_found') {
+          res.status(404).json({ error: 'User not found' });
+        } else {
+          res.status(403).json({ error: result.error });
+        }
+        return;
+      }
+
+      await auditImpersonation(req, {
+        actorId: actor.userId,
+        action: AuditAction.IMPERSONATION_STARTED,
+        subjectId,
+        success: true,
+        metadata: { reason, readOnly, expiresIn: result.expiresIn },
+      });
+
+      res.cookie('access_token', result.accessToken, {
+        httpOnly: true,
+        secure: process.env['NODE_ENV'] === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: result.expiresIn * 1000,
+      });
+      res.status(201).json({
+        accessToken: result.accessToken,
+        tokenType: 'Bearer',
+        expiresIn: result.expiresIn,
+        readOnly,
+        subject: result.subject,
+      });
+    } catch (err) {
+      console.error('Start impersonation error', err);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/impersonate
+ * Requires an impersonation token; revokes it and clears the access token cookie. The
+ * admin's own session resumes with the next token refresh.
+ */
+router.delete('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    if (!user.actorId || !user.subjectId) {
+      res.status(400).json({ error: 'Not impersonating' });
+      return;
+    }
+
+    await container.resolve(AccessTokenDenylistService).revokeToken(user);
+    await auditImpersonation(req, {
+      actorId: user.actorId,
+      action: AuditAction.IMPERSONATION_ENDED,
+      subjectId: user.subjectId,
+      success: true,
+    });
+
+    res.clearCookie('access_token', { path: '/' });
+    res.status(200).json({ success: true });
+  } catch (err) {
+    console.error('End impersonation error', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,198 @@
+import 'reflect-metadata';
+
+import {
+  AttributeSource,
+  CombiningAlgorithm,
+  ComparisonOperator,
+  LogicalOperator,
+  PolicyEffect,
+} from '@repo/types';
+import express, { type Request, type Response } from 'express';
+import request from 'supertest';
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { InMemoryAuditLogStore } from '../services/audit/audit-log-store.service';
+import { InMemoryPolicyStore } from '../services/auth/policy-store.service';
+import { InMemoryRbacStore } from '../services/auth/rbac-store.service';
+
+import router from './policy-admin.routes';
+
+const adminUser: Request['user'] = {
+  userId: 'admin',
+  email: 'admin@example.com',
+  roles: ['ADMIN'],
+  permissions: [],
+  iat: 0,
+  exp: 0,
+};
+
+const hrPolicy = {
+  name: 'HR Employee Access',
+  version: '1.0.0',
+  enabled: false,
+  target: { resources: ['employee'], actions: ['read'] },
+  rules: [
+    {
+      id: 'hr-rule',
+      conditions: {
+        operator: LogicalOperator.AND,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.USER, key: 'department' },
+            operator: ComparisonOperator.EQUALS,
+            value: 'HR',
+          },
+        ],
+      },
+      effect: PolicyEffect.ALLOW,
+    },
+    {
+      id: 'contractor-rule',
+      conditions: {
+        operator: LogicalOperator.AND,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.USER, key: 'contractor' },
+            operator: ComparisonOperator.EQUALS,
+            value: true,
+          },
+        ],
+      },
+      effect: PolicyEffect.DENY,
+      priority: 10,
+    },
+  ],
+};
+
+function makeAppWithUser(user: Request['user'] | undefined) {
+  const app = express();
+  app.use(express.json());
+
+  // Minimal middleware to simulate auth
+  app.use((req: Request, _res: Response, next) => {
+    req.user = user;
+    next();
+  });
+
+  app.use('/api/admin/policies', router);
+  return app;
+}
+
+describe('unit: /api/admin/policies', () => {
+  let store: InMemoryPolicyStore;
+
+  beforeEach(() => {
+    store = new InMemoryPolicyStore();
+    container.register('PolicyStore', { useValue: store });
+    container.register('RbacStore', { useValue: new InMemoryRbacStore() });
+    container.register('AuditLogStore', { useValue: new InMemoryAuditLogStore() });
+  });
+
+  it('returns 401 when unauthenticated', async () => {
+    const res = await request(makeAppWithUser(undefined)).get('/api/admin/policies');
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 403 when non-admin', async () => {
+    const res = await request(makeAppWithUser({ ...adminUser!, roles: ['USER'] })).get(
+      '/api/admin/policies'
+    );
+    expect(res.status).toBe(403);
+  });
+
+  it('creates, reads, updates and deletes a policy', async () => {
+    const app = makeAppWithUser(adminUser);
+
+    const created = await request(app).post('/api/admin/policies').send(hrPolicy);
+    expect(created.status).toBe(201);
+    expect(created.body.createdBy).toBe('admin');
+    const id = created.body.id as string;
+
+    const list = await request(app).get('/api/admin/policies');
+    expect(list.body.data).toHaveLength(1);
+
+    const updated = await request(app)
+      .patch(`/api/admin/policies/${id}`)
+      .send({ enabled: true, version: '1.1.0' });
+    expect(updated.status).toBe(200);
+    expect(updated.body.enabled).toBe(true);
+
+    const removed = await request(app).delete(`/api/admin/policies/${id}`);
+    expect(removed.status).toBe(204);
+
+    const missing = await request(app).get(`/api/admin/policies/${id}`);
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects malformed policies', async () => {
+    const res = await request(makeAppWithUser(adminUser))
+      .post('/api/admin/policies')
+      .send({ ...hrPolicy, rules: [] });
+    expect(res.status).toBe(400);
+  });
+
+  it('dry-runs a disabled stored policy and returns the rule trace', async () => {
+    const policy = await store.createPolicy(hrPolicy);
+
+    const res = await request(makeAppWithUser(adminUser))
+      .post('/api/admin/policies/evaluate')
+      .send({
+        policyIds: [policy.id],
+        context: {
+          user: { id: 'u1', department: 'HR', contractor: true },
+          resource: { type: 'employee' },
+          action: 'read',
+        },
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.dryRun).toBe(true);
+    expect(res.body.effect).toBe(PolicyEffect.DENY);
+    expect(res.body.policies).toHaveLength(1);
+    expect(res.body.policies[0].rules).toEqual([
+      { ruleId: 'contractor-rule', effect: PolicyEffect.DENY, priority: 10, matched: true },
+      { ruleId: 'hr-rule', effect: PolicyEffect.ALLOW, priority: 0, matched: true },
+    ]);
+
+    // Dry runs never change the stored policy
+    expect((await store.getPolicy(policy.id))?.enabled).toBe(false);
+  });
+
+  it('evaluates unsaved draft policies', async () => {
+    const res = await request(makeAppWithUser(adminUser))
+      .post('/api/admin/policies/evaluate')
+      .send({
+        policies: [hrPolicy],
+        context: {
+          user: { id: 'u1', department: 'HR' },
+          resource: { type: 'employee' },
+          action: 'read',
+        },
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.effect).toBe(PolicyEffect.ALLOW);
+    expect(res.body.matchedRules).toEqual(['hr-rule']);
+    expect(res.body.policies[0].policyId).toBe('draft-1');
+  });
+
+  it('applies a combining algorithm override to the dry run', async () => {
+    const res = await request(makeAppWithUser(adminUser))
+      .post('/api/admin/policies/evaluate')
+      .send({
+        policies: [{ ...hrPolicy, combiningAlgorithm: CombiningAlgorithm.PERMIT_OVERRIDES }],
+        combiningAlgorithm: CombiningAlgorithm.FIRST_APPLICABLE,
+        context: {
+          user: { id: 'u1', department: 'HR', contractor: true },
+          resource: { type: 'employee' },
+          action: 'read',
+        },
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.combiningAlgorithm).toBe(CombiningAlgorithm.FIRST_APPLICABLE);
+    expect(res.body.effect).toBe(PolicyEffect.ALLOW);
+    expect(res.body.policies[0].combiningAlgorithm).toBe(CombiningAlgorithm.PERMIT_OVERRIDES);
+  });
+});
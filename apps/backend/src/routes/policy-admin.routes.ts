@@ -0,0 +1,368 @@
+import {
+  AttributeSource,
+  CombiningAlgorithm,
+  ComparisonOperator,
+  type IPolicyStore,
+  type LogicalCondition,
+  LogicalOperator,
+  type Policy,
+  PolicyEffect,
+} from '@repo/types';
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { container } from 'tsyringe';
+import { z } from 'zod';
+
+import { requireRole } from '../middleware/auth.middleware';
+import { AuditAction, AuditLogService } from '../services/audit/audit-log.service';
+import { PolicyEngine } from '../services/auth/policy-engine.service';
+import { getFirstString, getOptionalString } from '../utils/request-values';
+
+const router: import('express').Router = Router();
+
+const conditionSchema = z
+  .object({
+    attribute: z.object({
+      source: z.enum(AttributeSource),
+      key: z.string().trim().min(1),
+    }),
+    operator: z.enum(ComparisonOperator),
+    value: z.unknown(),
+  })
+  .strict();
+
+const logicalConditionSchema: z.ZodType<LogicalCondition> = z.lazy(() =>
+  z
+    .object({
+      operator: z.enum(LogicalOperator),
+      conditions: z.array(z.union([logicalConditionSchema, conditionSchema])),
+    })
+    .strict()
+);
+
+const obligationSchema = z
+  .object({
+    type: z.string().trim().min(1).max(64),
+    params: z.record(z.string(), z.unknown()).optional(),
+  })
+  .strict();
+
+const ruleSchema = z
+  .object({
+    id: z.string().trim().min(1).max(128),
+    description: z.string().max(1024).optional(),
+    conditions: logicalConditionSchema,
+    effect: z.enum(PolicyEffect),
+    priority: z.number().int().optional(),
+    obligations: z.array(obligationSchema).max(20).optional(),
+    advice: z.array(obligationSchema).max(20).optional(),
+  })
+  .strict();
+
+export const policyDefinitionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(256),
+    description: z.string().max(2048).optional(),
+    version: z.string().trim().min(1).max(32),
+    enabled: z.boolean(),
+    priority: z.number().int().optional(),
+    combiningAlgorithm: z.enum(CombiningAlgorithm).optional(),
+    target: z
+      .object({
+        resources: z.array(z.string().trim().min(1)).optional(),
+        actions: z.array(z.string().trim().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
+    rules: z.array(ruleSchema).min(1),
+    tags: z.array(z.string().trim().min(1).max(64)).optional(),
+  })
+  .strict();
+
+const policyUpdateSchema = policyDefinitionSchema.partial();
+
+const evaluateBodySchema = z
+  .object({
+    context: z
+      .object({
+        user: z.record(z.string(), z.unknown()),
+        resource: z.record(z.string(), z.unknown()),
+        environment: z.record(z.string(), z.unknown()).default({}),
+        action: z.string().trim().min(1),
+      })
+      .strict(),
+    // Evaluate specific stored policies (including disabled ones) ...
+    policyIds: z.array(z.string().min(1)).max(100).optional(),
+    // ... or unsaved draft policies
+    policies: z.array(policyDefinitionSchema).max(100).optional(),
+    // Override the configured policy-combining algorithm for this evaluation
+    combiningAlgorithm: z.enum(CombiningAlgorithm).optional(),
+  })
+  .strict();
+
+function getPolicyStore(): IPolicyStore {
+  return container.resolve<IPolicyStore>('PolicyStore');
+}
+
+async function auditPolicyChange(
+  req: Request,
+  action: AuditAction,
+  policyId: string,
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  try {
+    await container.resolve(AuditLogService).log({
+      userId: req.user?.userId,
+      action,
+      resource: 'abac_policy',
+      resourceId: policyId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      success: true,
+      metadata,
+    });
+  } catch {
+    // Audit logging is optional - continue on error
+  }
+}
+
+// All policy administration is restricted to admins
+router.use(requireRole('admin'));
+
+/**
+ * @swagger
+ * /api/admin/policies/evaluate:
+ *   post:
+ *     summary: Dry-run ABAC policy evaluation
+ *     description: >
+ *       Evaluates policies against the supplied context and returns the decision with a
+ *       per-policy, per-rule trace. Nothing is enforced or persisted. Without `policyIds`
+ *       or `policies`, the stored policies applicable to the context are evaluated.
+ *       `combiningAlgorithm` overrides the configured policy-combining algorithm.
+ *     tags: [Policies]
+ *     responses:
+ *       200:
+ *         description: Decision and evaluation trace
+ *       400:
+ *         description: Invalid evaluation payload
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post('/evaluate', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = evaluateBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid evaluation payload', details: parsed.error.issues });
+      return;
+    }
+
+    const { context, policyIds, policies: drafts, combiningAlgorithm } = parsed.data;
+    const store = getPolicyStore();
+    let policies: Policy[] = [];
+
+    if (policyIds || drafts) {
+      for (const id of policyIds ?? []) {
+        const policy = await store.getPolicy(id);
+        if (!policy) {
+          res.status(404).json({ error: 'Not Found', message: `Policy not found: ${id}` });
+          return;
+        }
+        // Dry runs evaluate disabled policies as if they were enabled
+        policies.push({ ...policy, enabled: true });
+      }
+
+      const now = new Date();
+      (drafts ?? []).forEach((draft, index) => {
+        policies.push({
+          ...draft,
+          id: `draft-${index + 1}`,
+          enabled: true,
+          createdAt: now,
+          updatedAt: now,
+        });
+      });
+    } else {
+      policies = await store.findApplicablePolicies(context);
+    }
+
+    const trace = await container
+      .resolve(PolicyEngine)
+      .explainPolicies(policies, context, { combiningAlgorithm });
+
+    res.setHeader('cache-control', 'no-store');
+    res.status(200).json({ dryRun: true, ...trace });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/policies:
+ *   get:
+ *     summary: List ABAC policies
+ *     tags: [Policies]
+ *     parameters:
+ *       - in: query
+ *         name: enabled
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tags (matches any)
+ *     responses:
+ *       200:
+ *         description: Policies
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const enabledParam = getOptionalString(req.query['enabled']);
+    const tagsParam = getOptionalString(req.query['tags']);
+
+    const policies = await getPolicyStore().listPolicies({
+      enabled: enabledParam === undefined ? undefined : enabledParam === 'true',
+      tags: tagsParam
+        ?.split(',')
+        .map((t) => t.trim())
+        .filter(Boolean),
+    });
+
+    res.status(200).json({ data: policies });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/policies/{id}:
+ *   get:
+ *     summary: Get an ABAC policy
+ *     tags: [Policies]
+ *     responses:
+ *       200:
+ *         description: Policy
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const policy = await getPolicyStore().getPolicy(getFirstString(req.params['id']));
+    if (!policy) {
+      res.status(404).json({ error: 'Not Found', message: 'Policy not found' });
+      return;
+    }
+
+    res.status(200).json(policy);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/policies:
+ *   post:
+ *     summary: Create an ABAC policy
+ *     tags: [Policies]
+ *     responses:
+ *       201:
+ *         description: Created policy
+ *       400:
+ *         description: Invalid policy payload
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = policyDefinitionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid policy payload', details: parsed.error.issues });
+      return;
+    }
+
+    const policy = await getPolicyStore().createPolicy({
+      ...parsed.data,
+      createdBy: req.user?.userId,
+    });
+    await auditPolicyChange(req, AuditAction.CREATE, policy.id, { version: policy.version });
+
+    res.status(201).json(policy);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/policies/{id}:
+ *   patch:
+ *     summary: Update an ABAC policy
+ *     description: Partial update; `rules` and `tags` replace the existing lists when provided.
+ *     tags: [Policies]
+ *     responses:
+ *       200:
+ *         description: Updated policy
+ *       400:
+ *         description: Invalid policy payload
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = getFirstString(req.params['id']);
+    const parsed = policyUpdateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid policy payload', details: parsed.error.issues });
+      return;
+    }
+
+    const store = getPolicyStore();
+    const existing = await store.getPolicy(id);
+    if (!existing) {
+      res.status(404).json({ error: 'Not Found', message: 'Policy not found' });
+      return;
+    }
+
+    const policy = await store.updatePolicy(id, parsed.data);
+    await auditPolicyChange(req, AuditAction.UPDATE, id, {
+      fields: Object.keys(parsed.data),
+      version: policy.version,
+    });
+
+    res.status(200).json(policy);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/policies/{id}:
+ *   delete:
+ *     summary: Delete an ABAC policy
+ *     tags: [Policies]
+ *     responses:
+ *       204:
+ *         description: Policy deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = getFirstString(req.params['id']);
+    const deleted = await getPolicyStore().deletePolicy(id);
+    if (!deleted) {
+      res.status(404).json({ error: 'Not Found', message: 'Policy not found' });
+      return;
+    }
+
+    await auditPolicyChange(req, AuditAction.DELETE, id);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
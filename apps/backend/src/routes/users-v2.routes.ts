@@ -16,12 +16,15 @@ import { getFirstString } from '../utils/request-values';
 
 const router: import('express').Router = Router();
 
+// Emails are stored encrypted, so sorting by them would order by ciphertext
+const SORTABLE_FIELDS = ['name', 'role', 'createdAt', 'updatedAt', 'lastLoginAt'];
+
 /**
  * @swagger
  * /api/users:
  *   get:
  *     summary: List all users with pagination
- *     description: Retrieve a paginated list of users with filtering and sorting
+ *     description: Retrieve a paginated list of users with filtering and sorting (by name, role, createdAt, updatedAt or lastLoginAt)
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -37,10 +40,10 @@ const router: import('express').Router = Router();
  *           enum: [USER, ADMIN]
  *         description: Filter by role
  *       - in: query
- *         name: filter[email][contains]
+ *         name: filter[email][eq]
  *         schema:
  *           type: string
- *         description: Filter by email (case-insensitive)
+ *         description: Filter by exact email (emails are stored encrypted, so only equality filters are supported)
  *     responses:
  *       200:
  *         description: Successful response
@@ -59,6 +62,8 @@ const router: import('express').Router = Router();
  *                     $ref: '#/components/schemas/HATEOASLink'
  *                 _meta:
  *                   $ref: '#/components/schemas/PaginationMeta'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
@@ -85,6 +90,10 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
     const { page, pageSize, sort } = getPaginationParams(req);
     const filters = parseFilters(req.query);
     const sorting = parseSorting(sort);
+    const unsortable = sorting.find(({ field }) => !SORTABLE_FIELDS.includes(field));
+    if (unsortable) {
+      return res.status(400).json({ error: `Cannot sort users by '${unsortable.field}'` });
+    }
     const { skip, take } = getSkipTake(page, pageSize);
 
     // Build Prisma where clause
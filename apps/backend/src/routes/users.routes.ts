@@ -2,6 +2,7 @@ import { Router, type Request, type Response } from 'express';
 import { container } from 'tsyringe';
 
 import { AuditLogService } from '../services/audit/audit-log.service';
+import { AccessTokenDenylistService } from '../services/auth/access-token-denylist.service';
 import { AuthorizationService } from '../services/auth/authorization.service';
 import { DatabaseService } from '../services/database.service';
 import { getFirstString } from '../utils/request-values';
@@ -123,7 +124,6 @@ router.patch('/:id', async (req: Request, res: Response): Promise<void> => {
   try {
     const db = container.resolve(DatabaseService);
     const authz = container.resolve<AuthorizationService>('AuthorizationService');
-    const audit = container.resolve<AuditLogService>('AuditLogService');
 
     const userId = req.user?.userId;
     const id = getFirstString(req.params['id']);
@@ -160,17 +160,6 @@ router.patch('/:id', async (req: Request, res: Response): Promise<void> => {
       },
     });
 
-    await audit.log({
-      userId,
-      action: 'UPDATE',
-      resource: 'user',
-      resourceId: id,
-      ipAddress: req.ip,
-      userAgent: req.get('user-agent'),
-      metadata: { fields: Object.keys({ name, image }) },
-      success: true,
-    });
-
     res.json(user);
     return;
   } catch (error) {
@@ -186,7 +175,6 @@ router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
   try {
     const db = container.resolve(DatabaseService);
     const authz = container.resolve<AuthorizationService>('AuthorizationService');
-    const audit = container.resolve<AuditLogService>('AuditLogService');
 
     const userId = req.user?.userId;
     const id = getFirstString(req.params['id']);
@@ -211,16 +199,8 @@ router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
     await db.user.delete({
       where: { id },
     });
-
-    await audit.log({
-      userId,
-      action: 'DELETE',
-      resource: 'user',
-      resourceId: id,
-      ipAddress: req.ip,
-      userAgent: req.get('user-agent'),
-      success: true,
-    });
+    // Tokens already issued to the deleted user must stop working now, not when they expire
+    await container.resolve(AccessTokenDenylistService).revokeUser(id);
 
     res.status(204).send();
     return;
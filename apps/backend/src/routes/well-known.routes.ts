@@ -0,0 +1,17 @@
+import { Router, type Request, type Response } from 'express';
+import { container } from 'tsyringe';
+
+import { JwtService } from '../services/auth/jwt.service';
+
+const router: import('express').Router = Router();
+
+/**
+ * GET /.well-known/jwks.json
+ * Public keys for verifying our access tokens; retired keys stay listed during rotation
+ */
+router.get('/jwks.json', (_req: Request, res: Response): void => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.status(200).json(container.resolve(JwtService).getJwks());
+});
+
+export default router;
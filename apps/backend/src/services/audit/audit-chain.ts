@@ -0,0 +1,136 @@
+import { createHash } from 'crypto';
+
+/**
+ * The fields of an audit log row covered by its hash
+ */
+export interface ChainedAuditRecord {
+  sequence: number;
+  createdAt: Date;
+  userId: string | null;
+  action: string;
+  resource: string;
+  resourceId: string | null;
+  status: string;
+  errorMessage: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: unknown;
+  previousHash: string | null;
+}
+
+/**
+ * Why verification rejected a row
+ * - hash_mismatch: the row's fields no longer match its hash (it was edited)
+ * - previous_hash_mismatch: the row does not link to the row before it (a row before it
+ *   was replaced or the chain was spliced)
+ * - sequence_gap: rows before it are missing
+ */
+export type AuditChainBreakReason = 'hash_mismatch' | 'previous_hash_mismatch' | 'sequence_gap';
+
+export interface AuditChainBreak {
+  id: string;
+  sequence: number;
+  reason: AuditChainBreakReason;
+}
+
+export interface AuditChainReport {
+  checked: number;
+  // Rows removed by retention, linked through their tombstones
+  archived: number;
+  breaks: AuditChainBreak[];
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal values serialize identically
+ * whatever order a JSON column returns their keys in
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 (hex) over a row's fields and the hash of the row before it
+ */
+export function computeAuditHash(record: ChainedAuditRecord): string {
+  return createHash('sha256')
+    .update(
+      canonicalJson([
+        record.sequence,
+        record.createdAt.toISOString(),
+        record.userId,
+        record.action,
+        record.resource,
+        record.resourceId,
+        record.status,
+        record.errorMessage,
+        record.ipAddress,
+        record.userAgent,
+        record.metadata ?? null,
+        record.previousHash,
+      ])
+    )
+    .digest('hex');
+}
+
+/**
+ * Walks audit log rows in sequence order and reports every break in the chain
+ * Feed it rows batch by batch with check() (and tombstones of archived rows, in sequence
+ * order with the rows, with archived()), then read report().
+ */
+export class AuditChainVerifier {
+  private previous: { sequence: number; hash: string } | null = null;
+  private checked = 0;
+  private archivedCount = 0;
+  private readonly breaks: AuditChainBreak[] = [];
+
+  check(row: ChainedAuditRecord & { id: string; hash: string }): void {
+    this.checked++;
+    const { id, sequence } = row;
+
+    if (computeAuditHash(row) !== row.hash) {
+      this.breaks.push({ id, sequence, reason: 'hash_mismatch' });
+    }
+    this.link(row);
+  }
+
+  /**
+   * A row removed by retention: its contents are in the archive, so only its links in the
+   * chain can be checked here (breaks are reported with id "archived-<sequence>")
+   */
+  archived(tombstone: { sequence: number; hash: string; previousHash: string | null }): void {
+    this.archivedCount++;
+    this.link({ ...tombstone, id: `archived-${tombstone.sequence}` });
+  }
+
+  report(): AuditChainReport {
+    return { checked: this.checked, archived: this.archivedCount, breaks: [...this.breaks] };
+  }
+
+  private link(row: {
+    id: string;
+    sequence: number;
+    hash: string;
+    previousHash: string | null;
+  }): void {
+    const { id, sequence } = row;
+
+    if (this.previous && sequence !== this.previous.sequence + 1) {
+      this.breaks.push({ id, sequence, reason: 'sequence_gap' });
+    } else if (this.previous && row.previousHash !== this.previous.hash) {
+      this.breaks.push({ id, sequence, reason: 'previous_hash_mismatch' });
+    } else if (!this.previous && sequence === 1 && row.previousHash !== null) {
+      this.breaks.push({ id, sequence, reason: 'previous_hash_mismatch' });
+    }
+
+    this.previous = { sequence, hash: row.hash };
+  }
+}
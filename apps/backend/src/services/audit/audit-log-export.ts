@@ -0,0 +1,60 @@
+import type { AuditLogRecord } from '@repo/types';
+
+export const AUDIT_LOG_EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+} as const;
+
+const CSV_COLUMNS = [
+  'sequence',
+  'id',
+  'timestamp',
+  'userId',
+  'action',
+  'resource',
+  'resourceId',
+  'success',
+  'errorMessage',
+  'ipAddress',
+  'userAgent',
+  'metadata',
+] as const;
+
+function csvCell(value: unknown): string {
+  let text =
+    value === undefined || value === null
+      ? ''
+      : value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value);
+
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV header line for audit log exports
+ */
+export function auditLogCsvHeader(): string {
+  return `${CSV_COLUMNS.join(',')}\r\n`;
+}
+
+/**
+ * An audit log record as a CSV line (metadata as JSON)
+ */
+export function toAuditLogCsvRow(record: AuditLogRecord): string {
+  // eslint-disable-next-line security/detect-object-injection -- columns are a fixed list of record fields
+  return `${CSV_COLUMNS.map((column) => csvCell(record[column])).join(',')}\r\n`;
+}
+
+/**
+ * An audit log record as an NDJSON line
+ */
+export function toAuditLogNdjsonLine(record: AuditLogRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
@@ -0,0 +1,119 @@
+import { AuditLogEntry, IAuditLogForwarder } from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { LoggerService } from '../logger.service';
+
+const BATCH_SIZE = 100;
+const FLUSH_INTERVAL_MS = 1000;
+const RETRY_DELAY_MS = 5000;
+// Per forwarder; the oldest entries are dropped beyond this (they remain in the audit log)
+const MAX_PENDING = 10000;
+
+/**
+ * Ships audit log entries to the configured forwarders (AUDIT_LOG_FORWARDERS, see
+ * audit-log-forwarder.factory.ts), e.g. a SIEM
+ *
+ * Entries are batched per forwarder and sent in the background, so a slow or unavailable
+ * receiver never delays the request that logged them. Failed batches are retried; the
+ * audit log store stays the system of record.
+ */
+@injectable()
+export class AuditLogForwardingService {
+  private readonly pending = new Map<IAuditLogForwarder, AuditLogEntry[]>();
+  private readonly inFlight = new Map<IAuditLogForwarder, Promise<void>>();
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    @inject('AuditLogForwarders') private readonly forwarders: IAuditLogForwarder[],
+    @inject(LoggerService) private readonly logger: LoggerService
+  ) {
+    forwarders.forEach((forwarder) => this.pending.set(forwarder, []));
+  }
+
+  get enabled(): boolean {
+    return this.forwarders.length > 0;
+  }
+
+  /**
+   * Queue an entry for every forwarder
+   */
+  enqueue(entry: AuditLogEntry): void {
+    let full = false;
+
+    for (const [forwarder, entries] of this.pending) {
+      entries.push(entry);
+      if (entries.length > MAX_PENDING) {
+        entries.splice(0, entries.length - MAX_PENDING);
+        this.logger.warn('Audit log forwarder is falling behind, dropping oldest entries', {
+          forwarder: forwarder.name,
+        });
+      }
+      full = full || entries.length >= BATCH_SIZE;
+    }
+
+    if (full) {
+      void this.flush();
+    } else {
+      this.schedule(FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Send everything queued so far
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.forwarders.map((forwarder) => this.flushForwarder(forwarder)));
+  }
+
+  /**
+   * Flush and release the forwarders (shutdown)
+   */
+  async close(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.flush();
+    await Promise.all(this.forwarders.map((forwarder) => forwarder.close?.() ?? Promise.resolve()));
+  }
+
+  private flushForwarder(forwarder: IAuditLogForwarder): Promise<void> {
+    const running = this.inFlight.get(forwarder);
+    if (running) {
+      return running;
+    }
+
+    const run = this.drain(forwarder).finally(() => this.inFlight.delete(forwarder));
+    this.inFlight.set(forwarder, run);
+    return run;
+  }
+
+  private async drain(forwarder: IAuditLogForwarder): Promise<void> {
+    const entries = this.pending.get(forwarder)!;
+
+    while (entries.length > 0) {
+      const batch = entries.splice(0, BATCH_SIZE);
+      try {
+        await forwarder.forward(batch);
+      } catch (error) {
+        entries.unshift(...batch);
+        this.logger.warn('Audit log forwarding failed, will retry', {
+          forwarder: forwarder.name,
+          pending: entries.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        this.schedule(RETRY_DELAY_MS);
+        return;
+      }
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.flush();
+    }, delay);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,161 @@
+import type { AuditLogCondition, AuditLogQuery, AuditLogQueryField } from '@repo/types';
+
+import { parseFilters, type FilterParams, type SortParams } from '../../utils/query-helpers';
+
+type Operator = AuditLogCondition['operator'];
+
+interface FieldSpec {
+  operators: readonly Operator[];
+  // Converts a query string value to the field's type; undefined when invalid
+  parse: (value: string) => unknown;
+  sortable: boolean;
+}
+
+const parseString = (value: string): string | undefined => (value === '' ? undefined : value);
+
+const parseSequence = (value: string): number | undefined =>
+  /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : undefined;
+
+const parseDate = (value: string): Date | undefined => {
+  const date = new Date(value);
+  return value === '' || Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const parseBoolean = (value: string): boolean | undefined =>
+  value === 'true' ? true : value === 'false' ? false : undefined;
+
+const RANGE: readonly Operator[] = ['gt', 'gte', 'lt', 'lte'];
+
+const FIELDS: Record<AuditLogQueryField, FieldSpec> = {
+  sequence: { operators: ['eq', 'ne', 'in', ...RANGE], parse: parseSequence, sortable: true },
+  timestamp: { operators: RANGE, parse: parseDate, sortable: true },
+  userId: { operators: ['eq', 'ne', 'in'], parse: parseString, sortable: true },
+  action: { operators: ['eq', 'ne', 'in', 'startsWith'], parse: parseString, sortable: true },
+  resource: { operators: ['eq', 'ne', 'in', 'startsWith'], parse: parseString, sortable: true },
+  resourceId: { operators: ['eq', 'ne', 'in'], parse: parseString, sortable: false },
+  success: { operators: ['eq'], parse: parseBoolean, sortable: false },
+  ipAddress: { operators: ['eq', 'ne', 'in'], parse: parseString, sortable: false },
+};
+
+const MAX_IN_VALUES = 100;
+
+// Query strings give strings; JSON bodies may also give numbers and booleans
+function isScalar(value: unknown): value is string | number | boolean {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isField(field: string): field is AuditLogQueryField {
+  return Object.prototype.hasOwnProperty.call(FIELDS, field);
+}
+
+export type AuditLogQueryParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * `filter[field][operator]=value` parameters of an audit log request
+ * Express 5's default (simple) query parser keeps the brackets in the keys, so they are
+ * collected here rather than in parseFilters: only parseAuditLogFilters checks every field and
+ * operator against an allowlist.
+ */
+export function auditLogFilterParams(query: Record<string, unknown>): FilterParams[] {
+  const filter: Record<string, Record<string, unknown>> = {};
+
+  for (const [key, value] of Object.entries(query)) {
+    const match = /^filter\[([^\]]+)\]\[([^\]]+)\]$/.exec(key);
+    if (match) {
+      const [, field, operator] = match as unknown as [string, string, string];
+      // eslint-disable-next-line security/detect-object-injection -- Checked by parseAuditLogFilters
+      filter[field] = { ...filter[field], [operator]: value };
+    }
+  }
+
+  return [...parseFilters(query), ...parseFilters({ filter })];
+}
+
+/**
+ * Validate `filter[field][operator]=value` filters (see parseFilters) against the audit log
+ * fields and convert their values
+ * `in` takes repeated parameters, a comma-separated list or (in JSON) an array.
+ */
+export function parseAuditLogFilters(
+  filters: FilterParams[]
+): AuditLogQueryParseResult<AuditLogCondition[]> {
+  const conditions: AuditLogCondition[] = [];
+
+  for (const { field, operator, value } of filters) {
+    if (!isField(field)) {
+      return { success: false, error: `Cannot filter audit logs by '${field}'` };
+    }
+    // eslint-disable-next-line security/detect-object-injection -- field is checked against FIELDS above
+    const spec = FIELDS[field];
+    if (!spec.operators.includes(operator as Operator)) {
+      return { success: false, error: `Operator '${operator}' is not supported for '${field}'` };
+    }
+
+    const raw = operator === 'in' ? [value].flat() : [value];
+    if (raw.length > MAX_IN_VALUES || !raw.every(isScalar)) {
+      return { success: false, error: `Invalid value for '${field}'` };
+    }
+    const values = raw
+      .flatMap((item) => (operator === 'in' ? String(item).split(',') : [String(item)]))
+      .map((item) => spec.parse(item.trim()));
+    if (values.length > MAX_IN_VALUES || values.some((item) => item === undefined)) {
+      return { success: false, error: `Invalid value for '${field}'` };
+    }
+
+    conditions.push({
+      field,
+      operator: operator as Operator,
+      value: operator === 'in' ? values : values[0],
+    });
+  }
+
+  return { success: true, data: conditions };
+}
+
+/**
+ * Validate `sort=field:order` (see parseSorting) against the sortable audit log fields
+ */
+export function parseAuditLogSorting(
+  sorts: SortParams[]
+): AuditLogQueryParseResult<NonNullable<AuditLogQuery['orderBy']>> {
+  const orderBy: NonNullable<AuditLogQuery['orderBy']> = [];
+
+  for (const { field, order } of sorts) {
+    // eslint-disable-next-line security/detect-object-injection -- field is checked by isField first
+    if (!isField(field) || !FIELDS[field].sortable) {
+      return { success: false, error: `Cannot sort audit logs by '${field}'` };
+    }
+    orderBy.push({ field, order });
+  }
+
+  return { success: true, data: orderBy };
+}
+
+/**
+ * Direction of the sequence ordering a query pages through with afterSequence
+ * Throws when the query sorts by anything else, since a sequence cursor cannot resume it
+ */
+export function cursorDirection(query: AuditLogQuery): 'asc' | 'desc' {
+  const orderBy = query.orderBy ?? [];
+  if (orderBy.some((sort) => sort.field !== 'sequence')) {
+    throw new Error('Cursor paging requires audit logs to be sorted by sequence only');
+  }
+  return orderBy[0]?.order ?? 'asc';
+}
+
+/**
+ * Opaque cursor pointing past an audit log record
+ */
+export function encodeAuditLogCursor(sequence: number): string {
+  return Buffer.from(`seq:${sequence}`).toString('base64url');
+}
+
+/**
+ * Sequence a cursor points past, or undefined when it is not a valid cursor
+ */
+export function decodeAuditLogCursor(cursor: string): number | undefined {
+  const match = /^seq:(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString('utf8'));
+  return match ? parseSequence(match[1]!) : undefined;
+}
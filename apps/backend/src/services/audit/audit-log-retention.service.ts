@@ -0,0 +1,124 @@
+import { gzipSync } from 'zlib';
+
+import { inject, injectable } from 'tsyringe';
+
+import { DatabaseService } from '../database.service';
+import { LoggerService } from '../logger.service';
+import { StorageService } from '../storage/storage.service';
+
+import {
+  earliestCutoff,
+  isExpired,
+  parseAuditRetention,
+  type AuditRetentionPolicy,
+} from './audit-retention';
+
+const ARCHIVE_BATCH_SIZE = 1000;
+
+export const AUDIT_LOG_ARCHIVE_FOLDER = 'archives/audit-logs';
+
+export interface AuditLogRetentionResult {
+  scanned: number;
+  archived: number;
+  files: string[];
+}
+
+/**
+ * Applies audit log retention (AUDIT_LOG_RETENTION_DAYS, see audit-retention.ts)
+ *
+ * Expired rows are written as gzip-compressed NDJSON to storage, then deleted. Each deleted
+ * row leaves a tombstone (sequence, hash, previous hash, archive path) so the hash chain
+ * still verifies, and the archived rows can be checked against it. The newest row is never
+ * removed: it is the head the next entry chains to.
+ */
+@injectable()
+export class AuditLogRetentionService {
+  private readonly policy: AuditRetentionPolicy;
+
+  constructor(
+    @inject(DatabaseService) private readonly db: DatabaseService,
+    @inject(StorageService) private readonly storage: StorageService,
+    @inject(LoggerService) private readonly logger: LoggerService
+  ) {
+    this.policy = parseAuditRetention(process.env['AUDIT_LOG_RETENTION_DAYS']);
+  }
+
+  getPolicy(): AuditRetentionPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Archive and delete every row past its retention period, one storage file per batch
+   */
+  async archiveExpired(
+    options: { batchSize?: number; now?: Date } = {}
+  ): Promise<AuditLogRetentionResult> {
+    const batchSize = options.batchSize ?? ARCHIVE_BATCH_SIZE;
+    const now = options.now ?? new Date();
+    const result: AuditLogRetentionResult = { scanned: 0, archived: 0, files: [] };
+
+    const head = await this.db.auditLog.findFirst({
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true },
+    });
+    if (!head) {
+      return result;
+    }
+
+    let afterSequence = 0;
+    for (;;) {
+      const rows = await this.db.auditLog.findMany({
+        where: {
+          sequence: { gt: afterSequence, lt: head.sequence },
+          createdAt: { lt: earliestCutoff(this.policy, now) },
+        },
+        orderBy: { sequence: 'asc' },
+        take: batchSize,
+      });
+      if (rows.length === 0) {
+        break;
+      }
+      result.scanned += rows.length;
+      afterSequence = rows[rows.length - 1]!.sequence;
+
+      const expired = rows.filter((row) => isExpired(this.policy, row.action, row.createdAt, now));
+      if (expired.length === 0) {
+        continue;
+      }
+
+      // Upload first: if the process stops before the delete, the next run archives the rows again
+      const first = expired[0]!.sequence;
+      const last = expired[expired.length - 1]!.sequence;
+      const ndjson = expired.map((row) => `${JSON.stringify(row)}\n`).join('');
+      const file = await this.storage.upload(gzipSync(ndjson), {
+        folder: AUDIT_LOG_ARCHIVE_FOLDER,
+        filename: `audit-logs-${first}-${last}-${now.getTime()}.ndjson.gz`,
+        contentType: 'application/gzip',
+      });
+
+      await this.db.$transaction([
+        this.db.auditLogTombstone.createMany({
+          data: expired.map((row) => ({
+            sequence: row.sequence,
+            hash: row.hash,
+            previousHash: row.previousHash,
+            archivePath: file.path,
+          })),
+          skipDuplicates: true,
+        }),
+        this.db.auditLog.deleteMany({ where: { id: { in: expired.map((row) => row.id) } } }),
+      ]);
+
+      result.archived += expired.length;
+      result.files.push(file.path);
+      this.logger.info('Archived expired audit log rows', {
+        path: file.path,
+        fromSequence: first,
+        toSequence: last,
+        count: expired.length,
+      });
+    }
+
+    return result;
+  }
+}
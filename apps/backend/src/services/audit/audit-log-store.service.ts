@@ -0,0 +1,152 @@
+import { randomUUID } from 'crypto';
+
+import {
+  AuditLogCondition,
+  AuditLogEntry,
+  AuditLogFilter,
+  AuditLogPage,
+  AuditLogQuery,
+  AuditLogQueryField,
+  AuditLogRecord,
+  IAuditLogStore,
+} from '@repo/types';
+import { injectable } from 'tsyringe';
+
+import { cursorDirection } from './audit-log-query';
+
+type Comparable = string | number | boolean | Date;
+
+function compareValues(a: Comparable, b: Comparable): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function fieldValue(record: AuditLogRecord, field: AuditLogQueryField): Comparable | undefined {
+  // eslint-disable-next-line security/detect-object-injection -- field is an AuditLogQueryField
+  return record[field];
+}
+
+// Same semantics as the Prisma store: records without the field never match
+function matches(record: AuditLogRecord, { field, operator, value }: AuditLogCondition): boolean {
+  const actual = fieldValue(record, field);
+  if (actual === undefined) {
+    return false;
+  }
+  const expected = value as Comparable;
+
+  switch (operator) {
+    case 'eq':
+      return compareValues(actual, expected) === 0;
+    case 'ne':
+      return compareValues(actual, expected) !== 0;
+    case 'gt':
+      return compareValues(actual, expected) > 0;
+    case 'gte':
+      return compareValues(actual, expected) >= 0;
+    case 'lt':
+      return compareValues(actual, expected) < 0;
+    case 'lte':
+      return compareValues(actual, expected) <= 0;
+    case 'in':
+      return (value as Comparable[]).some((item) => compareValues(actual, item) === 0);
+    case 'startsWith':
+      return String(actual).toLowerCase().startsWith(String(expected).toLowerCase());
+  }
+}
+
+/**
+ * In-memory audit log store for development and tests
+ * See PrismaAuditLogStore for the persistent, hash-chained implementation
+ */
+@injectable()
+export class InMemoryAuditLogStore implements IAuditLogStore {
+  private entries: AuditLogRecord[] = [];
+  private sequence = 0;
+
+  async append(entry: AuditLogEntry): Promise<void> {
+    this.entries.push({ ...entry, id: randomUUID(), sequence: ++this.sequence });
+  }
+
+  async find(filter?: AuditLogFilter): Promise<AuditLogEntry[]> {
+    let filtered = this.entries;
+
+    if (filter?.userId) {
+      filtered = filtered.filter((log) => log.userId === filter.userId);
+    }
+
+    if (filter?.action) {
+      filtered = filtered.filter((log) => log.action === filter.action);
+    }
+
+    if (filter?.resource) {
+      filtered = filtered.filter((log) => log.resource === filter.resource);
+    }
+
+    if (filter?.startDate) {
+      const startDate = filter.startDate;
+      filtered = filtered.filter((log) => log.timestamp >= startDate);
+    }
+
+    if (filter?.endDate) {
+      const endDate = filter.endDate;
+      filtered = filtered.filter((log) => log.timestamp <= endDate);
+    }
+
+    if (filter?.limit) {
+      filtered = filtered.slice(0, filter.limit);
+    }
+
+    return filtered;
+  }
+
+  async query(query: AuditLogQuery): Promise<AuditLogPage> {
+    const conditions = query.conditions ?? [];
+    const matching = this.entries.filter((record) =>
+      conditions.every((condition) => matches(record, condition))
+    );
+
+    const orderBy = query.orderBy ?? [];
+    const sorts = orderBy.some((sort) => sort.field === 'sequence')
+      ? orderBy
+      : [...orderBy, { field: 'sequence' as const, order: 'asc' as const }];
+    let records = [...matching].sort((a, b) => {
+      for (const { field, order } of sorts) {
+        const left = fieldValue(a, field);
+        const right = fieldValue(b, field);
+        // Missing values sort last, as nulls do in Postgres ascending order
+        const result =
+          left === undefined || right === undefined
+            ? Number(left === undefined) - Number(right === undefined)
+            : compareValues(left, right);
+        if (result !== 0) {
+          return order === 'desc' ? -result : result;
+        }
+      }
+      return 0;
+    });
+
+    if (query.afterSequence !== undefined) {
+      const after = query.afterSequence;
+      records =
+        cursorDirection(query) === 'asc'
+          ? records.filter((record) => record.sequence > after)
+          : records.filter((record) => record.sequence < after);
+    }
+
+    const offset = query.offset ?? 0;
+    return {
+      records: records.slice(offset, offset + query.limit),
+      hasMore: records.length > offset + query.limit,
+      total: query.withTotal ? matching.length : undefined,
+    };
+  }
+
+  /**
+   * Remove all entries (test helper)
+   */
+  clear(): void {
+    this.entries.length = 0;
+    this.sequence = 0;
+  }
+}
@@ -1,17 +1,15 @@
-import { injectable } from 'tsyringe';
-
-export interface AuditLogEntry {
-  timestamp: Date;
-  userId?: string;
-  action: string;
-  resource: string;
-  resourceId?: string;
-  ipAddress?: string;
-  userAgent?: string;
-  success: boolean;
-  errorMessage?: string;
-  metadata?: Record<string, unknown>;
-}
+import {
+  AuditLogEntry,
+  AuditLogFilter,
+  AuditLogPage,
+  AuditLogQuery,
+  IAuditLogStore,
+} from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { InMemoryAuditLogStore } from './audit-log-store.service';
+
+export type { AuditLogEntry } from '@repo/types';
 
 export enum AuditAction {
   // Authentication
@@ -21,6 +19,14 @@ export enum AuditAction {
   TOKEN_REFRESH = 'auth.token_refresh',
   PASSWORD_CHANGE = 'auth.password_change',
   PASSWORD_RESET = 'auth.password_reset',
+  PASSWORD_RESET_REQUESTED = 'auth.password_reset_requested',
+  REGISTER = 'auth.register',
+  EMAIL_VERIFIED = 'auth.email_verified',
+  MFA_ENABLED = 'auth.mfa_enabled',
+  MFA_DISABLED = 'auth.mfa_disabled',
+  MFA_FAILED = 'auth.mfa_failed',
+  API_KEY_CREATED = 'auth.api_key_created',
+  API_KEY_REVOKED = 'auth.api_key_revoked',
 
   // Authorization
   ACCESS_GRANTED = 'authz.access_granted',
@@ -40,34 +46,35 @@ export enum AuditAction {
   ENCRYPTION_KEY_ROTATION = 'security.key_rotation',
   SECRET_ACCESS = 'security.secret_access',
   SUSPICIOUS_ACTIVITY = 'security.suspicious_activity',
+  ACCOUNT_LOCKED = 'security.account_locked',
+  ACCOUNT_UNLOCKED = 'security.account_unlocked',
+  IMPERSONATION_STARTED = 'security.impersonation_started',
+  IMPERSONATION_ENDED = 'security.impersonation_ended',
+  IMPERSONATED_REQUEST = 'security.impersonated_request',
+  AUDIT_LOG_EXPORTED = 'security.audit_log_exported',
 }
 
 /**
  * Audit logging service for security events
- * In production, this would write to a secure audit log storage
+ * Entries go to the configured IAuditLogStore (AUDIT_LOG_STORE, see container.ts); the
+ * persistent store writes them to the hash-chained audit_logs table through a queue.
  */
 @injectable()
 export class AuditLogService {
-  private logs: AuditLogEntry[] = [];
+  private readonly store: IAuditLogStore;
+
+  constructor(@inject('AuditLogStore') store?: IAuditLogStore) {
+    this.store = store ?? new InMemoryAuditLogStore();
+  }
 
   /**
    * Log security event
    */
   async log(entry: Omit<AuditLogEntry, 'timestamp'>): Promise<void> {
-    const logEntry: AuditLogEntry = {
+    await this.store.append({
       ...entry,
       timestamp: new Date(),
-    };
-
-    this.logs.push(logEntry);
-
-    // In production:
-    // - Write to database with retention policy
-    // - Send to SIEM system
-    // - Trigger alerts for critical events
-    // - Ensure immutability of logs
-    // eslint-disable-next-line no-console -- Development audit log output (replace with proper logging in production)
-    console.log('[AUDIT]', JSON.stringify(logEntry));
+    });
   }
 
   /**
@@ -141,49 +148,22 @@ export class AuditLogService {
    * Clear in-memory logs (test helper)
    */
   clear(): void {
-    this.logs.length = 0;
+    if (this.store instanceof InMemoryAuditLogStore) {
+      this.store.clear();
+    }
   }
 
   /**
-   * Get audit logs (with pagination and filtering)
-   * In production, this would query from persistent storage
+   * Get audit logs (with pagination and filtering), oldest first
    */
-  async getLogs(filter?: {
-    userId?: string;
-    action?: string;
-    resource?: string;
-    startDate?: Date;
-    endDate?: Date;
-    limit?: number;
-  }): Promise<AuditLogEntry[]> {
-    let filtered = this.logs;
-
-    if (filter?.userId) {
-      filtered = filtered.filter((log) => log.userId === filter.userId);
-    }
-
-    if (filter?.action) {
-      filtered = filtered.filter((log) => log.action === filter.action);
-    }
-
-    if (filter?.resource) {
-      filtered = filtered.filter((log) => log.resource === filter.resource);
-    }
-
-    if (filter?.startDate) {
-      const startDate = filter.startDate;
-      filtered = filtered.filter((log) => log.timestamp >= startDate);
-    }
-
-    if (filter?.endDate) {
-      const endDate = filter.endDate;
-      filtered = filtered.filter((log) => log.timestamp <= endDate);
-    }
-
-    if (filter?.limit) {
-      filtered = filtered.slice(0, filter.limit);
-    }
+  async getLogs(filter?: AuditLogFilter): Promise<AuditLogEntry[]> {
+    return this.store.find(filter);
+  }
 
-    return filtered;
+  /**
+   * Get a page of audit log records (filtering, sorting, offset or cursor paging)
+   */
+  async queryLogs(query: AuditLogQuery): Promise<AuditLogPage> {
+    return this.store.query(query);
   }
 }
@@ -0,0 +1,86 @@
+import { AuditAction } from './audit-log.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Audit action categories: the prefix of each AuditAction ("auth", "authz", "data", "security")
+ */
+export const AUDIT_ACTION_CATEGORIES: readonly string[] = [
+  ...new Set(Object.values(AuditAction).map((action) => action.split('.')[0]!)),
+];
+
+/**
+ * Days audit log rows are kept, per action category
+ * `default` covers categories without their own entry and actions outside AuditAction.
+ */
+export type AuditRetentionPolicy = { default: number } & Partial<Record<string, number>>;
+
+export const DEFAULT_AUDIT_RETENTION: AuditRetentionPolicy = {
+  default: 365,
+  // Security events (key rotation, impersonation, lockouts) are kept for seven years
+  security: 7 * 365,
+};
+
+/**
+ * Parse AUDIT_LOG_RETENTION_DAYS, a JSON object of category -> days,
+ * e.g. {"default":365,"data":90,"security":2555}; unset categories keep their defaults
+ */
+export function parseAuditRetention(raw: string | undefined): AuditRetentionPolicy {
+  if (!raw) {
+    return { ...DEFAULT_AUDIT_RETENTION };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('AUDIT_LOG_RETENTION_DAYS must be a JSON object of category to days');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('AUDIT_LOG_RETENTION_DAYS must be a JSON object of category to days');
+  }
+
+  const policy: AuditRetentionPolicy = { ...DEFAULT_AUDIT_RETENTION };
+  for (const [category, days] of Object.entries(parsed)) {
+    if (category !== 'default' && !AUDIT_ACTION_CATEGORIES.includes(category)) {
+      throw new Error(
+        `Unknown audit action category in AUDIT_LOG_RETENTION_DAYS: ${category} (expected default, ${AUDIT_ACTION_CATEGORIES.join(', ')})`
+      );
+    }
+    if (!Number.isInteger(days) || (days as number) < 1) {
+      throw new Error(`AUDIT_LOG_RETENTION_DAYS.${category} must be a positive number of days`);
+    }
+    // eslint-disable-next-line security/detect-object-injection -- category is checked against the known categories above
+    policy[category] = days as number;
+  }
+  return policy;
+}
+
+/**
+ * Days rows with this action are kept
+ */
+export function retentionDays(policy: AuditRetentionPolicy, action: string): number {
+  const category = action.split('.')[0]!;
+  // eslint-disable-next-line security/detect-object-injection -- lookup in a policy object built by parseAuditRetention
+  return policy[category] ?? policy.default;
+}
+
+/**
+ * Whether a row recorded at createdAt with this action is past its retention period
+ */
+export function isExpired(
+  policy: AuditRetentionPolicy,
+  action: string,
+  createdAt: Date,
+  now: Date
+): boolean {
+  return createdAt.getTime() < now.getTime() - retentionDays(policy, action) * DAY_MS;
+}
+
+/**
+ * Rows recorded before this time may have expired (the shortest retention period)
+ */
+export function earliestCutoff(policy: AuditRetentionPolicy, now: Date): Date {
+  const shortest = Math.min(...Object.values(policy).filter((days) => days !== undefined));
+  return new Date(now.getTime() - shortest * DAY_MS);
+}
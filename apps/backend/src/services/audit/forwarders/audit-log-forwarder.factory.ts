@@ -0,0 +1,60 @@
+import type { IAuditLogForwarder } from '@repo/types';
+
+import { HttpAuditLogForwarder } from './http.forwarder';
+import { InMemoryAuditLogForwarder } from './in-memory.forwarder';
+import { SyslogCefForwarder } from './syslog-cef.forwarder';
+
+/**
+ * Build the audit log forwarders configured in the environment
+ *
+ * Environment Variables:
+ * - AUDIT_LOG_FORWARDERS: comma-separated list of syslog | http | memory (default: none)
+ *
+ * Syslog (CEF over TCP):
+ * - AUDIT_SYSLOG_HOST: Receiver host (required)
+ * - AUDIT_SYSLOG_PORT: Receiver port (default: 6514 with TLS, 601 without)
+ * - AUDIT_SYSLOG_TLS: true to connect over TLS (default: true)
+ *
+ * HTTP webhook:
+ * - AUDIT_WEBHOOK_URL: Endpoint receiving POSTed batches (required)
+ * - AUDIT_WEBHOOK_SECRET: HMAC secret for the X-Audit-Signature header
+ */
+export function createAuditLogForwarders(
+  env: NodeJS.ProcessEnv = process.env
+): IAuditLogForwarder[] {
+  const names = (env['AUDIT_LOG_FORWARDERS'] ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return [...new Set(names)].map((name): IAuditLogForwarder => {
+    switch (name) {
+      case 'syslog': {
+        const host = env['AUDIT_SYSLOG_HOST'];
+        if (!host) {
+          throw new Error('AUDIT_SYSLOG_HOST is required for the syslog audit log forwarder');
+        }
+        const useTls = env['AUDIT_SYSLOG_TLS'] !== 'false';
+        const port = Number(env['AUDIT_SYSLOG_PORT'] ?? (useTls ? 6514 : 601));
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+          throw new Error('AUDIT_SYSLOG_PORT must be a valid port number');
+        }
+        return new SyslogCefForwarder({ host, port, tls: useTls });
+      }
+
+      case 'http': {
+        const url = env['AUDIT_WEBHOOK_URL'];
+        if (!url) {
+          throw new Error('AUDIT_WEBHOOK_URL is required for the http audit log forwarder');
+        }
+        return new HttpAuditLogForwarder({ url, secret: env['AUDIT_WEBHOOK_SECRET'] });
+      }
+
+      case 'memory':
+        return new InMemoryAuditLogForwarder();
+
+      default:
+        throw new Error(`Unknown audit log forwarder: ${name} (expected syslog, http or memory)`);
+    }
+  });
+}
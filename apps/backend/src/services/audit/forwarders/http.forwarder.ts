@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+
+import type { AuditLogEntry, IAuditLogForwarder } from '@repo/types';
+
+export interface HttpAuditLogForwarderOptions {
+  url: string;
+  // Signs each request body (X-Audit-Signature: sha256=<hex HMAC>)
+  secret?: string;
+  // Request timeout in milliseconds
+  timeout?: number;
+}
+
+/**
+ * Forwards audit log entries to an HTTP endpoint (e.g. a SIEM HTTP event collector)
+ * Each batch is POSTed as JSON: { entries: [...] }.
+ */
+export class HttpAuditLogForwarder implements IAuditLogForwarder {
+  readonly name = 'http';
+
+  constructor(private readonly options: HttpAuditLogForwarderOptions) {}
+
+  async forward(entries: AuditLogEntry[]): Promise<void> {
+    const body = JSON.stringify({ entries });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'NextNodeApp-AuditLog/1.0',
+    };
+    if (this.options.secret) {
+      const hmac = crypto.createHmac('sha256', this.options.secret).update(body);
+      headers['X-Audit-Signature'] = `sha256=${hmac.digest('hex')}`;
+    }
+
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(this.options.timeout ?? 10000),
+    });
+    if (!response.ok) {
+      throw new Error(`Audit log forwarder responded with status ${response.status}`);
+    }
+  }
+}
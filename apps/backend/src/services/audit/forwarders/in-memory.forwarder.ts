@@ -0,0 +1,20 @@
+import type { AuditLogEntry, IAuditLogForwarder } from '@repo/types';
+
+/**
+ * Local stand-in for a SIEM: keeps forwarded entries in memory (development and tests)
+ */
+export class InMemoryAuditLogForwarder implements IAuditLogForwarder {
+  readonly name = 'memory';
+  readonly entries: AuditLogEntry[] = [];
+
+  async forward(entries: AuditLogEntry[]): Promise<void> {
+    this.entries.push(...entries);
+  }
+
+  /**
+   * Remove all entries (test helper)
+   */
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
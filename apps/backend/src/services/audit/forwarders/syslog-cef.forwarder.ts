@@ -0,0 +1,120 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+import type { AuditLogEntry, IAuditLogForwarder } from '@repo/types';
+
+export interface SyslogCefForwarderOptions {
+  host: string;
+  port: number;
+  tls?: boolean;
+  // Connect and write timeout in milliseconds
+  timeout?: number;
+  appName?: string;
+  hostname?: string;
+}
+
+// Syslog facility 10 (security/authorization messages)
+const FACILITY_AUTHPRIV = 10;
+
+const CEF_VENDOR = 'NextNodeApp';
+const CEF_PRODUCT = 'backend';
+const CEF_VERSION = '1.0';
+
+const escapeHeader = (value: string): string => value.replace(/[\\|]/g, (char) => `\\${char}`);
+
+const escapeExtension = (value: string): string =>
+  value.replace(/[\\=]/g, (char) => `\\${char}`).replace(/\r?\n|\r/g, '\\n');
+
+/**
+ * CEF severity (0-10): failed security events rank highest, routine successes lowest
+ */
+export function cefSeverity(entry: AuditLogEntry): number {
+  const security = entry.action.startsWith('security.');
+  if (!entry.success) {
+    return security ? 8 : 5;
+  }
+  return security ? 6 : 3;
+}
+
+/**
+ * An audit log entry as an ArcSight Common Event Format (CEF) message
+ */
+export function formatCef(entry: AuditLogEntry): string {
+  const extensions: Array<[string, string | number | undefined]> = [
+    ['rt', entry.timestamp.getTime()],
+    ['act', entry.action],
+    ['outcome', entry.success ? 'success' : 'failure'],
+    ['suid', entry.userId],
+    ['src', entry.ipAddress],
+    ['requestClientApplication', entry.userAgent],
+    ['cs1Label', 'resource'],
+    ['cs1', entry.resource],
+    ['cs2Label', entry.resourceId === undefined ? undefined : 'resourceId'],
+    ['cs2', entry.resourceId],
+    ['reason', entry.errorMessage],
+    ['cs3Label', entry.metadata === undefined ? undefined : 'metadata'],
+    ['cs3', entry.metadata === undefined ? undefined : JSON.stringify(entry.metadata)],
+  ];
+
+  const header = [
+    'CEF:0',
+    CEF_VENDOR,
+    CEF_PRODUCT,
+    CEF_VERSION,
+    entry.action,
+    entry.action,
+    String(cefSeverity(entry)),
+  ].map(escapeHeader);
+
+  const extension = extensions
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${escapeExtension(String(value))}`)
+    .join(' ');
+
+  return `${header.join('|')}|${extension}`;
+}
+
+/**
+ * Forwards audit log entries to a syslog receiver (e.g. a SIEM collector) as RFC 5424
+ * messages carrying CEF, over TCP or TLS with octet-counting framing (RFC 6587)
+ */
+export class SyslogCefForwarder implements IAuditLogForwarder {
+  readonly name = 'syslog';
+  private readonly hostname: string;
+  private readonly appName: string;
+
+  constructor(private readonly options: SyslogCefForwarderOptions) {
+    this.hostname = options.hostname ?? os.hostname();
+    this.appName = options.appName ?? CEF_PRODUCT;
+  }
+
+  /**
+   * An entry as a framed syslog message
+   */
+  formatMessage(entry: AuditLogEntry): string {
+    // notice (5) for successes, warning (4) for failures
+    const priority = FACILITY_AUTHPRIV * 8 + (entry.success ? 5 : 4);
+    const message = `<${priority}>1 ${entry.timestamp.toISOString()} ${this.hostname} ${this.appName} - audit - ${formatCef(entry)}`;
+    return `${Buffer.byteLength(message)} ${message}`;
+  }
+
+  async forward(entries: AuditLogEntry[]): Promise<void> {
+    const payload = entries.map((entry) => this.formatMessage(entry)).join('');
+    const { host, port, timeout = 10000 } = this.options;
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = this.options.tls
+        ? tls.connect({ host, port, servername: host })
+        : net.createConnection({ host, port });
+
+      socket.setTimeout(timeout, () => {
+        socket.destroy(new Error(`Syslog connection to ${host}:${port} timed out`));
+      });
+      socket.once('error', reject);
+      socket.once(this.options.tls ? 'secureConnect' : 'connect', () => {
+        socket.end(payload, () => resolve());
+      });
+    });
+  }
+}
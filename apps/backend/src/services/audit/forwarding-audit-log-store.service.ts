@@ -0,0 +1,36 @@
+import {
+  AuditLogEntry,
+  AuditLogFilter,
+  AuditLogPage,
+  AuditLogQuery,
+  IAuditLogStore,
+} from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { AuditLogForwardingService } from './audit-log-forwarding.service';
+
+/**
+ * Audit log store that also hands each recorded entry to the forwarders (SIEM)
+ * Wraps the configured store (AuditLogBackingStore, see container.ts); entries are forwarded
+ * only once the store accepted them.
+ */
+@injectable()
+export class ForwardingAuditLogStore implements IAuditLogStore {
+  constructor(
+    @inject('AuditLogBackingStore') private readonly store: IAuditLogStore,
+    @inject(AuditLogForwardingService) private readonly forwarding: AuditLogForwardingService
+  ) {}
+
+  async append(entry: AuditLogEntry): Promise<void> {
+    await this.store.append(entry);
+    this.forwarding.enqueue(entry);
+  }
+
+  async find(filter?: AuditLogFilter): Promise<AuditLogEntry[]> {
+    return this.store.find(filter);
+  }
+
+  async query(query: AuditLogQuery): Promise<AuditLogPage> {
+    return this.store.query(query);
+  }
+}
@@ -0,0 +1,211 @@
+import type { AuditLog, Prisma } from '@prisma/client';
+import {
+  AuditLogCondition,
+  AuditLogEntry,
+  AuditLogFilter,
+  AuditLogPage,
+  AuditLogQuery,
+  AuditLogQueryField,
+  AuditLogRecord,
+  IAuditLogStore,
+} from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { filtersToPrismaWhere } from '../../utils/query-helpers';
+import { DatabaseService } from '../database.service';
+
+import { AuditChainVerifier, computeAuditHash, type AuditChainReport } from './audit-chain';
+import { cursorDirection } from './audit-log-query';
+
+const VERIFY_BATCH_SIZE = 1000;
+
+const COLUMNS: Record<AuditLogQueryField, keyof AuditLog> = {
+  sequence: 'sequence',
+  timestamp: 'createdAt',
+  userId: 'userId',
+  action: 'action',
+  resource: 'resource',
+  resourceId: 'resourceId',
+  success: 'status',
+  ipAddress: 'ipAddress',
+};
+
+function toColumnValue(field: AuditLogQueryField, value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => toColumnValue(field, item));
+  }
+  return field === 'success' ? (value ? 'success' : 'failure') : value;
+}
+
+function toWhere(condition: AuditLogCondition): Prisma.AuditLogWhereInput {
+  const where = filtersToPrismaWhere([
+    {
+      field: COLUMNS[condition.field],
+      operator: condition.operator,
+      value: toColumnValue(condition.field, condition.value),
+    },
+  ]);
+  return where as Prisma.AuditLogWhereInput;
+}
+
+function toEntry(row: AuditLog): AuditLogEntry {
+  return {
+    timestamp: row.createdAt,
+    userId: row.userId ?? undefined,
+    action: row.action,
+    resource: row.resource,
+    resourceId: row.resourceId ?? undefined,
+    ipAddress: row.ipAddress ?? undefined,
+    userAgent: row.userAgent ?? undefined,
+    success: row.status === 'success',
+    errorMessage: row.errorMessage ?? undefined,
+    metadata: (row.metadata as Record<string, unknown> | null) ?? undefined,
+  };
+}
+
+function toRecord(row: AuditLog): AuditLogRecord {
+  return { ...toEntry(row), id: row.id, sequence: row.sequence };
+}
+
+/**
+ * Prisma-backed audit log store (audit_logs table)
+ *
+ * Rows form a hash chain: each carries the next sequence number, the hash of the row before
+ * it and a hash over its own fields (see audit-chain.ts). Appends are serialized with a
+ * transaction-level advisory lock so the chain stays linear across instances.
+ */
+@injectable()
+export class PrismaAuditLogStore implements IAuditLogStore {
+  constructor(@inject(DatabaseService) private readonly db: DatabaseService) {}
+
+  async append(entry: AuditLogEntry): Promise<void> {
+    // Stored as JSON, so hash the value as it will read back
+    const metadata =
+      entry.metadata === undefined
+        ? null
+        : (JSON.parse(JSON.stringify(entry.metadata)) as Prisma.InputJsonObject);
+
+    await this.db.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('audit_logs'))`;
+      const last = await tx.auditLog.findFirst({
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true, hash: true },
+      });
+
+      const record = {
+        sequence: (last?.sequence ?? 0) + 1,
+        createdAt: entry.timestamp,
+        userId: entry.userId ?? null,
+        action: entry.action,
+        resource: entry.resource,
+        resourceId: entry.resourceId ?? null,
+        status: entry.success ? 'success' : 'failure',
+        errorMessage: entry.errorMessage ?? null,
+        ipAddress: entry.ipAddress ?? null,
+        userAgent: entry.userAgent ?? null,
+        metadata,
+        previousHash: last?.hash ?? null,
+      };
+
+      await tx.auditLog.create({
+        data: { ...record, metadata: metadata ?? undefined, hash: computeAuditHash(record) },
+      });
+    });
+  }
+
+  async find(filter?: AuditLogFilter): Promise<AuditLogEntry[]> {
+    const rows = await this.db.auditLog.findMany({
+      where: {
+        userId: filter?.userId,
+        action: filter?.action,
+        resource: filter?.resource,
+        createdAt: { gte: filter?.startDate, lte: filter?.endDate },
+      },
+      orderBy: { sequence: 'asc' },
+      take: filter?.limit,
+    });
+    return rows.map(toEntry);
+  }
+
+  async query(query: AuditLogQuery): Promise<AuditLogPage> {
+    const where: Prisma.AuditLogWhereInput = { AND: (query.conditions ?? []).map(toWhere) };
+
+    const orderBy = query.orderBy ?? [];
+    const sorts = orderBy.some((sort) => sort.field === 'sequence')
+      ? orderBy
+      : [...orderBy, { field: 'sequence' as const, order: 'asc' as const }];
+    const cursor =
+      query.afterSequence === undefined
+        ? {}
+        : {
+            sequence:
+              cursorDirection(query) === 'asc'
+                ? { gt: query.afterSequence }
+                : { lt: query.afterSequence },
+          };
+
+    // One extra row tells whether there is another page
+    const [rows, total] = await Promise.all([
+      this.db.auditLog.findMany({
+        where: { AND: [where, cursor] },
+        orderBy: sorts.map((sort) => ({ [COLUMNS[sort.field]]: sort.order })),
+        skip: query.offset,
+        take: query.limit + 1,
+      }),
+      query.withTotal ? this.db.auditLog.count({ where }) : undefined,
+    ]);
+
+    return {
+      records: rows.slice(0, query.limit).map(toRecord),
+      hasMore: rows.length > query.limit,
+      total,
+    };
+  }
+
+  /**
+   * Recompute the hash chain over every row and report breaks
+   * Rows removed by retention are linked through their tombstones.
+   */
+  async verifyChain(batchSize: number = VERIFY_BATCH_SIZE): Promise<AuditChainReport> {
+    const verifier = new AuditChainVerifier();
+    let afterSequence = 0;
+
+    for (;;) {
+      const query = {
+        where: { sequence: { gt: afterSequence } },
+        orderBy: { sequence: 'asc' as const },
+        take: batchSize,
+      };
+      const [rows, tombstones] = await Promise.all([
+        this.db.auditLog.findMany(query),
+        this.db.auditLogTombstone.findMany(query),
+      ]);
+
+      // Sequences past the end of a full batch are read with the next one
+      const upTo = Math.min(
+        rows.length === batchSize ? rows[rows.length - 1]!.sequence : Infinity,
+        tombstones.length === batchSize ? tombstones[tombstones.length - 1]!.sequence : Infinity
+      );
+      const items = [
+        ...rows.map((row) => ({ sequence: row.sequence, row })),
+        ...tombstones.map((tombstone) => ({ sequence: tombstone.sequence, tombstone })),
+      ]
+        .filter((item) => item.sequence <= upTo)
+        .sort((a, b) => a.sequence - b.sequence);
+
+      for (const item of items) {
+        if ('row' in item) {
+          verifier.check(item.row);
+        } else {
+          verifier.archived(item.tombstone);
+        }
+      }
+      if (upTo === Infinity) {
+        break;
+      }
+      afterSequence = upTo;
+    }
+
+    return verifier.report();
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  AuditLogEntry,
+  AuditLogFilter,
+  AuditLogJobData,
+  AuditLogPage,
+  AuditLogQuery,
+  IAuditLogStore,
+  QueueName,
+} from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { LoggerService } from '../logger.service';
+import { QueueService } from '../queue/queue.service';
+
+import { PrismaAuditLogStore } from './prisma-audit-log-store.service';
+
+/**
+ * Audit log store that persists through the audit-log queue
+ *
+ * Appends only enqueue the entry, so requests do not wait for the hash-chained insert;
+ * AuditLogProcessor writes it with PrismaAuditLogStore. When the queue is unavailable
+ * (e.g. DISABLE_QUEUES=true) entries are written directly. Reads go to the database.
+ */
+@injectable()
+export class QueuedAuditLogStore implements IAuditLogStore {
+  constructor(
+    @inject(QueueService) private readonly queue: QueueService,
+    @inject(PrismaAuditLogStore) private readonly store: PrismaAuditLogStore,
+    @inject(LoggerService) private readonly logger: LoggerService
+  ) {}
+
+  async append(entry: AuditLogEntry): Promise<void> {
+    try {
+      await this.queue.addJob<AuditLogJobData>(QueueName.AUDIT_LOG, {
+        entry: { ...entry, timestamp: entry.timestamp.toISOString() },
+      });
+    } catch (error) {
+      this.logger.warn('Audit log queue unavailable, writing entry directly', { error });
+      await this.store.append(entry);
+    }
+  }
+
+  async find(filter?: AuditLogFilter): Promise<AuditLogEntry[]> {
+    return this.store.find(filter);
+  }
+
+  async query(query: AuditLogQuery): Promise<AuditLogPage> {
+    return this.store.query(query);
+  }
+}
@@ -0,0 +1,70 @@
+import type { TokenPayload } from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { CacheService } from '../cache.service';
+
+import { JwtService } from './jwt.service';
+
+const KEY_PREFIX = 'auth:denylist';
+
+/**
+ * Redis-backed denylist that revokes access tokens before they expire
+ *
+ * Single tokens are listed by `jti` (logout) and all tokens of a login session by its id
+ * (ending a session). When a user's roles change or the user is deleted, all of their
+ * outstanding tokens are revoked at once by recording the time in milliseconds: tokens
+ * issued at or before it are rejected. Entries expire with the tokens they cover.
+ */
+@injectable()
+export class AccessTokenDenylistService {
+  constructor(
+    @inject(CacheService) private readonly cache: CacheService,
+    @inject(JwtService) private readonly jwt: JwtService
+  ) {}
+
+  /**
+   * Revoke one access token until its expiry
+   */
+  async revokeToken(payload: Pick<TokenPayload, 'jti' | 'exp'>): Promise<void> {
+    const ttl = payload.exp - Math.floor(Date.now() / 1000);
+    if (!payload.jti || ttl <= 0) {
+      return;
+    }
+    await this.cache.set(`${KEY_PREFIX}:jti:${payload.jti}`, true, ttl);
+  }
+
+  /**
+   * Revoke every access token of a login session
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.cache.set(`${KEY_PREFIX}:session:${sessionId}`, true, this.jwt.getAccessTokenTtl());
+  }
+
+  /**
+   * Revoke every access token issued to the user until now
+   */
+  async revokeUser(userId: string): Promise<void> {
+    await this.cache.set(`${KEY_PREFIX}:user:${userId}`, Date.now(), this.jwt.getAccessTokenTtl());
+  }
+
+  /**
+   * Whether a verified access token has been revoked
+   */
+  async isRevoked(
+    payload: Pick<TokenPayload, 'userId' | 'jti' | 'sessionId' | 'iat' | 'iatMs'>
+  ): Promise<boolean> {
+    if (payload.jti && (await this.cache.get<boolean>(`${KEY_PREFIX}:jti:${payload.jti}`))) {
+      return true;
+    }
+    if (
+      payload.sessionId &&
+      (await this.cache.get<boolean>(`${KEY_PREFIX}:session:${payload.sessionId}`))
+    ) {
+      return true;
+    }
+
+    const revokedAt = await this.cache.get<number>(`${KEY_PREFIX}:user:${payload.userId}`);
+    // Tokens without `iatMs` predate it; treat them as issued at the start of their second
+    return revokedAt !== null && (payload.iatMs ?? payload.iat * 1000) <= revokedAt;
+  }
+}
@@ -0,0 +1,168 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+import type { ApiKey } from '@prisma/client';
+import type { TokenPayload } from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { DatabaseService } from '../database.service';
+
+import { AuthorizationService } from './authorization.service';
+
+/**
+ * Every key starts with this marker so that keys are recognisable in headers, logs and
+ * secret scanners. The full format is `pat_<8 hex id>_<43 char secret>`; `pat_<id>` is the
+ * public prefix stored in clear and shown in listings.
+ */
+export const API_KEY_PREFIX = 'pat_';
+const PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Avoid a write on every request
+
+/**
+ * API key as shown to its owner (never includes the key or its hash)
+ */
+export type ApiKeySummary = Pick<
+  ApiKey,
+  'id' | 'name' | 'prefix' | 'scopes' | 'expiresAt' | 'lastUsedAt' | 'createdAt' | 'revokedAt'
+>;
+
+const SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+  revokedAt: true,
+} as const;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: string[];
+  expiresInDays: number;
+}
+
+/**
+ * Whether a bearer credential is an API key rather than a JWT
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Long-lived, scoped API keys (personal access tokens) for machine clients
+ *
+ * Keys are looked up by their public prefix and compared by SHA-256 hash; the raw key is
+ * returned once at creation. A request made with a key acts as the key's owner, with the
+ * owner's current roles and permissions, limited to the key's scopes (see requirePermission).
+ */
+@injectable()
+export class ApiKeyService {
+  constructor(
+    @inject(DatabaseService) private readonly db: DatabaseService,
+    @inject(AuthorizationService) private readonly authorization: AuthorizationService
+  ) {}
+
+  /**
+   * Create a key and return it with its summary; the raw key cannot be retrieved again
+   */
+  async create(
+    userId: string,
+    input: CreateApiKeyInput
+  ): Promise<{ key: string; apiKey: ApiKeySummary }> {
+    const prefix = `${API_KEY_PREFIX}${randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await this.db.apiKey.create({
+      data: {
+        userId,
+        name: input.name,
+        prefix,
+        keyHash: this.hash(key),
+        scopes: input.scopes,
+        expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000),
+      },
+      select: SUMMARY_SELECT,
+    });
+
+    return { key, apiKey };
+  }
+
+  /**
+   * List a user's keys that have not been revoked, newest first
+   */
+  async list(userId: string): Promise<ApiKeySummary[]> {
+    return this.db.apiKey.findMany({
+      where: { userId, revokedAt: null },
+      select: SUMMARY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke one of the user's keys; returns false when no active key matched
+   */
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const { count } = await this.db.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Validate a raw key and build the request identity for it
+   * Throws for unknown, revoked or expired keys
+   */
+  async validateApiKey(key: string, ipAddress?: string): Promise<TokenPayload> {
+    const prefix = key.slice(0, PREFIX_LENGTH);
+    const record =
+      isApiKey(key) && key.charAt(PREFIX_LENGTH) === '_'
+        ? await this.db.apiKey.findUnique({
+            where: { prefix },
+            include: { user: { select: { email: true, role: true } } },
+          })
+        : null;
+
+    const now = new Date();
+    if (
+      !record ||
+      record.revokedAt ||
+      record.expiresAt <= now ||
+      !timingSafeEqual(Buffer.from(record.keyHash), Buffer.from(this.hash(key)))
+    ) {
+      throw new Error('Invalid or expired API key');
+    }
+
+    if (
+      !record.lastUsedAt ||
+      now.getTime() - record.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      await this.db.apiKey.update({
+        where: { id: record.id },
+        data: { lastUsedAt: now, lastUsedIp: ipAddress ?? null },
+      });
+    }
+
+    // Claims are resolved per request so that revoking a role also narrows the owner's keys
+    const { roles, permissions } = await this.authorization.getTokenClaims(
+      record.userId,
+      record.user.role
+    );
+
+    return {
+      userId: record.userId,
+      email: record.user.email,
+      roles,
+      permissions,
+      apiKeyId: record.id,
+      scopes: record.scopes,
+      iat: Math.floor(record.createdAt.getTime() / 1000),
+      exp: Math.floor(record.expiresAt.getTime() / 1000),
+    };
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -1,62 +1,69 @@
-import { AuthorizationContext, IAuthorizationService, Policy, PolicyContext } from '@repo/types';
+import {
+  AuthorizationContext,
+  AuthorizationDecision,
+  IAuthorizationService,
+  IPolicyStore,
+  IRbacStore,
+  ObligationType,
+  Policy,
+  PolicyContext,
+} from '@repo/types';
 import { inject, injectable } from 'tsyringe';
 
 import { AuditAction, AuditLogService } from '../audit/audit-log.service';
 
-import { PolicyEngine } from './policy-engine.service';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import { findObligations } from './obligations';
+import { hasMatchingPermission } from './permissions';
+import { PolicyDecisionService } from './policy-decision.service';
 import { InMemoryPolicyStore } from './policy-store.service';
+import { InMemoryRbacStore } from './rbac-store.service';
 
 /**
  * Authorization service for RBAC/ABAC
- * This is a basic implementation - in production, this would integrate with a database
+ * RBAC roles and permissions come from the configured RbacStore (Prisma-backed by default).
+ * Roles inherit the permissions of their parent roles, and granted permissions may be
+ * wildcard patterns (see matchesPermission).
+ * Changing a user's roles or revoking a permission revokes their outstanding access tokens,
+ * whose claims would otherwise keep the old grants until they expire.
  */
 @injectable()
 export class AuthorizationService implements IAuthorizationService {
-  // In-memory storage for demonstration
-  // In production, this would use a database
-  private userRoles: Map<string, Set<string>> = new Map();
-  private userPermissions: Map<string, Set<string>> = new Map();
-  private rolePermissions: Map<string, Set<string>> = new Map();
+  private readonly rbac: IRbacStore;
 
   constructor(
     @inject(AuditLogService) private audit?: AuditLogService,
-    @inject(PolicyEngine) private policyEngine?: PolicyEngine,
-    @inject(InMemoryPolicyStore) private policyStore?: InMemoryPolicyStore
+    @inject(PolicyDecisionService) private policyDecision?: PolicyDecisionService,
+    @inject('PolicyStore') private policyStore?: IPolicyStore,
+    @inject('RbacStore') rbacStore?: IRbacStore,
+    @inject(AccessTokenDenylistService) private denylist?: AccessTokenDenylistService
   ) {
-    // Initialize default role-permission mappings
-    this.initializeDefaultRoles();
-    // Initialize example ABAC policies
-    void this.policyStore?.initializeExamplePolicies();
+    this.rbac = rbacStore ?? new InMemoryRbacStore();
   }
 
   /**
-   * Check if user has required role
+   * Check if user has required role, directly or through a role that inherits it
    */
   async hasRole(userId: string, role: string): Promise<boolean> {
-    const roles = this.userRoles.get(userId);
-    return roles?.has(role) || false;
+    const roles = await this.getEffectiveRoles(await this.rbac.getUserRoles(userId));
+    return roles.includes(role);
   }
 
   /**
    * Check if user has required permission
+   * Direct and (inherited) role permissions may be patterns such as "users:*"
    */
   async hasPermission(userId: string, permission: string): Promise<boolean> {
     // Check direct permissions
-    const userPerms = this.userPermissions.get(userId);
-    if (userPerms?.has(permission)) {
+    const userPerms = await this.rbac.getUserPermissions(userId);
+    if (hasMatchingPermission(userPerms, permission)) {
       return true;
     }
 
-    // Check role-based permissions
-    const roles = await this.getUserRoles(userId);
-    for (const role of roles) {
-      const rolePerms = this.rolePermissions.get(role);
-      if (rolePerms?.has(permission)) {
-        return true;
-      }
-    }
-
-    return false;
+    // Check role-based permissions, including inherited roles
+    const roles = await this.getEffectiveRoles(await this.getUserRoles(userId));
+    const rolePerms = await this.rbac.getRolePermissions(roles);
+    return hasMatchingPermission(rolePerms, permission);
   }
 
   /**
@@ -123,6 +130,16 @@ export class AuthorizationService implements IAuthorizationService {
    * Check if user can access resource with full ABAC context
    */
   async canAccessWithContext(context: AuthorizationContext): Promise<boolean> {
+    const decision = await this.authorizeWithContext(context);
+    return decision.allowed;
+  }
+
+  /**
+   * Authorize with full ABAC context
+   * RBAC is checked first; when it denies, applicable ABAC policies decide and their
+   * obligations and advice are returned for the caller to enforce
+   */
+  async authorizeWithContext(context: AuthorizationContext): Promise<AuthorizationDecision> {
     // First, try RBAC with legacy canAccess method
     const rbacAllowed = await this.canAccess(
       context.userId,
@@ -131,24 +148,24 @@ export class AuthorizationService implements IAuthorizationService {
       context.attributes
     );
 
-    if (!rbacAllowed && this.policyEngine && this.policyStore) {
+    if (!rbacAllowed && this.policyDecision) {
       // If RBAC denies, try ABAC policies
-      const policies = await this.policyStore.findApplicablePolicies({
+      const policyContext: PolicyContext = {
         user: context.userAttributes || { id: context.userId },
-        resource: context.resourceAttributes || { type: context.resource },
+        resource: { type: context.resource, ...context.resourceAttributes },
         environment: context.environmentAttributes || {},
         action: context.action,
-      });
+      };
 
-      if (policies.length > 0) {
-        const policyContext: PolicyContext = {
-          user: context.userAttributes || { id: context.userId },
-          resource: context.resourceAttributes || { type: context.resource },
-          environment: context.environmentAttributes || {},
-          action: context.action,
-        };
+      // Compiled, cached evaluation; null when no policy targets this resource/action
+      const result = await this.policyDecision.decide(policyContext);
 
-        const result = await this.policyEngine.evaluatePolicies(policies, policyContext);
+      if (result) {
+        const obligations = result.obligations ?? [];
+        const advice = result.advice ?? [];
+        const severity = findObligations(obligations, ObligationType.AUDIT_SEVERITY)[0]?.params?.[
+          'severity'
+        ];
 
         // Log ABAC evaluation result
         try {
@@ -162,17 +179,32 @@ export class AuthorizationService implements IAuthorizationService {
               evaluationMethod: 'ABAC',
               matchedRules: result.matchedRules,
               reason: result.reason,
+              ...(obligations.length > 0 && { obligations: obligations.map((o) => o.type) }),
+              ...(severity !== undefined && { severity }),
             },
           });
         } catch {
           // Audit logging is optional - continue on error
         }
 
-        return result.effect === 'allow';
+        return {
+          allowed: result.effect === 'allow',
+          evaluationMethod: 'ABAC',
+          matchedRules: result.matchedRules,
+          reason: result.reason,
+          obligations,
+          advice,
+        };
       }
     }
 
-    return rbacAllowed;
+    return {
+      allowed: rbacAllowed,
+      evaluationMethod: 'RBAC',
+      matchedRules: [],
+      obligations: [],
+      advice: [],
+    };
   }
 
   /**
@@ -199,124 +231,124 @@ export class AuthorizationService implements IAuthorizationService {
    * Reset for tests
    */
   resetForTests(): void {
-    this.userRoles.clear();
-    this.userPermissions.clear();
-    this.rolePermissions.clear();
-    void this.policyStore?.reset();
-    this.initializeDefaultRoles();
+    if (this.rbac instanceof InMemoryRbacStore) {
+      void this.rbac.reset();
+    }
+    if (this.policyStore instanceof InMemoryPolicyStore) {
+      void this.policyStore.reset();
+    }
   }
 
   /**
    * Get user roles
    */
   async getUserRoles(userId: string): Promise<string[]> {
-    const roles = this.userRoles.get(userId);
-    return roles ? Array.from(roles) : [];
+    return this.rbac.getUserRoles(userId);
   }
 
   /**
-   * Get user permissions (direct + role-based)
+   * Get user permissions (direct + role-based, including inherited roles)
+   * Patterns are returned as granted; use matchesPermission to test them
    */
   async getUserPermissions(userId: string): Promise<string[]> {
-    const permissions = new Set<string>();
+    const roles = await this.getUserRoles(userId);
+    return this.collectPermissions(userId, roles);
+  }
 
-    // Add direct permissions
-    const userPerms = this.userPermissions.get(userId);
-    if (userPerms) {
-      userPerms.forEach((p) => permissions.add(p));
+  /**
+   * Expand roles with every role they inherit from, transitively
+   * The given roles come first; inheritance cycles are ignored
+   */
+  async getEffectiveRoles(roles: string[]): Promise<string[]> {
+    const effective = new Set(roles);
+    let pending = Array.from(effective);
+
+    while (pending.length > 0) {
+      const parents = await this.rbac.getRoleParents(pending);
+      pending = Object.values(parents)
+        .flat()
+        .filter((parent) => !effective.has(parent));
+      pending.forEach((parent) => effective.add(parent));
     }
 
-    // Add role-based permissions
-    const roles = await this.getUserRoles(userId);
-    for (const role of roles) {
-      const rolePerms = this.rolePermissions.get(role);
-      if (rolePerms) {
-        rolePerms.forEach((p) => permissions.add(p));
+    return Array.from(effective);
+  }
+
+  /**
+   * Resolve the role and permission claims embedded in access tokens
+   * `baseRole` is the User.role enum (e.g. "ADMIN"); it stays first in `roles` and
+   * contributes the permissions of the matching lowercase RBAC role
+   */
+  async getTokenClaims(
+    userId: string,
+    baseRole?: string
+  ): Promise<{ roles: string[]; permissions: string[] }> {
+    const assigned = await this.getUserRoles(userId);
+    const roles = baseRole ? [baseRole] : [];
+    for (const role of assigned) {
+      if (!roles.some((r) => r.toLowerCase() === role.toLowerCase())) {
+        roles.push(role);
       }
     }
 
-    return Array.from(permissions);
+    const rbacRoles = baseRole ? [baseRole.toLowerCase(), ...assigned] : assigned;
+    const permissions = await this.collectPermissions(userId, rbacRoles);
+    return { roles, permissions: permissions.sort() };
   }
 
   /**
    * Assign role to user
    */
   async assignRole(userId: string, role: string): Promise<void> {
-    const roles = this.userRoles.get(userId) || new Set();
-    roles.add(role);
-    this.userRoles.set(userId, roles);
+    await this.rbac.assignRole(userId, role);
+    await this.denylist?.revokeUser(userId);
   }
 
   /**
    * Revoke role from user
    */
   async revokeRole(userId: string, role: string): Promise<void> {
-    const roles = this.userRoles.get(userId);
-    if (roles) {
-      roles.delete(role);
-      if (roles.size === 0) {
-        this.userRoles.delete(userId);
-      }
-    }
+    await this.rbac.revokeRole(userId, role);
+    await this.denylist?.revokeUser(userId);
   }
 
   /**
    * Grant permission to user
    */
   async grantPermission(userId: string, permission: string): Promise<void> {
-    const perms = this.userPermissions.get(userId) || new Set();
-    perms.add(permission);
-    this.userPermissions.set(userId, perms);
+    await this.rbac.grantPermission(userId, permission);
   }
 
   /**
    * Revoke permission from user
    */
   async revokePermission(userId: string, permission: string): Promise<void> {
-    const perms = this.userPermissions.get(userId);
-    if (perms) {
-      perms.delete(permission);
-      if (perms.size === 0) {
-        this.userPermissions.delete(userId);
-      }
-    }
+    await this.rbac.revokePermission(userId, permission);
+    await this.denylist?.revokeUser(userId);
   }
 
   /**
-   * Initialize default role-permission mappings
+   * Set the roles a role inherits from
+   * Rejects inheritance that would make a role its own ancestor
    */
-  private initializeDefaultRoles(): void {
-    // Admin role
-    this.rolePermissions.set(
-      'admin',
-      new Set([
-        'users:create',
-        'users:read',
-        'users:update',
-        'users:delete',
-        'posts:create',
-        'posts:read',
-        'posts:update',
-        'posts:delete',
-        'settings:read',
-        'settings:update',
-      ])
-    );
-
-    // User role
-    this.rolePermissions.set(
-      'user',
-      new Set([
-        'posts:create',
-        'posts:read',
-        'posts:update:own',
-        'posts:delete:own',
-        'profile:read',
-        'profile:update',
-      ])
-    );
+  async setRoleParents(role: string, parents: string[]): Promise<void> {
+    const ancestors = await this.getEffectiveRoles(parents);
+    if (ancestors.includes(role)) {
+      throw new Error(`Role inheritance cycle: ${role} cannot inherit from itself`);
+    }
+    await this.rbac.setRoleParents(role, parents);
+  }
 
-    // Guest role
-    this.rolePermissions.set('guest', new Set(['posts:read', 'profile:read']));
+  /**
+   * Union of direct permissions and the permissions of the given roles and their ancestors
+   */
+  private async collectPermissions(userId: string, roles: string[]): Promise<string[]> {
+    const [direct, fromRoles] = await Promise.all([
+      this.rbac.getUserPermissions(userId),
+      this.getEffectiveRoles(Array.from(new Set(roles))).then((effective) =>
+        this.rbac.getRolePermissions(effective)
+      ),
+    ]);
+    return Array.from(new Set([...direct, ...fromRoles]));
   }
 }
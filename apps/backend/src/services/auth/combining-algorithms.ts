@@ -0,0 +1,97 @@
+import { CombiningAlgorithm, PolicyEffect, PolicyObligation } from '@repo/types';
+
+/**
+ * A single applicable input to a combining algorithm:
+ * a matched rule (rule combining) or a policy that reached a decision (policy combining)
+ */
+export interface CombinableDecision {
+  effect: PolicyEffect;
+  matchedRules: string[];
+  obligations?: PolicyObligation[];
+  advice?: PolicyObligation[];
+}
+
+/**
+ * Outcome of a combining algorithm
+ * Obligations and advice are collected from the decisions that produced the effect;
+ * `conflict` is set when only-one-applicable finds more than one applicable input
+ */
+export interface CombinedDecision {
+  effect: PolicyEffect;
+  matchedRules: string[];
+  obligations: PolicyObligation[];
+  advice: PolicyObligation[];
+  conflict?: boolean;
+}
+
+/**
+ * Combines applicable decisions (in evaluation order) into one decision,
+ * or returns null when nothing is applicable
+ */
+export type CombiningFunction = (decisions: CombinableDecision[]) => CombinedDecision | null;
+
+function merge(effect: PolicyEffect, decisions: CombinableDecision[]): CombinedDecision {
+  return {
+    effect,
+    matchedRules: decisions.flatMap((d) => d.matchedRules),
+    obligations: decisions.flatMap((d) => d.obligations ?? []),
+    advice: decisions.flatMap((d) => d.advice ?? []),
+  };
+}
+
+function overrides(winner: PolicyEffect, loser: PolicyEffect): CombiningFunction {
+  return (decisions) => {
+    for (const effect of [winner, loser]) {
+      const matching = decisions.filter((d) => d.effect === effect);
+      if (matching.length > 0) {
+        return merge(effect, matching);
+      }
+    }
+    return null;
+  };
+}
+
+export const COMBINING_ALGORITHMS: Record<CombiningAlgorithm, CombiningFunction> = {
+  [CombiningAlgorithm.DENY_OVERRIDES]: overrides(PolicyEffect.DENY, PolicyEffect.ALLOW),
+
+  [CombiningAlgorithm.PERMIT_OVERRIDES]: overrides(PolicyEffect.ALLOW, PolicyEffect.DENY),
+
+  [CombiningAlgorithm.FIRST_APPLICABLE]: (decisions) => {
+    const first = decisions[0];
+    return first ? merge(first.effect, [first]) : null;
+  },
+
+  [CombiningAlgorithm.ONLY_ONE_APPLICABLE]: (decisions) => {
+    if (decisions.length === 0) return null;
+    if (decisions.length > 1) {
+      // A conflict is an error, so none of the conflicting obligations apply
+      return {
+        effect: PolicyEffect.DENY,
+        matchedRules: decisions.flatMap((d) => d.matchedRules),
+        obligations: [],
+        advice: [],
+        conflict: true,
+      };
+    }
+    const only = decisions[0]!;
+    return merge(only.effect, [only]);
+  },
+};
+
+/**
+ * Check whether a value names a supported combining algorithm
+ */
+export function isCombiningAlgorithm(value: unknown): value is CombiningAlgorithm {
+  return Object.values(CombiningAlgorithm).includes(value as CombiningAlgorithm);
+}
+
+/**
+ * Combine decisions with the given algorithm
+ */
+export function combineDecisions(
+  algorithm: CombiningAlgorithm,
+  decisions: CombinableDecision[]
+): CombinedDecision | null {
+  // eslint-disable-next-line security/detect-object-injection -- Algorithm is a CombiningAlgorithm enum value
+  return COMBINING_ALGORITHMS[algorithm](decisions);
+}
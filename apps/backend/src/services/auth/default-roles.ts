@@ -0,0 +1,61 @@
+/**
+ * Default RBAC role: its own permissions and the roles it inherits from
+ */
+export interface DefaultRole {
+  permissions: string[];
+  inherits?: string[];
+}
+
+/**
+ * Default RBAC roles
+ * Loaded into the in-memory store and seeded into the database by `pnpm db:seed`.
+ * Roles inherit every permission of their parents (admin > moderator > user).
+ */
+export const DEFAULT_ROLES: Record<string, DefaultRole> = {
+  guest: {
+    permissions: ['posts:read', 'profile:read'],
+  },
+  user: {
+    permissions: [
+      'posts:create',
+      'posts:read',
+      'posts:update:own',
+      'posts:delete:own',
+      'profile:read',
+      'profile:update',
+    ],
+  },
+  moderator: {
+    inherits: ['user'],
+    permissions: ['posts:update', 'posts:delete', 'users:read'],
+  },
+  admin: {
+    inherits: ['moderator'],
+    permissions: ['users:*', 'posts:*', 'settings:*'],
+  },
+};
+
+/**
+ * Effective permissions of a default role, including inherited ones
+ * Used where no RBAC store is available (e.g. the development login fallback)
+ */
+export function getDefaultRolePermissions(role: string): string[] {
+  const permissions = new Set<string>();
+  const visited = new Set<string>();
+  const pending = [role];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (visited.has(current) || !Object.prototype.hasOwnProperty.call(DEFAULT_ROLES, current)) {
+      continue;
+    }
+    visited.add(current);
+
+    // eslint-disable-next-line security/detect-object-injection -- Own key of DEFAULT_ROLES
+    const definition = DEFAULT_ROLES[current]!;
+    definition.permissions.forEach((p) => permissions.add(p));
+    pending.push(...(definition.inherits ?? []));
+  }
+
+  return Array.from(permissions);
+}
@@ -0,0 +1,105 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * A version of the master key (key-encryption key) that wraps per-record data keys
+ */
+export interface EncryptionKey {
+  kid: string;
+  key: Buffer;
+}
+
+interface EncryptionKeyConfig {
+  kid?: unknown;
+  key?: unknown;
+}
+
+const KEY_LENGTH = 32; // AES-256
+const IV_LENGTH = 12; // GCM standard nonce
+const TAG_LENGTH = 16;
+const KEY_ID = /^[A-Za-z0-9][\w.-]{0,63}$/;
+
+/**
+ * Parse the ENCRYPTION_MASTER_KEYS secret: a JSON array of `{ kid, key }` entries with
+ * base64-encoded 32-byte keys
+ *
+ * The first entry wraps new data keys. The others are kept only to unwrap existing
+ * ciphertext until the re-encryption job has moved it to the first key, so rotation is:
+ * prepend a new key, let the job run, then drop the old key.
+ */
+export function parseEncryptionKeys(raw: string): EncryptionKey[] {
+  const entries: unknown = JSON.parse(raw);
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('Encryption master keys must be a non-empty JSON array');
+  }
+
+  const keys = entries.map((entry: EncryptionKeyConfig): EncryptionKey => {
+    if (typeof entry?.kid !== 'string' || !KEY_ID.test(entry.kid)) {
+      throw new Error('Every encryption master key needs a kid of letters, digits, ".", "_", "-"');
+    }
+    const key = typeof entry.key === 'string' ? Buffer.from(entry.key, 'base64') : undefined;
+    if (key?.length !== KEY_LENGTH) {
+      throw new Error(`Encryption master key ${entry.kid} must be ${KEY_LENGTH} base64 bytes`);
+    }
+    return { kid: entry.kid, key };
+  });
+
+  if (new Set(keys.map((key) => key.kid)).size !== keys.length) {
+    throw new Error('Encryption master key ids must be unique');
+  }
+  return keys;
+}
+
+/**
+ * Encrypt with AES-256-GCM; returns IV, auth tag and ciphertext
+ */
+export function sealAesGcm(
+  key: Buffer,
+  plaintext: Buffer
+): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+/**
+ * Decrypt and authenticate AES-256-GCM output of sealAesGcm
+ */
+export function openAesGcm(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  if (tag.length !== TAG_LENGTH) {
+    throw new Error('Invalid authentication tag');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Wrap a data key with a master key: IV, tag and encrypted key in one buffer
+ */
+export function wrapDataKey(masterKey: Buffer, dataKey: Buffer): Buffer {
+  const { iv, tag, ciphertext } = sealAesGcm(masterKey, dataKey);
+  return Buffer.concat([iv, tag, ciphertext]);
+}
+
+/**
+ * Unwrap a data key wrapped by wrapDataKey
+ */
+export function unwrapDataKey(masterKey: Buffer, wrapped: Buffer): Buffer {
+  if (wrapped.length !== IV_LENGTH + TAG_LENGTH + KEY_LENGTH) {
+    throw new Error('Invalid wrapped data key');
+  }
+  return openAesGcm(
+    masterKey,
+    wrapped.subarray(0, IV_LENGTH),
+    wrapped.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH),
+    wrapped.subarray(IV_LENGTH + TAG_LENGTH)
+  );
+}
+
+/**
+ * Random data key for one record
+ */
+export function generateDataKey(): Buffer {
+  return randomBytes(KEY_LENGTH);
+}
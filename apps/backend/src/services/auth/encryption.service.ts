@@ -1,60 +1,229 @@
 import crypto from 'node:crypto';
 
-import { IEncryptionService } from '@repo/types';
+import { IEncryptionService, type ISecretsManager } from '@repo/types';
 import bcrypt from 'bcrypt';
 import { injectable } from 'tsyringe';
 
+import {
+  generateDataKey,
+  openAesGcm,
+  parseEncryptionKeys,
+  sealAesGcm,
+  unwrapDataKey,
+  wrapDataKey,
+  type EncryptionKey,
+} from './encryption-keys';
+
+const DEFAULT_ENCRYPTION_KEY = 'default-key-please-change-in-production';
+const FORMAT_VERSION = 'v2';
+// Key id marking a key derived from a caller-supplied passphrase; the salt follows it
+const PASSPHRASE_KEY_PREFIX = '$';
+// Key id of the master key derived from ENCRYPTION_KEY, used until a keyring is loaded
+const DEFAULT_KEY_ID = 'default';
+
+interface Envelope {
+  kid: string;
+  wrappedKey: Buffer;
+  iv: Buffer;
+  tag: Buffer;
+  ciphertext: Buffer;
+}
+
+/**
+ * Derive a key the way ciphertext without a version (v1) was encrypted: a fixed salt
+ */
+function deriveLegacyKey(passphrase: string): Buffer {
+  return crypto.scryptSync(passphrase, 'salt', 32);
+}
+
+function parseEnvelope(encryptedData: string): Envelope | null {
+  const parts = encryptedData.split(':');
+  if (parts[0] !== FORMAT_VERSION) {
+    return null;
+  }
+  const [, kid, wrappedKey, iv, tag, ciphertext, ...rest] = parts;
+  if (!kid || !wrappedKey || !iv || !tag || ciphertext === undefined || rest.length > 0) {
+    throw new Error('Invalid encrypted data format');
+  }
+  return {
+    kid,
+    wrappedKey: Buffer.from(wrappedKey, 'base64url'),
+    iv: Buffer.from(iv, 'base64url'),
+    tag: Buffer.from(tag, 'base64url'),
+    ciphertext: Buffer.from(ciphertext, 'base64url'),
+  };
+}
+
+function formatEnvelope(envelope: Envelope): string {
+  return [
+    FORMAT_VERSION,
+    envelope.kid,
+    ...[envelope.wrappedKey, envelope.iv, envelope.tag, envelope.ciphertext].map((part) =>
+      part.toString('base64url')
+    ),
+  ].join(':');
+}
+
+/**
+ * Encryption, hashing and random tokens
+ *
+ * Data is encrypted with envelope encryption: each value gets its own random data key
+ * (AES-256-GCM), and that key is stored alongside it wrapped by a versioned master key.
+ * Ciphertext has the form `v2:<kid>:<wrapped key>:<iv>:<tag>:<ciphertext>` (base64url),
+ * so master keys can be rotated: the keyring (ENCRYPTION_MASTER_KEYS, see loadKeys) keeps
+ * older versions for decryption, and reencrypt() moves a value to the current key by
+ * rewrapping its data key. Ciphertext from before versioning (`iv:tag:ciphertext`, hex,
+ * key derived from ENCRYPTION_KEY) is still decrypted.
+ */
 @injectable()
 export class EncryptionService implements IEncryptionService {
-  private readonly algorithm: string = 'aes-256-gcm';
   private readonly defaultSaltRounds: number = 10;
-  private readonly encryptionKey: Buffer;
+  private readonly legacyKey: Buffer;
+  private keys: EncryptionKey[];
+  private blindIndexKey: Buffer;
 
   constructor() {
-    const key = process.env['ENCRYPTION_KEY'] || 'default-key-please-change-in-production';
-    // Derive a 32-byte key from the provided key
-    this.encryptionKey = crypto.scryptSync(key, 'salt', 32);
+    const key = process.env['ENCRYPTION_KEY'] || DEFAULT_ENCRYPTION_KEY;
+    this.legacyKey = deriveLegacyKey(key);
+    // Until keys are loaded, ENCRYPTION_KEY serves as the only master key and derives the
+    // blind index key
+    this.keys = [{ kid: DEFAULT_KEY_ID, key: this.legacyKey }];
+    this.blindIndexKey = crypto.scryptSync(key, 'blind-index', 32);
   }
 
   /**
-   * Encrypt plaintext data using AES-256-GCM
+   * Load the master keyring (ENCRYPTION_MASTER_KEYS, see parseEncryptionKeys) and the blind
+   * index key (ENCRYPTION_BLIND_INDEX_KEY, base64 32 bytes) from the secrets manager; call at
+   * startup and again after rotating master keys
+   * In production, both are required. The blind index key cannot be rotated without
+   * recomputing every blind index.
    */
-  async encrypt(data: string, key?: string): Promise<string> {
-    const encKey = key ? crypto.scryptSync(key, 'salt', 32) : this.encryptionKey;
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(this.algorithm, encKey, iv);
+  async loadKeys(secrets: ISecretsManager): Promise<void> {
+    const production = process.env['NODE_ENV'] === 'production';
+    const [raw, blindIndexKey] = await Promise.all(
+      ['ENCRYPTION_MASTER_KEYS', 'ENCRYPTION_BLIND_INDEX_KEY'].map((name) =>
+        secrets.getSecret(name).catch(() => undefined)
+      )
+    );
 
-    let encrypted = cipher.update(data, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
+    if (raw) {
+      const keys = parseEncryptionKeys(raw);
+      // Data encrypted before the keyring was configured stays readable (and is re-encrypted)
+      // unless the keyring defines its own 'default' key
+      this.keys = keys.some(({ kid }) => kid === DEFAULT_KEY_ID)
+        ? keys
+        : [...keys, { kid: DEFAULT_KEY_ID, key: this.legacyKey }];
+    } else if (production) {
+      throw new Error('ENCRYPTION_MASTER_KEYS must be configured in production');
+    }
 
-    const authTag = (cipher as crypto.CipherGCM).getAuthTag();
+    if (blindIndexKey) {
+      const key = Buffer.from(blindIndexKey, 'base64');
+      if (key.length !== 32) {
+        throw new Error('ENCRYPTION_BLIND_INDEX_KEY must be 32 base64 bytes');
+      }
+      this.blindIndexKey = key;
+    } else if (production) {
+      throw new Error('ENCRYPTION_BLIND_INDEX_KEY must be configured in production');
+    }
+  }
 
-    // Return IV + authTag + encrypted data (all hex encoded)
-    return iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
+  /**
+   * Id of the master key that wraps newly encrypted data
+   */
+  getCurrentKeyId(): string {
+    return this.keys[0]!.kid;
   }
 
   /**
-   * Decrypt encrypted data
+   * Master key id of a ciphertext, or null when it predates versioning
    */
-  async decrypt(encryptedData: string, key?: string): Promise<string> {
-    const encKey = key ? crypto.scryptSync(key, 'salt', 32) : this.encryptionKey;
-    const parts = encryptedData.split(':');
+  getKeyId(encryptedData: string): string | null {
+    return parseEnvelope(encryptedData)?.kid ?? null;
+  }
 
-    if (parts.length !== 3) {
-      throw new Error('Invalid encrypted data format');
+  /**
+   * Whether a string is versioned ciphertext produced by encrypt()
+   */
+  isEncrypted(data: string): boolean {
+    try {
+      return parseEnvelope(data) !== null;
+    } catch {
+      return false;
     }
+  }
 
-    const iv = Buffer.from(parts[0]!, 'hex');
-    const authTag = Buffer.from(parts[1]!, 'hex');
-    const encrypted = parts[2]!;
+  /**
+   * Keyed hash (HMAC-SHA256) of a value, for equality lookups of encrypted data
+   * `context` separates the indexes of different fields, so equal values in two fields do
+   * not produce the same hash.
+   */
+  blindIndex(value: string, context: string): string {
+    return crypto
+      .createHmac('sha256', this.blindIndexKey)
+      .update(`${context}\0${value}`, 'utf8')
+      .digest('base64url');
+  }
 
-    const decipher = crypto.createDecipheriv(this.algorithm, encKey, iv);
-    (decipher as crypto.DecipherGCM).setAuthTag(authTag);
+  /**
+   * Whether a ciphertext is not yet under the current master key
+   */
+  needsReencryption(encryptedData: string): boolean {
+    return this.getKeyId(encryptedData) !== this.getCurrentKeyId();
+  }
 
-    let decrypted: string = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
+  /**
+   * Encrypt plaintext data using a fresh AES-256-GCM data key
+   * The data key is wrapped by the current master key, or by a key derived from `key`
+   */
+  async encrypt(data: string, key?: string): Promise<string> {
+    const dataKey = generateDataKey();
+    const { iv, tag, ciphertext } = sealAesGcm(dataKey, Buffer.from(data, 'utf8'));
+    const master = key ? this.derivePassphraseKey(key) : this.keys[0]!;
 
-    return decrypted;
+    return formatEnvelope({
+      kid: master.kid,
+      wrappedKey: wrapDataKey(master.key, dataKey),
+      iv,
+      tag,
+      ciphertext,
+    });
+  }
+
+  /**
+   * Decrypt encrypted data of any supported version
+   */
+  async decrypt(encryptedData: string, key?: string): Promise<string> {
+    const envelope = parseEnvelope(encryptedData);
+    if (!envelope) {
+      return this.decryptLegacy(encryptedData, key ? deriveLegacyKey(key) : this.legacyKey);
+    }
+
+    const dataKey = unwrapDataKey(this.getMasterKey(envelope.kid, key), envelope.wrappedKey);
+    return openAesGcm(dataKey, envelope.iv, envelope.tag, envelope.ciphertext).toString('utf8');
+  }
+
+  /**
+   * Move a ciphertext to the current master key
+   * Versioned ciphertext keeps its data key, which is only rewrapped; older ciphertext is
+   * encrypted afresh. Returns the input unchanged when it is already current.
+   */
+  async reencrypt(encryptedData: string): Promise<string> {
+    const envelope = parseEnvelope(encryptedData);
+    if (!envelope) {
+      return this.encrypt(await this.decrypt(encryptedData));
+    }
+    if (envelope.kid === this.getCurrentKeyId()) {
+      return encryptedData;
+    }
+
+    const dataKey = unwrapDataKey(this.getMasterKey(envelope.kid), envelope.wrappedKey);
+    const current = this.keys[0]!;
+    return formatEnvelope({
+      ...envelope,
+      kid: current.kid,
+      wrappedKey: wrapDataKey(current.key, dataKey),
+    });
   }
 
   /**
@@ -85,4 +254,52 @@ export class EncryptionService implements IEncryptionService {
   async generateSecureRandom(length: number): Promise<string> {
     return crypto.randomBytes(length).toString('base64url');
   }
+
+  private getMasterKey(kid: string, passphrase?: string): Buffer {
+    if (kid.startsWith(PASSPHRASE_KEY_PREFIX)) {
+      if (!passphrase) {
+        throw new Error('This data was encrypted with an explicit key');
+      }
+      return this.derivePassphraseKey(passphrase, kid.slice(PASSPHRASE_KEY_PREFIX.length)).key;
+    }
+
+    const master = this.keys.find((candidate) => candidate.kid === kid);
+    if (!master) {
+      throw new Error(`Unknown encryption key: ${kid}`);
+    }
+    return master.key;
+  }
+
+  /**
+   * Key for a caller-supplied passphrase, with a random salt unless decrypting
+   */
+  private derivePassphraseKey(
+    passphrase: string,
+    salt: string = crypto.randomBytes(16).toString('base64url')
+  ): EncryptionKey {
+    return {
+      kid: `${PASSPHRASE_KEY_PREFIX}${salt}`,
+      key: crypto.scryptSync(passphrase, Buffer.from(salt, 'base64url'), 32),
+    };
+  }
+
+  private decryptLegacy(encryptedData: string, encKey: Buffer): string {
+    const parts = encryptedData.split(':');
+
+    if (parts.length !== 3) {
+      throw new Error('Invalid encrypted data format');
+    }
+
+    const iv = Buffer.from(parts[0]!, 'hex');
+    const authTag = Buffer.from(parts[1]!, 'hex');
+    const encrypted = parts[2]!;
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', encKey, iv);
+    decipher.setAuthTag(authTag);
+
+    let decrypted: string = decipher.update(encrypted, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
+  }
 }
@@ -0,0 +1,197 @@
+import {
+  AttributeSource,
+  ComparisonOperator,
+  LogicalOperator,
+  Policy,
+  PolicyEffect,
+} from '@repo/types';
+
+export type PolicyDefinition = Omit<Policy, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Example ABAC policies used to seed development databases
+ * Loaded by `prisma/seed.ts` (Prisma store) or `InMemoryPolicyStore.initializeExamplePolicies`
+ */
+export const EXAMPLE_POLICIES: PolicyDefinition[] = [
+  // Example 1: Time-based access (business hours only)
+  {
+    name: 'Business Hours Access',
+    description: 'Allow access only during business hours (9 AM - 5 PM)',
+    version: '1.0.0',
+    enabled: true,
+    tags: ['time-based', 'example'],
+    rules: [
+      {
+        id: 'business-hours-rule',
+        description: 'Check if current time is within business hours',
+        conditions: {
+          operator: LogicalOperator.AND,
+          conditions: [
+            {
+              attribute: { source: AttributeSource.ENVIRONMENT, key: 'hour' },
+              operator: ComparisonOperator.GREATER_THAN_OR_EQUAL,
+              value: 9,
+            },
+            {
+              attribute: { source: AttributeSource.ENVIRONMENT, key: 'hour' },
+              operator: ComparisonOperator.LESS_THAN,
+              value: 17,
+            },
+          ],
+        },
+        effect: PolicyEffect.ALLOW,
+        priority: 10,
+      },
+    ],
+  },
+
+  // Example 2: Department-based access
+  {
+    name: 'Department Access Control',
+    description: 'Allow access based on user department',
+    version: '1.0.0',
+    enabled: true,
+    tags: ['department', 'example'],
+    target: { resources: ['employee'], actions: ['read', 'update', 'create'] },
+    rules: [
+      {
+        id: 'hr-department-rule',
+        description: 'HR department can access employee records',
+        conditions: {
+          operator: LogicalOperator.AND,
+          conditions: [
+            {
+              attribute: { source: AttributeSource.USER, key: 'department' },
+              operator: ComparisonOperator.EQUALS,
+              value: 'HR',
+            },
+            {
+              attribute: { source: AttributeSource.ACTION, key: 'value' },
+              operator: ComparisonOperator.IN,
+              value: ['read', 'update', 'create'],
+            },
+            {
+              attribute: { source: AttributeSource.RESOURCE, key: 'type' },
+              operator: ComparisonOperator.EQUALS,
+              value: 'employee',
+            },
+          ],
+        },
+        effect: PolicyEffect.ALLOW,
+        priority: 20,
+      },
+    ],
+  },
+
+  // Example 3: Resource state-based access
+  {
+    name: 'Draft Document Access',
+    description: 'Only document owners can edit draft documents',
+    version: '1.0.0',
+    enabled: true,
+    tags: ['ownership', 'state-based', 'example'],
+    target: { resources: ['document'], actions: ['update', 'delete'] },
+    rules: [
+      {
+        id: 'draft-owner-edit-rule',
+        description: 'Owners can edit draft documents',
+        conditions: {
+          operator: LogicalOperator.AND,
+          conditions: [
+            {
+              attribute: { source: AttributeSource.RESOURCE, key: 'status' },
+              operator: ComparisonOperator.EQUALS,
+              value: 'draft',
+            },
+            {
+              attribute: { source: AttributeSource.RESOURCE, key: 'ownerId' },
+              operator: ComparisonOperator.EQUALS,
+              value: '${user.id}', // Special syntax for comparing with user context
+            },
+            {
+              attribute: { source: AttributeSource.ACTION, key: 'value' },
+              operator: ComparisonOperator.EQUALS,
+              value: 'update',
+            },
+          ],
+        },
+        effect: PolicyEffect.ALLOW,
+        priority: 30,
+      },
+      {
+        id: 'published-no-edit-rule',
+        description: 'Published documents cannot be edited',
+        conditions: {
+          operator: LogicalOperator.AND,
+          conditions: [
+            {
+              attribute: { source: AttributeSource.RESOURCE, key: 'status' },
+              operator: ComparisonOperator.EQUALS,
+              value: 'published',
+            },
+            {
+              attribute: { source: AttributeSource.ACTION, key: 'value' },
+              operator: ComparisonOperator.IN,
+              value: ['update', 'delete'],
+            },
+          ],
+        },
+        effect: PolicyEffect.DENY,
+        priority: 50, // Higher priority than allow rules
+      },
+    ],
+  },
+
+  // Example 4: Location-based access
+  {
+    name: 'Geographic Access Control',
+    description: 'Restrict access based on user location',
+    version: '1.0.0',
+    enabled: true,
+    tags: ['location', 'example'],
+    rules: [
+      {
+        id: 'us-only-access-rule',
+        description: 'Allow access only from US locations',
+        conditions: {
+          operator: LogicalOperator.AND,
+          conditions: [
+            {
+              attribute: { source: AttributeSource.ENVIRONMENT, key: 'country' },
+              operator: ComparisonOperator.IN,
+              value: ['US', 'USA', 'United States'],
+            },
+          ],
+        },
+        effect: PolicyEffect.ALLOW,
+        priority: 15,
+      },
+      {
+        id: 'sensitive-action-location-rule',
+        description: 'Deny sensitive actions from unknown locations',
+        conditions: {
+          operator: LogicalOperator.AND,
+          conditions: [
+            {
+              attribute: { source: AttributeSource.ACTION, key: 'value' },
+              operator: ComparisonOperator.IN,
+              value: ['delete', 'export'],
+            },
+            {
+              operator: LogicalOperator.NOT,
+              conditions: [
+                {
+                  attribute: { source: AttributeSource.ENVIRONMENT, key: 'ipAddress' },
+                  operator: ComparisonOperator.MATCHES,
+                  value: '^(10\\.|192\\.168\\.|172\\.(1[6-9]|2[0-9]|3[0-1])\\.)',
+                },
+              ],
+            },
+          ],
+        },
+        effect: PolicyEffect.DENY,
+        priority: 40,
+      },
+    ],
+  },
+];
@@ -0,0 +1,250 @@
+import {
+  AttributeSource,
+  CombiningAlgorithm,
+  ComparisonOperator,
+  LogicalOperator,
+  type Policy,
+  type PolicyEvaluationResult,
+  PolicyEffect,
+  type TokenPayload,
+} from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { DatabaseService } from '../database.service';
+
+import { AuthorizationService } from './authorization.service';
+import { JwtService } from './jwt.service';
+import { PolicyEngine } from './policy-engine.service';
+
+const DEFAULT_IMPERSONATION_TTL_SECONDS = 15 * 60;
+
+/**
+ * The path that ends an impersonation session (see impersonation.routes.ts)
+ */
+export const IMPERSONATION_PATH = '/api/admin/impersonate';
+
+/**
+ * ABAC policy every request made with an impersonation token must pass
+ *
+ * Reads are allowed; writes only when the token was issued with `readOnly: false`.
+ * Sign-in, password, MFA, session and API key changes stay with the user regardless,
+ * and ending the impersonation is always allowed.
+ */
+export const IMPERSONATION_POLICY: Policy = {
+  id: 'impersonation',
+  name: 'Impersonation',
+  description: 'Limits what an admin can do while acting as another user',
+  version: '1.0.0',
+  enabled: true,
+  combiningAlgorithm: CombiningAlgorithm.DENY_OVERRIDES,
+  rules: [
+    {
+      id: 'impersonation-read',
+      description: 'Impersonation sessions can read',
+      conditions: {
+        operator: LogicalOperator.AND,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.ACTION, key: 'value' },
+            operator: ComparisonOperator.EQUALS,
+            value: 'read',
+          },
+        ],
+      },
+      effect: PolicyEffect.ALLOW,
+    },
+    {
+      id: 'impersonation-write',
+      description: 'Impersonation sessions can write only when started with write access',
+      conditions: {
+        operator: LogicalOperator.AND,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.USER, key: 'readOnly' },
+            operator: ComparisonOperator.EQUALS,
+            value: false,
+          },
+        ],
+      },
+      effect: PolicyEffect.ALLOW,
+    },
+    {
+      id: 'impersonation-end',
+      description: 'Impersonation sessions can always be ended',
+      conditions: {
+        operator: LogicalOperator.AND,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.RESOURCE, key: 'path' },
+            operator: ComparisonOperator.EQUALS,
+            value: IMPERSONATION_PATH,
+          },
+          {
+            attribute: { source: AttributeSource.ACTION, key: 'value' },
+            operator: ComparisonOperator.EQUALS,
+            value: 'delete',
+          },
+        ],
+      },
+      effect: PolicyEffect.ALLOW,
+    },
+    {
+      id: 'impersonation-credentials',
+      description: 'Impersonation sessions never change credentials, sessions or API keys',
+      conditions: {
+        operator: LogicalOperator.AND,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.RESOURCE, key: 'path' },
+            operator: ComparisonOperator.MATCHES,
+            value: '^/api/(auth|api-keys)(/|$)',
+          },
+          {
+            attribute: { source: AttributeSource.ACTION, key: 'value' },
+            operator: ComparisonOperator.NOT_EQUALS,
+            value: 'read',
+          },
+        ],
+      },
+      effect: PolicyEffect.DENY,
+    },
+  ],
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  tags: ['impersonation', 'system'],
+};
+
+const ACTIONS_BY_METHOD: Record<string, string> = {
+  GET: 'read',
+  HEAD: 'read',
+  OPTIONS: 'read',
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+export interface StartImpersonationInput {
+  readOnly: boolean;
+}
+
+/**
+ * Outcome of starting an impersonation session
+ * - started: `accessToken` acts as the subject for `expiresIn` seconds
+ * - not_found: the subject does not exist
+ * - forbidden: the subject may not be impersonated by this actor (`error` says why)
+ */
+export type ImpersonationStart =
+  | {
+      status: 'started';
+      accessToken: string;
+      expiresIn: number;
+      subject: { id: string; email: string; name: string | null };
+    }
+  | { status: 'not_found' }
+  | { status: 'forbidden'; error: string };
+
+/**
+ * Admin impersonation of users, for support staff reproducing a user's issue
+ *
+ * An impersonation token is a short-lived access token for the subject (with the subject's
+ * roles and permissions) that also names the acting admin. There is no refresh token: the
+ * session ends when the token expires or is revoked. Each request made with it is checked
+ * against IMPERSONATION_POLICY (see enforceImpersonationPolicy).
+ */
+@injectable()
+export class ImpersonationService {
+  private readonly ttl: number;
+
+  constructor(
+    @inject(DatabaseService) private readonly db: DatabaseService,
+    @inject(JwtService) private readonly jwt: JwtService,
+    @inject(AuthorizationService) private readonly authorization: AuthorizationService,
+    @inject(PolicyEngine) private readonly policyEngine: PolicyEngine
+  ) {
+    const ttl = Number(process.env['IMPERSONATION_TTL'] ?? DEFAULT_IMPERSONATION_TTL_SECONDS);
+    // Never outlive a normal access token, so that revoking the subject's tokens covers it
+    this.ttl = Math.min(
+      Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_IMPERSONATION_TTL_SECONDS,
+      this.jwt.getAccessTokenTtl()
+    );
+  }
+
+  /**
+   * Issue an impersonation token for the subject
+   * Admins cannot impersonate themselves, other admins, or anyone while impersonating
+   */
+  async start(
+    actor: TokenPayload,
+    subjectId: string,
+    input: StartImpersonationInput
+  ): Promise<ImpersonationStart> {
+    if (actor.actorId) {
+      return { status: 'forbidden', error: 'Impersonation sessions cannot impersonate' };
+    }
+    if (actor.userId === subjectId) {
+      return { status: 'forbidden', error: 'You cannot impersonate yourself' };
+    }
+
+    const subject = await this.db.user.findUnique({
+      where: { id: subjectId },
+      select: { id: true, email: true, name: true, role: true },
+    });
+    if (!subject) {
+      return { status: 'not_found' };
+    }
+
+    const { roles, permissions } = await this.authorization.getTokenClaims(
+      subject.id,
+      subject.role
+    );
+    const effectiveRoles = await this.authorization.getEffectiveRoles(
+      roles.map((role) => role.toLowerCase())
+    );
+    if (effectiveRoles.includes('admin')) {
+      return { status: 'forbidden', error: 'Administrators cannot be impersonated' };
+    }
+
+    const accessToken = this.jwt.generateAccessToken(
+      {
+        userId: subject.id,
+        email: subject.email,
+        roles,
+        permissions,
+        actorId: actor.userId,
+        subjectId: subject.id,
+        readOnly: input.readOnly,
+      },
+      this.ttl
+    );
+
+    return {
+      status: 'started',
+      accessToken,
+      expiresIn: this.ttl,
+      subject: { id: subject.id, email: subject.email, name: subject.name },
+    };
+  }
+
+  /**
+   * Decide whether an impersonation token may make a request
+   */
+  async authorizeRequest(
+    user: TokenPayload,
+    request: { method: string; path: string }
+  ): Promise<PolicyEvaluationResult> {
+    return this.policyEngine.evaluatePolicies([IMPERSONATION_POLICY], {
+      user: {
+        id: user.userId,
+        actorId: user.actorId,
+        subjectId: user.subjectId,
+        // Tokens without the claim are read-only
+        readOnly: user.readOnly !== false,
+      },
+      // Express matches routes case-insensitively
+      resource: { type: 'api', path: request.path.toLowerCase() },
+      environment: {},
+      action: ACTIONS_BY_METHOD[request.method.toUpperCase()] ?? request.method.toLowerCase(),
+    });
+  }
+}
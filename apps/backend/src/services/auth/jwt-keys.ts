@@ -0,0 +1,189 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from 'crypto';
+
+/**
+ * Asymmetric JWS algorithms for access tokens, chosen by key type
+ */
+export type JwtSigningAlgorithm = 'RS256' | 'EdDSA';
+
+/**
+ * A verification key, and the signing key when this service holds it
+ */
+export interface JwtKey {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  publicKey: KeyObject;
+  privateKey?: KeyObject;
+}
+
+/**
+ * Public key entry of a JWKS document
+ */
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  use: 'sig';
+}
+
+interface JwtKeyConfig {
+  kid?: unknown;
+  privateKey?: unknown;
+  publicKey?: unknown;
+}
+
+const MIN_RSA_MODULUS_LENGTH = 2048;
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment: string | undefined): Record<string, unknown> {
+  const decoded = JSON.parse(Buffer.from(segment ?? '', 'base64url').toString('utf8'));
+  if (!decoded || typeof decoded !== 'object' || Array.isArray(decoded)) {
+    throw new Error('Malformed token');
+  }
+  return decoded;
+}
+
+function algorithmFor(key: KeyObject): JwtSigningAlgorithm {
+  if (key.asymmetricKeyType === 'ed25519') {
+    return 'EdDSA';
+  }
+  if (key.asymmetricKeyType === 'rsa') {
+    if ((key.asymmetricKeyDetails?.modulusLength ?? 0) < MIN_RSA_MODULUS_LENGTH) {
+      throw new Error(`RSA signing keys must be at least ${MIN_RSA_MODULUS_LENGTH} bits`);
+    }
+    return 'RS256';
+  }
+  throw new Error(`Unsupported signing key type: ${key.asymmetricKeyType}`);
+}
+
+function digestFor(alg: JwtSigningAlgorithm): string | null {
+  return alg === 'RS256' ? 'sha256' : null; // Ed25519 signs the message itself
+}
+
+/**
+ * Parse the JWT_SIGNING_KEYS secret: a JSON array of `{ kid, privateKey }` or
+ * `{ kid, publicKey }` entries with PEM keys (RSA or Ed25519)
+ *
+ * The first entry with a private key signs new tokens. The others stay published and
+ * accepted until tokens signed with them have expired, which gives overlapping rotation:
+ * add the new key first, then drop the old one after the access token lifetime.
+ */
+export function parseJwtKeys(raw: string): JwtKey[] {
+  const entries: unknown = JSON.parse(raw);
+  if (!Array.isArray(entries)) {
+    throw new Error('JWT signing keys must be a JSON array');
+  }
+
+  const keys = entries.map((entry: JwtKeyConfig): JwtKey => {
+    if (typeof entry?.kid !== 'string' || !entry.kid) {
+      throw new Error('Every JWT signing key needs a kid');
+    }
+
+    let privateKey: KeyObject | undefined;
+    let publicKey: KeyObject;
+    if (typeof entry.privateKey === 'string') {
+      privateKey = createPrivateKey(entry.privateKey);
+      publicKey = createPublicKey(privateKey);
+    } else if (typeof entry.publicKey === 'string') {
+      publicKey = createPublicKey(entry.publicKey);
+    } else {
+      throw new Error(`JWT signing key ${entry.kid} has no privateKey or publicKey`);
+    }
+
+    return { kid: entry.kid, alg: algorithmFor(publicKey), publicKey, privateKey };
+  });
+
+  if (new Set(keys.map((key) => key.kid)).size !== keys.length) {
+    throw new Error('JWT signing key ids must be unique');
+  }
+  if (keys.length > 0 && !keys.some((key) => key.privateKey)) {
+    throw new Error('No JWT signing key has a private key');
+  }
+  return keys;
+}
+
+/**
+ * Public JWK (RFC 7517) for a key, suitable for a JWKS document
+ */
+export function toPublicJwk(key: JwtKey): PublicJwk {
+  return { ...key.publicKey.export({ format: 'jwk' }), kid: key.kid, alg: key.alg, use: 'sig' };
+}
+
+/**
+ * Sign claims as a compact JWS with a `kid` header; adds `iat` and `exp`
+ */
+export function signJwt(
+  claims: Record<string, unknown>,
+  key: JwtKey,
+  expiresInSeconds: number
+): string {
+  if (!key.privateKey) {
+    throw new Error(`JWT key ${key.kid} cannot sign`);
+  }
+
+  const iat = Math.floor(Date.now() / 1000);
+  const signingInput = `${encode({ alg: key.alg, typ: 'JWT', kid: key.kid })}.${encode({
+    ...claims,
+    iat,
+    exp: iat + expiresInSeconds,
+  })}`;
+  const signature = sign(digestFor(key.alg), Buffer.from(signingInput), key.privateKey);
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * `kid` header of a token, without verifying it
+ */
+export function getJwtKeyId(token: string): string | undefined {
+  try {
+    const kid = decodeSegment(token.split('.')[0])['kid'];
+    return typeof kid === 'string' ? kid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Verify a token signed by one of the keys and return its claims
+ * The key is selected by `kid` and must match the header algorithm; `exp` is required
+ */
+export function verifyJwt(token: string, keys: JwtKey[]): Record<string, unknown> {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (!header || !payload || !signature || rest.length > 0) {
+    throw new Error('Malformed token');
+  }
+
+  const { kid, alg } = decodeSegment(header);
+  const key = keys.find((candidate) => candidate.kid === kid);
+  if (!key || key.alg !== alg) {
+    throw new Error('Unknown signing key');
+  }
+
+  const valid = verify(
+    digestFor(key.alg),
+    Buffer.from(`${header}.${payload}`),
+    key.publicKey,
+    Buffer.from(signature, 'base64url')
+  );
+  if (!valid) {
+    throw new Error('Invalid signature');
+  }
+
+  const claims = decodeSegment(payload);
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims['exp'] !== 'number' || claims['exp'] <= now) {
+    throw new Error('Token expired');
+  }
+  if (typeof claims['nbf'] === 'number' && claims['nbf'] > now) {
+    throw new Error('Token not yet valid');
+  }
+  return claims;
+}
@@ -1,45 +1,157 @@
-import { TokenPayload, TokenResult } from '@repo/types';
+import { randomUUID } from 'crypto';
+
+import { ISecretsManager, TokenPayload, TokenResult } from '@repo/types';
 import jwt from 'jsonwebtoken';
 import { injectable } from 'tsyringe';
 
+import {
+  getJwtKeyId,
+  parseJwtKeys,
+  signJwt,
+  toPublicJwk,
+  verifyJwt,
+  type JwtKey,
+  type PublicJwk,
+} from './jwt-keys';
+
+const MFA_PENDING_TOKEN_TYPE = 'mfa_pending';
+const DEFAULT_ACCESS_SECRET = 'access-secret-change-me';
+const DEFAULT_REFRESH_SECRET = 'refresh-secret-change-me';
+const DEFAULT_MFA_SECRET = 'mfa-secret-change-me';
+
+/**
+ * Server-side identity of a refresh token: its record id (the JWT jti) and rotation family
+ */
+export interface RefreshTokenSession {
+  jti: string;
+  familyId: string;
+}
+
+/**
+ * Verified refresh token claims; `jti`/`familyId` are absent on untracked (legacy) tokens
+ */
+export interface RefreshTokenClaims extends Partial<RefreshTokenSession> {
+  userId: string;
+  tokenVersion: number;
+}
+
+/**
+ * Issues and validates our JWTs
+ *
+ * Access tokens are signed with the asymmetric keys loaded by `loadKeys` (RS256 or EdDSA,
+ * with a `kid` header) and can be verified by other services from the JWKS. Until keys are
+ * loaded (development, tests) they fall back to HS256 with JWT_ACCESS_SECRET. Refresh and
+ * MFA-pending tokens are only ever verified here and stay HS256 with their own secrets.
+ */
 @injectable()
 export class JwtService {
   private readonly accessTokenSecret: string;
-  private readonly refreshTokenSecret: string;
+  private refreshTokenSecret: string;
   private readonly accessTokenExpiry: string;
   private readonly refreshTokenExpiry: string;
+  private mfaPendingSecret: string;
+  private readonly mfaPendingExpiry: string;
+  private signingKeys: JwtKey[] = [];
 
   constructor() {
-    this.accessTokenSecret = process.env['JWT_ACCESS_SECRET'] || 'access-secret-change-me';
-    this.refreshTokenSecret = process.env['JWT_REFRESH_SECRET'] || 'refresh-secret-change-me';
+    this.accessTokenSecret = process.env['JWT_ACCESS_SECRET'] || DEFAULT_ACCESS_SECRET;
+    this.refreshTokenSecret = process.env['JWT_REFRESH_SECRET'] || DEFAULT_REFRESH_SECRET;
     this.accessTokenExpiry = process.env['JWT_ACCESS_EXPIRY'] || '15m';
     this.refreshTokenExpiry = process.env['JWT_REFRESH_EXPIRY'] || '7d';
+    this.mfaPendingSecret = process.env['JWT_MFA_SECRET'] || DEFAULT_MFA_SECRET;
+    this.mfaPendingExpiry = process.env['JWT_MFA_PENDING_EXPIRY'] || '5m';
   }
 
   /**
-   * Generate access token
+   * Load signing keys (JWT_SIGNING_KEYS, see parseJwtKeys) and token secrets from the
+   * secrets manager; call at startup and again after rotating keys
+   * In production, signing keys and non-default secrets are required.
    */
-  generateAccessToken(payload: Omit<TokenPayload, 'iat' | 'exp'>): string {
-    return jwt.sign(payload, this.accessTokenSecret, {
-      expiresIn: this.accessTokenExpiry,
-    } as jwt.SignOptions);
+  async loadKeys(secrets: ISecretsManager): Promise<void> {
+    const [signingKeys, refreshSecret, mfaSecret] = await Promise.all(
+      ['JWT_SIGNING_KEYS', 'JWT_REFRESH_SECRET', 'JWT_MFA_SECRET'].map((key) =>
+        secrets.getSecret(key).catch(() => undefined)
+      )
+    );
+
+    const keys = signingKeys ? parseJwtKeys(signingKeys) : [];
+    this.refreshTokenSecret = refreshSecret || this.refreshTokenSecret;
+    this.mfaPendingSecret = mfaSecret || this.mfaPendingSecret;
+
+    if (process.env['NODE_ENV'] === 'production') {
+      if (keys.length === 0) {
+        throw new Error('JWT_SIGNING_KEYS must be configured in production');
+      }
+      if (
+        this.refreshTokenSecret === DEFAULT_REFRESH_SECRET ||
+        this.mfaPendingSecret === DEFAULT_MFA_SECRET
+      ) {
+        throw new Error('JWT_REFRESH_SECRET and JWT_MFA_SECRET must be configured in production');
+      }
+    }
+
+    this.signingKeys = keys;
+  }
+
+  /**
+   * Public keys for verifying access tokens, as a JWKS document
+   */
+  getJwks(): { keys: PublicJwk[] } {
+    return { keys: this.signingKeys.map(toPublicJwk) };
+  }
+
+  /**
+   * Generate access token, valid for the configured lifetime unless a shorter one is given
+   * Each token gets a unique `jti` so that it can be denylisted (AccessTokenDenylistService),
+   * and its issue time in milliseconds (`iatMs`) so that a user-wide revocation spares tokens
+   * issued later in the same second
+   */
+  generateAccessToken(
+    payload: Omit<TokenPayload, 'iat' | 'iatMs' | 'exp' | 'jti'>,
+    expiresInSeconds: number = this.getAccessTokenTtl()
+  ): string {
+    const jti = randomUUID();
+    const claims = { ...payload, iatMs: Date.now() };
+    const signingKey = this.signingKeys.find((key) => key.privateKey);
+    if (signingKey) {
+      return signJwt({ ...claims, jti }, signingKey, expiresInSeconds);
+    }
+
+    return jwt.sign(claims, this.accessTokenSecret, {
+      expiresIn: expiresInSeconds,
+      jwtid: jti,
+    });
   }
 
   /**
    * Generate refresh token
+   * `tokenVersion` is the user's current User.tokenVersion; bumping it revokes the token.
+   * `session` ties the token to its server-side record (see RefreshTokenService).
    */
-  generateRefreshToken(userId: string): string {
-    return jwt.sign({ userId }, this.refreshTokenSecret, {
+  generateRefreshToken(
+    userId: string,
+    tokenVersion: number = 0,
+    session?: RefreshTokenSession
+  ): string {
+    const payload = session
+      ? { userId, ver: tokenVersion, fam: session.familyId }
+      : { userId, ver: tokenVersion };
+    return jwt.sign(payload, this.refreshTokenSecret, {
       expiresIn: this.refreshTokenExpiry,
+      ...(session && { jwtid: session.jti }),
     } as jwt.SignOptions);
   }
 
   /**
    * Generate both access and refresh tokens
    */
-  generateTokens(payload: Omit<TokenPayload, 'iat' | 'exp'>): TokenResult {
+  generateTokens(
+    payload: Omit<TokenPayload, 'iat' | 'exp'>,
+    tokenVersion: number = 0,
+    session?: RefreshTokenSession
+  ): TokenResult {
     const accessToken = this.generateAccessToken(payload);
-    const refreshToken = this.generateRefreshToken(payload['userId']);
+    const refreshToken = this.generateRefreshToken(payload['userId'], tokenVersion, session);
 
     return {
       accessToken,
@@ -54,7 +166,18 @@ export class JwtService {
    */
   async validateAccessToken(token: string): Promise<TokenPayload> {
     try {
-      const decoded = jwt.verify(token, this.accessTokenSecret) as TokenPayload;
+      if (this.signingKeys.length > 0 && getJwtKeyId(token) !== undefined) {
+        return verifyJwt(token, this.signingKeys) as unknown as TokenPayload;
+      }
+
+      // HS256 tokens: the only kind before keys are loaded, and while migrating to signing
+      // keys only when JWT_ACCESS_SECRET is set explicitly (never with the default secret)
+      if (this.signingKeys.length > 0 && this.accessTokenSecret === DEFAULT_ACCESS_SECRET) {
+        throw new Error('Symmetric access tokens are disabled');
+      }
+      const decoded = jwt.verify(token, this.accessTokenSecret, {
+        algorithms: ['HS256'],
+      }) as TokenPayload;
       return decoded;
     } catch {
       throw new Error('Invalid or expired access token');
@@ -64,15 +187,64 @@ export class JwtService {
   /**
    * Validate refresh token
    */
-  async validateRefreshToken(token: string): Promise<{ userId: string }> {
+  async validateRefreshToken(token: string): Promise<RefreshTokenClaims> {
     try {
-      const decoded = jwt.verify(token, this.refreshTokenSecret) as { userId: string };
-      return decoded;
+      const decoded = jwt.verify(token, this.refreshTokenSecret) as {
+        userId: string;
+        ver?: number;
+        jti?: string;
+        fam?: string;
+      };
+      // Tokens issued before versioning count as version 0
+      return {
+        userId: decoded.userId,
+        tokenVersion: decoded.ver ?? 0,
+        ...(decoded.jti && decoded.fam && { jti: decoded.jti, familyId: decoded.fam }),
+      };
     } catch {
       throw new Error('Invalid or expired refresh token');
     }
   }
 
+  /**
+   * Generate a short-lived "MFA pending" token for a user who passed the password check
+   * Signed with its own secret so it can never be accepted as an access or refresh token
+   */
+  generateMfaPendingToken(userId: string): string {
+    return jwt.sign({ userId, typ: MFA_PENDING_TOKEN_TYPE }, this.mfaPendingSecret, {
+      expiresIn: this.mfaPendingExpiry,
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Validate an "MFA pending" token
+   */
+  async validateMfaPendingToken(token: string): Promise<{ userId: string }> {
+    try {
+      const decoded = jwt.verify(token, this.mfaPendingSecret) as { userId: string; typ?: string };
+      if (decoded.typ !== MFA_PENDING_TOKEN_TYPE) {
+        throw new Error('Unexpected token type');
+      }
+      return { userId: decoded.userId };
+    } catch {
+      throw new Error('Invalid or expired MFA token');
+    }
+  }
+
+  /**
+   * Access token lifetime in seconds
+   */
+  getAccessTokenTtl(): number {
+    return this.parseExpiry(this.accessTokenExpiry);
+  }
+
+  /**
+   * Refresh token lifetime in seconds
+   */
+  getRefreshTokenTtl(): number {
+    return this.parseExpiry(this.refreshTokenExpiry);
+  }
+
   /**
    * Decode token without validation (for inspection)
    */
@@ -0,0 +1,168 @@
+import { createHash } from 'crypto';
+
+import { inject, injectable } from 'tsyringe';
+
+import { CacheService } from '../cache.service';
+
+const KEY_PREFIX = 'auth:login';
+const FREE_ATTEMPTS = 3; // Failures allowed before delays start
+const BASE_DELAY_SECONDS = 1;
+const MAX_DELAY_SECONDS = 60;
+
+/**
+ * Result of checking whether a login attempt may proceed
+ * - allowed: go ahead and check the credentials
+ * - locked: the account is locked until `retryAfter` seconds from now
+ * - delayed: too soon after the last failure for this account (progressive delay)
+ * - ip-limited: too many failures from this IP address across all accounts
+ */
+export type LoginThrottleStatus =
+  | { status: 'allowed' }
+  | { status: 'locked' | 'delayed' | 'ip-limited'; retryAfter: number };
+
+/**
+ * Outcome of recording a failed login; `locked` is true only for the failure that locked the account
+ */
+export interface LoginFailureResult {
+  failures: number;
+  locked: boolean;
+}
+
+interface LockRecord {
+  lockedUntil: number;
+}
+
+/**
+ * Brute-force protection for password logins
+ *
+ * Failures are counted in CacheService sliding windows per account (email) and per IP.
+ * After a few failures each further attempt on the account must wait an exponentially
+ * growing delay; reaching the threshold locks the account for a fixed duration. Keys
+ * contain a hash of the email rather than the address itself.
+ */
+@injectable()
+export class LoginThrottleService {
+  private readonly threshold: number;
+  private readonly windowSeconds: number;
+  private readonly lockoutSeconds: number;
+  private readonly ipFailureLimit: number;
+
+  constructor(@inject(CacheService) private readonly cache: CacheService) {
+    this.threshold = positiveFromEnv('AUTH_LOCKOUT_THRESHOLD', 5);
+    this.windowSeconds = positiveFromEnv('AUTH_LOCKOUT_WINDOW', 15 * 60);
+    this.lockoutSeconds = positiveFromEnv('AUTH_LOCKOUT_DURATION', 15 * 60);
+    this.ipFailureLimit = positiveFromEnv('AUTH_IP_FAILURE_LIMIT', 50);
+  }
+
+  /**
+   * Lockout duration in seconds
+   */
+  getLockoutDuration(): number {
+    return this.lockoutSeconds;
+  }
+
+  /**
+   * Check whether a login attempt for the email from the IP may proceed
+   */
+  async check(email: string, ipAddress?: string): Promise<LoginThrottleStatus> {
+    const now = Date.now();
+    const account = this.accountKey(email);
+
+    const lock = await this.cache.get<LockRecord>(`${account}:lock`);
+    if (lock && lock.lockedUntil > now) {
+      return { status: 'locked', retryAfter: secondsUntil(lock.lockedUntil, now) };
+    }
+
+    if (ipAddress) {
+      const ipFailures = await this.cache.slidingWindowCount(
+        this.ipKey(ipAddress),
+        this.windowSeconds
+      );
+      if (ipFailures >= this.ipFailureLimit) {
+        return { status: 'ip-limited', retryAfter: this.windowSeconds };
+      }
+    }
+
+    const failures = await this.cache.slidingWindowCount(`${account}:failures`, this.windowSeconds);
+    const lastFailure = await this.cache.get<number>(`${account}:last`);
+    if (lastFailure) {
+      const nextAttempt = lastFailure + this.delayAfter(failures) * 1000;
+      if (nextAttempt > now) {
+        return { status: 'delayed', retryAfter: secondsUntil(nextAttempt, now) };
+      }
+    }
+
+    return { status: 'allowed' };
+  }
+
+  /**
+   * Record a failed login, locking the account when the threshold is reached
+   */
+  async recordFailure(email: string, ipAddress?: string): Promise<LoginFailureResult> {
+    const now = Date.now();
+    const account = this.accountKey(email);
+
+    if (ipAddress) {
+      await this.cache.slidingWindowHit(this.ipKey(ipAddress), this.windowSeconds);
+    }
+    const failures = await this.cache.slidingWindowHit(`${account}:failures`, this.windowSeconds);
+    await this.cache.set(`${account}:last`, now, this.windowSeconds);
+
+    if (failures < this.threshold) {
+      return { failures, locked: false };
+    }
+
+    const lock: LockRecord = { lockedUntil: now + this.lockoutSeconds * 1000 };
+    await this.cache.set(`${account}:lock`, lock, this.lockoutSeconds);
+    // Start counting afresh once the lock expires
+    await this.cache.delete(`${account}:failures`);
+    await this.cache.delete(`${account}:last`);
+    return { failures, locked: true };
+  }
+
+  /**
+   * Clear the failures of an account after a successful login
+   */
+  async reset(email: string): Promise<void> {
+    const account = this.accountKey(email);
+    await this.cache.delete(`${account}:failures`);
+    await this.cache.delete(`${account}:last`);
+  }
+
+  /**
+   * Lift a lock (e.g. from the unlock email) and clear the account's failures
+   */
+  async unlock(email: string): Promise<void> {
+    await this.cache.delete(`${this.accountKey(email)}:lock`);
+    await this.reset(email);
+  }
+
+  /**
+   * Seconds an account must wait after its latest failure
+   */
+  private delayAfter(failures: number): number {
+    if (failures < FREE_ATTEMPTS) {
+      return 0;
+    }
+    return Math.min(BASE_DELAY_SECONDS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_SECONDS);
+  }
+
+  private accountKey(email: string): string {
+    const digest = createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+    return `${KEY_PREFIX}:account:${digest}`;
+  }
+
+  private ipKey(ipAddress: string): string {
+    return `${KEY_PREFIX}:ip:${ipAddress}:failures`;
+  }
+}
+
+function positiveFromEnv(name: string, fallback: number): number {
+  // eslint-disable-next-line security/detect-object-injection -- Env var name is a literal from this module
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function secondsUntil(timestamp: number, now: number): number {
+  return Math.max(1, Math.ceil((timestamp - now) / 1000));
+}
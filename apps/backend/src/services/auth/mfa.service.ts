@@ -0,0 +1,161 @@
+import { createHash, randomBytes } from 'crypto';
+
+import type { User } from '@prisma/client';
+import { inject, injectable } from 'tsyringe';
+
+import { DatabaseService } from '../database.service';
+
+import { EncryptionService } from './encryption.service';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Second factor that satisfied an MFA check
+ */
+export type MfaMethod = 'totp' | 'recovery-code';
+
+export interface MfaEnrollment {
+  secret: string; // Base32, for manual entry
+  otpauthUri: string; // Render as a QR code for authenticator apps
+}
+
+/**
+ * TOTP multi-factor authentication
+ *
+ * Enrollment stores the secret encrypted (EncryptionService) with mfaEnabled false until the
+ * user proves possession with a first code. Accepted TOTP steps are recorded so a code cannot
+ * be replayed. Recovery codes are random, single-use and stored only as SHA-256 hashes.
+ */
+@injectable()
+export class MfaService {
+  constructor(
+    @inject(DatabaseService) private readonly db: DatabaseService,
+    @inject(EncryptionService) private readonly encryption: EncryptionService
+  ) {}
+
+  /**
+   * Start (or restart) enrollment with a new secret
+   */
+  async startEnrollment(userId: string, accountName: string): Promise<MfaEnrollment> {
+    const secret = generateTotpSecret();
+    await this.db.user.update({
+      where: { id: userId },
+      data: {
+        mfaSecret: await this.encryption.encrypt(secret),
+        mfaEnabled: false,
+        mfaLastUsedStep: null,
+      },
+    });
+
+    const issuer = process.env['MFA_ISSUER'] || 'Next Node App';
+    return { secret, otpauthUri: buildOtpauthUri(secret, accountName, issuer) };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator
+   * Enables MFA and returns the recovery codes (shown once), or null for a wrong code
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+    const user = await this.getMfaState(userId);
+    if (!user?.mfaSecret || user.mfaEnabled) {
+      return null;
+    }
+
+    const step = verifyTotp(await this.encryption.decrypt(user.mfaSecret), code);
+    if (step === null) {
+      return null;
+    }
+
+    await this.db.user.update({
+      where: { id: userId },
+      data: { mfaEnabled: true, mfaLastUsedStep: step },
+    });
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  /**
+   * Check a TOTP or recovery code for a user with MFA enabled
+   * Returns the method that matched, or null
+   */
+  async verify(userId: string, code: string): Promise<MfaMethod | null> {
+    const user = await this.getMfaState(userId);
+    if (!user?.mfaEnabled || !user.mfaSecret) {
+      return null;
+    }
+
+    const secret = await this.encryption.decrypt(user.mfaSecret);
+    const step = verifyTotp(secret, code, { afterStep: user.mfaLastUsedStep });
+    if (step !== null) {
+      // Conditional update so a concurrent request cannot accept the same code twice
+      const { count } = await this.db.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+        },
+        data: { mfaLastUsedStep: step },
+      });
+      return count > 0 ? 'totp' : null;
+    }
+
+    const { count } = await this.db.mfaRecoveryCode.updateMany({
+      where: { userId, codeHash: this.hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count > 0 ? 'recovery-code' : null;
+  }
+
+  /**
+   * Replace all recovery codes and return the new ones
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = base32Encode(randomBytes(5)); // 8 characters, 40 bits
+      return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+    });
+
+    await this.db.$transaction([
+      this.db.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      this.db.mfaRecoveryCode.createMany({
+        data: codes.map((code) => ({ userId, codeHash: this.hashRecoveryCode(code) })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  /**
+   * Number of unused recovery codes
+   */
+  async countRecoveryCodes(userId: string): Promise<number> {
+    return this.db.mfaRecoveryCode.count({ where: { userId, usedAt: null } });
+  }
+
+  /**
+   * Turn MFA off and discard the secret and recovery codes
+   */
+  async disable(userId: string): Promise<void> {
+    await this.db.$transaction([
+      this.db.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      this.db.user.update({
+        where: { id: userId },
+        data: { mfaEnabled: false, mfaSecret: null, mfaLastUsedStep: null },
+      }),
+    ]);
+  }
+
+  private getMfaState(
+    userId: string
+  ): Promise<Pick<User, 'mfaEnabled' | 'mfaSecret' | 'mfaLastUsedStep'> | null> {
+    return this.db.user.findUnique({
+      where: { id: userId },
+      select: { mfaEnabled: true, mfaSecret: true, mfaLastUsedStep: true },
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    // Codes are compared case-insensitively, with or without the separator
+    const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+}
@@ -0,0 +1,83 @@
+import { ObligationType, PolicyObligation } from '@repo/types';
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Get the obligations (or advice) of a given type
+ */
+export function findObligations(
+  obligations: PolicyObligation[] | undefined,
+  type: string
+): PolicyObligation[] {
+  return (obligations ?? []).filter((o) => o.type === type);
+}
+
+/**
+ * Check whether an obligation of the given type is present
+ */
+export function hasObligation(obligations: PolicyObligation[] | undefined, type: string): boolean {
+  return findObligations(obligations, type).length > 0;
+}
+
+/**
+ * Collect the field paths named by redact-fields obligations
+ */
+export function getRedactedFields(obligations: PolicyObligation[] | undefined): string[] {
+  const fields = new Set<string>();
+
+  for (const obligation of findObligations(obligations, ObligationType.REDACT_FIELDS)) {
+    const value = obligation.params?.['fields'];
+    const list = Array.isArray(value) ? value : [value];
+    for (const field of list) {
+      if (typeof field === 'string' && field.length > 0) {
+        fields.add(field);
+      }
+    }
+  }
+
+  return Array.from(fields);
+}
+
+/**
+ * Apply redact-fields obligations to response data
+ * Returns a copy with each named field (dot notation, applied to every array element)
+ * replaced by "[REDACTED]"; fields that are absent are left absent
+ */
+export function applyRedactions<T>(data: T, obligations: PolicyObligation[] | undefined): T {
+  const fields = getRedactedFields(obligations);
+  if (fields.length === 0) {
+    return data;
+  }
+
+  const copy = structuredClone(data);
+  for (const field of fields) {
+    redactPath(copy, field.split('.'));
+  }
+  return copy;
+}
+
+function redactPath(target: unknown, path: string[]): void {
+  if (Array.isArray(target)) {
+    target.forEach((item) => redactPath(item, path));
+    return;
+  }
+
+  if (!target || typeof target !== 'object') {
+    return;
+  }
+
+  const [key, ...rest] = path;
+  if (key === undefined || !Object.prototype.hasOwnProperty.call(target, key)) {
+    return;
+  }
+
+  const record = target as Record<string, unknown>;
+  if (rest.length === 0) {
+    // eslint-disable-next-line security/detect-object-injection -- Key is an own property named by policy configuration
+    record[key] = REDACTED;
+    return;
+  }
+
+  // eslint-disable-next-line security/detect-object-injection -- Key is an own property named by policy configuration
+  redactPath(record[key], rest);
+}
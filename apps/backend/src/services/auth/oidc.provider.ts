@@ -0,0 +1,444 @@
+import { createHash, createPublicKey, randomBytes, type JsonWebKey, type KeyObject } from 'crypto';
+
+import type { User } from '@prisma/client';
+import type { AuthResult, IAuthenticationProvider, TokenPayload, TokenResult } from '@repo/types';
+import jwt from 'jsonwebtoken';
+import { inject, injectable } from 'tsyringe';
+
+import { CacheService } from '../cache.service';
+import { DatabaseService } from '../database.service';
+
+import { AuthorizationService } from './authorization.service';
+import { JwtService } from './jwt.service';
+import { RefreshTokenService, type RefreshTokenContext } from './refresh-token.service';
+
+const STATE_KEY_PREFIX = 'oidc:state';
+const STATE_TTL_SECONDS = 10 * 60;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256'];
+
+/**
+ * Subset of the OpenID Provider metadata (OIDC Discovery 1.0) used for the code flow
+ */
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Per-login data kept in CacheService between the redirect and the callback
+ */
+interface OidcLoginState {
+  codeVerifier: string;
+  nonce: string;
+}
+
+interface OidcTokenResponse {
+  access_token: string;
+  token_type?: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+interface OidcIdTokenClaims {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+  amr?: string[];
+}
+
+/**
+ * Callback result, with the linked user's id and whether the user was created by this login
+ * Users with MFA enabled get `mfaToken` (for /api/auth/mfa/verify) instead of tokens.
+ */
+export type OidcAuthResult = AuthResult & { userId?: string; created?: boolean; mfaToken?: string };
+
+/**
+ * Generic OpenID Connect provider (authorization code flow with PKCE)
+ *
+ * The provider's endpoints and signing keys come from discovery on OIDC_ISSUER. The PKCE
+ * verifier and nonce are stored in CacheService under the (single-use) state value. On the
+ * callback the ID token is verified against the provider's JWKS, the identity is linked to a
+ * User through an Account row (created when needed) and our usual token pair is issued.
+ */
+@injectable()
+export class OidcProvider implements IAuthenticationProvider {
+  readonly providerId: string;
+  private readonly issuer: string;
+  private readonly clientId: string;
+  private readonly clientSecret: string;
+  private readonly redirectUri: string;
+  private readonly scopes: string;
+  private discovery: Promise<OidcDiscoveryDocument> | null = null;
+  private keys = new Map<string, KeyObject>();
+
+  constructor(
+    @inject(DatabaseService) private readonly db: DatabaseService,
+    @inject(CacheService) private readonly cache: CacheService,
+    @inject(JwtService) private readonly jwt: JwtService,
+    @inject(RefreshTokenService) private readonly refreshTokens: RefreshTokenService,
+    @inject(AuthorizationService) private readonly authorization: AuthorizationService
+  ) {
+    this.providerId = process.env['OIDC_PROVIDER_ID'] || 'oidc';
+    this.issuer = (process.env['OIDC_ISSUER'] || '').replace(/\/$/, '');
+    this.clientId = process.env['OIDC_CLIENT_ID'] || '';
+    this.clientSecret = process.env['OIDC_CLIENT_SECRET'] || '';
+    this.redirectUri =
+      process.env['OIDC_REDIRECT_URI'] || 'http://localhost:3001/api/auth/oidc/callback';
+    this.scopes = process.env['OIDC_SCOPES'] || 'openid email profile';
+  }
+
+  /**
+   * Whether an issuer and client are configured
+   */
+  isConfigured(): boolean {
+    return Boolean(this.issuer && this.clientId);
+  }
+
+  /**
+   * Build the authorization URL to redirect the browser to, storing state, nonce and PKCE verifier
+   */
+  async createAuthorizationUrl(): Promise<{ url: string; state: string }> {
+    const metadata = await this.getDiscoveryDocument();
+    const state = base64url(randomBytes(32));
+    const login: OidcLoginState = {
+      codeVerifier: base64url(randomBytes(32)),
+      nonce: base64url(randomBytes(16)),
+    };
+
+    const stored = await this.cache.set(`${STATE_KEY_PREFIX}:${state}`, login, STATE_TTL_SECONDS);
+    if (!stored) {
+      throw new Error('Unable to store OIDC login state');
+    }
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.clientId,
+      redirect_uri: this.redirectUri,
+      scope: this.scopes,
+      state,
+      nonce: login.nonce,
+      code_challenge: base64url(createHash('sha256').update(login.codeVerifier).digest()),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * Complete the authorization code flow: exchange the code, verify the ID token,
+   * link or create the user and issue our tokens (or an MFA challenge)
+   */
+  async verifyCallback(
+    code: string,
+    state: string,
+    context: RefreshTokenContext = {}
+  ): Promise<OidcAuthResult> {
+    const login = await this.consumeState(state);
+    if (!login) {
+      return { success: false, error: 'Invalid or expired state' };
+    }
+
+    let claims: OidcIdTokenClaims;
+    let tokens: OidcTokenResponse;
+    try {
+      tokens = await this.exchangeCode(code, login.codeVerifier);
+      if (!tokens.id_token) {
+        return { success: false, error: 'Provider did not return an ID token' };
+      }
+      claims = await this.verifyIdToken(tokens.id_token, login.nonce);
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+
+    const linked = await this.linkAccount(claims, tokens);
+    if (!linked) {
+      return { success: false, error: 'Email is registered to another account' };
+    }
+
+    const { user, created } = linked;
+    // The provider vouches for the identity, not for our second factor: accounts are linked by
+    // email, so a provider login must not skip the MFA the user set up here
+    if (user.mfaEnabled) {
+      return {
+        success: true,
+        userId: user.id,
+        created,
+        mfaToken: this.jwt.generateMfaPendingToken(user.id),
+      };
+    }
+
+    const { roles, permissions } = await this.authorization.getTokenClaims(user.id, user.role);
+    const issued = await this.refreshTokens.issue(
+      {
+        userId: user.id,
+        email: user.email,
+        roles,
+        permissions,
+        // Trust the provider's assertion that the login used more than one factor
+        mfaVerified: claims.amr?.includes('mfa') === true,
+      },
+      user.tokenVersion,
+      context
+    );
+    await this.db.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+
+    return {
+      success: true,
+      userId: user.id,
+      created,
+      tokens: issued,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: claims.given_name,
+        lastName: claims.family_name,
+        roles,
+        permissions,
+        verified: user.emailVerified !== null,
+        provider: this.providerId,
+      },
+    };
+  }
+
+  /**
+   * Password authentication is not part of the OIDC flow
+   */
+  async authenticate(): Promise<AuthResult> {
+    return {
+      success: false,
+      error: 'OIDC logins use the authorization redirect (createAuthorizationUrl)',
+    };
+  }
+
+  /**
+   * Validate one of our access tokens
+   */
+  async validateToken(token: string): Promise<TokenPayload> {
+    return this.jwt.validateAccessToken(token);
+  }
+
+  /**
+   * Rotate one of our refresh tokens
+   */
+  async refreshToken(refreshToken: string): Promise<TokenResult> {
+    const claims = await this.jwt.validateRefreshToken(refreshToken);
+    const user = await this.db.user.findUnique({ where: { id: claims.userId } });
+    if (!user || user.tokenVersion !== claims.tokenVersion) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const { roles, permissions } = await this.authorization.getTokenClaims(user.id, user.role);
+    const rotation = await this.refreshTokens.rotate(
+      claims,
+      { userId: user.id, email: user.email, roles, permissions },
+      user.tokenVersion
+    );
+    if (rotation.status !== 'rotated') {
+      throw new Error('Invalid refresh token');
+    }
+    return rotation.tokens;
+  }
+
+  /**
+   * Revoke the session (token family) of one of our refresh tokens
+   */
+  async revokeToken(token: string): Promise<void> {
+    const { familyId } = await this.jwt.validateRefreshToken(token);
+    if (familyId) {
+      await this.refreshTokens.revokeFamily(familyId);
+    }
+  }
+
+  private getDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+    if (!this.isConfigured()) {
+      return Promise.reject(new Error('OIDC provider is not configured'));
+    }
+
+    this.discovery ??= this.fetchJson<OidcDiscoveryDocument>(
+      `${this.issuer}/.well-known/openid-configuration`
+    ).then((metadata) => {
+      if (metadata.issuer.replace(/\/$/, '') !== this.issuer) {
+        throw new Error('OIDC discovery issuer mismatch');
+      }
+      return metadata;
+    });
+
+    // Retry discovery on the next login if it failed
+    this.discovery.catch(() => {
+      this.discovery = null;
+    });
+    return this.discovery;
+  }
+
+  /**
+   * Read and delete the stored login state so that each state value is used once
+   */
+  private async consumeState(state: string): Promise<OidcLoginState | null> {
+    if (!state) {
+      return null;
+    }
+    const key = `${STATE_KEY_PREFIX}:${state}`;
+    const login = await this.cache.get<OidcLoginState>(key);
+    if (login) {
+      await this.cache.delete(key);
+    }
+    return login;
+  }
+
+  private async exchangeCode(code: string, codeVerifier: string): Promise<OidcTokenResponse> {
+    const metadata = await this.getDiscoveryDocument();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectUri,
+      client_id: this.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (this.clientSecret) {
+      body.set('client_secret', this.clientSecret);
+    }
+
+    return this.fetchJson<OidcTokenResponse>(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body,
+    });
+  }
+
+  private async verifyIdToken(idToken: string, nonce: string): Promise<OidcIdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Malformed ID token');
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    let claims: OidcIdTokenClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: this.issuer,
+        audience: this.clientId,
+      }) as OidcIdTokenClaims;
+    } catch {
+      throw new Error('Invalid ID token');
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce mismatch');
+    }
+    return claims;
+  }
+
+  /**
+   * Find the provider's signing key, refreshing the JWKS once for unknown key ids (rotation)
+   */
+  private async getSigningKey(kid: string | undefined): Promise<KeyObject> {
+    const cacheKey = kid ?? '';
+    if (!this.keys.has(cacheKey)) {
+      const metadata = await this.getDiscoveryDocument();
+      const jwks = await this.fetchJson<{ keys: (JsonWebKey & { kid?: string; use?: string })[] }>(
+        metadata.jwks_uri
+      );
+      this.keys = new Map(
+        jwks.keys
+          .filter((jwk) => !jwk.use || jwk.use === 'sig')
+          .map((jwk) => [jwk.kid ?? '', createPublicKey({ key: jwk, format: 'jwk' })])
+      );
+    }
+
+    const key = this.keys.get(cacheKey);
+    if (!key) {
+      throw new Error('Unknown ID token signing key');
+    }
+    return key;
+  }
+
+  /**
+   * Find the user for a verified identity, linking or creating User and Account rows
+   * An existing user is only linked by email when the provider has verified the address
+   */
+  private async linkAccount(
+    claims: OidcIdTokenClaims,
+    tokens: OidcTokenResponse
+  ): Promise<{ user: User; created: boolean } | null> {
+    const accountData = {
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token ?? null,
+      id_token: tokens.id_token ?? null,
+      token_type: tokens.token_type ?? null,
+      scope: tokens.scope ?? null,
+      expires_at: tokens.expires_in ? Math.floor(Date.now() / 1000) + tokens.expires_in : null,
+    };
+
+    const account = await this.db.account.findUnique({
+      where: {
+        provider_providerAccountId: { provider: this.providerId, providerAccountId: claims.sub },
+      },
+      include: { user: true },
+    });
+    if (account) {
+      await this.db.account.update({ where: { id: account.id }, data: accountData });
+      return { user: account.user, created: false };
+    }
+
+    if (!claims.email) {
+      throw new Error('ID token has no email claim');
+    }
+    const email = claims.email.toLowerCase();
+    const emailVerified = claims.email_verified === true;
+
+    const existing = await this.db.user.findUnique({ where: { email } });
+    if (existing && !emailVerified) {
+      return null;
+    }
+
+    const link = {
+      type: 'oidc',
+      provider: this.providerId,
+      providerAccountId: claims.sub,
+      ...accountData,
+    };
+
+    if (existing) {
+      await this.db.account.create({ data: { userId: existing.id, ...link } });
+      return { user: existing, created: false };
+    }
+
+    const user = await this.db.user.create({
+      data: {
+        email,
+        name: claims.name ?? null,
+        image: claims.picture ?? null,
+        emailVerified: emailVerified ? new Date() : null,
+        accounts: { create: link },
+      },
+    });
+    return { user, created: true };
+  }
+
+  private async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...init?.headers },
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      throw new Error(`OIDC request to ${new URL(url).pathname} failed with ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+}
+
+function base64url(data: Buffer): string {
+  return data.toString('base64url');
+}
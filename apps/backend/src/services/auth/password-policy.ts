@@ -0,0 +1,37 @@
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 128;
+
+export interface PasswordStrengthResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Validate a password against the password policy
+ * At least 8 characters with upper and lower case letters, a number and a special character
+ */
+export function validatePasswordStrength(password: string): PasswordStrengthResult {
+  const errors: string[] = [];
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+  }
+  // bcrypt only uses the first 72 bytes; cap length to avoid hashing huge inputs
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    errors.push(`Password must be at most ${MAX_PASSWORD_LENGTH} characters long`);
+  }
+  if (!/[A-Z]/.test(password)) {
+    errors.push('Password must contain an uppercase letter');
+  }
+  if (!/[a-z]/.test(password)) {
+    errors.push('Password must contain a lowercase letter');
+  }
+  if (!/[0-9]/.test(password)) {
+    errors.push('Password must contain a number');
+  }
+  if (!/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
+    errors.push('Password must contain a special character');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,43 @@
+const SEPARATOR = ':';
+const WILDCARD = '*';
+
+/**
+ * Check whether a granted permission covers a required one
+ *
+ * Permissions have the form "resource:action[:scope]":
+ * - "*" matches any single segment, and a trailing "*" matches all remaining segments
+ *   ("users:*" covers "users:read" and "users:read:own"; "*" covers everything)
+ * - An unscoped permission covers its scoped variants ("files:read" covers "files:read:own"),
+ *   but not the other way around
+ */
+export function matchesPermission(granted: string, required: string): boolean {
+  if (granted === required) {
+    return true;
+  }
+
+  const grantedParts = granted.split(SEPARATOR);
+  const requiredParts = required.split(SEPARATOR);
+
+  for (let i = 0; i < grantedParts.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- Index within array bounds
+    const part = grantedParts[i];
+    if (part === WILDCARD && i === grantedParts.length - 1) {
+      return i < requiredParts.length;
+    }
+    // eslint-disable-next-line security/detect-object-injection -- Index within array bounds
+    const requiredPart = requiredParts[i];
+    if (requiredPart === undefined || (part !== WILDCARD && part !== requiredPart)) {
+      return false;
+    }
+  }
+
+  // Granted "resource:action" also covers narrower scopes of the same action
+  return grantedParts.length >= 2;
+}
+
+/**
+ * Check whether any of the granted permissions covers the required one
+ */
+export function hasMatchingPermission(granted: string[], required: string): boolean {
+  return granted.some((permission) => matchesPermission(permission, required));
+}
@@ -0,0 +1,297 @@
+import {
+  ComparisonOperator,
+  Condition,
+  LogicalCondition,
+  LogicalOperator,
+  Policy,
+  PolicyContext,
+  PolicyRule,
+} from '@repo/types';
+
+import { getContextResourceType } from './policy-store.service';
+
+/**
+ * Synchronous predicate compiled from a condition tree
+ */
+export type CompiledPredicate = (context: PolicyContext) => boolean;
+
+export interface CompiledRule {
+  rule: PolicyRule;
+  predicate: CompiledPredicate;
+}
+
+/**
+ * Policy with its rules compiled and the context attributes its conditions read
+ */
+export interface CompiledPolicy {
+  policy: Policy;
+  rules: CompiledRule[]; // Highest priority first
+  attributes: string[]; // "source.key" paths referenced by any rule
+  warnings: string[]; // Unsupported operators found while compiling
+}
+
+const WILDCARD = '*';
+
+/**
+ * Read an attribute from the context
+ * Supports nested keys with dot notation (e.g., "address.country")
+ */
+export function getAttributeValue(context: PolicyContext, source: string, path: string[]): unknown {
+  let value: unknown;
+  switch (source) {
+    case 'user':
+      value = context.user;
+      break;
+    case 'resource':
+      value = context.resource;
+      break;
+    case 'environment':
+      value = context.environment;
+      break;
+    case 'action':
+      value = { value: context.action };
+      break;
+    default:
+      return undefined;
+  }
+
+  for (const key of path) {
+    if (value && typeof value === 'object') {
+      // eslint-disable-next-line security/detect-object-injection -- Controlled access to ABAC attribute keys
+      value = (value as Record<string, unknown>)[key];
+    } else {
+      return undefined;
+    }
+  }
+
+  return value;
+}
+
+function compareOrdered(
+  actual: unknown,
+  expected: unknown,
+  compare: (a: number | string, b: number | string) => boolean
+): boolean {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return compare(actual, expected);
+  }
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    return compare(actual, expected);
+  }
+  return false;
+}
+
+/**
+ * Build a comparison for an operator and expected value, or null for an unsupported operator
+ * Regular expressions are compiled once here rather than on every evaluation
+ */
+function compileComparison(
+  operator: ComparisonOperator,
+  expected: unknown
+): ((actual: unknown) => boolean) | null {
+  switch (operator) {
+    case ComparisonOperator.EQUALS:
+      return (actual) => actual === expected;
+
+    case ComparisonOperator.NOT_EQUALS:
+      return (actual) => actual !== expected;
+
+    case ComparisonOperator.GREATER_THAN:
+      return (actual) => compareOrdered(actual, expected, (a, b) => a > b);
+
+    case ComparisonOperator.GREATER_THAN_OR_EQUAL:
+      return (actual) => compareOrdered(actual, expected, (a, b) => a >= b);
+
+    case ComparisonOperator.LESS_THAN:
+      return (actual) => compareOrdered(actual, expected, (a, b) => a < b);
+
+    case ComparisonOperator.LESS_THAN_OR_EQUAL:
+      return (actual) => compareOrdered(actual, expected, (a, b) => a <= b);
+
+    case ComparisonOperator.IN:
+      return (actual) => Array.isArray(expected) && expected.includes(actual);
+
+    case ComparisonOperator.NOT_IN:
+      return (actual) => Array.isArray(expected) && !expected.includes(actual);
+
+    case ComparisonOperator.CONTAINS:
+      return (actual) => {
+        if (typeof actual === 'string' && typeof expected === 'string') {
+          return actual.includes(expected);
+        }
+        if (Array.isArray(actual)) {
+          return actual.includes(expected);
+        }
+        return false;
+      };
+
+    case ComparisonOperator.MATCHES: {
+      if (typeof expected !== 'string') {
+        return () => false;
+      }
+      let regex: RegExp;
+      try {
+        // eslint-disable-next-line security/detect-non-literal-regexp
+        regex = new RegExp(expected);
+      } catch {
+        return () => false;
+      }
+      return (actual) => typeof actual === 'string' && regex.test(actual);
+    }
+
+    default:
+      return null;
+  }
+}
+
+function isLogicalCondition(node: Condition | LogicalCondition): node is LogicalCondition {
+  return 'operator' in node && 'conditions' in node;
+}
+
+function compileNode(
+  node: Condition | LogicalCondition,
+  attributes: Set<string>,
+  warnings: string[]
+): CompiledPredicate {
+  if (isLogicalCondition(node)) {
+    return compileLogical(node, attributes, warnings);
+  }
+
+  const { source, key } = node.attribute;
+  const path = key.split('.');
+  const compare = compileComparison(node.operator, node.value);
+  if (!compare) {
+    warnings.push(`Unsupported comparison operator: ${node.operator}`);
+    return () => false;
+  }
+  attributes.add(`${source}.${key}`);
+
+  return (context) => compare(getAttributeValue(context, source, path));
+}
+
+function compileLogical(
+  node: LogicalCondition,
+  attributes: Set<string>,
+  warnings: string[]
+): CompiledPredicate {
+  const children = node.conditions.map((child) => compileNode(child, attributes, warnings));
+
+  switch (node.operator) {
+    case LogicalOperator.AND:
+      // An empty AND never matches
+      return (context) => children.length > 0 && children.every((child) => child(context));
+
+    case LogicalOperator.OR:
+      return (context) => children.some((child) => child(context));
+
+    case LogicalOperator.NOT: {
+      // NOT negates its first condition; an empty NOT never matches
+      const first = children[0];
+      return first ? (context) => !first(context) : () => false;
+    }
+
+    default:
+      warnings.push(`Unsupported logical operator: ${node.operator}`);
+      return () => false;
+  }
+}
+
+/**
+ * Compile a condition tree into a synchronous predicate
+ * Conditions with an unsupported operator never match; they are reported in `warnings`
+ * rather than thrown, so one malformed stored policy cannot break every decision.
+ */
+export function compileConditions(
+  conditions: LogicalCondition,
+  attributes: Set<string> = new Set(),
+  warnings: string[] = []
+): CompiledPredicate {
+  return compileLogical(conditions, attributes, warnings);
+}
+
+/**
+ * Compile every rule of a policy, ordered by rule priority (higher first)
+ */
+export function compilePolicy(policy: Policy): CompiledPolicy {
+  const attributes = new Set<string>();
+  const warnings: string[] = [];
+  const rules = [...policy.rules]
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+    .map((rule) => ({
+      rule,
+      predicate: compileConditions(rule.conditions, attributes, warnings),
+    }));
+
+  return { policy, rules, attributes: Array.from(attributes).sort(), warnings };
+}
+
+/**
+ * Compiled policies indexed by target resource and action
+ * Untargeted lists and '*' entries are indexed under the wildcard bucket
+ */
+export class PolicyIndex {
+  private readonly buckets = new Map<string, Map<string, CompiledPolicy[]>>();
+  private readonly order = new Map<CompiledPolicy, number>();
+
+  constructor(policies: Policy[]) {
+    policies
+      .filter((policy) => policy.enabled)
+      .forEach((policy, position) => {
+        const compiled = compilePolicy(policy);
+        this.order.set(compiled, position);
+
+        for (const resource of this.keys(policy.target?.resources)) {
+          for (const action of this.keys(policy.target?.actions)) {
+            this.add(resource, action, compiled);
+          }
+        }
+      });
+  }
+
+  /**
+   * Number of indexed policies
+   */
+  get size(): number {
+    return this.order.size;
+  }
+
+  /**
+   * Indexed policies that compiled with warnings (see CompiledPolicy)
+   */
+  get withWarnings(): CompiledPolicy[] {
+    return Array.from(this.order.keys()).filter((compiled) => compiled.warnings.length > 0);
+  }
+
+  /**
+   * Compiled policies applicable to the context, in store order
+   */
+  lookup(context: PolicyContext): CompiledPolicy[] {
+    const resourceType = getContextResourceType(context);
+    const found = new Set<CompiledPolicy>();
+
+    for (const resource of resourceType ? [resourceType, WILDCARD] : [WILDCARD]) {
+      const actions = this.buckets.get(resource);
+      for (const action of [context.action, WILDCARD]) {
+        actions?.get(action)?.forEach((compiled) => found.add(compiled));
+      }
+    }
+
+    return Array.from(found).sort((a, b) => this.order.get(a)! - this.order.get(b)!);
+  }
+
+  private keys(values: string[] | undefined): string[] {
+    if (!values || values.length === 0 || values.includes(WILDCARD)) {
+      return [WILDCARD];
+    }
+    return Array.from(new Set(values));
+  }
+
+  private add(resource: string, action: string, compiled: CompiledPolicy): void {
+    let actions = this.buckets.get(resource);
+    if (!actions) {
+      actions = new Map();
+      this.buckets.set(resource, actions);
+    }
+    actions.set(action, [...(actions.get(action) ?? []), compiled]);
+  }
+}
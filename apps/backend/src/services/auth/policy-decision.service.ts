@@ -0,0 +1,171 @@
+import { createHash, randomUUID } from 'crypto';
+
+import { IPolicyStore, PolicyContext, PolicyEvaluationResult } from '@repo/types';
+import { container, inject, singleton } from 'tsyringe';
+
+import type { IMetricsService } from '../../infrastructure/observability';
+import { CacheService } from '../cache.service';
+import { LoggerService } from '../logger.service';
+
+import { CompiledPolicy, getAttributeValue, PolicyIndex } from './policy-compiler';
+import { PolicyEngine } from './policy-engine.service';
+import { getContextResourceType } from './policy-store.service';
+
+const GENERATION_KEY = 'abac:policies:generation';
+const DECISION_KEY_PREFIX = 'abac:decision';
+const CACHE_NAME = 'abac_decisions';
+const DEFAULT_DECISION_TTL_SECONDS = 60;
+
+/**
+ * Policy decision point for request-time ABAC checks
+ *
+ * Enabled policies are compiled once into a PolicyIndex keyed by resource/action.
+ * Decisions are cached in CacheService, keyed on the resource type, action and the
+ * context attributes the applicable policies actually read. A policy generation stored
+ * in the cache is rotated on every store change, which invalidates both the local index
+ * and all cached decisions (also across instances sharing Redis).
+ */
+@singleton()
+export class PolicyDecisionService {
+  private index: { generation: string; policies: PolicyIndex } | null = null;
+  private invalidation: Promise<unknown> = Promise.resolve();
+  private readonly ttl: number;
+  private readonly metrics?: IMetricsService;
+  private readonly logger?: LoggerService;
+
+  constructor(
+    @inject('PolicyStore') private readonly policyStore: IPolicyStore,
+    @inject(PolicyEngine) private readonly policyEngine: PolicyEngine,
+    @inject(CacheService) private readonly cache: CacheService
+  ) {
+    const ttl = Number(process.env['ABAC_DECISION_CACHE_TTL'] ?? DEFAULT_DECISION_TTL_SECONDS);
+    this.ttl = Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_DECISION_TTL_SECONDS;
+
+    try {
+      this.metrics = container.resolve<IMetricsService>('MetricsService');
+    } catch {
+      // Metrics are optional - evaluation works without them
+    }
+
+    try {
+      this.logger = container.resolve(LoggerService);
+    } catch {
+      // Logging is optional - evaluation works without it
+    }
+
+    this.policyStore.onChange?.(() => {
+      void this.invalidate();
+    });
+  }
+
+  /**
+   * Decide a request against the applicable policies
+   * Returns null when no enabled policy targets the context's resource and action
+   */
+  async decide(context: PolicyContext): Promise<PolicyEvaluationResult | null> {
+    const start = process.hrtime.bigint();
+    const index = await this.getIndex();
+    const policies = index.policies.lookup(context);
+    if (policies.length === 0) {
+      return null;
+    }
+
+    const key = this.ttl > 0 ? this.decisionKey(index.generation, policies, context) : null;
+
+    if (key) {
+      const cached = await this.cache.get<PolicyEvaluationResult>(key);
+      if (cached) {
+        this.record('hit', start);
+        return cached;
+      }
+    }
+
+    const result = this.policyEngine.evaluateCompiled(policies, context);
+    if (key) {
+      await this.cache.set(key, result, this.ttl);
+    }
+
+    this.record('miss', start);
+    return result;
+  }
+
+  /**
+   * Drop the compiled index and rotate the cache generation
+   */
+  invalidate(): Promise<unknown> {
+    this.index = null;
+    this.invalidation = this.cache.set(GENERATION_KEY, randomUUID());
+    return this.invalidation;
+  }
+
+  /**
+   * Get the compiled index, rebuilding it when the generation has changed
+   */
+  private async getIndex(): Promise<{ generation: string; policies: PolicyIndex }> {
+    // Make sure a local invalidation has reached the cache before reading the generation
+    await this.invalidation;
+
+    let generation = await this.cache.get<string>(GENERATION_KEY);
+    if (!generation) {
+      generation = randomUUID();
+      await this.cache.set(GENERATION_KEY, generation);
+    }
+
+    if (this.index?.generation !== generation) {
+      const policies = await this.policyStore.listPolicies({ enabled: true });
+      this.index = { generation, policies: new PolicyIndex(policies) };
+      for (const { policy, warnings } of this.index.policies.withWarnings) {
+        this.logger?.warn('ABAC policy has conditions that never match', {
+          policyId: policy.id,
+          warnings,
+        });
+      }
+    }
+
+    return this.index;
+  }
+
+  /**
+   * Cache key covering every context attribute the applicable policies read
+   */
+  private decisionKey(
+    generation: string,
+    policies: CompiledPolicy[],
+    context: PolicyContext
+  ): string {
+    const attributes = Array.from(new Set(policies.flatMap((p) => p.attributes))).sort();
+    const values = attributes.map((attribute) => {
+      const [source = '', ...path] = attribute.split('.');
+      return [attribute, getAttributeValue(context, source, path)];
+    });
+
+    const digest = createHash('sha256')
+      .update(
+        JSON.stringify([
+          getContextResourceType(context),
+          context.action,
+          policies.map((p) => p.policy.id),
+          values,
+        ])
+      )
+      .digest('hex');
+
+    return `${DECISION_KEY_PREFIX}:${generation}:${digest}`;
+  }
+
+  private record(cache: 'hit' | 'miss', start: bigint): void {
+    if (!this.metrics) {
+      return;
+    }
+
+    try {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.metrics.observeHistogram('abac_evaluation_duration_seconds', seconds, { cache });
+      this.metrics.incrementCounter(cache === 'hit' ? 'cache_hits_total' : 'cache_misses_total', {
+        cache_name: CACHE_NAME,
+      });
+    } catch {
+      // Metric recording must never fail an authorization check
+    }
+  }
+}
@@ -1,23 +1,50 @@
 import {
-  ComparisonOperator,
-  Condition,
+  CombiningAlgorithm,
   IPolicyEngine,
   LogicalCondition,
-  LogicalOperator,
   Policy,
   PolicyContext,
+  PolicyDecisionTrace,
   PolicyEffect,
+  PolicyEvaluationOptions,
   PolicyEvaluationResult,
+  PolicyEvaluationTrace,
   PolicyRule,
+  RuleEvaluationTrace,
 } from '@repo/types';
 import { injectable } from 'tsyringe';
 
+import { CombinableDecision, combineDecisions, isCombiningAlgorithm } from './combining-algorithms';
+import {
+  CompiledPolicy,
+  CompiledPredicate,
+  compileConditions,
+  compilePolicy,
+} from './policy-compiler';
+
 /**
  * Policy evaluation engine for ABAC
- * Evaluates policies and conditions against a given context
+ * Evaluates policies and conditions against a given context using compiled,
+ * synchronous predicates (see policy-compiler.ts)
+ *
+ * Rules within a policy are combined with the policy's `combiningAlgorithm`;
+ * policies are combined with the engine default (ABAC_COMBINING_ALGORITHM,
+ * deny-overrides unless configured) or a per-call override.
  */
 @injectable()
 export class PolicyEngine implements IPolicyEngine {
+  private readonly defaultAlgorithm: CombiningAlgorithm;
+  // Compiled predicates are memoised per (immutable) policy/condition object
+  private readonly compiledPolicies = new WeakMap<Policy, CompiledPolicy>();
+  private readonly compiledConditions = new WeakMap<LogicalCondition, CompiledPredicate>();
+
+  constructor() {
+    const configured = process.env['ABAC_COMBINING_ALGORITHM'];
+    this.defaultAlgorithm = isCombiningAlgorithm(configured)
+      ? configured
+      : CombiningAlgorithm.DENY_OVERRIDES;
+  }
+
   /**
    * Evaluate all applicable policies for a given context
    * Uses deny-overrides strategy: if any policy denies, access is denied
@@ -30,51 +57,112 @@ export class PolicyEngine implements IPolicyEngine {
   }
 
   /**
-   * Evaluate multiple policies with deny-overrides strategy
+   * Get the policy-combining algorithm used when none is passed explicitly
+   */
+  getDefaultAlgorithm(): CombiningAlgorithm {
+    return this.defaultAlgorithm;
+  }
+
+  /**
+   * Evaluate multiple policies with the configured policy-combining algorithm
    */
   async evaluatePolicies(
     policies: Policy[],
-    context: PolicyContext
+    context: PolicyContext,
+    options?: PolicyEvaluationOptions
   ): Promise<PolicyEvaluationResult> {
-    const deniedRules: string[] = [];
-    const allowedRules: string[] = [];
+    return this.evaluateCompiled(
+      policies.map((policy) => this.compile(policy)),
+      context,
+      options
+    );
+  }
 
-    // Sort policies by priority if available
-    const sortedPolicies = [...policies].filter((p) => p.enabled);
+  /**
+   * Evaluate multiple policies and return the decision together with a
+   * per-policy, per-rule trace (used for dry-run evaluation)
+   */
+  async explainPolicies(
+    policies: Policy[],
+    context: PolicyContext,
+    options?: PolicyEvaluationOptions
+  ): Promise<PolicyDecisionTrace> {
+    return this.explainCompiled(
+      policies.map((policy) => this.compile(policy)),
+      context,
+      options
+    );
+  }
 
-    for (const policy of sortedPolicies) {
-      const result = await this.evaluatePolicy(policy, context);
+  /**
+   * Evaluate already compiled policies (see PolicyIndex)
+   */
+  evaluateCompiled(
+    policies: CompiledPolicy[],
+    context: PolicyContext,
+    options?: PolicyEvaluationOptions
+  ): PolicyEvaluationResult {
+    const { effect, matchedRules, reason, obligations, advice } = this.explainCompiled(
+      policies,
+      context,
+      options
+    );
+    return { effect, matchedRules, reason, obligations, advice };
+  }
 
-      if (result.effect === PolicyEffect.DENY) {
-        deniedRules.push(...result.matchedRules);
-      } else if (result.effect === PolicyEffect.ALLOW) {
-        allowedRules.push(...result.matchedRules);
-      }
-    }
+  /**
+   * Evaluate already compiled policies and return the decision with its trace
+   */
+  explainCompiled(
+    policies: CompiledPolicy[],
+    context: PolicyContext,
+    options?: PolicyEvaluationOptions
+  ): PolicyDecisionTrace {
+    const algorithm = options?.combiningAlgorithm ?? this.defaultAlgorithm;
+
+    // Sort policies by priority (higher priority first, stable for equal priorities)
+    const traces = policies
+      .filter((compiled) => compiled.policy.enabled)
+      .sort((a, b) => (b.policy.priority ?? 0) - (a.policy.priority ?? 0))
+      .map((compiled) => this.tracePolicy(compiled, context));
+
+    // Policies that matched no rules are not applicable
+    const combined = combineDecisions(
+      algorithm,
+      traces.filter((t) => t.matchedRules.length > 0)
+    );
 
-    // Deny-overrides: if any rule denies, access is denied
-    if (deniedRules.length > 0) {
+    if (!combined) {
+      // No rules matched - default deny
       return {
         effect: PolicyEffect.DENY,
-        matchedRules: deniedRules,
-        reason: `Access denied by rules: ${deniedRules.join(', ')}`,
+        matchedRules: [],
+        reason: 'No matching policy rules found (default deny)',
+        obligations: [],
+        advice: [],
+        combiningAlgorithm: algorithm,
+        policies: traces,
       };
     }
 
-    // If at least one rule allows, access is granted
-    if (allowedRules.length > 0) {
-      return {
-        effect: PolicyEffect.ALLOW,
-        matchedRules: allowedRules,
-        reason: `Access granted by rules: ${allowedRules.join(', ')}`,
-      };
+    const rules = combined.matchedRules.join(', ');
+    let reason: string;
+    if (combined.conflict) {
+      reason = `Access denied: more than one applicable policy under ${algorithm} (rules: ${rules})`;
+    } else if (combined.effect === PolicyEffect.DENY) {
+      reason = `Access denied by rules: ${rules}`;
+    } else {
+      reason = `Access granted by rules: ${rules}`;
     }
 
-    // No rules matched - default deny
     return {
-      effect: PolicyEffect.DENY,
-      matchedRules: [],
-      reason: 'No matching policy rules found (default deny)',
+      effect: combined.effect,
+      matchedRules: combined.matchedRules,
+      reason,
+      obligations: combined.obligations,
+      advice: combined.advice,
+      combiningAlgorithm: algorithm,
+      policies: traces,
     };
   }
 
@@ -90,54 +178,11 @@ export class PolicyEngine implements IPolicyEngine {
       };
     }
 
-    const matchedRules: string[] = [];
-    const deniedRules: string[] = [];
-    const allowedRules: string[] = [];
-
-    // Sort rules by priority (higher priority first)
-    const sortedRules = [...policy.rules].sort((a, b) => {
-      const priorityA = a.priority ?? 0;
-      const priorityB = b.priority ?? 0;
-      return priorityB - priorityA;
-    });
-
-    for (const rule of sortedRules) {
-      const matches = await this.evaluateRule(rule, context);
-
-      if (matches) {
-        matchedRules.push(rule.id);
-
-        if (rule.effect === PolicyEffect.DENY) {
-          deniedRules.push(rule.id);
-        } else {
-          allowedRules.push(rule.id);
-        }
-      }
-    }
-
-    // Deny-overrides within policy
-    if (deniedRules.length > 0) {
-      return {
-        effect: PolicyEffect.DENY,
-        matchedRules: deniedRules,
-        reason: `Denied by rules: ${deniedRules.join(', ')}`,
-      };
-    }
-
-    if (allowedRules.length > 0) {
-      return {
-        effect: PolicyEffect.ALLOW,
-        matchedRules: allowedRules,
-        reason: `Allowed by rules: ${allowedRules.join(', ')}`,
-      };
-    }
-
-    // No rules matched in this policy
-    return {
-      effect: PolicyEffect.DENY,
-      matchedRules: [],
-      reason: 'No matching rules in policy',
-    };
+    const { effect, matchedRules, reason, obligations, advice } = this.tracePolicy(
+      this.compile(policy),
+      context
+    );
+    return { effect, matchedRules, reason, obligations, advice };
   }
 
   /**
@@ -151,217 +196,95 @@ export class PolicyEngine implements IPolicyEngine {
    * Evaluate conditions (logical combination)
    */
   async evaluateConditions(conditions: LogicalCondition, context: PolicyContext): Promise<boolean> {
-    switch (conditions.operator) {
-      case LogicalOperator.AND:
-        return this.evaluateAnd(conditions.conditions, context);
-
-      case LogicalOperator.OR:
-        return this.evaluateOr(conditions.conditions, context);
-
-      case LogicalOperator.NOT:
-        return this.evaluateNot(conditions.conditions, context);
-
-      default:
-        throw new Error(`Unsupported logical operator: ${conditions.operator}`);
+    let predicate = this.compiledConditions.get(conditions);
+    if (!predicate) {
+      predicate = compileConditions(conditions);
+      this.compiledConditions.set(conditions, predicate);
     }
+    return predicate(context);
   }
 
   /**
-   * Evaluate AND conditions (all must be true)
+   * Compile a policy once per policy object
    */
-  private async evaluateAnd(
-    conditions: (Condition | LogicalCondition)[],
-    context: PolicyContext
-  ): Promise<boolean> {
-    for (const condition of conditions) {
-      const result = await this.evaluateCondition(condition, context);
-      if (!result) {
-        return false;
-      }
+  private compile(policy: Policy): CompiledPolicy {
+    let compiled = this.compiledPolicies.get(policy);
+    if (!compiled) {
+      compiled = compilePolicy(policy);
+      this.compiledPolicies.set(policy, compiled);
     }
-    return conditions.length > 0;
+    return compiled;
   }
 
   /**
-   * Evaluate OR conditions (at least one must be true)
+   * Evaluate every rule of a policy, recording whether each one matched,
+   * and combine the matched rules with the policy's rule-combining algorithm
    */
-  private async evaluateOr(
-    conditions: (Condition | LogicalCondition)[],
-    context: PolicyContext
-  ): Promise<boolean> {
-    for (const condition of conditions) {
-      const result = await this.evaluateCondition(condition, context);
-      if (result) {
-        return true;
-      }
-    }
-    return false;
-  }
-
-  /**
-   * Evaluate NOT conditions (negation)
-   */
-  private async evaluateNot(
-    conditions: (Condition | LogicalCondition)[],
-    context: PolicyContext
-  ): Promise<boolean> {
-    if (conditions.length === 0) {
-      return false;
-    }
-
-    const firstCondition = conditions[0];
-    if (!firstCondition) {
-      return false;
-    }
-
-    const result = await this.evaluateCondition(firstCondition, context);
-    return !result;
-  }
+  private tracePolicy(compiled: CompiledPolicy, context: PolicyContext): PolicyEvaluationTrace {
+    const { policy } = compiled;
+    const algorithm = policy.combiningAlgorithm ?? CombiningAlgorithm.DENY_OVERRIDES;
+    const ruleTraces: RuleEvaluationTrace[] = [];
+    const matched: CombinableDecision[] = [];
+
+    // Compiled rules are already ordered by priority (higher priority first)
+    for (const { rule, predicate } of compiled.rules) {
+      const matches = predicate(context);
+
+      ruleTraces.push({
+        ruleId: rule.id,
+        effect: rule.effect,
+        priority: rule.priority ?? 0,
+        matched: matches,
+      });
 
-  /**
-   * Evaluate a single condition or logical condition
-   */
-  private async evaluateCondition(
-    condition: Condition | LogicalCondition,
-    context: PolicyContext
-  ): Promise<boolean> {
-    // Check if it's a logical condition
-    if ('operator' in condition && 'conditions' in condition) {
-      return this.evaluateConditions(condition as LogicalCondition, context);
+      if (matches) {
+        matched.push({
+          effect: rule.effect,
+          matchedRules: [rule.id],
+          obligations: rule.obligations,
+          advice: rule.advice,
+        });
+      }
     }
 
-    // Otherwise, it's a simple condition
-    return this.evaluateSimpleCondition(condition as Condition, context);
-  }
-
-  /**
-   * Evaluate a simple condition
-   */
-  private async evaluateSimpleCondition(
-    condition: Condition,
-    context: PolicyContext
-  ): Promise<boolean> {
-    const actualValue = this.extractAttributeValue(condition.attribute, context);
-    const expectedValue = condition.value;
-
-    return this.compareValues(actualValue, condition.operator, expectedValue);
-  }
-
-  /**
-   * Extract attribute value from context
-   * Returns unknown as ABAC attributes can be any type (string, number, boolean, etc.)
-   */
-  private extractAttributeValue(
-    attribute: { source: string; key: string },
-    context: PolicyContext
-  ): unknown {
-    const sourceMap: Record<string, Record<string, unknown>> = {
-      user: context.user as Record<string, unknown>,
-      resource: context.resource as Record<string, unknown>,
-      environment: context.environment as Record<string, unknown>,
-      action: { value: context.action },
+    const base = {
+      policyId: policy.id,
+      policyName: policy.name,
+      priority: policy.priority ?? 0,
+      combiningAlgorithm: algorithm,
+      rules: ruleTraces,
     };
+    const combined = combineDecisions(algorithm, matched);
 
-    const source = sourceMap[attribute.source];
-    if (!source) {
-      return undefined;
+    if (!combined) {
+      // No rules matched in this policy
+      return {
+        ...base,
+        effect: PolicyEffect.DENY,
+        matchedRules: [],
+        reason: 'No matching rules in policy',
+        obligations: [],
+        advice: [],
+      };
     }
 
-    // Support nested keys with dot notation (e.g., "user.department")
-    const keys = attribute.key.split('.');
-    let value: unknown = source;
-
-    for (const key of keys) {
-      if (value && typeof value === 'object' && value !== null) {
-        // eslint-disable-next-line security/detect-object-injection -- Controlled access to ABAC attribute keys
-        value = (value as Record<string, unknown>)[key];
-      } else {
-        return undefined;
-      }
+    const rules = combined.matchedRules.join(', ');
+    let reason: string;
+    if (combined.conflict) {
+      reason = `Denied: more than one rule matched under ${algorithm} (rules: ${rules})`;
+    } else if (combined.effect === PolicyEffect.DENY) {
+      reason = `Denied by rules: ${rules}`;
+    } else {
+      reason = `Allowed by rules: ${rules}`;
     }
 
-    return value;
-  }
-
-  /**
-   * Compare values using the specified operator
-   * Uses unknown for ABAC value comparison as attributes can be any type
-   * Runtime type checking ensures safe comparisons
-   */
-  private compareValues(actual: unknown, operator: ComparisonOperator, expected: unknown): boolean {
-    switch (operator) {
-      case ComparisonOperator.EQUALS:
-        return actual === expected;
-
-      case ComparisonOperator.NOT_EQUALS:
-        return actual !== expected;
-
-      case ComparisonOperator.GREATER_THAN:
-        // Type guard for numeric/string comparison
-        if (typeof actual === 'number' && typeof expected === 'number') {
-          return actual > expected;
-        }
-        if (typeof actual === 'string' && typeof expected === 'string') {
-          return actual > expected;
-        }
-        return false;
-
-      case ComparisonOperator.GREATER_THAN_OR_EQUAL:
-        if (typeof actual === 'number' && typeof expected === 'number') {
-          return actual >= expected;
-        }
-        if (typeof actual === 'string' && typeof expected === 'string') {
-          return actual >= expected;
-        }
-        return false;
-
-      case ComparisonOperator.LESS_THAN:
-        if (typeof actual === 'number' && typeof expected === 'number') {
-          return actual < expected;
-        }
-        if (typeof actual === 'string' && typeof expected === 'string') {
-          return actual < expected;
-        }
-        return false;
-
-      case ComparisonOperator.LESS_THAN_OR_EQUAL:
-        if (typeof actual === 'number' && typeof expected === 'number') {
-          return actual <= expected;
-        }
-        if (typeof actual === 'string' && typeof expected === 'string') {
-          return actual <= expected;
-        }
-        return false;
-
-      case ComparisonOperator.IN:
-        return Array.isArray(expected) && expected.includes(actual);
-
-      case ComparisonOperator.NOT_IN:
-        return Array.isArray(expected) && !expected.includes(actual);
-
-      case ComparisonOperator.CONTAINS:
-        if (typeof actual === 'string' && typeof expected === 'string') {
-          return actual.includes(expected);
-        }
-        if (Array.isArray(actual)) {
-          return actual.includes(expected);
-        }
-        return false;
-
-      case ComparisonOperator.MATCHES:
-        if (typeof actual === 'string' && typeof expected === 'string') {
-          try {
-            // eslint-disable-next-line security/detect-non-literal-regexp
-            const regex = new RegExp(expected);
-            return regex.test(actual);
-          } catch {
-            return false;
-          }
-        }
-        return false;
-
-      default:
-        throw new Error(`Unsupported comparison operator: ${operator}`);
-    }
+    return {
+      ...base,
+      effect: combined.effect,
+      matchedRules: combined.matchedRules,
+      reason,
+      obligations: combined.obligations,
+      advice: combined.advice,
+    };
   }
 }
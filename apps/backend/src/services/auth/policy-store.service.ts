@@ -1,23 +1,62 @@
 import { randomUUID } from 'crypto';
 
-import {
-  AttributeSource,
-  ComparisonOperator,
-  IPolicyStore,
-  LogicalOperator,
-  Policy,
-  PolicyContext,
-  PolicyEffect,
-} from '@repo/types';
+import { IPolicyStore, Policy, PolicyContext } from '@repo/types';
 import { injectable } from 'tsyringe';
 
+import { EXAMPLE_POLICIES } from './example-policies';
+
+/**
+ * Resolve the resource type a context refers to
+ */
+export function getContextResourceType(context: PolicyContext): string | undefined {
+  const type = context.resource['type'];
+  return typeof type === 'string' ? type : undefined;
+}
+
+/**
+ * Check whether a policy's target covers the context's resource and action
+ * Policies without a target (or with empty lists) apply to everything
+ */
+export function isPolicyApplicable(policy: Policy, context: PolicyContext): boolean {
+  const matches = (values: string[] | undefined, candidate: string | undefined): boolean => {
+    if (!values || values.length === 0) return true;
+    if (values.includes('*')) return true;
+    return candidate !== undefined && values.includes(candidate);
+  };
+
+  return (
+    matches(policy.target?.resources, getContextResourceType(context)) &&
+    matches(policy.target?.actions, context.action)
+  );
+}
+
 /**
- * In-memory policy store for development
- * Database-ready interface for future implementation
+ * Notifies subscribers after a policy store changes
+ * Used to invalidate compiled policies and cached decisions
+ */
+export class PolicyChangeEmitter {
+  private readonly listeners = new Set<() => void>();
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * In-memory policy store for development and tests
+ * See PrismaPolicyStore for the persistent implementation
  */
 @injectable()
 export class InMemoryPolicyStore implements IPolicyStore {
   private policies: Map<string, Policy> = new Map();
+  private readonly changes = new PolicyChangeEmitter();
 
   /**
    * Create a new policy
@@ -32,6 +71,7 @@ export class InMemoryPolicyStore implements IPolicyStore {
     };
 
     this.policies.set(newPolicy.id, newPolicy);
+    this.changes.emit();
     return newPolicy;
   }
 
@@ -83,6 +123,7 @@ export class InMemoryPolicyStore implements IPolicyStore {
     };
 
     this.policies.set(id, updated);
+    this.changes.emit();
     return updated;
   }
 
@@ -90,16 +131,26 @@ export class InMemoryPolicyStore implements IPolicyStore {
    * Delete policy
    */
   async deletePolicy(id: string): Promise<boolean> {
-    return this.policies.delete(id);
+    const deleted = this.policies.delete(id);
+    if (deleted) {
+      this.changes.emit();
+    }
+    return deleted;
   }
 
   /**
-   * Find policies applicable to a given context
-   * For now, returns all enabled policies
-   * In a real implementation, this could filter by action, resource type, etc.
+   * Find enabled policies whose target matches the context's resource and action
    */
-  async findApplicablePolicies(_context: PolicyContext): Promise<Policy[]> {
-    return this.listPolicies({ enabled: true });
+  async findApplicablePolicies(context: PolicyContext): Promise<Policy[]> {
+    const policies = await this.listPolicies({ enabled: true });
+    return policies.filter((policy) => isPolicyApplicable(policy, context));
+  }
+
+  /**
+   * Subscribe to policy changes
+   */
+  onChange(listener: () => void): () => void {
+    return this.changes.subscribe(listener);
   }
 
   /**
@@ -107,190 +158,15 @@ export class InMemoryPolicyStore implements IPolicyStore {
    */
   async reset(): Promise<void> {
     this.policies.clear();
+    this.changes.emit();
   }
 
   /**
    * Initialize with example policies
    */
   async initializeExamplePolicies(): Promise<void> {
-    // Example 1: Time-based access (business hours only)
-    await this.createPolicy({
-      name: 'Business Hours Access',
-      description: 'Allow access only during business hours (9 AM - 5 PM)',
-      version: '1.0.0',
-      enabled: true,
-      tags: ['time-based', 'example'],
-      rules: [
-        {
-          id: 'business-hours-rule',
-          description: 'Check if current time is within business hours',
-          conditions: {
-            operator: LogicalOperator.AND,
-            conditions: [
-              {
-                attribute: { source: AttributeSource.ENVIRONMENT, key: 'hour' },
-                operator: ComparisonOperator.GREATER_THAN_OR_EQUAL,
-                value: 9,
-              },
-              {
-                attribute: { source: AttributeSource.ENVIRONMENT, key: 'hour' },
-                operator: ComparisonOperator.LESS_THAN,
-                value: 17,
-              },
-            ],
-          },
-          effect: PolicyEffect.ALLOW,
-          priority: 10,
-        },
-      ],
-    });
-
-    // Example 2: Department-based access
-    await this.createPolicy({
-      name: 'Department Access Control',
-      description: 'Allow access based on user department',
-      version: '1.0.0',
-      enabled: true,
-      tags: ['department', 'example'],
-      rules: [
-        {
-          id: 'hr-department-rule',
-          description: 'HR department can access employee records',
-          conditions: {
-            operator: LogicalOperator.AND,
-            conditions: [
-              {
-                attribute: { source: AttributeSource.USER, key: 'department' },
-                operator: ComparisonOperator.EQUALS,
-                value: 'HR',
-              },
-              {
-                attribute: { source: AttributeSource.ACTION, key: 'value' },
-                operator: ComparisonOperator.IN,
-                value: ['read', 'update', 'create'],
-              },
-              {
-                attribute: { source: AttributeSource.RESOURCE, key: 'type' },
-                operator: ComparisonOperator.EQUALS,
-                value: 'employee',
-              },
-            ],
-          },
-          effect: PolicyEffect.ALLOW,
-          priority: 20,
-        },
-      ],
-    });
-
-    // Example 3: Resource state-based access
-    await this.createPolicy({
-      name: 'Draft Document Access',
-      description: 'Only document owners can edit draft documents',
-      version: '1.0.0',
-      enabled: true,
-      tags: ['ownership', 'state-based', 'example'],
-      rules: [
-        {
-          id: 'draft-owner-edit-rule',
-          description: 'Owners can edit draft documents',
-          conditions: {
-            operator: LogicalOperator.AND,
-            conditions: [
-              {
-                attribute: { source: AttributeSource.RESOURCE, key: 'status' },
-                operator: ComparisonOperator.EQUALS,
-                value: 'draft',
-              },
-              {
-                attribute: { source: AttributeSource.RESOURCE, key: 'ownerId' },
-                operator: ComparisonOperator.EQUALS,
-                value: '${user.id}', // Special syntax for comparing with user context
-              },
-              {
-                attribute: { source: AttributeSource.ACTION, key: 'value' },
-                operator: ComparisonOperator.EQUALS,
-                value: 'update',
-              },
-            ],
-          },
-          effect: PolicyEffect.ALLOW,
-          priority: 30,
-        },
-        {
-          id: 'published-no-edit-rule',
-          description: 'Published documents cannot be edited',
-          conditions: {
-            operator: LogicalOperator.AND,
-            conditions: [
-              {
-                attribute: { source: AttributeSource.RESOURCE, key: 'status' },
-                operator: ComparisonOperator.EQUALS,
-                value: 'published',
-              },
-              {
-                attribute: { source: AttributeSource.ACTION, key: 'value' },
-                operator: ComparisonOperator.IN,
-                value: ['update', 'delete'],
-              },
-            ],
-          },
-          effect: PolicyEffect.DENY,
-          priority: 50, // Higher priority than allow rules
-        },
-      ],
-    });
-
-    // Example 4: Location-based access
-    await this.createPolicy({
-      name: 'Geographic Access Control',
-      description: 'Restrict access based on user location',
-      version: '1.0.0',
-      enabled: true,
-      tags: ['location', 'example'],
-      rules: [
-        {
-          id: 'us-only-access-rule',
-          description: 'Allow access only from US locations',
-          conditions: {
-            operator: LogicalOperator.AND,
-            conditions: [
-              {
-                attribute: { source: AttributeSource.ENVIRONMENT, key: 'country' },
-                operator: ComparisonOperator.IN,
-                value: ['US', 'USA', 'United States'],
-              },
-            ],
-          },
-          effect: PolicyEffect.ALLOW,
-          priority: 15,
-        },
-        {
-          id: 'sensitive-action-location-rule',
-          description: 'Deny sensitive actions from unknown locations',
-          conditions: {
-            operator: LogicalOperator.AND,
-            conditions: [
-              {
-                attribute: { source: AttributeSource.ACTION, key: 'value' },
-                operator: ComparisonOperator.IN,
-                value: ['delete', 'export'],
-              },
-              {
-                operator: LogicalOperator.NOT,
-                conditions: [
-                  {
-                    attribute: { source: AttributeSource.ENVIRONMENT, key: 'ipAddress' },
-                    operator: ComparisonOperator.MATCHES,
-                    value: '^(10\\.|192\\.168\\.|172\\.(1[6-9]|2[0-9]|3[0-1])\\.)',
-                  },
-                ],
-              },
-            ],
-          },
-          effect: PolicyEffect.DENY,
-          priority: 40,
-        },
-      ],
-    });
+    for (const policy of EXAMPLE_POLICIES) {
+      await this.createPolicy(policy);
+    }
   }
 }
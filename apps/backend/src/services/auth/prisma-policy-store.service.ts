@@ -0,0 +1,395 @@
+import { randomUUID } from 'crypto';
+
+import { Prisma } from '@prisma/client';
+import {
+  AttributeSource,
+  ComparisonOperator,
+  Condition,
+  IPolicyStore,
+  LogicalCondition,
+  LogicalOperator,
+  Policy,
+  PolicyContext,
+  PolicyEffect,
+  PolicyObligation,
+  PolicyRule,
+} from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { DatabaseService } from '../database.service';
+
+import { isCombiningAlgorithm } from './combining-algorithms';
+import { getContextResourceType, PolicyChangeEmitter } from './policy-store.service';
+
+const policyInclude = {
+  rules: { include: { conditions: true }, orderBy: { position: 'asc' } },
+  tags: true,
+} satisfies Prisma.AbacPolicyInclude;
+
+type PolicyRecord = Prisma.AbacPolicyGetPayload<{ include: typeof policyInclude }>;
+type ConditionRecord = PolicyRecord['rules'][number]['conditions'][number];
+type ConditionRow = Omit<Prisma.AbacPolicyConditionCreateManyInput, 'ruleId'>;
+
+export interface PolicyVersionEntry {
+  version: string;
+  snapshot: Prisma.JsonValue;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+/**
+ * Prisma-backed policy store
+ * Persists policies, rules, condition trees and tags, and snapshots every change
+ */
+@injectable()
+export class PrismaPolicyStore implements IPolicyStore {
+  // Changes made through other instances are picked up via the decision cache generation
+  private readonly changes = new PolicyChangeEmitter();
+
+  constructor(@inject(DatabaseService) private readonly db: DatabaseService) {}
+
+  /**
+   * Create a new policy
+   */
+  async createPolicy(policy: Omit<Policy, 'id' | 'createdAt' | 'updatedAt'>): Promise<Policy> {
+    const created = await this.db.abacPolicy.create({
+      data: {
+        name: policy.name,
+        description: policy.description,
+        version: policy.version,
+        enabled: policy.enabled,
+        priority: policy.priority ?? 0,
+        combiningAlgorithm: policy.combiningAlgorithm,
+        resources: policy.target?.resources ?? [],
+        actions: policy.target?.actions ?? [],
+        createdBy: policy.createdBy,
+        rules: { create: policy.rules.map((rule, index) => this.toRuleCreateInput(rule, index)) },
+        tags: { create: (policy.tags ?? []).map((tag) => ({ tag })) },
+        versions: {
+          create: {
+            version: policy.version,
+            snapshot: this.toSnapshot(policy),
+            createdBy: policy.createdBy,
+          },
+        },
+      },
+      include: policyInclude,
+    });
+
+    this.changes.emit();
+    return this.toPolicy(created);
+  }
+
+  /**
+   * Get policy by ID
+   */
+  async getPolicy(id: string): Promise<Policy | null> {
+    const record = await this.db.abacPolicy.findUnique({ where: { id }, include: policyInclude });
+    return record ? this.toPolicy(record) : null;
+  }
+
+  /**
+   * List all policies
+   */
+  async listPolicies(filter?: { enabled?: boolean; tags?: string[] }): Promise<Policy[]> {
+    const where: Prisma.AbacPolicyWhereInput = {};
+
+    if (filter?.enabled !== undefined) {
+      where.enabled = filter.enabled;
+    }
+
+    if (filter?.tags && filter.tags.length > 0) {
+      where.tags = { some: { tag: { in: filter.tags } } };
+    }
+
+    const records = await this.db.abacPolicy.findMany({
+      where,
+      include: policyInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return records.map((record) => this.toPolicy(record));
+  }
+
+  /**
+   * Update existing policy
+   * Rules and tags are replaced wholesale when provided
+   */
+  async updatePolicy(
+    id: string,
+    updates: Partial<Omit<Policy, 'id' | 'createdAt'>>
+  ): Promise<Policy> {
+    const updated = await this.db.$transaction(async (tx) => {
+      const existing = await tx.abacPolicy.findUnique({ where: { id } });
+      if (!existing) {
+        throw new Error(`Policy not found: ${id}`);
+      }
+
+      if (updates.rules) {
+        await tx.abacPolicyRule.deleteMany({ where: { policyId: id } });
+      }
+      if (updates.tags) {
+        await tx.abacPolicyTag.deleteMany({ where: { policyId: id } });
+      }
+
+      const record = await tx.abacPolicy.update({
+        where: { id },
+        data: {
+          name: updates.name,
+          description: updates.description,
+          version: updates.version,
+          enabled: updates.enabled,
+          priority: updates.priority,
+          combiningAlgorithm: updates.combiningAlgorithm,
+          createdBy: updates.createdBy,
+          ...(updates.target && {
+            resources: updates.target.resources ?? [],
+            actions: updates.target.actions ?? [],
+          }),
+          ...(updates.rules && {
+            rules: {
+              create: updates.rules.map((rule, index) => this.toRuleCreateInput(rule, index)),
+            },
+          }),
+          ...(updates.tags && { tags: { create: updates.tags.map((tag) => ({ tag })) } }),
+        },
+        include: policyInclude,
+      });
+
+      const policy = this.toPolicy(record);
+      await tx.abacPolicyVersion.create({
+        data: {
+          policyId: id,
+          version: policy.version,
+          snapshot: this.toSnapshot(policy),
+          createdBy: policy.createdBy,
+        },
+      });
+
+      return policy;
+    });
+
+    this.changes.emit();
+    return updated;
+  }
+
+  /**
+   * Delete policy
+   */
+  async deletePolicy(id: string): Promise<boolean> {
+    const result = await this.db.abacPolicy.deleteMany({ where: { id } });
+    if (result.count > 0) {
+      this.changes.emit();
+    }
+    return result.count > 0;
+  }
+
+  /**
+   * Find enabled policies whose target matches the context's resource and action
+   * Empty target lists and '*' entries act as wildcards
+   */
+  async findApplicablePolicies(context: PolicyContext): Promise<Policy[]> {
+    const resourceType = getContextResourceType(context);
+    const resourceMatch: Prisma.AbacPolicyWhereInput[] = [
+      { resources: { isEmpty: true } },
+      { resources: { has: '*' } },
+    ];
+    if (resourceType) {
+      resourceMatch.push({ resources: { has: resourceType } });
+    }
+
+    const records = await this.db.abacPolicy.findMany({
+      where: {
+        enabled: true,
+        AND: [
+          { OR: resourceMatch },
+          {
+            OR: [{ actions: { isEmpty: true } }, { actions: { hasSome: ['*', context.action] } }],
+          },
+        ],
+      },
+      include: policyInclude,
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return records.map((record) => this.toPolicy(record));
+  }
+
+  /**
+   * Subscribe to policy changes made through this store
+   */
+  onChange(listener: () => void): () => void {
+    return this.changes.subscribe(listener);
+  }
+
+  /**
+   * List the version history of a policy (newest first)
+   */
+  async listPolicyVersions(policyId: string): Promise<PolicyVersionEntry[]> {
+    const versions = await this.db.abacPolicyVersion.findMany({
+      where: { policyId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return versions.map((v) => ({
+      version: v.version,
+      snapshot: v.snapshot,
+      createdBy: v.createdBy ?? undefined,
+      createdAt: v.createdAt,
+    }));
+  }
+
+  /**
+   * Build nested create input for a rule and its flattened condition tree
+   */
+  private toRuleCreateInput(
+    rule: PolicyRule,
+    position: number
+  ): Prisma.AbacPolicyRuleCreateWithoutPolicyInput {
+    return {
+      ruleKey: rule.id,
+      description: rule.description,
+      effect: rule.effect,
+      priority: rule.priority ?? 0,
+      position,
+      obligations: this.toJson(rule.obligations),
+      advice: this.toJson(rule.advice),
+      conditions: { createMany: { data: this.flattenConditions(rule.conditions) } },
+    };
+  }
+
+  /**
+   * Flatten a condition tree into rows (parents before children)
+   */
+  private flattenConditions(root: LogicalCondition): ConditionRow[] {
+    const rows: ConditionRow[] = [];
+
+    const visit = (
+      node: Condition | LogicalCondition,
+      parentId: string | null,
+      position: number
+    ): void => {
+      const id = randomUUID();
+
+      if ('conditions' in node) {
+        rows.push({ id, parentId, position, logicalOperator: node.operator });
+        node.conditions.forEach((child, index) => visit(child, id, index));
+        return;
+      }
+
+      rows.push({
+        id,
+        parentId,
+        position,
+        attributeSource: node.attribute.source,
+        attributeKey: node.attribute.key,
+        comparisonOperator: node.operator,
+        value: node.value === undefined ? Prisma.JsonNull : (node.value as Prisma.InputJsonValue),
+      });
+    };
+
+    visit(root, null, 0);
+    return rows;
+  }
+
+  /**
+   * Rebuild a condition tree from its flattened rows
+   */
+  private buildConditions(rows: ConditionRecord[]): LogicalCondition {
+    const children = new Map<string | null, ConditionRecord[]>();
+    for (const row of rows) {
+      const siblings = children.get(row.parentId) ?? [];
+      siblings.push(row);
+      children.set(row.parentId, siblings);
+    }
+
+    const toNode = (row: ConditionRecord): Condition | LogicalCondition => {
+      if (row.logicalOperator) {
+        const nested = [...(children.get(row.id) ?? [])].sort((a, b) => a.position - b.position);
+        return {
+          operator: row.logicalOperator as LogicalOperator,
+          conditions: nested.map(toNode),
+        };
+      }
+
+      return {
+        attribute: {
+          source: row.attributeSource as AttributeSource,
+          key: row.attributeKey ?? '',
+        },
+        operator: row.comparisonOperator as ComparisonOperator,
+        value: row.value,
+      };
+    };
+
+    const root = children.get(null)?.[0];
+    if (!root) {
+      return { operator: LogicalOperator.AND, conditions: [] };
+    }
+
+    return toNode(root) as LogicalCondition;
+  }
+
+  /**
+   * Map a database record to the domain Policy shape
+   */
+  private toPolicy(record: PolicyRecord): Policy {
+    const hasTarget = record.resources.length > 0 || record.actions.length > 0;
+
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description ?? undefined,
+      version: record.version,
+      enabled: record.enabled,
+      priority: record.priority,
+      combiningAlgorithm: isCombiningAlgorithm(record.combiningAlgorithm)
+        ? record.combiningAlgorithm
+        : undefined,
+      target: hasTarget ? { resources: record.resources, actions: record.actions } : undefined,
+      rules: record.rules.map((rule) => ({
+        id: rule.ruleKey,
+        description: rule.description ?? undefined,
+        conditions: this.buildConditions(rule.conditions),
+        effect: rule.effect as PolicyEffect,
+        priority: rule.priority,
+        obligations: (rule.obligations as PolicyObligation[] | null) ?? undefined,
+        advice: (rule.advice as PolicyObligation[] | null) ?? undefined,
+      })),
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      createdBy: record.createdBy ?? undefined,
+      tags: record.tags.map((t) => t.tag),
+    };
+  }
+
+  /**
+   * Nullable JSON column input for obligations/advice
+   */
+  private toJson(
+    obligations: PolicyObligation[] | undefined
+  ): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+    return obligations ? (obligations as unknown as Prisma.InputJsonValue) : Prisma.JsonNull;
+  }
+
+  /**
+   * Serialisable snapshot of a policy definition for version history
+   */
+  private toSnapshot(
+    policy: Omit<Policy, 'id' | 'createdAt' | 'updatedAt'>
+  ): Prisma.InputJsonValue {
+    return JSON.parse(
+      JSON.stringify({
+        name: policy.name,
+        description: policy.description,
+        version: policy.version,
+        enabled: policy.enabled,
+        priority: policy.priority,
+        combiningAlgorithm: policy.combiningAlgorithm,
+        target: policy.target,
+        rules: policy.rules,
+        tags: policy.tags,
+      })
+    ) as Prisma.InputJsonValue;
+  }
+}
@@ -0,0 +1,135 @@
+import { IRbacStore } from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { DatabaseService } from '../database.service';
+
+/**
+ * Prisma-backed RBAC store
+ * Roles, permissions and assignments live in the roles, permissions, role_permissions,
+ * role_inheritance, user_roles and user_permissions tables
+ */
+@injectable()
+export class PrismaRbacStore implements IRbacStore {
+  constructor(@inject(DatabaseService) private readonly db: DatabaseService) {}
+
+  async getUserRoles(userId: string): Promise<string[]> {
+    const assignments = await this.db.userRoleAssignment.findMany({
+      where: { userId },
+      select: { role: { select: { name: true } } },
+    });
+    return assignments.map((a) => a.role.name);
+  }
+
+  async getUserPermissions(userId: string): Promise<string[]> {
+    const grants = await this.db.userPermission.findMany({
+      where: { userId },
+      select: { permission: { select: { name: true } } },
+    });
+    return grants.map((g) => g.permission.name);
+  }
+
+  async getRolePermissions(roles: string[]): Promise<string[]> {
+    if (roles.length === 0) {
+      return [];
+    }
+
+    const permissions = await this.db.permission.findMany({
+      where: { roles: { some: { role: { name: { in: roles } } } } },
+      select: { name: true },
+    });
+    return permissions.map((p) => p.name);
+  }
+
+  async assignRole(userId: string, role: string): Promise<void> {
+    const { id: roleId } = await this.upsertRole(role);
+    await this.db.userRoleAssignment.upsert({
+      where: { userId_roleId: { userId, roleId } },
+      create: { userId, roleId },
+      update: {},
+    });
+  }
+
+  async revokeRole(userId: string, role: string): Promise<void> {
+    await this.db.userRoleAssignment.deleteMany({ where: { userId, role: { name: role } } });
+  }
+
+  async grantPermission(userId: string, permission: string): Promise<void> {
+    const { id: permissionId } = await this.upsertPermission(permission);
+    await this.db.userPermission.upsert({
+      where: { userId_permissionId: { userId, permissionId } },
+      create: { userId, permissionId },
+      update: {},
+    });
+  }
+
+  async revokePermission(userId: string, permission: string): Promise<void> {
+    await this.db.userPermission.deleteMany({
+      where: { userId, permission: { name: permission } },
+    });
+  }
+
+  async setRolePermissions(role: string, permissions: string[]): Promise<void> {
+    const { id: roleId } = await this.upsertRole(role);
+    const permissionIds = await Promise.all(
+      permissions.map(async (name) => (await this.upsertPermission(name)).id)
+    );
+
+    await this.db.$transaction([
+      this.db.rolePermission.deleteMany({ where: { roleId } }),
+      this.db.rolePermission.createMany({
+        data: permissionIds.map((permissionId) => ({ roleId, permissionId })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  async getRoleParents(roles: string[]): Promise<Record<string, string[]>> {
+    if (roles.length === 0) {
+      return {};
+    }
+
+    const links = await this.db.roleInheritance.findMany({
+      where: { role: { name: { in: roles } } },
+      select: { role: { select: { name: true } }, parent: { select: { name: true } } },
+    });
+
+    const parents: Record<string, string[]> = {};
+    for (const { role, parent } of links) {
+      (parents[role.name] ??= []).push(parent.name);
+    }
+    return parents;
+  }
+
+  async setRoleParents(role: string, parents: string[]): Promise<void> {
+    const { id: roleId } = await this.upsertRole(role);
+    const parentIds = await Promise.all(
+      parents.map(async (name) => (await this.upsertRole(name)).id)
+    );
+
+    await this.db.$transaction([
+      this.db.roleInheritance.deleteMany({ where: { roleId } }),
+      this.db.roleInheritance.createMany({
+        data: parentIds.map((parentId) => ({ roleId, parentId })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  private upsertRole(name: string): Promise<{ id: string }> {
+    return this.db.role.upsert({
+      where: { name },
+      create: { name },
+      update: {},
+      select: { id: true },
+    });
+  }
+
+  private upsertPermission(name: string): Promise<{ id: string }> {
+    return this.db.permission.upsert({
+      where: { name },
+      create: { name },
+      update: {},
+      select: { id: true },
+    });
+  }
+}
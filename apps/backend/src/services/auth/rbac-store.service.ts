@@ -0,0 +1,113 @@
+import { IRbacStore } from '@repo/types';
+import { injectable } from 'tsyringe';
+
+import { DEFAULT_ROLES } from './default-roles';
+
+/**
+ * In-memory RBAC store for development and tests
+ * See PrismaRbacStore for the persistent implementation
+ */
+@injectable()
+export class InMemoryRbacStore implements IRbacStore {
+  private userRoles: Map<string, Set<string>> = new Map();
+  private userPermissions: Map<string, Set<string>> = new Map();
+  private rolePermissions: Map<string, Set<string>> = new Map();
+  private roleParents: Map<string, Set<string>> = new Map();
+
+  constructor() {
+    this.initializeDefaultRoles();
+  }
+
+  async getUserRoles(userId: string): Promise<string[]> {
+    const roles = this.userRoles.get(userId);
+    return roles ? Array.from(roles) : [];
+  }
+
+  async getUserPermissions(userId: string): Promise<string[]> {
+    const perms = this.userPermissions.get(userId);
+    return perms ? Array.from(perms) : [];
+  }
+
+  async getRolePermissions(roles: string[]): Promise<string[]> {
+    const permissions = new Set<string>();
+    for (const role of roles) {
+      this.rolePermissions.get(role)?.forEach((p) => permissions.add(p));
+    }
+    return Array.from(permissions);
+  }
+
+  async assignRole(userId: string, role: string): Promise<void> {
+    const roles = this.userRoles.get(userId) || new Set();
+    roles.add(role);
+    this.userRoles.set(userId, roles);
+  }
+
+  async revokeRole(userId: string, role: string): Promise<void> {
+    const roles = this.userRoles.get(userId);
+    if (roles) {
+      roles.delete(role);
+      if (roles.size === 0) {
+        this.userRoles.delete(userId);
+      }
+    }
+  }
+
+  async grantPermission(userId: string, permission: string): Promise<void> {
+    const perms = this.userPermissions.get(userId) || new Set();
+    perms.add(permission);
+    this.userPermissions.set(userId, perms);
+  }
+
+  async revokePermission(userId: string, permission: string): Promise<void> {
+    const perms = this.userPermissions.get(userId);
+    if (perms) {
+      perms.delete(permission);
+      if (perms.size === 0) {
+        this.userPermissions.delete(userId);
+      }
+    }
+  }
+
+  async setRolePermissions(role: string, permissions: string[]): Promise<void> {
+    this.rolePermissions.set(role, new Set(permissions));
+  }
+
+  async getRoleParents(roles: string[]): Promise<Record<string, string[]>> {
+    const parents: Record<string, string[]> = {};
+    for (const role of roles) {
+      const inherited = this.roleParents.get(role);
+      if (inherited && inherited.size > 0) {
+        // eslint-disable-next-line security/detect-object-injection -- Role names are used as record keys
+        parents[role] = Array.from(inherited);
+      }
+    }
+    return parents;
+  }
+
+  async setRoleParents(role: string, parents: string[]): Promise<void> {
+    this.roleParents.set(role, new Set(parents));
+  }
+
+  /**
+   * Reset to the default roles (for testing)
+   */
+  async reset(): Promise<void> {
+    this.userRoles.clear();
+    this.userPermissions.clear();
+    this.rolePermissions.clear();
+    this.roleParents.clear();
+    this.initializeDefaultRoles();
+  }
+
+  /**
+   * Initialize default role-permission mappings and role inheritance
+   */
+  private initializeDefaultRoles(): void {
+    for (const [role, { permissions, inherits }] of Object.entries(DEFAULT_ROLES)) {
+      this.rolePermissions.set(role, new Set(permissions));
+      if (inherits) {
+        this.roleParents.set(role, new Set(inherits));
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import type { Prisma } from '@prisma/client';
+import { inject, injectable } from 'tsyringe';
+
+import { DatabaseService } from '../database.service';
+import { ENCRYPTED_FIELDS, FieldEncryption } from '../field-encryption';
+
+import { EncryptionService } from './encryption.service';
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * A database column holding EncryptionService ciphertext
+ * When `plaintextLegacy` is set, values not in the versioned format are plaintext written
+ * before the column was encrypted (rather than ciphertext in the unversioned format).
+ */
+interface EncryptedColumn {
+  model: Prisma.ModelName;
+  field: string;
+  plaintextLegacy: boolean;
+}
+
+// The delegate methods used here, which every model has
+interface ModelDelegate {
+  findMany(args: object): Promise<Array<Record<string, unknown>>>;
+  updateMany(args: object): Promise<{ count: number }>;
+}
+
+const ENCRYPTED_COLUMNS: EncryptedColumn[] = [
+  // Encrypted by MfaService
+  { model: 'User', field: 'mfaSecret', plaintextLegacy: false },
+  // Encrypted by the field encryption extension
+  ...Object.entries(ENCRYPTED_FIELDS).flatMap(([model, fields]) =>
+    Object.keys(fields).map((field) => ({
+      model: model as Prisma.ModelName,
+      field,
+      plaintextLegacy: true,
+    }))
+  ),
+];
+
+export interface ReencryptionResult {
+  keyId: string;
+  scanned: number;
+  reencrypted: number;
+  failed: number;
+}
+
+/**
+ * Moves encrypted columns to the current encryption master key
+ *
+ * After a master key is added to the front of ENCRYPTION_MASTER_KEYS, this rewraps every
+ * value still under an older key (or in the unversioned format), so the old key can then be
+ * removed. It also encrypts plaintext left in columns declared for the field encryption
+ * extension since they were written, setting their blind indexes. Values that fail to
+ * decrypt are counted and left alone.
+ */
+@injectable()
+export class ReencryptionService {
+  private readonly fieldEncryption: FieldEncryption;
+
+  constructor(
+    @inject(DatabaseService) private readonly db: DatabaseService,
+    @inject(EncryptionService) private readonly encryption: EncryptionService
+  ) {
+    this.fieldEncryption = new FieldEncryption(encryption);
+  }
+
+  async reencryptAll(
+    options: { batchSize?: number; onBatch?: (field: string, scanned: number) => unknown } = {}
+  ): Promise<ReencryptionResult> {
+    const take = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const result: ReencryptionResult = {
+      keyId: this.encryption.getCurrentKeyId(),
+      scanned: 0,
+      reencrypted: 0,
+      failed: 0,
+    };
+
+    for (const column of ENCRYPTED_COLUMNS) {
+      const { model, field } = column;
+      // Stored values, bypassing the field encryption extension
+      const delegate = this.db.withoutFieldEncryption[
+        (model.charAt(0).toLowerCase() + model.slice(1)) as Uncapitalize<Prisma.ModelName>
+      ] as unknown as ModelDelegate;
+
+      let afterId: string | undefined;
+      for (;;) {
+        const rows = await delegate.findMany({
+          where: { [field]: { not: null }, ...(afterId ? { id: { gt: afterId } } : {}) },
+          select: { id: true, [field]: true },
+          orderBy: { id: 'asc' },
+          take,
+        });
+        for (const row of rows) {
+          result.scanned++;
+          // eslint-disable-next-line security/detect-object-injection -- Declared column names only
+          const stored = row[field] as string;
+          try {
+            const data = await this.reencryptValue(column, stored);
+            if (!data) {
+              continue;
+            }
+            // Skips rows changed meanwhile: they were written under the current key
+            const { count } = await delegate.updateMany({
+              where: { id: row['id'], [field]: stored },
+              data,
+            });
+            result.reencrypted += count;
+          } catch {
+            result.failed++;
+          }
+        }
+        await options.onBatch?.(`${model}.${field}`, result.scanned);
+        if (rows.length < take) {
+          break;
+        }
+        afterId = rows[rows.length - 1]!['id'] as string;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Column values moving a stored value to the current key, or null when it is already there
+   */
+  private async reencryptValue(
+    column: EncryptedColumn,
+    stored: string
+  ): Promise<Record<string, unknown> | null> {
+    if (this.encryption.isEncrypted(stored) || !column.plaintextLegacy) {
+      return this.encryption.needsReencryption(stored)
+        ? { [column.field]: await this.encryption.reencrypt(stored) }
+        : null;
+    }
+    return this.fieldEncryption.encryptField(column.model, column.field, stored);
+  }
+}
@@ -0,0 +1,226 @@
+import { randomBytes, randomUUID } from 'crypto';
+
+import type { Session } from '@prisma/client';
+import { TokenPayload, TokenResult } from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { describeUserAgent } from '../../utils/user-agent';
+import { DatabaseService } from '../database.service';
+
+import { JwtService, RefreshTokenClaims } from './jwt.service';
+
+/**
+ * Request details recorded with each issued refresh token
+ */
+export interface RefreshTokenContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Outcome of presenting a refresh token for rotation
+ * - rotated: the token was current; it is now spent and `tokens` replace it
+ * - reused: the token was already rotated or revoked; its whole family has been revoked
+ * - invalid: the token is unknown, untracked or belongs to another user
+ */
+export type RefreshTokenRotation =
+  | { status: 'rotated'; tokens: TokenResult }
+  | { status: 'reused'; familyId: string }
+  | { status: 'invalid' };
+
+/**
+ * Login session as shown to its user
+ */
+export type ActiveSession = Pick<
+  Session,
+  'id' | 'device' | 'ipAddress' | 'userAgent' | 'createdAt' | 'lastSeenAt' | 'expires'
+>;
+
+/**
+ * Server-side refresh token tracking with rotation and reuse detection
+ *
+ * Every refresh token has a RefreshToken record keyed by its jti. Each refresh spends the
+ * presented token and issues a successor in the same family, so a token can be used once.
+ * Replaying a spent token means it was copied, so the family (the login it came from) is
+ * revoked and both the attacker and the legitimate client must sign in again.
+ *
+ * Each family is also recorded as a Session (id = familyId) with the device, address and
+ * last-seen time, so users can review their logins and end them individually.
+ */
+@injectable()
+export class RefreshTokenService {
+  constructor(
+    @inject(DatabaseService) private readonly db: DatabaseService,
+    @inject(JwtService) private readonly jwt: JwtService
+  ) {}
+
+  /**
+   * Issue access and refresh tokens for a new login, starting a family and its session
+   */
+  async issue(
+    payload: Omit<TokenPayload, 'iat' | 'exp'>,
+    tokenVersion: number,
+    context: RefreshTokenContext = {}
+  ): Promise<TokenResult> {
+    const familyId = randomUUID();
+    await this.db.session.create({
+      data: {
+        id: familyId,
+        // Required by the NextAuth schema; JWT logins never look sessions up by token
+        sessionToken: randomBytes(32).toString('hex'),
+        userId: payload.userId,
+        expires: this.refreshExpiry(),
+        ipAddress: context.ipAddress ?? null,
+        userAgent: context.userAgent ?? null,
+        device: describeUserAgent(context.userAgent),
+      },
+    });
+
+    return (await this.create(payload, tokenVersion, context, familyId)).tokens;
+  }
+
+  /**
+   * Spend a verified refresh token and issue its successor
+   */
+  async rotate(
+    claims: RefreshTokenClaims,
+    payload: Omit<TokenPayload, 'iat' | 'exp'>,
+    tokenVersion: number,
+    context: RefreshTokenContext = {}
+  ): Promise<RefreshTokenRotation> {
+    if (!claims.jti || !claims.familyId) {
+      return { status: 'invalid' };
+    }
+
+    const record = await this.db.refreshToken.findUnique({ where: { id: claims.jti } });
+    if (!record || record.userId !== claims.userId || record.familyId !== claims.familyId) {
+      return { status: 'invalid' };
+    }
+
+    if (record.revokedAt || record.replacedById) {
+      await this.revokeFamily(record.familyId);
+      return { status: 'reused', familyId: record.familyId };
+    }
+
+    // The successor keeps the MFA status of the login it descends from
+    const { tokens, jti: successor } = await this.create(
+      { ...payload, mfaVerified: record.mfaVerified },
+      tokenVersion,
+      context,
+      record.familyId
+    );
+
+    // Conditional update so that concurrent presentations of one token cannot both succeed
+    const { count } = await this.db.refreshToken.updateMany({
+      where: { id: record.id, revokedAt: null, replacedById: null },
+      data: { revokedAt: new Date(), replacedById: successor },
+    });
+
+    if (count === 0) {
+      await this.revokeFamily(record.familyId);
+      return { status: 'reused', familyId: record.familyId };
+    }
+
+    // updateMany: families started before sessions were recorded have none
+    await this.db.session.updateMany({
+      where: { id: record.familyId },
+      data: {
+        lastSeenAt: new Date(),
+        expires: this.refreshExpiry(),
+        ...(context.ipAddress && { ipAddress: context.ipAddress }),
+        ...(context.userAgent && {
+          userAgent: context.userAgent,
+          device: describeUserAgent(context.userAgent),
+        }),
+      },
+    });
+
+    return { status: 'rotated', tokens };
+  }
+
+  /**
+   * A user's unexpired login sessions, most recently seen first
+   */
+  async listSessions(userId: string): Promise<ActiveSession[]> {
+    return this.db.session.findMany({
+      where: { userId, expires: { gt: new Date() } },
+      select: {
+        id: true,
+        device: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+        lastSeenAt: true,
+        expires: true,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+  }
+
+  /**
+   * End one of the user's sessions; returns false when the user has no such session
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.db.session.findFirst({ where: { id: sessionId, userId } });
+    if (!session) {
+      return false;
+    }
+    await this.revokeFamily(sessionId);
+    return true;
+  }
+
+  /**
+   * Revoke every active token of a family (one login across its rotations)
+   */
+  async revokeFamily(familyId: string): Promise<number> {
+    const { count } = await this.db.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    await this.db.session.deleteMany({ where: { id: familyId } });
+    return count;
+  }
+
+  /**
+   * Revoke every active refresh token of a user (log out all devices)
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    const { count } = await this.db.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    await this.db.session.deleteMany({ where: { userId } });
+    return count;
+  }
+
+  private async create(
+    payload: Omit<TokenPayload, 'iat' | 'exp'>,
+    tokenVersion: number,
+    context: RefreshTokenContext,
+    familyId: string
+  ): Promise<{ tokens: TokenResult; jti: string }> {
+    const jti = randomUUID();
+
+    await this.db.refreshToken.create({
+      data: {
+        id: jti,
+        userId: payload.userId,
+        familyId,
+        expiresAt: this.refreshExpiry(),
+        mfaVerified: payload.mfaVerified === true,
+        ipAddress: context.ipAddress ?? null,
+        userAgent: context.userAgent ?? null,
+      },
+    });
+
+    const tokens = this.jwt.generateTokens({ ...payload, sessionId: familyId }, tokenVersion, {
+      jti,
+      familyId,
+    });
+    return { tokens, jti };
+  }
+
+  private refreshExpiry(): Date {
+    return new Date(Date.now() + this.jwt.getRefreshTokenTtl() * 1000);
+  }
+}
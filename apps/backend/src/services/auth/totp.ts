@@ -0,0 +1,135 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TIME_STEP_SECONDS = 30;
+const DIGITS = 6;
+const SECRET_BYTES = 20; // 160 bits, as recommended by RFC 4226 for HMAC-SHA1
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32 (the encoding authenticator apps expect)
+ */
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET.charAt((value >>> (bits - 5)) & 31);
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET.charAt((value << (5 - bits)) & 31);
+  }
+
+  return output;
+}
+
+/**
+ * Decode RFC 4648 base32, ignoring case, padding and whitespace
+ */
+export function base32Decode(encoded: string): Buffer {
+  const clean = encoded.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random base32 TOTP secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Time step (RFC 6238 counter) for a timestamp in milliseconds
+ */
+export function getTimeStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / TIME_STEP_SECONDS);
+}
+
+/**
+ * HOTP value (RFC 4226) for a counter
+ */
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac('sha1', key).update(message).digest();
+
+  // Dynamic truncation
+  const offset = digest[digest.length - 1]! & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/**
+ * Generate the TOTP code (RFC 6238, SHA-1, 6 digits, 30s steps) for a base32 secret
+ */
+export function generateTotp(secret: string, timestamp: number = Date.now()): string {
+  return hotp(base32Decode(secret), getTimeStep(timestamp));
+}
+
+/**
+ * Verify a TOTP code, allowing `window` steps of clock drift either side
+ * Returns the matched time step, or null; steps at or before `afterStep` are rejected
+ * so that a code cannot be replayed
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { window?: number; timestamp?: number; afterStep?: number | null } = {}
+): number | null {
+  const candidate = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(candidate) || candidate.length !== DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = getTimeStep(options.timestamp);
+  const window = options.window ?? 1;
+
+  for (let step = current - window; step <= current + window; step++) {
+    if (options.afterStep != null && step <= options.afterStep) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(candidate))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// provisioning URI that authenticator apps scan as a QR code
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(TIME_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
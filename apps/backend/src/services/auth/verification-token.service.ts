@@ -0,0 +1,71 @@
+import { createHash, randomBytes } from 'crypto';
+
+import { inject, injectable } from 'tsyringe';
+
+import { DatabaseService } from '../database.service';
+
+/**
+ * What a verification token proves; stored as the identifier prefix
+ */
+export type VerificationPurpose = 'email-verification' | 'password-reset' | 'account-unlock';
+
+/**
+ * Single-use tokens backed by the VerificationToken table
+ *
+ * Only a SHA-256 hash of each token is stored, and the identifier is
+ * "<purpose>:<subject>" (e.g. "email-verification:<userId>").
+ * Issuing a new token replaces any outstanding token for the same identifier.
+ */
+@injectable()
+export class VerificationTokenService {
+  constructor(@inject(DatabaseService) private readonly db: DatabaseService) {}
+
+  /**
+   * Issue a token for a subject and return the raw (unhashed) token
+   */
+  async issue(purpose: VerificationPurpose, subject: string, ttlSeconds: number): Promise<string> {
+    const identifier = `${purpose}:${subject}`;
+    const token = randomBytes(32).toString('base64url');
+
+    await this.db.$transaction([
+      this.db.verificationToken.deleteMany({ where: { identifier } }),
+      this.db.verificationToken.create({
+        data: {
+          identifier,
+          token: this.hash(token),
+          expires: new Date(Date.now() + ttlSeconds * 1000),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Consume a token and return its subject
+   * Returns null for unknown, expired or other-purpose tokens; a matching token is deleted
+   */
+  async consume(purpose: VerificationPurpose, token: string): Promise<string | null> {
+    const prefix = `${purpose}:`;
+    const record = await this.db.verificationToken.findUnique({
+      where: { token: this.hash(token) },
+    });
+    if (!record?.identifier.startsWith(prefix)) {
+      return null;
+    }
+
+    // deleteMany keeps concurrent consumers from both succeeding
+    const { count } = await this.db.verificationToken.deleteMany({
+      where: { token: record.token },
+    });
+    if (count === 0 || record.expires.getTime() <= Date.now()) {
+      return null;
+    }
+
+    return record.identifier.slice(prefix.length);
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
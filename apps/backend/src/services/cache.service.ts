@@ -1,3 +1,5 @@
+import { randomUUID } from 'crypto';
+
 import Redis from 'ioredis';
 import { inject, singleton } from 'tsyringe';
 
@@ -15,6 +17,9 @@ interface IRedisClient {
   exists(key: string): Promise<number>;
   expire(key: string, ttl: number): Promise<number>;
   mget(...keys: string[]): Promise<(string | null)[]>;
+  zadd(key: string, score: number, member: string): Promise<number | string>;
+  zremrangebyscore(key: string, min: number | string, max: number | string): Promise<number>;
+  zcard(key: string): Promise<number>;
   flushdb(): Promise<string>;
   ping(): Promise<string>;
   quit(): Promise<string>;
@@ -24,6 +29,7 @@ interface IRedisClient {
 // Minimal in-memory mock implementing the Redis subset used in tests
 class MockRedis implements IRedisClient {
   private readonly store = new Map<string, string>();
+  private readonly sortedSets = new Map<string, Map<string, number>>();
 
   async get(key: string): Promise<string | null> {
     return this.store.get(key) ?? null;
@@ -41,11 +47,12 @@ class MockRedis implements IRedisClient {
   }
 
   async del(key: string): Promise<number> {
-    return this.store.delete(key) ? 1 : 0;
+    const deleted = [this.store.delete(key), this.sortedSets.delete(key)].some(Boolean);
+    return deleted ? 1 : 0;
   }
 
   async exists(key: string): Promise<number> {
-    return this.store.has(key) ? 1 : 0;
+    return this.store.has(key) || this.sortedSets.has(key) ? 1 : 0;
   }
 
   async expire(_key: string, _ttl: number): Promise<number> {
@@ -56,8 +63,36 @@ class MockRedis implements IRedisClient {
     return keys.map((k) => this.store.get(k) ?? null);
   }
 
+  async zadd(key: string, score: number, member: string): Promise<number> {
+    const set = this.sortedSets.get(key) ?? new Map<string, number>();
+    const added = set.has(member) ? 0 : 1;
+    set.set(member, score);
+    this.sortedSets.set(key, set);
+    return added;
+  }
+
+  async zremrangebyscore(key: string, min: number | string, max: number | string): Promise<number> {
+    const set = this.sortedSets.get(key);
+    if (!set) return 0;
+    const low = min === '-inf' ? -Infinity : Number(min);
+    const high = max === '+inf' ? Infinity : Number(max);
+    let removed = 0;
+    for (const [member, score] of set) {
+      if (score >= low && score <= high) {
+        set.delete(member);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async zcard(key: string): Promise<number> {
+    return this.sortedSets.get(key)?.size ?? 0;
+  }
+
   async flushdb(): Promise<string> {
     this.store.clear();
+    this.sortedSets.clear();
     return 'OK';
   }
 
@@ -218,6 +253,37 @@ export class CacheService {
     }
   }
 
+  /**
+   * Record an event in a sliding window and return how many events the window now holds
+   * Events are members of a sorted set scored by time; entries older than the window are
+   * dropped on every call. Returns 0 when Redis is unavailable (fail open).
+   */
+  async slidingWindowHit(key: string, windowSeconds: number): Promise<number> {
+    try {
+      const now = Date.now();
+      await this.client.zremrangebyscore(key, '-inf', now - windowSeconds * 1000);
+      await this.client.zadd(key, now, `${now}:${randomUUID()}`);
+      await this.client.expire(key, windowSeconds);
+      return await this.client.zcard(key);
+    } catch (error) {
+      this.logger.error(`Cache sliding window error for key: ${key}`, error as Error);
+      return 0;
+    }
+  }
+
+  /**
+   * Count the events currently in a sliding window without recording one
+   */
+  async slidingWindowCount(key: string, windowSeconds: number): Promise<number> {
+    try {
+      await this.client.zremrangebyscore(key, '-inf', Date.now() - windowSeconds * 1000);
+      return await this.client.zcard(key);
+    } catch (error) {
+      this.logger.error(`Cache sliding window error for key: ${key}`, error as Error);
+      return 0;
+    }
+  }
+
   /**
    * Flush all cache
    */
@@ -0,0 +1,349 @@
+import { Prisma } from '@prisma/client';
+import type { AuditLogEntry } from '@repo/types';
+
+import { requestContext } from '../context/request-context';
+
+import { AuditAction } from './audit/audit-log.service';
+import { ENCRYPTED_FIELDS } from './field-encryption';
+
+export interface AuditedModelOptions {
+  /**
+   * Primary key fields (default: id); the runtime schema does not include them
+   */
+  primaryKey?: string[];
+  /**
+   * Fields recorded as changed without their values, in addition to sensitive and encrypted ones
+   */
+  mask?: string[];
+  /**
+   * Fields left out of diffs; writes that only change these are not recorded
+   */
+  ignore?: string[];
+}
+
+/**
+ * A field's value before and after a write (before is absent for creates, after for deletes)
+ */
+export interface FieldChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+export type DataChangeRecorder = (change: Omit<AuditLogEntry, 'timestamp'>) => Promise<void>;
+
+type Data = Record<string, unknown>;
+type Query = (args: Data) => Promise<unknown>;
+type ModelReader = (
+  model: string,
+  operation: 'findUnique' | 'findMany',
+  args: Data
+) => Promise<unknown>;
+
+/**
+ * Models whose writes are audited by the data change audit extension
+ */
+export const AUDITED_MODELS: Partial<Record<Prisma.ModelName, AuditedModelOptions>> = {
+  User: { ignore: ['emailHash', 'updatedAt', 'lastLoginAt', 'mfaLastUsedStep'] },
+  Profile: { ignore: ['updatedAt'] },
+  ApiKey: { ignore: ['lastUsedAt', 'lastUsedIp'] },
+  Role: { ignore: ['updatedAt'] },
+  RoleInheritance: { primaryKey: ['roleId', 'parentId'] },
+  Permission: {},
+  RolePermission: { primaryKey: ['roleId', 'permissionId'] },
+  UserRoleAssignment: { primaryKey: ['userId', 'roleId'] },
+  UserPermission: { primaryKey: ['userId', 'permissionId'] },
+  AbacPolicy: { ignore: ['updatedAt'] },
+};
+
+const MASKED = '[MASKED]';
+
+// Masked in every model: credentials and anything derived from them
+const SENSITIVE_FIELD = /password|secret|token|hash/i;
+
+// Scalar fields by model
+const SCALARS = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    model.fields.filter((field) => field.kind !== 'object').map((field) => field.name),
+  ])
+);
+
+function isPlainObject(value: unknown): value is Data {
+  return (
+    typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+// Values as they are stored in audit log metadata (JSON)
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Audit records of the writes to the declared models (AUDITED_MODELS)
+ *
+ * Each created, updated or deleted record is logged as a data.create / data.update /
+ * data.delete entry with a diff of its scalar fields. Sensitive fields (credentials and
+ * ENCRYPTED_FIELDS) only show that they changed. Entries are attributed to the user and
+ * correlation id of the current request (context/request-context.ts); impersonated requests
+ * to the acting admin, like the rest of the audit log.
+ *
+ * The state before a write is read separately through the reader, outside any transaction the
+ * write belongs to. Results narrowed with `select` only diff the selected fields, createMany is
+ * recorded by count, and nested writes are not recorded.
+ */
+export class DataChangeAudit {
+  constructor(
+    private readonly read: ModelReader,
+    private readonly record: DataChangeRecorder
+  ) {}
+
+  isAudited(model: string): boolean {
+    return model in AUDITED_MODELS;
+  }
+
+  /**
+   * Run a model operation, recording the changes it makes
+   */
+  async run(model: string, operation: string, args: Data, query: Query): Promise<unknown> {
+    if (!this.isAudited(model)) {
+      return query(args);
+    }
+
+    switch (operation) {
+      case 'create': {
+        const result = await query(args);
+        await this.recordChanges(model, operation, AuditAction.CREATE, [[null, result as Data]]);
+        return result;
+      }
+      case 'createMany':
+      case 'createManyAndReturn': {
+        const result = await query(args);
+        if (Array.isArray(result)) {
+          const created = result.map((item: Data): [null, Data] => [null, item]);
+          await this.recordChanges(model, operation, AuditAction.CREATE, created);
+        } else {
+          await this.recordCount(model, operation, AuditAction.CREATE, result);
+        }
+        return result;
+      }
+      case 'update':
+      case 'upsert': {
+        const before = await this.findUnique(model, args['where']);
+        const result = await query(args);
+        const action = before ? AuditAction.UPDATE : AuditAction.CREATE;
+        await this.recordChanges(model, operation, action, [[before, result as Data]]);
+        return result;
+      }
+      case 'delete': {
+        const before = await this.findUnique(model, args['where']);
+        const result = await query(args);
+        await this.recordChanges(model, operation, AuditAction.DELETE, [
+          [before ?? (result as Data), null],
+        ]);
+        return result;
+      }
+      case 'updateMany':
+      case 'updateManyAndReturn': {
+        const before = await this.findMany(model, { where: args['where'] });
+        const result = await query(args);
+        const after = Array.isArray(result)
+          ? (result as Data[])
+          : await this.findMany(model, { where: this.primaryKeyWhere(model, before) });
+        const updated = before.map((item): [Data, Data | null] => [
+          item,
+          after.find((candidate) => this.sameRecord(model, item, candidate)) ?? null,
+        ]);
+        await this.recordChanges(
+          model,
+          operation,
+          AuditAction.UPDATE,
+          updated.filter((pair): pair is [Data, Data] => pair[1] !== null)
+        );
+        return result;
+      }
+      case 'deleteMany': {
+        const before = await this.findMany(model, { where: args['where'] });
+        const result = await query(args);
+        const deleted = before.map((item): [Data, null] => [item, null]);
+        await this.recordChanges(model, operation, AuditAction.DELETE, deleted);
+        return result;
+      }
+      default:
+        return query(args);
+    }
+  }
+
+  /**
+   * Changed scalar fields between two states of a record, with sensitive values masked
+   */
+  diff(model: string, before: Data | null, after: Data | null): Record<string, FieldChange> {
+    const ignore = AUDITED_MODELS[model as Prisma.ModelName]?.ignore ?? [];
+    const changes: Record<string, FieldChange> = {};
+
+    for (const field of SCALARS.get(model) ?? []) {
+      const inBefore = before !== null && field in before;
+      const inAfter = after !== null && field in after;
+      // Updates diff the fields both states have (results narrowed with `select` have fewer)
+      const present = before && after ? inBefore && inAfter : inBefore || inAfter;
+      if (!present || ignore.includes(field)) {
+        continue;
+      }
+
+      // eslint-disable-next-line security/detect-object-injection -- Scalar field of the model
+      const from = inBefore ? normalize(before?.[field]) : undefined;
+      // eslint-disable-next-line security/detect-object-injection -- Scalar field of the model
+      const to = inAfter ? normalize(after?.[field]) : undefined;
+      const unchanged =
+        before && after
+          ? JSON.stringify(from) === JSON.stringify(to)
+          : (before ? from : to) === null;
+      if (unchanged) {
+        continue;
+      }
+
+      const mask = (value: unknown): unknown =>
+        this.isMasked(model, field) && value !== null ? MASKED : value;
+      // eslint-disable-next-line security/detect-object-injection -- Scalar field of the model
+      changes[field] = {
+        ...(before ? { before: mask(from) } : {}),
+        ...(after ? { after: mask(to) } : {}),
+      };
+    }
+    return changes;
+  }
+
+  private isMasked(model: string, field: string): boolean {
+    const options = AUDITED_MODELS[model as Prisma.ModelName] ?? {};
+    return (
+      SENSITIVE_FIELD.test(field) ||
+      field in (ENCRYPTED_FIELDS[model as Prisma.ModelName] ?? {}) ||
+      (options.mask ?? []).includes(field)
+    );
+  }
+
+  private async recordChanges(
+    model: string,
+    operation: string,
+    action: AuditAction,
+    records: Array<[Data | null, Data | null]>
+  ): Promise<void> {
+    for (const [before, after] of records) {
+      const changes = this.diff(model, before, after);
+      if (action === AuditAction.UPDATE && Object.keys(changes).length === 0) {
+        continue;
+      }
+      await this.log(model, action, this.resourceId(model, after ?? before), {
+        operation,
+        changes,
+      });
+    }
+  }
+
+  private async recordCount(
+    model: string,
+    operation: string,
+    action: AuditAction,
+    result: unknown
+  ): Promise<void> {
+    const count = isPlainObject(result) ? result['count'] : undefined;
+    if (typeof count === 'number' && count > 0) {
+      await this.log(model, action, undefined, { operation, count });
+    }
+  }
+
+  private async log(
+    model: string,
+    action: AuditAction,
+    resourceId: string | undefined,
+    metadata: Data
+  ): Promise<void> {
+    const context = requestContext.get();
+    try {
+      await this.record({
+        userId: context?.actorId ?? context?.userId,
+        action,
+        resource: model.charAt(0).toLowerCase() + model.slice(1),
+        resourceId,
+        ipAddress: context?.ipAddress,
+        userAgent: context?.userAgent,
+        success: true,
+        metadata: {
+          ...metadata,
+          ...(context?.correlationId ? { correlationId: context.correlationId } : {}),
+          ...(context?.actorId ? { impersonatedUserId: context.userId } : {}),
+        },
+      });
+    } catch {
+      // Audit logging is optional - continue on error
+    }
+  }
+
+  private primaryKey(model: string): string[] {
+    return AUDITED_MODELS[model as Prisma.ModelName]?.primaryKey ?? ['id'];
+  }
+
+  private resourceId(model: string, record: Data | null): string | undefined {
+    const primaryKey = this.primaryKey(model);
+    // eslint-disable-next-line security/detect-object-injection -- Primary key fields of the model
+    const values = primaryKey.map((field) => record?.[field]);
+    return values.every((value) => value !== undefined && value !== null)
+      ? values.map(String).join(':')
+      : undefined;
+  }
+
+  private sameRecord(model: string, a: Data, b: Data): boolean {
+    const primaryKey = this.primaryKey(model);
+    // eslint-disable-next-line security/detect-object-injection -- Primary key fields of the model
+    return primaryKey.every((field) => normalize(a[field]) === normalize(b[field]));
+  }
+
+  private primaryKeyWhere(model: string, records: Data[]): Data {
+    const primaryKey = this.primaryKey(model);
+    return {
+      OR: records.map((record) =>
+        // eslint-disable-next-line security/detect-object-injection -- Primary key fields of the model
+        Object.fromEntries(primaryKey.map((field) => [field, record[field]]))
+      ),
+    };
+  }
+
+  private async findUnique(model: string, where: unknown): Promise<Data | null> {
+    return ((await this.read(model, 'findUnique', { where })) as Data | null) ?? null;
+  }
+
+  private async findMany(model: string, args: Data): Promise<Data[]> {
+    return (await this.read(model, 'findMany', args)) as Data[];
+  }
+}
+
+/**
+ * Prisma client extension applying DataChangeAudit to every model operation
+ * `client` returns the client to read the state before writes with; it must decrypt fields
+ * the same way the audited results are.
+ */
+export function dataChangeAuditExtension(
+  client: () => unknown,
+  record: DataChangeRecorder
+): ReturnType<typeof Prisma.defineExtension> {
+  const audit = new DataChangeAudit(async (model, operation, args) => {
+    const delegates = client() as Record<string, Record<string, (args: Data) => Promise<unknown>>>;
+    const delegate = delegates[model.charAt(0).toLowerCase() + model.slice(1)]!;
+    // eslint-disable-next-line security/detect-object-injection -- Fixed read operations
+    return delegate[operation]!(args);
+  }, record);
+
+  return Prisma.defineExtension({
+    name: 'data-change-audit',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          return audit.run(model, operation, args as Data, (next) => query(next as typeof args));
+        },
+      },
+    },
+  });
+}
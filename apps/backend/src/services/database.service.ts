@@ -1,15 +1,35 @@
 import { PrismaPg } from '@prisma/adapter-pg';
 import { PrismaClient } from '@prisma/client';
 import { Pool } from 'pg';
-import { singleton } from 'tsyringe';
+import { delay, inject, singleton } from 'tsyringe';
+
+import { AuditLogService } from './audit/audit-log.service';
+import { EncryptionService } from './auth/encryption.service';
+import { dataChangeAuditExtension } from './data-change-audit';
+import { fieldEncryptionExtension } from './field-encryption';
 
 /**
  * Prisma database service with singleton pattern
  * Manages database connections and provides query interface
+ *
+ * Model queries go through the field encryption extension (see field-encryption.ts), which
+ * encrypts and decrypts the declared sensitive columns transparently, and writes to the
+ * audited models are recorded in the audit log (see data-change-audit.ts). Without an
+ * AuditLogService (scripts), writes are not audited.
  */
 @singleton()
 export class DatabaseService extends PrismaClient {
-  constructor() {
+  /**
+   * The same client without field encryption or data change auditing: reads return stored
+   * ciphertext and writes store values as given. Only for jobs that maintain encrypted columns.
+   */
+  readonly withoutFieldEncryption: PrismaClient;
+
+  constructor(
+    @inject(EncryptionService) encryption: EncryptionService,
+    // Delayed: the audit log store writes through this service
+    @inject(delay(() => AuditLogService)) auditLog?: AuditLogService
+  ) {
     // Prisma 7: Use PostgreSQL adapter with connection pool
     const connectionString = process.env['DATABASE_URL'] || 'postgresql://localhost:5432/mydb';
     const pool = new Pool({ connectionString });
@@ -36,6 +56,25 @@ export class DatabaseService extends PrismaClient {
       log: prismaLog,
       errorFormat,
     });
+
+    this.withoutFieldEncryption = this;
+    if (!auditLog) {
+      // The extended client keeps this class's methods and fields
+      return this.$extends(fieldEncryptionExtension(encryption)) as unknown as DatabaseService;
+    }
+
+    // Auditing runs first (outermost), so it sees plaintext arguments and decrypted results
+    // and reads the state before writes through the fully extended client
+    const audited = this.$extends(
+      dataChangeAuditExtension(
+        () => client,
+        (change) => auditLog.log(change)
+      )
+    ) as unknown as PrismaClient;
+    const client = audited.$extends(
+      fieldEncryptionExtension(encryption)
+    ) as unknown as DatabaseService;
+    return client;
   }
 
   /**
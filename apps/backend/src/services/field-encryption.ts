@@ -0,0 +1,324 @@
+import { Prisma } from '@prisma/client';
+
+import type { EncryptionService } from './auth/encryption.service';
+
+export interface EncryptedFieldOptions {
+  /**
+   * Column holding a blind index (keyed hash) of the plaintext, so the field can be filtered
+   * by equality
+   */
+  blindIndex?: string;
+}
+
+type Data = Record<string, unknown>;
+
+/**
+ * Columns encrypted by the field encryption extension, by model
+ * Declared fields must be strings. Without a blind index they cannot be filtered at all;
+ * with one, only by equality (`equals`, `in`, `notIn`, `not`).
+ */
+export const ENCRYPTED_FIELDS: Partial<
+  Record<Prisma.ModelName, Record<string, EncryptedFieldOptions>>
+> = {
+  User: { email: { blindIndex: 'emailHash' } },
+  Account: { access_token: {}, refresh_token: {}, id_token: {} },
+  Profile: {
+    bio: {},
+    company: {},
+    location: {},
+    website: {},
+    twitter: {},
+    github: {},
+    linkedin: {},
+  },
+};
+
+// Relation fields by model, to follow nested filters, writes and results
+const RELATIONS = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    new Map(
+      model.fields
+        .filter((field) => field.kind === 'object')
+        .map((field) => [field.name, field.type])
+    ),
+  ])
+);
+
+const EQUALITY_FILTERS = new Set(['equals', 'in', 'notIn', 'not']);
+
+function isPlainObject(value: unknown): value is Data {
+  return (
+    typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+async function mapOneOrMany<T>(value: T | T[], fn: (item: T) => Promise<T>): Promise<T | T[]> {
+  return Array.isArray(value) ? Promise.all(value.map(fn)) : fn(value);
+}
+
+function fieldsOf(model: string): Record<string, EncryptedFieldOptions> {
+  return ENCRYPTED_FIELDS[model as Prisma.ModelName] ?? {};
+}
+
+function relationTarget(model: string, field: string): string | undefined {
+  return RELATIONS.get(model)?.get(field);
+}
+
+/**
+ * Encryption of the declared fields (ENCRYPTED_FIELDS) in Prisma queries
+ *
+ * Query arguments are rewritten before they reach the database: declared fields in written
+ * data are encrypted with EncryptionService and their blind indexes set alongside, and
+ * filters on them are turned into filters on the blind index. Declared fields in results are
+ * decrypted. Nested writes, relation filters and included relations are followed; filters
+ * inside `include`/`select` and raw queries are not.
+ *
+ * Values that are not ciphertext are returned as they are, so rows written before a field
+ * was declared stay readable until the re-encryption job (ReencryptionService) encrypts them.
+ */
+export class FieldEncryption {
+  constructor(private readonly encryption: EncryptionService) {}
+
+  /**
+   * Column values to store for a declared field: the ciphertext and its blind index
+   */
+  async encryptField(model: string, field: string, value: string | null): Promise<Data> {
+    // eslint-disable-next-line security/detect-object-injection -- Declared field names only
+    const options = fieldsOf(model)[field] ?? {};
+    const data: Data = {
+      [field]: value === null ? null : await this.encryption.encrypt(value),
+    };
+    if (options.blindIndex) {
+      data[options.blindIndex] =
+        value === null ? null : this.encryption.blindIndex(value, `${model}.${field}`);
+    }
+    return data;
+  }
+
+  /**
+   * Rewrite the arguments of a model operation
+   */
+  async transformArgs(model: string, args: Data): Promise<Data> {
+    const result: Data = { ...args };
+    for (const key of ['where', 'cursor'] as const) {
+      // eslint-disable-next-line security/detect-object-injection -- Fixed keys
+      const where = args[key];
+      if (isPlainObject(where)) {
+        // eslint-disable-next-line security/detect-object-injection -- Fixed keys
+        result[key] = await this.transformWhere(model, where);
+      }
+    }
+    for (const key of ['data', 'create', 'update'] as const) {
+      // eslint-disable-next-line security/detect-object-injection -- Fixed keys
+      const data = args[key];
+      if (isPlainObject(data) || Array.isArray(data)) {
+        // eslint-disable-next-line security/detect-object-injection -- Fixed keys
+        result[key] = await mapOneOrMany(data as Data | Data[], (item) =>
+          this.transformData(model, item)
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Decrypt declared fields in a query result, including related records
+   */
+  async decryptResult<T>(model: string, result: T): Promise<T> {
+    if (Array.isArray(result)) {
+      await Promise.all(result.map((item: unknown) => this.decryptResult(model, item)));
+      return result;
+    }
+    if (!isPlainObject(result)) {
+      return result;
+    }
+
+    const record: Data = result;
+    const fields = fieldsOf(model);
+    for (const [key, value] of Object.entries(record)) {
+      const target = relationTarget(model, key);
+      if (key in fields && typeof value === 'string' && this.encryption.isEncrypted(value)) {
+        // eslint-disable-next-line security/detect-object-injection -- Declared field names only
+        record[key] = await this.encryption.decrypt(value);
+      } else if (target && value !== null) {
+        await this.decryptResult(target, value);
+      }
+    }
+    return result;
+  }
+
+  private async transformWhere(model: string, where: Data): Promise<Data> {
+    const fields = fieldsOf(model);
+    const result: Data = {};
+
+    for (const [key, value] of Object.entries(where)) {
+      const target = relationTarget(model, key);
+      if (key === 'AND' || key === 'OR' || key === 'NOT') {
+        // eslint-disable-next-line security/detect-object-injection -- Logical operators only
+        result[key] = await mapOneOrMany(value as Data | Data[], (item) =>
+          this.transformWhere(model, item)
+        );
+      } else if (key in fields) {
+        // eslint-disable-next-line security/detect-object-injection -- Declared field names only
+        const { blindIndex } = fields[key]!;
+        if (!blindIndex) {
+          throw new Error(`${model}.${key} is encrypted and cannot be filtered`);
+        }
+        // eslint-disable-next-line security/detect-object-injection -- Declared blind index column
+        result[blindIndex] = this.blindIndexFilter(model, key, value);
+      } else if (target && isPlainObject(value)) {
+        // eslint-disable-next-line security/detect-object-injection -- Relation field of the model
+        result[key] = await this.transformRelationFilter(target, value);
+      } else {
+        // eslint-disable-next-line security/detect-object-injection -- Copying the caller's filter
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  private async transformRelationFilter(model: string, filter: Data): Promise<Data> {
+    const operators = ['some', 'every', 'none', 'is', 'isNot'];
+    if (!Object.keys(filter).every((key) => operators.includes(key))) {
+      // To-one shorthand: the filter applies to the related record directly
+      return this.transformWhere(model, filter);
+    }
+
+    const result: Data = {};
+    for (const [key, value] of Object.entries(filter)) {
+      // eslint-disable-next-line security/detect-object-injection -- Relation filter operators only
+      result[key] = isPlainObject(value) ? await this.transformWhere(model, value) : value;
+    }
+    return result;
+  }
+
+  private blindIndexFilter(model: string, field: string, filter: unknown): unknown {
+    const hash = (value: unknown): unknown =>
+      typeof value === 'string' ? this.encryption.blindIndex(value, `${model}.${field}`) : value;
+
+    if (!isPlainObject(filter)) {
+      return hash(filter);
+    }
+
+    const result: Data = {};
+    for (const [operator, value] of Object.entries(filter)) {
+      if (!EQUALITY_FILTERS.has(operator) || isPlainObject(value)) {
+        throw new Error(`${model}.${field} is encrypted and can only be filtered by equality`);
+      }
+      // eslint-disable-next-line security/detect-object-injection -- Equality operators only
+      result[operator] = Array.isArray(value) ? value.map(hash) : hash(value);
+    }
+    return result;
+  }
+
+  private async transformData(model: string, data: Data): Promise<Data> {
+    const fields = fieldsOf(model);
+    let result: Data = {};
+
+    for (const [key, value] of Object.entries(data)) {
+      const target = relationTarget(model, key);
+      if (key in fields) {
+        const plaintext = isPlainObject(value) && 'set' in value ? value['set'] : value;
+        if (plaintext === undefined) {
+          continue;
+        }
+        if (typeof plaintext !== 'string' && plaintext !== null) {
+          throw new Error(`${model}.${key} is encrypted and can only be set to a string or null`);
+        }
+        result = { ...result, ...(await this.encryptField(model, key, plaintext)) };
+      } else if (target && isPlainObject(value)) {
+        // eslint-disable-next-line security/detect-object-injection -- Relation field of the model
+        result[key] = await this.transformNestedWrite(target, value);
+      } else {
+        // eslint-disable-next-line security/detect-object-injection -- Copying the caller's data
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  private async transformNestedWrite(model: string, write: Data): Promise<Data> {
+    const data = (item: Data): Promise<Data> => this.transformData(model, item);
+    const where = async (item: unknown): Promise<unknown> =>
+      isPlainObject(item) ? this.transformWhere(model, item) : item;
+    // `update`/`updateMany` take { where, data } on lists and may take the data alone on to-one
+    const whereAndData = async (item: Data): Promise<Data> =>
+      'data' in item && Object.keys(item).every((key) => key === 'where' || key === 'data')
+        ? { ...item, where: await where(item['where']), data: await data(item['data'] as Data) }
+        : data(item);
+
+    const result: Data = {};
+    for (const [operation, value] of Object.entries(write)) {
+      const items = value as Data | Data[];
+      let transformed: unknown;
+      switch (operation) {
+        case 'create':
+          transformed = await mapOneOrMany(items, data);
+          break;
+        case 'createMany':
+          transformed = {
+            ...(value as Data),
+            data: await mapOneOrMany((value as Data)['data'] as Data | Data[], data),
+          };
+          break;
+        case 'connectOrCreate':
+          transformed = await mapOneOrMany(items, async (item) => ({
+            ...item,
+            where: await where(item['where']),
+            create: await data(item['create'] as Data),
+          }));
+          break;
+        case 'update':
+        case 'updateMany':
+          transformed = await mapOneOrMany(items, whereAndData);
+          break;
+        case 'upsert':
+          transformed = await mapOneOrMany(items, async (item) => ({
+            ...item,
+            ...('where' in item ? { where: await where(item['where']) } : {}),
+            create: await data(item['create'] as Data),
+            update: await data(item['update'] as Data),
+          }));
+          break;
+        case 'connect':
+        case 'disconnect':
+        case 'delete':
+        case 'deleteMany':
+        case 'set':
+          transformed = Array.isArray(value)
+            ? await Promise.all(value.map(where))
+            : await where(value);
+          break;
+        default:
+          transformed = value;
+      }
+      // eslint-disable-next-line security/detect-object-injection -- Prisma nested write operations
+      result[operation] = transformed;
+    }
+    return result;
+  }
+}
+
+/**
+ * Prisma client extension applying FieldEncryption to every model operation
+ */
+export function fieldEncryptionExtension(
+  encryption: EncryptionService
+): ReturnType<typeof Prisma.defineExtension> {
+  const fieldEncryption = new FieldEncryption(encryption);
+
+  return Prisma.defineExtension({
+    name: 'field-encryption',
+    query: {
+      $allModels: {
+        async $allOperations({ model, args, query }) {
+          const result = await query(
+            (await fieldEncryption.transformArgs(model, args as Data)) as typeof args
+          );
+          return fieldEncryption.decryptResult(model, result);
+        },
+      },
+    },
+  });
+}
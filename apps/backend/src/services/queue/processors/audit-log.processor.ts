@@ -0,0 +1,36 @@
+import { AuditLogJobData, JobResult } from '@repo/types';
+import { Job } from 'bullmq';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import { PrismaAuditLogStore } from '../../audit/prisma-audit-log-store.service';
+import { LoggerService } from '../../logger.service';
+
+/**
+ * Audit log job processor
+ * Appends queued audit log entries to the hash-chained audit_logs table
+ */
+@injectable()
+export class AuditLogProcessor {
+  constructor(
+    private logger: LoggerService,
+    private store: PrismaAuditLogStore
+  ) {}
+
+  async process(job: Job<AuditLogJobData>): Promise<JobResult> {
+    const { entry } = job.data;
+
+    try {
+      await this.store.append({ ...entry, timestamp: new Date(entry.timestamp) });
+      return { success: true, metadata: { jobId: job.id } };
+    } catch (error) {
+      this.logger.error('Audit log job failed', error as Error, {
+        jobId: job.id,
+        action: entry.action,
+        attemptsMade: job.attemptsMade,
+      });
+
+      throw error; // BullMQ will handle retry
+    }
+  }
+}
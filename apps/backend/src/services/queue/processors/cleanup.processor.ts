@@ -0,0 +1,78 @@
+import {
+  AuditLogRetentionJobData,
+  CleanupJobData,
+  JobResult,
+  ReencryptionJobData,
+} from '@repo/types';
+import { Job } from 'bullmq';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import { AuditLogRetentionService } from '../../audit/audit-log-retention.service';
+import { ReencryptionService } from '../../auth/reencryption.service';
+import { LoggerService } from '../../logger.service';
+
+/**
+ * Cleanup job processor
+ * Handles re-encryption after an encryption key rotation and audit log retention; other
+ * cleanup kinds are logged only
+ */
+@injectable()
+export class CleanupProcessor {
+  constructor(
+    private logger: LoggerService,
+    private reencryption: ReencryptionService,
+    private auditLogRetention: AuditLogRetentionService
+  ) {}
+
+  async process(
+    job: Job<CleanupJobData | ReencryptionJobData | AuditLogRetentionJobData>
+  ): Promise<JobResult> {
+    const { data } = job;
+    if (data.resourceType === 'audit-logs') {
+      return this.applyAuditLogRetention(job as Job<AuditLogRetentionJobData>);
+    }
+    if (data.resourceType !== 'encrypted-fields') {
+      this.logger.debug('Cleanup job:', { jobId: job.id, data });
+      return { success: true };
+    }
+
+    this.logger.info('Processing re-encryption job', { jobId: job.id });
+
+    try {
+      const result = await this.reencryption.reencryptAll({
+        batchSize: data.batchSize,
+        onBatch: (field, scanned) => job.log(`${field}: ${scanned} values scanned`),
+      });
+
+      this.logger.info('Re-encryption job completed', { jobId: job.id, ...result });
+
+      return {
+        success: result.failed === 0,
+        data: result,
+        error: result.failed > 0 ? `${result.failed} values could not be re-encrypted` : undefined,
+        metadata: { jobId: job.id },
+      };
+    } catch (error) {
+      this.logger.error('Re-encryption job failed', error as Error, { jobId: job.id });
+      throw error;
+    }
+  }
+
+  private async applyAuditLogRetention(job: Job<AuditLogRetentionJobData>): Promise<JobResult> {
+    this.logger.info('Processing audit log retention job', { jobId: job.id });
+
+    try {
+      const result = await this.auditLogRetention.archiveExpired({
+        batchSize: job.data.batchSize,
+      });
+
+      this.logger.info('Audit log retention job completed', { jobId: job.id, ...result });
+
+      return { success: true, data: result, metadata: { jobId: job.id } };
+    } catch (error) {
+      this.logger.error('Audit log retention job failed', error as Error, { jobId: job.id });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { Readable } from 'stream';
+
+import {
+  AuditLogCondition,
+  AuditLogExportJobData,
+  DataExportJobData,
+  JobResult,
+} from '@repo/types';
+import { Job } from 'bullmq';
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import { parseFilters } from '../../../utils/query-helpers';
+import {
+  AUDIT_LOG_EXPORT_CONTENT_TYPES,
+  auditLogCsvHeader,
+  toAuditLogCsvRow,
+  toAuditLogNdjsonLine,
+} from '../../audit/audit-log-export';
+import { parseAuditLogFilters } from '../../audit/audit-log-query';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { LoggerService } from '../../logger.service';
+import { StorageService } from '../../storage/storage.service';
+
+const EXPORT_BATCH_SIZE = 1000;
+
+export const AUDIT_LOG_EXPORT_FOLDER = 'exports/audit-logs';
+
+/**
+ * Data export job processor
+ * Writes audit log exports to storage; other export kinds are logged only
+ */
+@injectable()
+export class DataExportProcessor {
+  constructor(
+    private logger: LoggerService,
+    private auditLogs: AuditLogService,
+    private storage: StorageService
+  ) {}
+
+  async process(job: Job<DataExportJobData | AuditLogExportJobData>): Promise<JobResult> {
+    const { data } = job;
+    if (!('resourceType' in data) || data.resourceType !== 'audit-logs') {
+      this.logger.debug('Data export job:', { jobId: job.id, data });
+      return { success: true };
+    }
+
+    const filters = parseAuditLogFilters(parseFilters({ filter: data.filter }));
+    if (!filters.success) {
+      // Validated when the export was requested, so retrying will not help
+      return { success: false, error: filters.error, metadata: { jobId: job.id } };
+    }
+
+    this.logger.info('Processing audit log export', {
+      jobId: job.id,
+      format: data.format,
+      requestedBy: data.requestedBy,
+    });
+
+    try {
+      // Stop at the newest record when the export starts, so it is a consistent snapshot
+      const latest = await this.auditLogs.queryLogs({
+        orderBy: [{ field: 'sequence', order: 'desc' }],
+        limit: 1,
+      });
+      const conditions: AuditLogCondition[] = [
+        ...filters.data,
+        { field: 'sequence', operator: 'lte', value: latest.records[0]?.sequence ?? 0 },
+      ];
+
+      const exported = { count: 0 };
+      const file = await this.storage.upload(
+        Readable.from(this.lines(job, data.format, conditions, exported)),
+        {
+          folder: AUDIT_LOG_EXPORT_FOLDER,
+          filename: `audit-logs-${job.id}.${data.format}`,
+          contentType: AUDIT_LOG_EXPORT_CONTENT_TYPES[data.format],
+        }
+      );
+
+      this.logger.info('Audit log export completed', {
+        jobId: job.id,
+        path: file.path,
+        records: exported.count,
+      });
+
+      return {
+        success: true,
+        data: { path: file.path, format: data.format, records: exported.count },
+        metadata: { jobId: job.id },
+      };
+    } catch (error) {
+      this.logger.error('Audit log export failed', error as Error, { jobId: job.id });
+      throw error;
+    }
+  }
+
+  // Pages through matching records by sequence so large ranges never sit in memory
+  private async *lines(
+    job: Job,
+    format: AuditLogExportJobData['format'],
+    conditions: AuditLogCondition[],
+    exported: { count: number }
+  ): AsyncGenerator<string> {
+    if (format === 'csv') {
+      yield auditLogCsvHeader();
+    }
+
+    let afterSequence: number | undefined;
+    for (;;) {
+      const page = await this.auditLogs.queryLogs({
+        conditions,
+        orderBy: [{ field: 'sequence', order: 'asc' }],
+        afterSequence,
+        limit: EXPORT_BATCH_SIZE,
+      });
+
+      for (const record of page.records) {
+        yield format === 'csv' ? toAuditLogCsvRow(record) : toAuditLogNdjsonLine(record);
+      }
+      exported.count += page.records.length;
+      await job.log(`${exported.count} records exported`);
+
+      if (!page.hasMore) {
+        break;
+      }
+      afterSequence = page.records[page.records.length - 1]!.sequence;
+    }
+  }
+}
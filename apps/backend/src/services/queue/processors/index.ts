@@ -1,3 +1,6 @@
+export * from './audit-log.processor';
+export * from './cleanup.processor';
+export * from './data-export.processor';
 export * from './email.processor';
 export * from './notification.processor';
 export * from './webhook.processor';
@@ -3,7 +3,15 @@ import { container } from 'tsyringe';
 
 import { LoggerService } from '../logger.service';
 
-import { EmailProcessor, PushProcessor, SmsProcessor, WebhookProcessor } from './processors';
+import {
+  AuditLogProcessor,
+  CleanupProcessor,
+  DataExportProcessor,
+  EmailProcessor,
+  PushProcessor,
+  SmsProcessor,
+  WebhookProcessor,
+} from './processors';
 import { QueueService } from './queue.service';
 
 /**
@@ -16,6 +24,9 @@ export function initializeQueues(): void {
   const smsProcessor = container.resolve(SmsProcessor);
   const pushProcessor = container.resolve(PushProcessor);
   const webhookProcessor = container.resolve(WebhookProcessor);
+  const cleanupProcessor = container.resolve(CleanupProcessor);
+  const auditLogProcessor = container.resolve(AuditLogProcessor);
+  const dataExportProcessor = container.resolve(DataExportProcessor);
 
   // Register email queue
   queueService.registerQueue({
@@ -128,20 +139,19 @@ export function initializeQueues(): void {
     },
   });
 
-  // Register data export queue (processor TBD)
+  // Register data export queue (audit log exports)
   queueService.registerQueue({
     name: QueueName.DATA_EXPORT,
-    processor: async (job) => {
-      // Placeholder processor
-      logger.debug('Data export job:', { jobId: job.id, data: job.data });
-      return { success: true };
-    },
+    processor: dataExportProcessor.process.bind(dataExportProcessor) as unknown as JobProcessor,
     workerOptions: {
       concurrency: 2, // Resource-intensive, limit concurrency
     },
     defaultJobOptions: {
       attempts: 1,
       timeout: 300000, // 5 minutes timeout
+      removeOnComplete: {
+        age: 7 * 24 * 3600, // Export download links stay available for 7 days
+      },
     },
   });
 
@@ -162,14 +172,10 @@ export function initializeQueues(): void {
     },
   });
 
-  // Register cleanup queue (processor TBD)
+  // Register cleanup queue (also runs re-encryption after key rotation)
   queueService.registerQueue({
     name: QueueName.CLEANUP,
-    processor: async (job) => {
-      // Placeholder processor
-      logger.debug('Cleanup job:', { jobId: job.id, data: job.data });
-      return { success: true };
-    },
+    processor: cleanupProcessor.process.bind(cleanupProcessor) as unknown as JobProcessor,
     workerOptions: {
       concurrency: 1, // Sequential cleanup
     },
@@ -181,5 +187,23 @@ export function initializeQueues(): void {
     },
   });
 
+  // Register audit log queue
+  queueService.registerQueue({
+    name: QueueName.AUDIT_LOG,
+    processor: auditLogProcessor.process.bind(auditLogProcessor) as unknown as JobProcessor,
+    workerOptions: {
+      concurrency: 1, // Entries are chained one after another
+    },
+    defaultJobOptions: {
+      attempts: 10, // Audit entries must not be lost
+      backoff: {
+        type: 'exponential',
+        delay: 1000,
+      },
+      removeOnComplete: true,
+      removeOnFail: false,
+    },
+  });
+
   logger.info('✅ All job queues initialized successfully');
 }
@@ -177,6 +177,29 @@ export class QueueService implements IQueueService {
     return addedJobs as unknown as QueueJob<T>[];
   }
 
+  /**
+   * Create or update a repeating job (BullMQ job scheduler)
+   */
+  async scheduleRepeatingJob<T = unknown>(
+    queueName: string,
+    schedulerId: string,
+    repeat: { pattern?: string; every?: number },
+    data: T
+  ): Promise<void> {
+    const queue = this.getQueue<T>(queueName);
+
+    // Type assertion needed for BullMQ's strict typing
+    await queue.upsertJobScheduler(schedulerId as never, repeat, {
+      name: schedulerId as never,
+      data: data as never,
+    });
+
+    this.logger.info(`Repeating job scheduled: ${schedulerId} in queue ${queueName}`, {
+      queue: queueName,
+      ...repeat,
+    });
+  }
+
   /**
    * Get job by ID
    */
@@ -0,0 +1,43 @@
+import { ISecretsManager, SecretsProvider } from '@repo/types';
+import { container } from 'tsyringe';
+
+import { LoggerService } from '../logger.service';
+
+import { EnvironmentSecretsManager } from './secrets-manager.service';
+import { VaultSecretsManager } from './vault-secrets-manager.service';
+
+/**
+ * Factory to register the secrets manager based on environment configuration
+ *
+ * Environment Variables:
+ * - SECRETS_PROVIDER: environment | vault (default: environment)
+ *
+ * HashiCorp Vault (KV v2):
+ * - VAULT_ADDR: Vault server address (default: http://127.0.0.1:8200)
+ * - VAULT_NAMESPACE: Vault Enterprise namespace
+ * - VAULT_KV_MOUNT: KV v2 secrets engine mount (default: secret)
+ * - VAULT_KV_PATH: Path below the mount holding this application's secrets
+ * - VAULT_TOKEN: Token auth
+ * - VAULT_ROLE_ID / VAULT_SECRET_ID: AppRole auth (used instead of VAULT_TOKEN when set)
+ * - VAULT_APPROLE_MOUNT: AppRole auth mount (default: approle)
+ * - VAULT_TIMEOUT_MS: Request timeout (default: 10000)
+ */
+export function registerSecretsManager(): void {
+  const logger = container.resolve(LoggerService);
+  const provider = process.env['SECRETS_PROVIDER'] || SecretsProvider.ENVIRONMENT;
+
+  logger.info('Registering secrets manager', { provider });
+
+  switch (provider.toLowerCase()) {
+    case SecretsProvider.VAULT:
+      container.registerSingleton<ISecretsManager>('SecretsManager', VaultSecretsManager);
+      logger.info('Registered HashiCorp Vault secrets manager');
+      break;
+
+    case SecretsProvider.ENVIRONMENT:
+    default:
+      container.registerSingleton<ISecretsManager>('SecretsManager', EnvironmentSecretsManager);
+      logger.info('Registered environment secrets manager');
+      break;
+  }
+}
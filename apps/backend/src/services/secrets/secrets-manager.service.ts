@@ -3,7 +3,8 @@ import { injectable } from 'tsyringe';
 
 /**
  * Environment-based secrets manager implementation
- * In production, this would integrate with HashiCorp Vault, AWS Secrets Manager, etc.
+ * Secrets set at runtime only live in this process; use VaultSecretsManager for a persistent,
+ * versioned store (SECRETS_PROVIDER, see secrets-manager.factory.ts).
  */
 @injectable()
 export class EnvironmentSecretsManager implements ISecretsManager {
@@ -0,0 +1,339 @@
+import { ISecretsManager, SecretInfo, SecretMetadata } from '@repo/types';
+import { inject, injectable } from 'tsyringe';
+
+import { LoggerService } from '../logger.service';
+
+interface VaultResponse {
+  data?: Record<string, unknown>;
+  auth?: { client_token: string; lease_duration: number; renewable: boolean };
+  errors?: string[];
+}
+
+interface KvMetadata {
+  created_time: string;
+  updated_time: string;
+  current_version: number;
+  custom_metadata: Record<string, string> | null;
+  versions: Record<string, { deletion_time: string; destroyed: boolean }>;
+}
+
+// Renew the token once this share of its TTL has passed
+const RENEW_AT = 2 / 3;
+// setTimeout fires immediately beyond 2^31-1 ms (~24.8 days); long leases are renewed early
+const MAX_RENEW_DELAY_MS = 24 * 24 * 60 * 60 * 1000;
+const TAG_PREFIX = 'tag.';
+
+class VaultRequestError extends Error {
+  constructor(
+    readonly status: number,
+    errors: string[] = []
+  ) {
+    super(
+      `Vault request failed with status ${status}${errors.length ? `: ${errors.join(', ')}` : ''}`
+    );
+  }
+}
+
+// Secret metadata as Vault custom metadata (string values only)
+function toCustomMetadata(metadata: SecretMetadata): Record<string, string> {
+  const custom: Record<string, string> = {};
+  if (metadata.description !== undefined) custom['description'] = metadata.description;
+  if (metadata.rotationEnabled !== undefined) {
+    custom['rotationEnabled'] = String(metadata.rotationEnabled);
+  }
+  if (metadata.rotationPeriodDays !== undefined) {
+    custom['rotationPeriodDays'] = String(metadata.rotationPeriodDays);
+  }
+  for (const [name, value] of Object.entries(metadata.tags ?? {})) {
+    custom[`${TAG_PREFIX}${name}`] = value;
+  }
+  return custom;
+}
+
+function fromKvMetadata(kv: KvMetadata): SecretMetadata {
+  const custom = kv.custom_metadata ?? {};
+  const tags = Object.fromEntries(
+    Object.entries(custom)
+      .filter(([name]) => name.startsWith(TAG_PREFIX))
+      .map(([name, value]) => [name.slice(TAG_PREFIX.length), value])
+  );
+
+  return {
+    description: custom['description'],
+    tags: Object.keys(tags).length > 0 ? tags : undefined,
+    rotationEnabled: custom['rotationEnabled'] ? custom['rotationEnabled'] === 'true' : undefined,
+    rotationPeriodDays: custom['rotationPeriodDays']
+      ? Number(custom['rotationPeriodDays'])
+      : undefined,
+    createdAt: new Date(kv.created_time),
+    updatedAt: new Date(kv.updated_time),
+    version: String(kv.current_version),
+  };
+}
+
+/**
+ * HashiCorp Vault secrets manager (KV version 2 secrets engine)
+ *
+ * Each secret is stored at `<VAULT_KV_PATH>/<key>` in the `VAULT_KV_MOUNT` engine with its value
+ * in the `value` field; secret metadata is kept as Vault custom metadata. Every write creates a
+ * new version, and older versions stay readable (by version number) until Vault prunes them.
+ *
+ * Authenticates with VAULT_TOKEN, or with AppRole (VAULT_ROLE_ID / VAULT_SECRET_ID). The token
+ * is renewed before its lease runs out; AppRole logs in again when it can no longer be renewed.
+ */
+@injectable()
+export class VaultSecretsManager implements ISecretsManager {
+  private readonly address: string;
+  private readonly mount: string;
+  private readonly basePath: string;
+  private readonly timeout: number;
+  private token: string | undefined;
+  private login: Promise<void> | undefined;
+  private renewTimer: NodeJS.Timeout | undefined;
+
+  constructor(@inject(LoggerService) private readonly logger: LoggerService) {
+    this.address = (process.env['VAULT_ADDR'] || 'http://127.0.0.1:8200').replace(/\/+$/, '');
+    this.mount = process.env['VAULT_KV_MOUNT'] || 'secret';
+    this.basePath = (process.env['VAULT_KV_PATH'] || '').replace(/^\/+|\/+$/g, '');
+    this.timeout = Number(process.env['VAULT_TIMEOUT_MS']) || 10000;
+
+    if (!process.env['VAULT_TOKEN'] && !this.usesAppRole) {
+      throw new Error(
+        'Vault secrets manager needs VAULT_TOKEN or VAULT_ROLE_ID and VAULT_SECRET_ID'
+      );
+    }
+  }
+
+  /**
+   * Get secret value, optionally a specific version
+   */
+  async getSecret(key: string, version?: string): Promise<string> {
+    const query = version ? `?version=${encodeURIComponent(version)}` : '';
+    const response = await this.readSecret(key, `data/${this.path(key)}${query}`);
+    const data = response.data?.['data'] as Record<string, unknown> | null | undefined;
+
+    // Deleted versions keep their metadata but return no data
+    if (typeof data?.['value'] !== 'string') {
+      throw new Error(`Secret not found: ${key}`);
+    }
+    return data['value'];
+  }
+
+  /**
+   * Set secret value (a new version) and, when given, its metadata
+   */
+  async setSecret(key: string, value: string, metadata?: SecretMetadata): Promise<void> {
+    await this.request('POST', `${this.mount}/data/${this.path(key)}`, { data: { value } });
+    if (metadata) {
+      await this.writeMetadata(key, metadata);
+    }
+  }
+
+  /**
+   * Delete secret with all its versions
+   */
+  async deleteSecret(key: string): Promise<void> {
+    await this.request('DELETE', `${this.mount}/metadata/${this.path(key)}`);
+  }
+
+  /**
+   * List all secret keys, including those in nested paths
+   */
+  async listSecrets(prefix?: string): Promise<SecretInfo[]> {
+    const keys = (await this.listKeys('')).filter((key) => !prefix || key.startsWith(prefix));
+
+    return Promise.all(
+      keys.map(async (key) => {
+        const kv = await this.readMetadata(key);
+        return {
+          key,
+          metadata: fromKvMetadata(kv),
+          versions: Object.entries(kv.versions)
+            .filter(([, version]) => !version.destroyed && !version.deletion_time)
+            .map(([number]) => number),
+        };
+      })
+    );
+  }
+
+  /**
+   * Rotate secret: store the new value as the next version
+   * Previous versions remain readable for consumers that still use them. The write fails if
+   * the secret changed since it was read, so concurrent rotations cannot both succeed.
+   */
+  async rotateSecret(key: string, newValue: string): Promise<void> {
+    const kv = await this.readMetadata(key);
+
+    await this.request('POST', `${this.mount}/data/${this.path(key)}`, {
+      options: { cas: kv.current_version },
+      data: { value: newValue },
+    });
+    await this.writeMetadata(key, { ...fromKvMetadata(kv), rotationEnabled: true });
+  }
+
+  /**
+   * Get secret metadata
+   */
+  async getSecretMetadata(key: string): Promise<SecretMetadata> {
+    return fromKvMetadata(await this.readMetadata(key));
+  }
+
+  private get usesAppRole(): boolean {
+    return Boolean(process.env['VAULT_ROLE_ID'] && process.env['VAULT_SECRET_ID']);
+  }
+
+  private path(key: string): string {
+    const segments = [...this.basePath.split('/'), ...key.split('/')].filter(Boolean);
+    return segments.map(encodeURIComponent).join('/');
+  }
+
+  private async readSecret(key: string, path: string): Promise<VaultResponse> {
+    try {
+      return await this.request('GET', `${this.mount}/${path}`);
+    } catch (error) {
+      if (error instanceof VaultRequestError && error.status === 404) {
+        throw new Error(`Secret not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  private async readMetadata(key: string): Promise<KvMetadata> {
+    const response = await this.readSecret(key, `metadata/${this.path(key)}`);
+    return response.data as unknown as KvMetadata;
+  }
+
+  private async writeMetadata(key: string, metadata: SecretMetadata): Promise<void> {
+    await this.request('POST', `${this.mount}/metadata/${this.path(key)}`, {
+      custom_metadata: toCustomMetadata(metadata),
+    });
+  }
+
+  // Secret keys below a folder (relative to VAULT_KV_PATH), following sub-folders
+  private async listKeys(folder: string): Promise<string[]> {
+    let response: VaultResponse;
+    try {
+      response = await this.request('GET', `${this.mount}/metadata/${this.path(folder)}?list=true`);
+    } catch (error) {
+      if (error instanceof VaultRequestError && error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const name of (response.data?.['keys'] as string[] | undefined) ?? []) {
+      const key = `${folder}${name}`;
+      keys.push(...(key.endsWith('/') ? await this.listKeys(key) : [key]));
+    }
+    return keys;
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<VaultResponse> {
+    await this.authenticate();
+    try {
+      return await this.send(method, path, body);
+    } catch (error) {
+      // The token was revoked or expired without renewal: log in again once
+      if (error instanceof VaultRequestError && error.status === 403 && this.usesAppRole) {
+        this.token = undefined;
+        await this.authenticate();
+        return this.send(method, path, body);
+      }
+      throw error;
+    }
+  }
+
+  private async send(method: string, path: string, body?: unknown): Promise<VaultResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) headers['X-Vault-Token'] = this.token;
+    if (process.env['VAULT_NAMESPACE'])
+      headers['X-Vault-Namespace'] = process.env['VAULT_NAMESPACE'];
+
+    const response = await fetch(`${this.address}/v1/${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    const text = await response.text();
+    const result = (text ? JSON.parse(text) : {}) as VaultResponse;
+    if (!response.ok) {
+      throw new VaultRequestError(response.status, result.errors);
+    }
+    return result;
+  }
+
+  private authenticate(): Promise<void> {
+    if (this.token) {
+      return Promise.resolve();
+    }
+    this.login ??= this.logIn().finally(() => {
+      this.login = undefined;
+    });
+    return this.login;
+  }
+
+  private async logIn(): Promise<void> {
+    if (this.usesAppRole) {
+      const mount = process.env['VAULT_APPROLE_MOUNT'] || 'approle';
+      const { auth } = await this.send('POST', `auth/${mount}/login`, {
+        role_id: process.env['VAULT_ROLE_ID'],
+        secret_id: process.env['VAULT_SECRET_ID'],
+      });
+      this.token = auth!.client_token;
+      this.scheduleRenewal(auth!.lease_duration, auth!.renewable);
+      return;
+    }
+
+    this.token = process.env['VAULT_TOKEN'];
+    const { data } = await this.send('GET', 'auth/token/lookup-self');
+    this.scheduleRenewal(Number(data?.['ttl'] ?? 0), data?.['renewable'] === true);
+  }
+
+  private scheduleRenewal(leaseSeconds: number, renewable: boolean): void {
+    clearTimeout(this.renewTimer);
+    // Root and other non-expiring tokens have no lease
+    if (leaseSeconds <= 0 || (!renewable && !this.usesAppRole)) {
+      return;
+    }
+
+    this.renewTimer = setTimeout(
+      () => {
+        void this.renew(renewable);
+      },
+      Math.min(leaseSeconds * 1000 * RENEW_AT, MAX_RENEW_DELAY_MS)
+    );
+    this.renewTimer.unref();
+  }
+
+  private async renew(renewable: boolean): Promise<void> {
+    try {
+      if (renewable) {
+        const { auth } = await this.send('POST', 'auth/token/renew-self');
+        // Renewal stops extending the lease once the token reaches its max TTL
+        if (auth && auth.lease_duration > 0) {
+          this.scheduleRenewal(auth.lease_duration, auth.renewable);
+          return;
+        }
+      }
+      if (!this.usesAppRole) {
+        this.logger.warn('Vault token can no longer be renewed and will expire');
+        return;
+      }
+    } catch (error) {
+      this.logger.warn('Vault token renewal failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (!this.usesAppRole) {
+        return;
+      }
+    }
+
+    this.token = undefined;
+    await this.authenticate().catch((error: unknown) => {
+      this.logger.error('Vault login failed', error as Error);
+    });
+  }
+}
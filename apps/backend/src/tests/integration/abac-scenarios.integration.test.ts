@@ -1,4 +1,10 @@
-import { AttributeSource, ComparisonOperator, LogicalOperator, PolicyEffect } from '@repo/types';
+import {
+  AttributeSource,
+  ComparisonOperator,
+  LogicalOperator,
+  ObligationType,
+  PolicyEffect,
+} from '@repo/types';
 import { beforeEach, describe, expect, it } from 'vitest';
 
 import { container } from '../../container';
@@ -568,4 +574,63 @@ describe('ABAC Scenarios - Integration', () => {
       expect(allowed).toBe(false);
     });
   });
+
+  describe('Scenario 8: Obligations and Advice', () => {
+    it('should return obligations from the rules that granted access', async () => {
+      await policyStore.createPolicy({
+        name: 'Support Customer Access',
+        version: '1.0',
+        enabled: true,
+        rules: [
+          {
+            id: 'support-rule',
+            conditions: {
+              operator: LogicalOperator.AND,
+              conditions: [
+                {
+                  attribute: { source: AttributeSource.USER, key: 'department' },
+                  operator: ComparisonOperator.EQUALS,
+                  value: 'Support',
+                },
+              ],
+            },
+            effect: PolicyEffect.ALLOW,
+            obligations: [
+              { type: ObligationType.REDACT_FIELDS, params: { fields: ['email', 'phone'] } },
+              { type: ObligationType.AUDIT_SEVERITY, params: { severity: 'high' } },
+            ],
+            advice: [{ type: 'show-banner', params: { message: 'Customer data is monitored' } }],
+          },
+        ],
+      });
+
+      const decision = await authService.authorizeWithContext({
+        userId: 'user-123',
+        resource: 'customer',
+        action: 'read',
+        userAttributes: { id: 'user-123', department: 'Support' },
+        resourceAttributes: { id: 'cust-1' },
+      });
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.evaluationMethod).toBe('ABAC');
+      expect(decision.obligations.map((o) => o.type)).toEqual([
+        ObligationType.REDACT_FIELDS,
+        ObligationType.AUDIT_SEVERITY,
+      ]);
+      expect(decision.advice).toHaveLength(1);
+    });
+
+    it('should return no obligations when RBAC grants access', async () => {
+      await authService.assignRole('user-123', 'admin');
+
+      const decision = await authService.authorizeWithContext({
+        userId: 'user-123',
+        resource: 'users',
+        action: 'read',
+      });
+
+      expect(decision).toMatchObject({ allowed: true, evaluationMethod: 'RBAC', obligations: [] });
+    });
+  });
 });
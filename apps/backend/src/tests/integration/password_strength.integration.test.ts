@@ -1,12 +1,9 @@
 import { describe, expect, it } from 'vitest';
 
+import { validatePasswordStrength } from '../../services/auth/password-policy';
+
 function validatePassword(password: string): boolean {
-  const hasMinLength = password.length >= 8;
-  const hasUpperCase = /[A-Z]/.test(password);
-  const hasLowerCase = /[a-z]/.test(password);
-  const hasNumber = /[0-9]/.test(password);
-  const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password);
-  return hasMinLength && hasUpperCase && hasLowerCase && hasNumber && hasSpecialChar;
+  return validatePasswordStrength(password).valid;
 }
 
 describe('Password Strength Validation', () => {
@@ -16,4 +13,13 @@ describe('Password Strength Validation', () => {
     expect(validatePassword('12345678')).toBe(false);
     expect(validatePassword('Test!234')).toBe(true);
   });
+
+  it('reports every unmet requirement', () => {
+    expect(validatePasswordStrength('weak').errors).toEqual([
+      'Password must be at least 8 characters long',
+      'Password must contain an uppercase letter',
+      'Password must contain a number',
+      'Password must contain a special character',
+    ]);
+  });
 });
@@ -0,0 +1,144 @@
+import 'reflect-metadata';
+
+import { ObligationType, type AuthorizationDecision } from '@repo/types';
+import { NextFunction, Request, Response } from 'express';
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { requireAccess, requirePermission, requireRole } from '../../middleware/auth.middleware';
+import { AuthorizationService } from '../../services/auth/authorization.service';
+
+describe('requireAccess', () => {
+  let decision: AuthorizationDecision;
+  let authorizeWithContext: ReturnType<typeof vi.fn>;
+  let res: Partial<Response>;
+  let next: NextFunction;
+
+  const requestFor = (mfaVerified?: boolean) =>
+    ({
+      ip: '127.0.0.1',
+      user: { userId: 'user-1', email: 'user@example.com', roles: ['USER'], mfaVerified },
+    }) as unknown as Request;
+
+  beforeEach(() => {
+    decision = {
+      allowed: true,
+      evaluationMethod: 'ABAC',
+      matchedRules: [],
+      obligations: [],
+      advice: [],
+    };
+    authorizeWithContext = vi.fn(async () => decision);
+    container.register(AuthorizationService, {
+      useValue: { authorizeWithContext } as unknown as AuthorizationService,
+    });
+
+    res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+    next = vi.fn();
+  });
+
+  it('exposes the MFA status of the session as an environment attribute', async () => {
+    await requireAccess('report', 'read')(requestFor(true), res as Response, next);
+    await requireAccess('report', 'read')(requestFor(), res as Response, next);
+
+    expect(authorizeWithContext.mock.calls[0]?.[0].environmentAttributes.mfaVerified).toBe(true);
+    expect(authorizeWithContext.mock.calls[1]?.[0].environmentAttributes.mfaVerified).toBe(false);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('enforces require-mfa obligations', async () => {
+    decision.obligations = [{ type: ObligationType.REQUIRE_MFA }];
+
+    await requireAccess('report', 'export')(requestFor(false), res as Response, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ mfaRequired: true }));
+    expect(next).not.toHaveBeenCalled();
+
+    const req = requestFor(true);
+    await requireAccess('report', 'export')(req, res as Response, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(req.authorization).toBe(decision);
+  });
+});
+
+describe('API key scopes', () => {
+  let hasPermission: ReturnType<typeof vi.fn>;
+  let authorizeWithContext: ReturnType<typeof vi.fn>;
+  let res: Partial<Response>;
+  let next: NextFunction;
+
+  const apiKeyRequest = (scopes: string[]) =>
+    ({
+      ip: '127.0.0.1',
+      user: {
+        userId: 'user-1',
+        email: 'user@example.com',
+        roles: ['ADMIN'],
+        permissions: ['users:*'],
+        apiKeyId: 'key-1',
+        scopes,
+      },
+    }) as unknown as Request;
+
+  beforeEach(() => {
+    hasPermission = vi.fn(async () => false);
+    authorizeWithContext = vi.fn(async () => ({ allowed: true, obligations: [], advice: [] }));
+    container.register(AuthorizationService, {
+      useValue: { hasPermission, authorizeWithContext } as unknown as AuthorizationService,
+    });
+
+    res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+    next = vi.fn();
+  });
+
+  it('limits requirePermission to permissions covered by both the scopes and the owner', async () => {
+    await requirePermission('users:read')(apiKeyRequest(['users:read']), res as Response, next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    await requirePermission('users:delete')(apiKeyRequest(['users:read']), res as Response, next);
+    await requirePermission('posts:read')(apiKeyRequest(['posts:read']), res as Response, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.status).toHaveBeenCalledTimes(2);
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('never satisfies requireRole', async () => {
+    await requireRole('ADMIN')(apiKeyRequest(['*']), res as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('only evaluates requireAccess when a scope covers the action', async () => {
+    await requireAccess('users', 'read')(apiKeyRequest(['posts:read']), res as Response, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(authorizeWithContext).not.toHaveBeenCalled();
+
+    await requireAccess('users', 'read')(apiKeyRequest(['users:read']), res as Response, next);
+    expect(authorizeWithContext).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('limits ":own" scopes in requireAccess to resources the key owner owns', async () => {
+    const ownedBy = (ownerId: string) => () => ({ ownerId });
+
+    await requireAccess('users', 'read')(apiKeyRequest(['users:read:own']), res as Response, next);
+    await requireAccess('users', 'read', ownedBy('user-2'))(
+      apiKeyRequest(['users:read:own']),
+      res as Response,
+      next
+    );
+    expect(res.status).toHaveBeenCalledTimes(2);
+    expect(authorizeWithContext).not.toHaveBeenCalled();
+
+    await requireAccess('users', 'read', ownedBy('user-1'))(
+      apiKeyRequest(['users:read:own']),
+      res as Response,
+      next
+    );
+    expect(authorizeWithContext).toHaveBeenCalledWith(
+      expect.objectContaining({ resourceAttributes: { ownerId: 'user-1' } })
+    );
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
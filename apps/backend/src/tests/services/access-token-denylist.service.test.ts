@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AccessTokenDenylistService } from '../../services/auth/access-token-denylist.service';
+import { AuthorizationService } from '../../services/auth/authorization.service';
+import { JwtService } from '../../services/auth/jwt.service';
+import { InMemoryRbacStore } from '../../services/auth/rbac-store.service';
+import { CacheService } from '../../services/cache.service';
+import type { LoggerService } from '../../services/logger.service';
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as LoggerService;
+
+describe('AccessTokenDenylistService', () => {
+  let jwt: JwtService;
+  let denylist: AccessTokenDenylistService;
+
+  beforeEach(() => {
+    process.env['REDIS_MOCK'] = 'true';
+    vi.useFakeTimers({ toFake: ['Date'] });
+    jwt = new JwtService();
+    denylist = new AccessTokenDenylistService(new CacheService(logger), jwt);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const issue = (userId = 'user-1') =>
+    jwt.validateAccessToken(
+      jwt.generateAccessToken({ userId, email: 'user@example.com', roles: [], permissions: [] })
+    );
+
+  it('revokes a single token by jti', async () => {
+    const token = await issue();
+    const other = await issue();
+    expect(token.jti).toBeTruthy();
+    expect(token.jti).not.toBe(other.jti);
+
+    await denylist.revokeToken(token);
+    expect(await denylist.isRevoked(token)).toBe(true);
+    expect(await denylist.isRevoked(other)).toBe(false);
+  });
+
+  it('revokes every token of a session', async () => {
+    const session = (sessionId: string) =>
+      jwt.validateAccessToken(
+        jwt.generateAccessToken({
+          userId: 'user-1',
+          email: 'user@example.com',
+          roles: [],
+          permissions: [],
+          sessionId,
+        })
+      );
+    const [first, second, other] = await Promise.all([
+      session('session-1'),
+      session('session-1'),
+      session('session-2'),
+    ]);
+
+    await denylist.revokeSession('session-1');
+    expect(await denylist.isRevoked(first)).toBe(true);
+    expect(await denylist.isRevoked(second)).toBe(true);
+    expect(await denylist.isRevoked(other)).toBe(false);
+  });
+
+  it('revokes tokens issued to a user up to now, but not later ones', async () => {
+    const before = await issue();
+    const otherUser = await issue('user-2');
+
+    await denylist.revokeUser('user-1');
+    vi.advanceTimersByTime(1000);
+    const after = await issue();
+
+    expect(await denylist.isRevoked(before)).toBe(true);
+    expect(await denylist.isRevoked(otherUser)).toBe(false);
+    expect(await denylist.isRevoked(after)).toBe(false);
+  });
+
+  it('does not revoke tokens issued right after a user revocation in the same second', async () => {
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.200Z'));
+    const before = await issue();
+
+    await denylist.revokeUser('user-1');
+    vi.advanceTimersByTime(1);
+    const after = await issue();
+
+    expect(after.iat).toBe(before.iat);
+    expect(await denylist.isRevoked(before)).toBe(true);
+    expect(await denylist.isRevoked(after)).toBe(false);
+  });
+
+  it('revokes tokens when roles change or permissions are revoked', async () => {
+    const authorization = new AuthorizationService(
+      undefined,
+      undefined,
+      undefined,
+      new InMemoryRbacStore(),
+      denylist
+    );
+    const revokeUser = vi.spyOn(denylist, 'revokeUser');
+
+    await authorization.assignRole('user-1', 'moderator');
+    await authorization.revokeRole('user-1', 'moderator');
+    await authorization.grantPermission('user-1', 'posts:read');
+    await authorization.revokePermission('user-1', 'posts:read');
+
+    expect(revokeUser).toHaveBeenCalledTimes(3);
+    expect(revokeUser).toHaveBeenCalledWith('user-1');
+  });
+});
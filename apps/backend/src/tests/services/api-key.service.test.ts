@@ -0,0 +1,125 @@
+import 'reflect-metadata';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ApiKeyService, isApiKey } from '../../services/auth/api-key.service';
+import type { AuthorizationService } from '../../services/auth/authorization.service';
+import type { DatabaseService } from '../../services/database.service';
+
+type Row = Record<string, unknown> & { id: string };
+
+/**
+ * In-memory stand-in for the apiKey delegate
+ */
+function createFakeDb() {
+  const keys: Row[] = [];
+  const matches = (row: Row, where: Record<string, unknown>) =>
+    Object.entries(where).every(([field, value]) => row[field as keyof Row] === value);
+
+  return {
+    keys,
+    apiKey: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown>; select?: object }) => {
+        const row: Row = {
+          id: `key-${keys.length + 1}`,
+          lastUsedAt: null,
+          lastUsedIp: null,
+          revokedAt: null,
+          createdAt: new Date(),
+          ...data,
+        };
+        keys.push(row);
+        return row;
+      }),
+      findMany: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+        keys.filter((k) => matches(k, where))
+      ),
+      findUnique: vi.fn(async ({ where }: { where: { prefix: string } }) => {
+        const row = keys.find((k) => k['prefix'] === where.prefix);
+        return row ? { ...row, user: { email: 'owner@example.com', role: 'USER' } } : null;
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: object }) =>
+        Object.assign(keys.find((k) => k.id === where.id)!, data)
+      ),
+      updateMany: vi.fn(
+        async ({ where, data }: { where: Record<string, unknown>; data: object }) => {
+          const rows = keys.filter((k) => matches(k, where));
+          rows.forEach((row) => Object.assign(row, data));
+          return { count: rows.length };
+        }
+      ),
+    },
+  };
+}
+
+describe('ApiKeyService', () => {
+  let db: ReturnType<typeof createFakeDb>;
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    db = createFakeDb();
+    const authorization = {
+      getTokenClaims: vi.fn(async () => ({ roles: ['USER'], permissions: ['users:read'] })),
+    };
+    service = new ApiKeyService(
+      db as unknown as DatabaseService,
+      authorization as unknown as AuthorizationService
+    );
+  });
+
+  const create = (expiresInDays = 30) =>
+    service.create('user-1', { name: 'CI', scopes: ['users:read'], expiresInDays });
+
+  it('creates prefixed keys and stores only their hash', async () => {
+    const { key, apiKey } = await create();
+
+    expect(key).toMatch(/^pat_[0-9a-f]{8}_[\w-]{43}$/);
+    expect(isApiKey(key)).toBe(true);
+    expect(key.startsWith(`${apiKey.prefix}_`)).toBe(true);
+    expect(db.keys[0]!['keyHash']).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(db.keys)).not.toContain(key);
+    expect(db.apiKey.create.mock.calls[0]![0].select).not.toHaveProperty('keyHash');
+    expect(apiKey.id).toBe('key-1');
+  });
+
+  it('resolves a key to its owner with the owner claims and the key scopes', async () => {
+    const { key, apiKey } = await create();
+
+    const payload = await service.validateApiKey(key, '10.0.0.1');
+    expect(payload).toMatchObject({
+      userId: 'user-1',
+      email: 'owner@example.com',
+      roles: ['USER'],
+      permissions: ['users:read'],
+      apiKeyId: apiKey.id,
+      scopes: ['users:read'],
+    });
+    expect(db.keys[0]).toMatchObject({ lastUsedIp: '10.0.0.1' });
+    expect(db.keys[0]!['lastUsedAt']).toBeInstanceOf(Date);
+  });
+
+  it('records last use at most once a minute', async () => {
+    const { key } = await create();
+
+    await service.validateApiKey(key);
+    await service.validateApiKey(key);
+    expect(db.apiKey.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects tampered, revoked and expired keys', async () => {
+    const { key, apiKey } = await create();
+    const tampered = `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`;
+
+    await expect(service.validateApiKey(tampered)).rejects.toThrow('Invalid or expired API key');
+    await expect(service.validateApiKey('pat_garbage')).rejects.toThrow();
+
+    expect(await service.revoke('other-user', apiKey.id)).toBe(false);
+    expect(await service.revoke('user-1', apiKey.id)).toBe(true);
+    await expect(service.validateApiKey(key)).rejects.toThrow('Invalid or expired API key');
+    expect(await service.list('user-1')).toHaveLength(0);
+
+    const expired = await create();
+    db.keys[1]!['expiresAt'] = new Date(Date.now() - 1000);
+    await expect(service.validateApiKey(expired.key)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,170 @@
+import net from 'net';
+
+import type { AuditLogEntry, IAuditLogForwarder } from '@repo/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AuditLogForwardingService } from '../../services/audit/audit-log-forwarding.service';
+import { createAuditLogForwarders } from '../../services/audit/forwarders/audit-log-forwarder.factory';
+import { HttpAuditLogForwarder } from '../../services/audit/forwarders/http.forwarder';
+import { InMemoryAuditLogForwarder } from '../../services/audit/forwarders/in-memory.forwarder';
+import {
+  formatCef,
+  SyslogCefForwarder,
+} from '../../services/audit/forwarders/syslog-cef.forwarder';
+import type { LoggerService } from '../../services/logger.service';
+
+const entry = (overrides: Partial<AuditLogEntry> = {}): AuditLogEntry => ({
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+  userId: 'user-1',
+  action: 'auth.login',
+  resource: 'authentication',
+  ipAddress: '203.0.113.7',
+  success: true,
+  ...overrides,
+});
+
+describe('formatCef', () => {
+  it('formats entries as CEF and escapes header and extension values', () => {
+    expect(
+      formatCef(
+        entry({
+          action: 'security.suspicious_activity',
+          success: false,
+          errorMessage: 'a=b\nc\\d',
+        })
+      )
+    ).toBe(
+      'CEF:0|NextNodeApp|backend|1.0|security.suspicious_activity|security.suspicious_activity|8|' +
+        'rt=1767225600000 act=security.suspicious_activity outcome=failure suid=user-1 src=203.0.113.7 ' +
+        'cs1Label=resource cs1=authentication reason=a\\=b\\nc\\\\d'
+    );
+    expect(formatCef(entry({ action: 'data|read' }))).toContain('|data\\|read|data\\|read|3|');
+  });
+});
+
+describe('SyslogCefForwarder', () => {
+  let server: net.Server;
+  let received: Promise<string>;
+  let port: number;
+
+  beforeEach(async () => {
+    received = new Promise((resolve) => {
+      server = net.createServer((socket) => {
+        let data = '';
+        socket.on('data', (chunk) => (data += chunk.toString('utf8')));
+        socket.on('end', () => resolve(data));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('sends octet-counted RFC 5424 messages over TCP', async () => {
+    const forwarder = new SyslogCefForwarder({ host: '127.0.0.1', port, hostname: 'api-1' });
+
+    await forwarder.forward([entry(), entry({ success: false })]);
+    const data = await received;
+
+    const first = forwarder.formatMessage(entry());
+    expect(data.startsWith(first)).toBe(true);
+    const [length, message] = [
+      first.slice(0, first.indexOf(' ')),
+      first.slice(first.indexOf(' ') + 1),
+    ];
+    expect(Number(length)).toBe(Buffer.byteLength(message));
+    expect(message).toMatch(/^<85>1 2026-01-01T00:00:00.000Z api-1 backend - audit - CEF:0\|/);
+    expect(data.slice(first.length)).toMatch(/^\d+ <84>1 /);
+  });
+});
+
+describe('HttpAuditLogForwarder', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('posts signed batches and fails on error responses', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(null, { status: 202 }))
+      .mockResolvedValueOnce(new Response(null, { status: 503 }));
+    const forwarder = new HttpAuditLogForwarder({
+      url: 'https://siem.example.com/ingest',
+      secret: 'secret',
+    });
+
+    await forwarder.forward([entry()]);
+    const [url, init] = fetchSpy.mock.calls[0]!;
+    expect(url).toBe('https://siem.example.com/ingest');
+    expect(JSON.parse(init!.body as string)).toEqual({
+      entries: [JSON.parse(JSON.stringify(entry()))],
+    });
+    expect((init!.headers as Record<string, string>)['X-Audit-Signature']).toMatch(
+      /^sha256=[0-9a-f]{64}$/
+    );
+
+    await expect(forwarder.forward([entry()])).rejects.toThrow(
+      'Audit log forwarder responded with status 503'
+    );
+  });
+});
+
+describe('AuditLogForwardingService', () => {
+  const logger = { warn: vi.fn() } as unknown as LoggerService;
+
+  it('delivers queued entries to every forwarder in batches', async () => {
+    const siem = new InMemoryAuditLogForwarder();
+    const other = new InMemoryAuditLogForwarder();
+    const forwarding = new AuditLogForwardingService([siem, other], logger);
+
+    for (let i = 0; i < 150; i++) {
+      forwarding.enqueue(entry({ resourceId: String(i) }));
+    }
+    await forwarding.close();
+
+    expect(siem.entries).toHaveLength(150);
+    expect(other.entries.map((item) => item.resourceId)).toEqual(
+      Array.from({ length: 150 }, (_, i) => String(i))
+    );
+  });
+
+  it('keeps failed batches for the next attempt', async () => {
+    const forward = vi
+      .fn<IAuditLogForwarder['forward']>()
+      .mockRejectedValueOnce(new Error('connection refused'))
+      .mockResolvedValue(undefined);
+    const forwarding = new AuditLogForwardingService([{ name: 'flaky', forward }], logger);
+
+    forwarding.enqueue(entry());
+    await forwarding.flush();
+    await forwarding.close();
+
+    expect(forward).toHaveBeenCalledTimes(2);
+    expect(forward.mock.calls[1]![0]).toEqual([entry()]);
+  });
+});
+
+describe('createAuditLogForwarders', () => {
+  it('builds the configured forwarders', () => {
+    const forwarders = createAuditLogForwarders({
+      AUDIT_LOG_FORWARDERS: 'syslog, http,memory',
+      AUDIT_SYSLOG_HOST: 'siem.internal',
+      AUDIT_WEBHOOK_URL: 'https://siem.example.com/ingest',
+    });
+
+    expect(forwarders.map((forwarder) => forwarder.name)).toEqual(['syslog', 'http', 'memory']);
+    expect(createAuditLogForwarders({})).toEqual([]);
+  });
+
+  it('rejects unknown or incomplete forwarders', () => {
+    expect(() => createAuditLogForwarders({ AUDIT_LOG_FORWARDERS: 'kafka' })).toThrow(
+      'Unknown audit log forwarder: kafka'
+    );
+    expect(() => createAuditLogForwarders({ AUDIT_LOG_FORWARDERS: 'syslog' })).toThrow(
+      'AUDIT_SYSLOG_HOST is required'
+    );
+  });
+});
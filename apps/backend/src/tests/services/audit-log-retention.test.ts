@@ -0,0 +1,154 @@
+import { gunzipSync } from 'zlib';
+
+import type { AuditLog, AuditLogTombstone } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AuditLogRetentionService } from '../../services/audit/audit-log-retention.service';
+import { parseAuditRetention, retentionDays } from '../../services/audit/audit-retention';
+import { PrismaAuditLogStore } from '../../services/audit/prisma-audit-log-store.service';
+import type { DatabaseService } from '../../services/database.service';
+import type { LoggerService } from '../../services/logger.service';
+import type { StorageService } from '../../services/storage/storage.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Where = { sequence?: { gt?: number; lt?: number }; createdAt?: { lt: Date } };
+
+function inRange<T extends { sequence: number }>(items: T[], where: Where, take?: number): T[] {
+  return items
+    .filter((item) => item.sequence > (where.sequence?.gt ?? 0))
+    .filter((item) => where.sequence?.lt === undefined || item.sequence < where.sequence.lt)
+    .filter(
+      (item) => !where.createdAt || (item as unknown as AuditLog).createdAt < where.createdAt.lt
+    )
+    .sort((a, b) => a.sequence - b.sequence)
+    .slice(0, take);
+}
+
+// audit_logs and audit_log_tombstones with the queries retention and verification make
+function fakeDb(rows: AuditLog[], tombstones: AuditLogTombstone[]) {
+  const auditLog = {
+    findFirst: async () => inRange(rows, {}).pop() ?? null,
+    create: async ({ data }: { data: Omit<AuditLog, 'id'> }) => {
+      const row = { ...data, id: `log-${data.sequence}`, metadata: null } as AuditLog;
+      rows.push(row);
+      return row;
+    },
+    findMany: async ({ where, take }: { where: Where; take?: number }) =>
+      inRange(rows, where, take),
+    deleteMany: async ({ where }: { where: { id: { in: string[] } } }) => {
+      const remaining = rows.filter((row) => !where.id.in.includes(row.id));
+      rows.splice(0, rows.length, ...remaining);
+      return { count: where.id.in.length };
+    },
+  };
+  const auditLogTombstone = {
+    findMany: async ({ where, take }: { where: Where; take?: number }) =>
+      inRange(tombstones, where, take),
+    createMany: async ({ data }: { data: Array<Omit<AuditLogTombstone, 'archivedAt'>> }) => {
+      tombstones.push(...data.map((item) => ({ ...item, archivedAt: new Date() })));
+      return { count: data.length };
+    },
+  };
+  const tx = { $executeRaw: async () => 0, auditLog };
+  return {
+    auditLog,
+    auditLogTombstone,
+    $transaction: async (arg: unknown) =>
+      typeof arg === 'function' ? arg(tx) : Promise.all(arg as Array<Promise<unknown>>),
+  } as unknown as DatabaseService;
+}
+
+describe('AuditLogRetentionService', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  let rows: AuditLog[];
+  let tombstones: AuditLogTombstone[];
+  let db: DatabaseService;
+  let uploads: Map<string, Buffer>;
+  let retention: AuditLogRetentionService;
+
+  const append = (action: string, daysAgo: number) =>
+    new PrismaAuditLogStore(db).append({
+      timestamp: new Date(now.getTime() - daysAgo * DAY_MS),
+      action,
+      resource: 'test',
+      success: true,
+    });
+
+  beforeEach(async () => {
+    rows = [];
+    tombstones = [];
+    db = fakeDb(rows, tombstones);
+    uploads = new Map();
+    const storage = {
+      upload: vi.fn(async (file: Buffer, options: { folder: string; filename: string }) => {
+        const path = `${options.folder}/${options.filename}`;
+        uploads.set(path, file);
+        return { path };
+      }),
+    };
+    retention = new AuditLogRetentionService(
+      db,
+      storage as unknown as StorageService,
+      { info: vi.fn() } as unknown as LoggerService
+    );
+
+    await append('data.read', 400); // expired (default: 365 days)
+    await append('security.key_rotation', 400); // kept (security: 7 years)
+    await append('auth.login', 400); // expired
+    await append('data.read', 10);
+    await append('auth.login', 500); // expired, but the head of the chain
+  });
+
+  it('archives expired rows to storage before deleting them', async () => {
+    const result = await retention.archiveExpired({ batchSize: 2, now });
+
+    expect(result).toMatchObject({ scanned: 3, archived: 2 });
+    expect(result.files).toHaveLength(2);
+    expect(rows.map((row) => row.sequence)).toEqual([2, 4, 5]);
+    expect(tombstones.map((tombstone) => tombstone.sequence)).toEqual([1, 3]);
+
+    const archived = gunzipSync(uploads.get(result.files[0]!)!)
+      .toString('utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(archived).toEqual([
+      expect.objectContaining({ sequence: 1, action: 'data.read', hash: tombstones[0]!.hash }),
+    ]);
+    expect(tombstones[0]!.archivePath).toBe(result.files[0]);
+  });
+
+  it('keeps the hash chain verifiable through tombstones', async () => {
+    await retention.archiveExpired({ now });
+    const store = new PrismaAuditLogStore(db);
+
+    expect(await store.verifyChain(2)).toEqual({ checked: 3, archived: 2, breaks: [] });
+
+    // Rows deleted without a tombstone still show up
+    tombstones.splice(1, 1);
+    expect((await store.verifyChain()).breaks).toEqual([
+      { id: 'log-4', sequence: 4, reason: 'sequence_gap' },
+    ]);
+  });
+});
+
+describe('parseAuditRetention', () => {
+  it('overrides the defaults per action category', () => {
+    const policy = parseAuditRetention('{"data":90,"default":180}');
+
+    expect(retentionDays(policy, 'data.read')).toBe(90);
+    expect(retentionDays(policy, 'auth.login')).toBe(180);
+    expect(retentionDays(policy, 'security.key_rotation')).toBe(7 * 365);
+  });
+
+  it('rejects unknown categories and invalid periods', () => {
+    expect(() => parseAuditRetention('{"billing":30}')).toThrow(
+      'Unknown audit action category in AUDIT_LOG_RETENTION_DAYS: billing'
+    );
+    expect(() => parseAuditRetention('{"data":0}')).toThrow(
+      'AUDIT_LOG_RETENTION_DAYS.data must be a positive number of days'
+    );
+    expect(() => parseAuditRetention('[30]')).toThrow('must be a JSON object');
+  });
+});
@@ -0,0 +1,215 @@
+import type { AuditLog } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { canonicalJson } from '../../services/audit/audit-chain';
+import { toAuditLogCsvRow } from '../../services/audit/audit-log-export';
+import { InMemoryAuditLogStore } from '../../services/audit/audit-log-store.service';
+import { PrismaAuditLogStore } from '../../services/audit/prisma-audit-log-store.service';
+import type { DatabaseService } from '../../services/database.service';
+
+type Where = { sequence?: { gt: number }; action?: string };
+
+// audit_logs table with the queries the store makes; metadata round-trips through JSON
+function fakeDb(rows: AuditLog[]) {
+  const auditLog = {
+    findFirst: async () => rows[rows.length - 1] ?? null,
+    create: async ({ data }: { data: Omit<AuditLog, 'id'> }) => {
+      const row = {
+        ...data,
+        id: `log-${rows.length + 1}`,
+        metadata: data.metadata === undefined ? null : JSON.parse(JSON.stringify(data.metadata)),
+      } as AuditLog;
+      rows.push(row);
+      return row;
+    },
+    findMany: async ({ where, take }: { where: Where; take?: number }) =>
+      rows
+        .filter((row) => row.sequence > (where.sequence?.gt ?? 0))
+        .filter((row) => !where.action || row.action === where.action)
+        .slice(0, take),
+  };
+  const tx = { $executeRaw: async () => 0, auditLog };
+  return {
+    auditLog,
+    auditLogTombstone: { findMany: async () => [] },
+    $transaction: async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx),
+  } as unknown as DatabaseService;
+}
+
+describe('PrismaAuditLogStore', () => {
+  let rows: AuditLog[];
+  let store: PrismaAuditLogStore;
+
+  const append = (action: string, metadata?: Record<string, unknown>) =>
+    store.append({
+      timestamp: new Date(),
+      userId: 'user-1',
+      action,
+      resource: 'authentication',
+      success: action !== 'auth.login_failed',
+      metadata,
+    });
+
+  beforeEach(async () => {
+    rows = [];
+    store = new PrismaAuditLogStore(fakeDb(rows));
+    await append('auth.login', { b: 1, a: { d: [1, 2], c: 'x' } });
+    await append('auth.login_failed');
+    await append('auth.logout');
+  });
+
+  it('chains each row to the one before it', async () => {
+    expect(rows.map((row) => row.sequence)).toEqual([1, 2, 3]);
+    expect(rows[0]!.previousHash).toBeNull();
+    expect(rows[1]!.previousHash).toBe(rows[0]!.hash);
+    expect(rows[2]!.previousHash).toBe(rows[1]!.hash);
+    expect(rows[1]!.status).toBe('failure');
+
+    expect(await store.verifyChain(2)).toEqual({ checked: 3, archived: 0, breaks: [] });
+  });
+
+  it('reads entries back oldest first', async () => {
+    const entries = await store.find({ action: 'auth.login_failed' });
+
+    expect(entries).toEqual([
+      expect.objectContaining({ action: 'auth.login_failed', success: false }),
+    ]);
+  });
+
+  it('detects edited rows', async () => {
+    rows[1]!.status = 'success';
+
+    expect((await store.verifyChain()).breaks).toEqual([
+      { id: 'log-2', sequence: 2, reason: 'hash_mismatch' },
+    ]);
+  });
+
+  it('detects removed rows', async () => {
+    rows.splice(1, 1);
+
+    expect((await store.verifyChain()).breaks).toEqual([
+      { id: 'log-3', sequence: 3, reason: 'sequence_gap' },
+    ]);
+  });
+
+  it('detects rows replaced with a recomputed hash', async () => {
+    // A valid first row from another chain
+    const forgedRows: AuditLog[] = [];
+    await new PrismaAuditLogStore(fakeDb(forgedRows)).append({
+      timestamp: new Date(),
+      action: 'auth.login',
+      resource: 'authentication',
+      success: true,
+    });
+    rows[0] = { ...forgedRows[0]!, id: 'log-1' };
+
+    expect((await store.verifyChain()).breaks).toEqual([
+      { id: 'log-2', sequence: 2, reason: 'previous_hash_mismatch' },
+    ]);
+  });
+});
+
+describe('PrismaAuditLogStore.query', () => {
+  it('translates conditions, sorting and the cursor into one query', async () => {
+    const findMany = vi.fn(async () => [] as AuditLog[]);
+    const count = vi.fn(async () => 0);
+    const store = new PrismaAuditLogStore({
+      auditLog: { findMany, count },
+    } as unknown as DatabaseService);
+
+    await store.query({
+      conditions: [
+        { field: 'success', operator: 'eq', value: false },
+        { field: 'timestamp', operator: 'gte', value: new Date(0) },
+        { field: 'action', operator: 'in', value: ['auth.login', 'auth.logout'] },
+      ],
+      orderBy: [{ field: 'sequence', order: 'desc' }],
+      afterSequence: 10,
+      limit: 50,
+      withTotal: true,
+    });
+
+    const where = {
+      AND: [
+        { status: 'failure' },
+        { createdAt: { gte: new Date(0) } },
+        { action: { in: ['auth.login', 'auth.logout'] } },
+      ],
+    };
+    expect(findMany).toHaveBeenCalledWith({
+      where: { AND: [where, { sequence: { lt: 10 } }] },
+      orderBy: [{ sequence: 'desc' }],
+      skip: undefined,
+      take: 51,
+    });
+    expect(count).toHaveBeenCalledWith({ where });
+  });
+});
+
+describe('InMemoryAuditLogStore.query', () => {
+  let store: InMemoryAuditLogStore;
+
+  beforeEach(async () => {
+    store = new InMemoryAuditLogStore();
+    for (const [action, userId] of [
+      ['auth.login', 'b'],
+      ['auth.logout', undefined],
+      ['data.read', 'a'],
+      ['auth.login', 'a'],
+    ] as const) {
+      await store.append({ timestamp: new Date(), action, userId, resource: 'x', success: true });
+    }
+  });
+
+  it('sorts with sequence as the tie-break and missing values last', async () => {
+    const page = await store.query({ orderBy: [{ field: 'userId', order: 'asc' }], limit: 10 });
+
+    expect(page.records.map((record) => record.sequence)).toEqual([3, 4, 1, 2]);
+  });
+
+  it('pages by offset or past a sequence', async () => {
+    const conditions = [
+      { field: 'action' as const, operator: 'startsWith' as const, value: 'AUTH.' },
+    ];
+
+    expect(await store.query({ conditions, limit: 2, offset: 1, withTotal: true })).toMatchObject({
+      records: [{ sequence: 2 }, { sequence: 4 }],
+      hasMore: false,
+      total: 3,
+    });
+    expect(await store.query({ conditions, limit: 1, afterSequence: 1 })).toMatchObject({
+      records: [{ sequence: 2 }],
+      hasMore: true,
+    });
+    await expect(
+      store.query({ orderBy: [{ field: 'action', order: 'asc' }], limit: 1, afterSequence: 1 })
+    ).rejects.toThrow('Cursor paging requires audit logs to be sorted by sequence only');
+  });
+});
+
+describe('toAuditLogCsvRow', () => {
+  it('quotes special characters and neutralizes formulas', () => {
+    const row = toAuditLogCsvRow({
+      id: 'log-1',
+      sequence: 1,
+      timestamp: new Date('2026-01-01T00:00:00Z'),
+      action: 'auth.login',
+      resource: 'authentication',
+      success: true,
+      userAgent: '=HYPERLINK("x")',
+      metadata: { note: 'a,b' },
+    });
+
+    expect(row).toBe(
+      '1,log-1,2026-01-01T00:00:00.000Z,,auth.login,authentication,,true,,,"\'=HYPERLINK(""x"")","{""note"":""a,b""}"\r\n'
+    );
+  });
+});
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: 1 }], c: undefined } })).toBe(
+      '{"a":{"d":[1,{"e":1,"f":2}]},"b":1}'
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import type { AuditLogEntry } from '@repo/types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { requestContext } from '../../context/request-context';
+import { DataChangeAudit } from '../../services/data-change-audit';
+
+type Data = Record<string, unknown>;
+
+describe('DataChangeAudit', () => {
+  const user = {
+    id: 'user-1',
+    email: 'user@example.com',
+    name: 'Old name',
+    passwordHash: 'hash-1',
+    image: null,
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  };
+  let rows: Data[];
+  let changes: Array<Omit<AuditLogEntry, 'timestamp'>>;
+  let audit: DataChangeAudit;
+
+  beforeEach(() => {
+    rows = [{ ...user }, { ...user, id: 'user-2', name: 'Other' }];
+    changes = [];
+    // Reads filter the stored rows by { id } or { id: { in } }; other filters match every row
+    const read = vi.fn(async (_model: string, operation: string, args: Data) => {
+      const where = args['where'] as { id?: string | { in: string[] } };
+      const matches = rows.filter((row) =>
+        typeof where.id === 'object'
+          ? where.id.in.includes(row['id'] as string)
+          : where.id === undefined || row['id'] === where.id
+      );
+      return operation === 'findUnique' ? (matches[0] ?? null) : matches;
+    });
+    audit = new DataChangeAudit(read, async (change) => {
+      changes.push(change);
+    });
+  });
+
+  const run = (operation: string, args: Data, result: unknown): Promise<unknown> =>
+    audit.run('User', operation, args, async () => result);
+
+  it('records updates as diffs, masking sensitive and encrypted fields', async () => {
+    await requestContext.run({ correlationId: 'cid-1', ipAddress: '203.0.113.7' }, async () => {
+      requestContext.setUser({ userId: 'admin-1' });
+      await run(
+        'update',
+        { where: { id: 'user-1' } },
+        {
+          ...user,
+          name: 'New name',
+          email: 'new@example.com',
+          passwordHash: 'hash-2',
+          updatedAt: new Date(),
+        }
+      );
+    });
+
+    expect(changes).toEqual([
+      {
+        userId: 'admin-1',
+        action: 'data.update',
+        resource: 'user',
+        resourceId: 'user-1',
+        ipAddress: '203.0.113.7',
+        userAgent: undefined,
+        success: true,
+        metadata: {
+          operation: 'update',
+          correlationId: 'cid-1',
+          changes: {
+            email: { before: '[MASKED]', after: '[MASKED]' },
+            name: { before: 'Old name', after: 'New name' },
+            passwordHash: { before: '[MASKED]', after: '[MASKED]' },
+          },
+        },
+      },
+    ]);
+  });
+
+  it('skips updates that change nothing but ignored fields', async () => {
+    await run('update', { where: { id: 'user-1' } }, { ...user, updatedAt: new Date() });
+
+    expect(changes).toEqual([]);
+  });
+
+  it('records creates and deletes with the fields they set or removed', async () => {
+    await run('create', { data: {} }, { id: 'user-3', name: 'New', image: null });
+    await run('delete', { where: { id: 'user-2' } }, { id: 'user-2' });
+
+    expect(changes.map((change) => [change.action, change.resourceId])).toEqual([
+      ['data.create', 'user-3'],
+      ['data.delete', 'user-2'],
+    ]);
+    expect(changes[0]!.metadata!['changes']).toEqual({
+      id: { after: 'user-3' },
+      name: { after: 'New' },
+    });
+    expect(changes[1]!.metadata!['changes']).toMatchObject({
+      name: { before: 'Other' },
+      email: { before: '[MASKED]' },
+    });
+  });
+
+  it('records each record of bulk updates and deletes', async () => {
+    const updated = vi.fn(async () => {
+      rows = rows.map((row) => ({ ...row, name: 'Renamed' }));
+      return { count: 2 };
+    });
+    await audit.run('User', 'updateMany', { where: {}, data: { name: 'Renamed' } }, updated);
+    await run('deleteMany', { where: { id: { in: ['user-1'] } } }, { count: 1 });
+
+    expect(changes.map((change) => [change.action, change.resourceId])).toEqual([
+      ['data.update', 'user-1'],
+      ['data.update', 'user-2'],
+      ['data.delete', 'user-1'],
+    ]);
+    expect(changes[1]!.metadata!['changes']).toEqual({
+      name: { before: 'Other', after: 'Renamed' },
+    });
+  });
+
+  it('attributes impersonated changes to the acting admin', async () => {
+    await requestContext.run({}, async () => {
+      requestContext.setUser({ userId: 'user-1', actorId: 'admin-1' });
+      await run('update', { where: { id: 'user-1' } }, { ...user, name: 'New name' });
+    });
+
+    expect(changes[0]).toMatchObject({
+      userId: 'admin-1',
+      metadata: { impersonatedUserId: 'user-1' },
+    });
+  });
+
+  it('passes other models and reads through', async () => {
+    const query = vi.fn(async () => []);
+
+    await audit.run('Session', 'deleteMany', { where: {} }, query);
+    await audit.run('User', 'findMany', {}, query);
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(changes).toEqual([]);
+  });
+});
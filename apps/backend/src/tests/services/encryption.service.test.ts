@@ -1,8 +1,34 @@
+import { createCipheriv, randomBytes, scryptSync } from 'crypto';
+
+import type { ISecretsManager } from '@repo/types';
 import { container } from 'tsyringe';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 
+import { parseEncryptionKeys } from '../../services/auth/encryption-keys';
 import { EncryptionService } from '../../services/auth/encryption.service';
 
+function masterKeys(...kids: string[]): string {
+  return JSON.stringify(kids.map((kid) => ({ kid, key: randomBytes(32).toString('base64') })));
+}
+
+function secretsWith(values: Record<string, string>): ISecretsManager {
+  return {
+    getSecret: async (key: string) => {
+      if (!(key in values)) throw new Error(`Secret not found: ${key}`);
+      // eslint-disable-next-line security/detect-object-injection -- Key checked above
+      return values[key]!;
+    },
+  } as ISecretsManager;
+}
+
+// Ciphertext as written before versioning: iv:tag:ciphertext (hex), fixed-salt scrypt key
+function legacyEncrypt(data: string, passphrase: string): string {
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-256-gcm', scryptSync(passphrase, 'salt', 32), iv);
+  const encrypted = cipher.update(data, 'utf8', 'hex') + cipher.final('hex');
+  return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted}`;
+}
+
 describe('EncryptionService', () => {
   let encryptionService: EncryptionService;
 
@@ -101,6 +127,155 @@ describe('EncryptionService', () => {
     });
   });
 
+  describe('versioned master keys', () => {
+    const originalEnv = process.env['NODE_ENV'];
+
+    afterEach(() => {
+      process.env['NODE_ENV'] = originalEnv;
+    });
+
+    async function withKeys(raw: string): Promise<EncryptionService> {
+      const service = new EncryptionService();
+      await service.loadKeys(secretsWith({ ENCRYPTION_MASTER_KEYS: raw }));
+      return service;
+    }
+
+    it('wraps a per-record data key with the current master key', async () => {
+      const service = await withKeys(masterKeys('2026-01', '2025-01'));
+
+      const encrypted = await service.encrypt('secret');
+
+      expect(encrypted).toMatch(/^v2:2026-01:/);
+      expect(service.getKeyId(encrypted)).toBe('2026-01');
+      expect(service.needsReencryption(encrypted)).toBe(false);
+      expect(await service.decrypt(encrypted)).toBe('secret');
+    });
+
+    it('decrypts data under older keys in the keyring and rewraps it', async () => {
+      const oldKey = masterKeys('2025-01');
+      const newKey = masterKeys('2026-01');
+      const before = await (await withKeys(oldKey)).encrypt('secret');
+
+      const rotated = await withKeys(
+        JSON.stringify([...JSON.parse(newKey), ...JSON.parse(oldKey)])
+      );
+      expect(await rotated.decrypt(before)).toBe('secret');
+      expect(rotated.needsReencryption(before)).toBe(true);
+
+      const after = await rotated.reencrypt(before);
+      expect(rotated.getKeyId(after)).toBe('2026-01');
+      expect(await rotated.reencrypt(after)).toBe(after);
+
+      // Once re-encrypted, the old key can be dropped
+      const retired = await withKeys(newKey);
+      expect(await retired.decrypt(after)).toBe('secret');
+      await expect(retired.decrypt(before)).rejects.toThrow('Unknown encryption key: 2025-01');
+    });
+
+    it('keeps data under the ENCRYPTION_KEY default key readable after configuring keys', async () => {
+      const before = await new EncryptionService().encrypt('secret');
+      expect(new EncryptionService().getKeyId(before)).toBe('default');
+
+      const service = await withKeys(masterKeys('k1'));
+      expect(service.getCurrentKeyId()).toBe('k1');
+      expect(await service.decrypt(before)).toBe('secret');
+      expect(service.needsReencryption(before)).toBe(true);
+      expect(service.getKeyId(await service.reencrypt(before))).toBe('k1');
+
+      // A keyring defining its own 'default' key replaces it
+      const replaced = await withKeys(masterKeys('default'));
+      await expect(replaced.decrypt(before)).rejects.toThrow();
+    });
+
+    it('decrypts and re-encrypts the unversioned format', async () => {
+      const service = await withKeys(masterKeys('k1'));
+      const legacy = legacyEncrypt(
+        'secret',
+        process.env['ENCRYPTION_KEY'] || 'default-key-please-change-in-production'
+      );
+
+      expect(await service.decrypt(legacy)).toBe('secret');
+      expect(service.getKeyId(legacy)).toBeNull();
+      expect(service.needsReencryption(legacy)).toBe(true);
+
+      const upgraded = await service.reencrypt(legacy);
+      expect(service.getKeyId(upgraded)).toBe('k1');
+      expect(await service.decrypt(upgraded)).toBe('secret');
+    });
+
+    it('uses a salted key derived from an explicit key argument', async () => {
+      const service = await withKeys(masterKeys('k1'));
+
+      const encrypted = await service.encrypt('secret', 'passphrase');
+
+      expect(service.getKeyId(encrypted)).toMatch(/^\$/);
+      expect(await service.decrypt(encrypted, 'passphrase')).toBe('secret');
+      await expect(service.decrypt(encrypted, 'wrong')).rejects.toThrow();
+      await expect(service.decrypt(encrypted)).rejects.toThrow('explicit key');
+      expect(await service.decrypt(legacyEncrypt('old', 'passphrase'), 'passphrase')).toBe('old');
+    });
+
+    it('rejects tampered ciphertext', async () => {
+      const service = await withKeys(masterKeys('k1'));
+      const parts = (await service.encrypt('secret')).split(':');
+      parts[5] = Buffer.from('tampered').toString('base64url');
+
+      await expect(service.decrypt(parts.join(':'))).rejects.toThrow();
+    });
+
+    it('validates the keyring', () => {
+      expect(() => parseEncryptionKeys('[]')).toThrow('non-empty');
+      expect(() => parseEncryptionKeys(masterKeys('k1', 'k1'))).toThrow('unique');
+      expect(() => parseEncryptionKeys(masterKeys('bad:kid'))).toThrow('kid');
+      expect(() =>
+        parseEncryptionKeys(
+          JSON.stringify([{ kid: 'k1', key: randomBytes(16).toString('base64') }])
+        )
+      ).toThrow('32 base64 bytes');
+    });
+
+    it('requires master keys and a blind index key in production', async () => {
+      process.env['NODE_ENV'] = 'production';
+      const blindIndexKey = randomBytes(32).toString('base64');
+
+      await expect(
+        new EncryptionService().loadKeys(secretsWith({ ENCRYPTION_BLIND_INDEX_KEY: blindIndexKey }))
+      ).rejects.toThrow('ENCRYPTION_MASTER_KEYS must be configured in production');
+      await expect(withKeys(masterKeys('k1'))).rejects.toThrow(
+        'ENCRYPTION_BLIND_INDEX_KEY must be configured in production'
+      );
+      await expect(
+        new EncryptionService().loadKeys(
+          secretsWith({
+            ENCRYPTION_MASTER_KEYS: masterKeys('k1'),
+            ENCRYPTION_BLIND_INDEX_KEY: blindIndexKey,
+          })
+        )
+      ).resolves.toBeUndefined();
+    });
+
+    it('computes blind indexes keyed by the blind index key and field', async () => {
+      const key = randomBytes(32).toString('base64');
+      const load = async (blindIndexKey: string): Promise<EncryptionService> => {
+        const service = new EncryptionService();
+        await service.loadKeys(secretsWith({ ENCRYPTION_BLIND_INDEX_KEY: blindIndexKey }));
+        return service;
+      };
+      const service = await load(key);
+
+      const hash = service.blindIndex('user@example.com', 'User.email');
+      expect(hash).toBe((await load(key)).blindIndex('user@example.com', 'User.email'));
+      expect(hash).not.toBe(service.blindIndex('user@example.com', 'Profile.bio'));
+      expect(hash).not.toBe(
+        (await load(randomBytes(32).toString('base64'))).blindIndex(
+          'user@example.com',
+          'User.email'
+        )
+      );
+      await expect(load(randomBytes(16).toString('base64'))).rejects.toThrow('32 base64 bytes');
+    });
+  });
+
   describe('generateToken', () => {
     it('should generate random token', async () => {
       const token = await encryptionService.generateToken();
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { EncryptionService } from '../../services/auth/encryption.service';
+import { FieldEncryption } from '../../services/field-encryption';
+
+describe('FieldEncryption', () => {
+  let encryption: EncryptionService;
+  let fields: FieldEncryption;
+  const emailHash = (email: string): string => encryption.blindIndex(email, 'User.email');
+
+  beforeEach(() => {
+    encryption = new EncryptionService();
+    fields = new FieldEncryption(encryption);
+  });
+
+  it('encrypts declared fields in written data and sets their blind index', async () => {
+    const args = await fields.transformArgs('User', {
+      data: { email: 'user@example.com', name: 'User' },
+    });
+    const data = args['data'] as Record<string, string>;
+
+    expect(data['name']).toBe('User');
+    expect(encryption.isEncrypted(data['email']!)).toBe(true);
+    expect(await encryption.decrypt(data['email']!)).toBe('user@example.com');
+    expect(data['emailHash']).toBe(emailHash('user@example.com'));
+  });
+
+  it('handles upserts, createMany, `set` and null values', async () => {
+    const upsert = await fields.transformArgs('User', {
+      where: { email: 'user@example.com' },
+      create: { email: 'user@example.com' },
+      update: { email: { set: 'new@example.com' } },
+    });
+    expect(upsert['where']).toEqual({ emailHash: emailHash('user@example.com') });
+    expect((upsert['update'] as Record<string, string>)['emailHash']).toBe(
+      emailHash('new@example.com')
+    );
+
+    const many = await fields.transformArgs('Account', {
+      data: [{ access_token: 'a', refresh_token: null }, { access_token: 'b' }],
+    });
+    const [first, second] = many['data'] as Array<Record<string, string | null>>;
+    expect(first!['refresh_token']).toBeNull();
+    expect(await encryption.decrypt(second!['access_token']!)).toBe('b');
+  });
+
+  it('follows nested writes into encrypted models', async () => {
+    const args = await fields.transformArgs('User', {
+      data: {
+        email: 'user@example.com',
+        accounts: { create: [{ provider: 'github', access_token: 'token' }] },
+        profile: { upsert: { create: { bio: 'Hello' }, update: { bio: 'Hi' } } },
+      },
+    });
+    const data = args['data'] as {
+      accounts: { create: Array<Record<string, string>> };
+      profile: { upsert: { create: { bio: string }; update: { bio: string } } };
+    };
+
+    expect(data.accounts.create[0]!['provider']).toBe('github');
+    expect(await encryption.decrypt(data.accounts.create[0]!['access_token']!)).toBe('token');
+    expect(await encryption.decrypt(data.profile.upsert.create.bio)).toBe('Hello');
+    expect(await encryption.decrypt(data.profile.upsert.update.bio)).toBe('Hi');
+  });
+
+  it('filters by equality through the blind index, including across relations', async () => {
+    const args = await fields.transformArgs('Session', {
+      where: {
+        OR: [
+          { user: { email: 'a@example.com' } },
+          { user: { is: { email: { in: ['b@example.com', 'c@example.com'] } } } },
+        ],
+      },
+    });
+
+    expect(args['where']).toEqual({
+      OR: [
+        { user: { emailHash: emailHash('a@example.com') } },
+        {
+          user: {
+            is: { emailHash: { in: [emailHash('b@example.com'), emailHash('c@example.com')] } },
+          },
+        },
+      ],
+    });
+  });
+
+  it('rejects filters the blind index cannot answer', async () => {
+    await expect(
+      fields.transformArgs('User', { where: { email: { contains: 'example' } } })
+    ).rejects.toThrow('User.email is encrypted and can only be filtered by equality');
+    await expect(
+      fields.transformArgs('Account', { where: { access_token: 'token' } })
+    ).rejects.toThrow('Account.access_token is encrypted and cannot be filtered');
+  });
+
+  it('decrypts results and included relations, leaving plaintext as it is', async () => {
+    const result = await fields.decryptResult('ApiKey', [
+      {
+        id: 'key-1',
+        user: { email: await encryption.encrypt('user@example.com'), role: 'USER' },
+      },
+      { id: 'key-2', user: { email: 'legacy@example.com', role: 'USER' } },
+    ]);
+
+    expect(result.map((row) => row.user.email)).toEqual(['user@example.com', 'legacy@example.com']);
+    expect(await fields.decryptResult('User', 3)).toBe(3);
+  });
+});
@@ -1,8 +1,34 @@
+import { generateKeyPairSync } from 'crypto';
+
+import type { ISecretsManager } from '@repo/types';
+import jwt from 'jsonwebtoken';
 import { container } from 'tsyringe';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 
+import { parseJwtKeys, signJwt } from '../../services/auth/jwt-keys';
 import { JwtService } from '../../services/auth/jwt.service';
 
+function pemKeyPair(type: 'rsa' | 'ed25519') {
+  const { privateKey, publicKey } =
+    type === 'rsa'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+    publicKey: publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+  };
+}
+
+function secretsWith(values: Record<string, string>): ISecretsManager {
+  return {
+    getSecret: async (key: string) => {
+      if (!(key in values)) throw new Error(`Secret not found: ${key}`);
+      // eslint-disable-next-line security/detect-object-injection -- Key checked above
+      return values[key]!;
+    },
+  } as ISecretsManager;
+}
+
 describe('JwtService', () => {
   let jwtService: JwtService;
 
@@ -72,6 +98,13 @@ describe('JwtService', () => {
       expect(decoded.userId).toBe('123');
     });
 
+    it('should carry the token version in the refresh token', async () => {
+      const refreshToken = jwtService.generateRefreshToken('123', 4);
+
+      const decoded = await jwtService.validateRefreshToken(refreshToken);
+      expect(decoded).toEqual({ userId: '123', tokenVersion: 4 });
+    });
+
     it('should throw error for invalid refresh token', async () => {
       await expect(jwtService.validateRefreshToken('invalid-token')).rejects.toThrow(
         'Invalid or expired refresh token'
@@ -131,4 +164,128 @@ describe('JwtService', () => {
       expect(decoded).toBeNull();
     });
   });
+
+  describe('asymmetric signing keys', () => {
+    const payload = { userId: '123', email: 'test@example.com', roles: ['USER'], permissions: [] };
+    const ed25519 = pemKeyPair('ed25519');
+    const rsa = pemKeyPair('rsa');
+
+    afterEach(() => {
+      process.env['NODE_ENV'] = 'test';
+    });
+
+    it.each([
+      ['EdDSA', ed25519],
+      ['RS256', rsa],
+    ])('signs access tokens with %s and a kid header', async (alg, pair) => {
+      const service = new JwtService();
+      await service.loadKeys(
+        secretsWith({ JWT_SIGNING_KEYS: JSON.stringify([{ kid: 'k1', ...pair }]) })
+      );
+
+      const token = service.generateAccessToken(payload);
+      expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg, kid: 'k1' });
+      expect(await service.validateAccessToken(token)).toMatchObject({ userId: '123' });
+
+      // Verifiable by other services from the published keys alone
+      const { keys } = service.getJwks();
+      expect(keys).toEqual([expect.objectContaining({ kid: 'k1', alg, use: 'sig' })]);
+      expect(keys[0]).not.toHaveProperty('d');
+    });
+
+    it('keeps accepting tokens of the previous key during rotation', async () => {
+      const service = new JwtService();
+      await service.loadKeys(
+        secretsWith({ JWT_SIGNING_KEYS: JSON.stringify([{ kid: 'old', ...ed25519 }]) })
+      );
+      const oldToken = service.generateAccessToken(payload);
+
+      await service.loadKeys(
+        secretsWith({
+          JWT_SIGNING_KEYS: JSON.stringify([
+            { kid: 'new', privateKey: rsa.privateKey },
+            { kid: 'old', publicKey: ed25519.publicKey },
+          ]),
+        })
+      );
+      expect(service.getJwks().keys.map((key) => key.kid)).toEqual(['new', 'old']);
+      expect(jwt.decode(service.generateAccessToken(payload), { complete: true })?.header.kid).toBe(
+        'new'
+      );
+      expect(await service.validateAccessToken(oldToken)).toMatchObject({ userId: '123' });
+
+      await service.loadKeys(
+        secretsWith({
+          JWT_SIGNING_KEYS: JSON.stringify([{ kid: 'new', privateKey: rsa.privateKey }]),
+        })
+      );
+      await expect(service.validateAccessToken(oldToken)).rejects.toThrow();
+    });
+
+    it('rejects forged, tampered and symmetric tokens once keys are loaded', async () => {
+      delete process.env['JWT_ACCESS_SECRET'];
+      const service = new JwtService();
+      const symmetric = service.generateAccessToken(payload);
+      await service.loadKeys(
+        secretsWith({ JWT_SIGNING_KEYS: JSON.stringify([{ kid: 'k1', ...ed25519 }]) })
+      );
+
+      const token = service.generateAccessToken(payload);
+      const [header, body, signature] = token.split('.');
+      const tampered = Buffer.from(
+        JSON.stringify({ ...payload, roles: ['ADMIN'], exp: 9999999999 })
+      ).toString('base64url');
+      const [otherKey] = parseJwtKeys(JSON.stringify([{ kid: 'k1', ...pemKeyPair('ed25519') }]));
+      const forged = signJwt(payload, otherKey!, 60);
+
+      await expect(
+        service.validateAccessToken(`${header}.${tampered}.${signature}`)
+      ).rejects.toThrow();
+      await expect(service.validateAccessToken(`${header}.${body}.`)).rejects.toThrow();
+      await expect(service.validateAccessToken(forged)).rejects.toThrow();
+      await expect(service.validateAccessToken(symmetric)).rejects.toThrow();
+    });
+
+    it('rejects unusable key configurations', () => {
+      const weak = generateKeyPairSync('rsa', { modulusLength: 1024 })
+        .privateKey.export({ format: 'pem', type: 'pkcs8' })
+        .toString();
+
+      expect(() => parseJwtKeys('{}')).toThrow('must be a JSON array');
+      expect(() => parseJwtKeys(JSON.stringify([{ privateKey: ed25519.privateKey }]))).toThrow(
+        'needs a kid'
+      );
+      expect(() => parseJwtKeys(JSON.stringify([{ kid: 'k1', privateKey: weak }]))).toThrow(
+        'at least 2048 bits'
+      );
+      expect(() =>
+        parseJwtKeys(JSON.stringify([{ kid: 'k1', publicKey: ed25519.publicKey }]))
+      ).toThrow('No JWT signing key has a private key');
+      expect(() =>
+        parseJwtKeys(
+          JSON.stringify([
+            { kid: 'k1', ...ed25519 },
+            { kid: 'k1', ...rsa },
+          ])
+        )
+      ).toThrow('must be unique');
+    });
+
+    it('requires signing keys and token secrets in production', async () => {
+      process.env['NODE_ENV'] = 'production';
+
+      await expect(new JwtService().loadKeys(secretsWith({}))).rejects.toThrow(
+        'JWT_SIGNING_KEYS must be configured in production'
+      );
+      await expect(
+        new JwtService().loadKeys(
+          secretsWith({
+            JWT_SIGNING_KEYS: JSON.stringify([{ kid: 'k1', ...ed25519 }]),
+            JWT_REFRESH_SECRET: 'refresh-from-vault',
+            JWT_MFA_SECRET: 'mfa-from-vault',
+          })
+        )
+      ).resolves.toBeUndefined();
+    });
+  });
 });
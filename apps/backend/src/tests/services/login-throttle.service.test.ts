@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { LoginThrottleService } from '../../services/auth/login-throttle.service';
+import { CacheService } from '../../services/cache.service';
+import type { LoggerService } from '../../services/logger.service';
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as LoggerService;
+
+describe('CacheService sliding windows', () => {
+  beforeEach(() => {
+    process.env['REDIS_MOCK'] = 'true';
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts only events inside the window', async () => {
+    const cache = new CacheService(logger);
+
+    expect(await cache.slidingWindowHit('window', 60)).toBe(1);
+    vi.advanceTimersByTime(30 * 1000);
+    expect(await cache.slidingWindowHit('window', 60)).toBe(2);
+    vi.advanceTimersByTime(31 * 1000);
+    expect(await cache.slidingWindowCount('window', 60)).toBe(1);
+
+    await cache.delete('window');
+    expect(await cache.slidingWindowCount('window', 60)).toBe(0);
+  });
+});
+
+describe('LoginThrottleService', () => {
+  let throttle: LoginThrottleService;
+
+  beforeEach(() => {
+    process.env['REDIS_MOCK'] = 'true';
+    vi.useFakeTimers({ toFake: ['Date'] });
+    throttle = new LoginThrottleService(new CacheService(logger));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env['AUTH_IP_FAILURE_LIMIT'];
+  });
+
+  const fail = (times: number, email = 'user@example.com', ip = '10.0.0.1') =>
+    Array.from({ length: times }).reduce<Promise<unknown>>(
+      (previous) => previous.then(() => throttle.recordFailure(email, ip)),
+      Promise.resolve()
+    );
+
+  it('allows the first failures without delay', async () => {
+    await fail(2);
+    expect(await throttle.check('user@example.com', '10.0.0.1')).toEqual({ status: 'allowed' });
+  });
+
+  it('delays further attempts progressively', async () => {
+    await fail(3);
+    expect(await throttle.check('user@example.com')).toEqual({ status: 'delayed', retryAfter: 1 });
+
+    vi.advanceTimersByTime(1000);
+    expect((await throttle.check('user@example.com')).status).toBe('allowed');
+
+    await fail(1);
+    expect(await throttle.check('user@example.com')).toEqual({ status: 'delayed', retryAfter: 2 });
+  });
+
+  it('locks the account at the threshold until the lockout expires', async () => {
+    await fail(4);
+    const result = await throttle.recordFailure('User@Example.com', '10.0.0.1');
+    expect(result).toEqual({ failures: 5, locked: true });
+
+    expect(await throttle.check('user@example.com')).toEqual({ status: 'locked', retryAfter: 900 });
+
+    vi.advanceTimersByTime(900 * 1000);
+    expect((await throttle.check('user@example.com')).status).toBe('allowed');
+  });
+
+  it('unlocks an account and clears its failures', async () => {
+    await fail(5);
+    await throttle.unlock('user@example.com');
+
+    expect((await throttle.check('user@example.com')).status).toBe('allowed');
+    expect((await throttle.recordFailure('user@example.com')).failures).toBe(1);
+  });
+
+  it('clears failures after a successful login', async () => {
+    await fail(3);
+    await throttle.reset('user@example.com');
+
+    expect((await throttle.check('user@example.com')).status).toBe('allowed');
+  });
+
+  it('limits failures per IP across accounts', async () => {
+    process.env['AUTH_IP_FAILURE_LIMIT'] = '3';
+    throttle = new LoginThrottleService(new CacheService(logger));
+
+    await fail(1, 'a@example.com');
+    await fail(1, 'b@example.com');
+    await fail(1, 'c@example.com');
+
+    expect((await throttle.check('d@example.com', '10.0.0.1')).status).toBe('ip-limited');
+    expect((await throttle.check('d@example.com', '10.0.0.2')).status).toBe('allowed');
+  });
+});
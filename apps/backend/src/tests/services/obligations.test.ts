@@ -0,0 +1,45 @@
+import { ObligationType, PolicyObligation } from '@repo/types';
+import { describe, expect, it } from 'vitest';
+
+import { applyRedactions, getRedactedFields, hasObligation } from '../../services/auth/obligations';
+
+describe('ABAC obligations', () => {
+  const obligations: PolicyObligation[] = [
+    { type: ObligationType.REDACT_FIELDS, params: { fields: ['email', 'address.street'] } },
+    { type: ObligationType.REDACT_FIELDS, params: { fields: 'email' } },
+    { type: ObligationType.REQUIRE_MFA },
+  ];
+
+  it('should collect redacted fields across obligations', () => {
+    expect(getRedactedFields(obligations)).toEqual(['email', 'address.street']);
+    expect(hasObligation(obligations, ObligationType.REQUIRE_MFA)).toBe(true);
+    expect(hasObligation(obligations, ObligationType.AUDIT_SEVERITY)).toBe(false);
+  });
+
+  it('should redact nested fields without mutating the input', () => {
+    const user = { id: '1', email: 'a@example.com', address: { street: 'Main St', city: 'Oslo' } };
+
+    const redacted = applyRedactions(user, obligations);
+
+    expect(redacted).toEqual({
+      id: '1',
+      email: '[REDACTED]',
+      address: { street: '[REDACTED]', city: 'Oslo' },
+    });
+    expect(user.email).toBe('a@example.com');
+  });
+
+  it('should redact every element of an array and skip missing fields', () => {
+    const users = [{ id: '1', email: 'a@example.com' }, { id: '2' }];
+
+    expect(applyRedactions(users, obligations)).toEqual([
+      { id: '1', email: '[REDACTED]' },
+      { id: '2' },
+    ]);
+  });
+
+  it('should return the data unchanged without redact obligations', () => {
+    const data = { email: 'a@example.com' };
+    expect(applyRedactions(data, [])).toBe(data);
+  });
+});
@@ -0,0 +1,331 @@
+import { createHash, generateKeyPairSync } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AuthorizationService } from '../../services/auth/authorization.service';
+import { JwtService } from '../../services/auth/jwt.service';
+import { OidcProvider } from '../../services/auth/oidc.provider';
+import { InMemoryRbacStore } from '../../services/auth/rbac-store.service';
+import { RefreshTokenService } from '../../services/auth/refresh-token.service';
+import type { CacheService } from '../../services/cache.service';
+import type { DatabaseService } from '../../services/database.service';
+
+const CLIENT_ID = 'test-client';
+
+interface PendingCode {
+  codeChallenge: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Local OpenID provider: discovery, JWKS and a token endpoint that checks PKCE
+ * Codes are minted directly by the test with `issueCode` in place of the browser login
+ */
+function createMockOidcServer() {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, PendingCode>();
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  let issuer = '';
+  const server: Server = app.listen(0);
+  const ready = new Promise<void>((resolve) =>
+    server.once('listening', () => {
+      issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve();
+    })
+  );
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    });
+  });
+
+  app.get('/jwks', (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' }] });
+  });
+
+  app.post('/token', (req, res) => {
+    const pending = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    const challenge = createHash('sha256')
+      .update(String(req.body.code_verifier))
+      .digest('base64url');
+    if (!pending || pending.codeChallenge !== challenge || req.body.client_id !== CLIENT_ID) {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+
+    res.json({
+      access_token: 'provider-access-token',
+      token_type: 'Bearer',
+      expires_in: 3600,
+      id_token: jwt.sign({ iss: issuer, aud: CLIENT_ID, ...pending.claims }, privateKey, {
+        algorithm: 'RS256',
+        keyid: 'key-1',
+        expiresIn: '5m',
+      }),
+    });
+  });
+
+  return {
+    ready,
+    get issuer() {
+      return issuer;
+    },
+    issueCode(authorizationUrl: string, claims: Record<string, unknown>): string {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = `code-${codes.size + 1}-${Date.now()}`;
+      codes.set(code, {
+        codeChallenge: params.get('code_challenge')!,
+        claims: { nonce: params.get('nonce'), ...claims },
+      });
+      return code;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+type Row = Record<string, unknown> & { id: string };
+
+/**
+ * In-memory stand-in for the user, account, refreshToken and session delegates
+ */
+function createFakeDb() {
+  const users: Row[] = [];
+  const accounts: Row[] = [];
+
+  const newUser = (data: Record<string, unknown>): Row => ({
+    id: `user-${users.length + 1}`,
+    role: 'USER',
+    tokenVersion: 0,
+    emailVerified: null,
+    ...data,
+  });
+
+  return {
+    users,
+    accounts,
+    user: {
+      findUnique: vi.fn(
+        async ({ where }: { where: { id?: string; email?: string } }) =>
+          users.find((u) => (where.email ? u['email'] === where.email : u.id === where.id)) ?? null
+      ),
+      create: vi.fn(
+        async ({
+          data: { accounts: linked, ...data },
+        }: {
+          data: Record<string, unknown> & { accounts: { create: Record<string, unknown> } };
+        }) => {
+          const user = newUser(data);
+          users.push(user);
+          accounts.push({
+            id: `account-${accounts.length + 1}`,
+            userId: user.id,
+            ...linked.create,
+          });
+          return user;
+        }
+      ),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: object }) =>
+        Object.assign(users.find((u) => u.id === where.id)!, data)
+      ),
+    },
+    account: {
+      findUnique: vi.fn(
+        async ({
+          where,
+        }: {
+          where: { provider_providerAccountId: { provider: string; providerAccountId: string } };
+        }) => {
+          const { provider, providerAccountId } = where.provider_providerAccountId;
+          const account = accounts.find(
+            (a) => a['provider'] === provider && a['providerAccountId'] === providerAccountId
+          );
+          return account
+            ? { ...account, user: users.find((u) => u.id === account['userId']) }
+            : null;
+        }
+      ),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        const account = { id: `account-${accounts.length + 1}`, ...data };
+        accounts.push(account);
+        return account;
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: object }) =>
+        Object.assign(accounts.find((a) => a.id === where.id)!, data)
+      ),
+    },
+    refreshToken: {
+      create: vi.fn(async ({ data }: { data: Row }) => data),
+    },
+    session: {
+      create: vi.fn(async ({ data }: { data: Row }) => data),
+      updateMany: vi.fn(async () => ({ count: 1 })),
+    },
+  };
+}
+
+function createFakeCache() {
+  const entries = new Map<string, unknown>();
+  return {
+    get: vi.fn(async (key: string) => entries.get(key) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      entries.set(key, value);
+      return true;
+    }),
+    delete: vi.fn(async (key: string) => entries.delete(key)),
+  };
+}
+
+describe('OidcProvider', () => {
+  const oidcServer = createMockOidcServer();
+  let db: ReturnType<typeof createFakeDb>;
+  let provider: OidcProvider;
+
+  beforeAll(async () => {
+    await oidcServer.ready;
+    process.env['OIDC_ISSUER'] = oidcServer.issuer;
+    process.env['OIDC_CLIENT_ID'] = CLIENT_ID;
+  });
+
+  afterAll(async () => {
+    delete process.env['OIDC_ISSUER'];
+    delete process.env['OIDC_CLIENT_ID'];
+    await oidcServer.close();
+  });
+
+  beforeEach(() => {
+    db = createFakeDb();
+    const jwtService = new JwtService();
+    provider = new OidcProvider(
+      db as unknown as DatabaseService,
+      createFakeCache() as unknown as CacheService,
+      jwtService,
+      new RefreshTokenService(db as unknown as DatabaseService, jwtService),
+      new AuthorizationService(undefined, undefined, undefined, new InMemoryRbacStore())
+    );
+  });
+
+  async function login(claims: Record<string, unknown>) {
+    const { url, state } = await provider.createAuthorizationUrl();
+    return provider.verifyCallback(oidcServer.issueCode(url, claims), state);
+  }
+
+  it('builds an authorization URL with state, nonce and an S256 PKCE challenge', async () => {
+    const { url, state } = await provider.createAuthorizationUrl();
+    const params = new URL(url).searchParams;
+
+    expect(url.startsWith(`${oidcServer.issuer}/authorize?`)).toBe(true);
+    expect(params.get('client_id')).toBe(CLIENT_ID);
+    expect(params.get('state')).toBe(state);
+    expect(params.get('nonce')).toBeTruthy();
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('scope')).toBe('openid email profile');
+  });
+
+  it('creates a user and account on first login and issues our tokens', async () => {
+    const result = await login({ sub: 'sub-1', email: 'New@Example.com', email_verified: true });
+
+    expect(result.success).toBe(true);
+    expect(result.created).toBe(true);
+    expect(db.users[0]).toMatchObject({ email: 'new@example.com' });
+    expect(db.users[0]!['emailVerified']).toBeInstanceOf(Date);
+    expect(db.accounts[0]).toMatchObject({
+      userId: db.users[0]!.id,
+      provider: 'oidc',
+      providerAccountId: 'sub-1',
+      access_token: 'provider-access-token',
+    });
+
+    const access = await new JwtService().validateAccessToken(result.tokens!.accessToken);
+    expect(access).toMatchObject({ userId: db.users[0]!.id, mfaVerified: false });
+  });
+
+  it('signs linked accounts in without creating users', async () => {
+    await login({ sub: 'sub-1', email: 'user@example.com', email_verified: true });
+    const again = await login({ sub: 'sub-1', email: 'user@example.com', amr: ['pwd', 'mfa'] });
+
+    expect(again.success).toBe(true);
+    expect(again.created).toBe(false);
+    expect(db.users).toHaveLength(1);
+
+    const access = await new JwtService().validateAccessToken(again.tokens!.accessToken);
+    expect(access.mfaVerified).toBe(true);
+  });
+
+  it('links an existing user only when the provider verified the email', async () => {
+    db.users.push({ id: 'existing', email: 'taken@example.com', role: 'USER', tokenVersion: 0 });
+
+    const unverified = await login({ sub: 'sub-2', email: 'taken@example.com' });
+    expect(unverified.success).toBe(false);
+    expect(db.accounts).toHaveLength(0);
+
+    const verified = await login({
+      sub: 'sub-2',
+      email: 'taken@example.com',
+      email_verified: true,
+    });
+    expect(verified).toMatchObject({ success: true, userId: 'existing', created: false });
+    expect(db.accounts[0]).toMatchObject({ userId: 'existing', providerAccountId: 'sub-2' });
+  });
+
+  it('challenges users with MFA enabled instead of issuing tokens', async () => {
+    db.users.push({
+      id: 'existing',
+      email: 'mfa@example.com',
+      role: 'USER',
+      tokenVersion: 0,
+      mfaEnabled: true,
+    });
+
+    const result = await login({
+      sub: 'sub-3',
+      email: 'mfa@example.com',
+      email_verified: true,
+      amr: ['pwd', 'mfa'],
+    });
+
+    expect(result).toMatchObject({ success: true, userId: 'existing', created: false });
+    expect(result.tokens).toBeUndefined();
+    expect(await new JwtService().validateMfaPendingToken(result.mfaToken!)).toMatchObject({
+      userId: 'existing',
+    });
+  });
+
+  it('accepts each state once', async () => {
+    const { url, state } = await provider.createAuthorizationUrl();
+    const claims = { sub: 'sub-1', email: 'user@example.com', email_verified: true };
+
+    expect((await provider.verifyCallback(oidcServer.issueCode(url, claims), state)).success).toBe(
+      true
+    );
+    const replay = await provider.verifyCallback(oidcServer.issueCode(url, claims), state);
+    expect(replay).toMatchObject({ success: false, error: 'Invalid or expired state' });
+  });
+
+  it('rejects ID tokens with the wrong nonce or audience', async () => {
+    const wrongNonce = await login({ sub: 'sub-1', email: 'a@example.com', nonce: 'other' });
+    expect(wrongNonce).toMatchObject({ success: false, error: 'ID token nonce mismatch' });
+
+    const wrongAudience = await login({ sub: 'sub-1', email: 'a@example.com', aud: 'other' });
+    expect(wrongAudience).toMatchObject({ success: false, error: 'Invalid ID token' });
+    expect(db.users).toHaveLength(0);
+  });
+
+  it('fails when the token endpoint rejects the code', async () => {
+    const { state } = await provider.createAuthorizationUrl();
+
+    const result = await provider.verifyCallback('unknown-code', state);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('failed with 400');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import { AuthorizationService } from '../../services/auth/authorization.service';
+import { getDefaultRolePermissions } from '../../services/auth/default-roles';
+import { hasMatchingPermission, matchesPermission } from '../../services/auth/permissions';
+import { InMemoryRbacStore } from '../../services/auth/rbac-store.service';
+
+describe('matchesPermission', () => {
+  it('matches exact permissions', () => {
+    expect(matchesPermission('posts:read', 'posts:read')).toBe(true);
+    expect(matchesPermission('posts:read', 'posts:create')).toBe(false);
+  });
+
+  it('expands wildcard segments', () => {
+    expect(matchesPermission('users:*', 'users:delete')).toBe(true);
+    expect(matchesPermission('users:*', 'users:read:own')).toBe(true);
+    expect(matchesPermission('users:*', 'users')).toBe(false);
+    expect(matchesPermission('users:*', 'posts:read')).toBe(false);
+    expect(matchesPermission('*:read', 'files:read')).toBe(true);
+    expect(matchesPermission('*:read', 'files:update')).toBe(false);
+    expect(matchesPermission('*', 'settings:update')).toBe(true);
+  });
+
+  it('lets unscoped permissions cover scoped ones but not the reverse', () => {
+    expect(matchesPermission('files:read', 'files:read:own')).toBe(true);
+    expect(matchesPermission('files:read:own', 'files:read')).toBe(false);
+    expect(matchesPermission('files:*:own', 'files:update:own')).toBe(true);
+    expect(matchesPermission('files', 'files:read')).toBe(false);
+  });
+
+  it('checks a list of granted permissions', () => {
+    expect(hasMatchingPermission(['posts:read', 'users:*'], 'users:create')).toBe(true);
+    expect(hasMatchingPermission([], 'users:create')).toBe(false);
+  });
+});
+
+describe('AuthorizationService role hierarchy', () => {
+  const create = () => {
+    const store = new InMemoryRbacStore();
+    return { store, authz: new AuthorizationService(undefined, undefined, undefined, store) };
+  };
+
+  it('resolves inherited roles for the default hierarchy', async () => {
+    const { authz } = create();
+    expect(await authz.getEffectiveRoles(['admin'])).toEqual(['admin', 'moderator', 'user']);
+  });
+
+  it('grants inherited and wildcard permissions through hasPermission', async () => {
+    const { authz } = create();
+    await authz.assignRole('u1', 'admin');
+
+    expect(await authz.hasRole('u1', 'moderator')).toBe(true);
+    expect(await authz.hasPermission('u1', 'users:delete')).toBe(true); // admin: users:*
+    expect(await authz.hasPermission('u1', 'profile:update')).toBe(true); // inherited from user
+    expect(await authz.hasPermission('u1', 'billing:read')).toBe(false);
+    expect(await authz.canAccess('u1', 'settings', 'update')).toBe(true);
+
+    const permissions = await authz.getUserPermissions('u1');
+    expect(permissions).toEqual(
+      expect.arrayContaining(['users:*', 'posts:delete', 'profile:read'])
+    );
+  });
+
+  it('does not grant senior permissions to junior roles', async () => {
+    const { authz } = create();
+    await authz.assignRole('u1', 'moderator');
+
+    expect(await authz.hasRole('u1', 'user')).toBe(true);
+    expect(await authz.hasRole('u1', 'admin')).toBe(false);
+    expect(await authz.hasPermission('u1', 'posts:delete')).toBe(true);
+    expect(await authz.hasPermission('u1', 'users:delete')).toBe(false);
+  });
+
+  it('rejects inheritance cycles', async () => {
+    const { authz, store } = create();
+
+    await expect(authz.setRoleParents('user', ['admin'])).rejects.toThrow(/cycle/);
+    await authz.setRoleParents('auditor', ['guest']);
+    expect(await store.getRoleParents(['auditor', 'guest'])).toEqual({ auditor: ['guest'] });
+  });
+
+  it('includes inherited permissions in token claims', async () => {
+    const { authz } = create();
+    const claims = await authz.getTokenClaims('u1', 'MODERATOR');
+
+    expect(claims.roles).toEqual(['MODERATOR']);
+    expect(claims.permissions).toEqual(expect.arrayContaining(['posts:delete', 'posts:create']));
+    expect(claims.permissions).toEqual(getDefaultRolePermissions('moderator').sort());
+  });
+});
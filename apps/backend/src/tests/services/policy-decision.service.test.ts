@@ -0,0 +1,215 @@
+import 'reflect-metadata';
+
+import {
+  AttributeSource,
+  ComparisonOperator,
+  LogicalOperator,
+  Policy,
+  PolicyContext,
+  PolicyEffect,
+} from '@repo/types';
+import { container } from 'tsyringe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { IMetricsService } from '../../infrastructure/observability';
+import { compileConditions, PolicyIndex } from '../../services/auth/policy-compiler';
+import { PolicyDecisionService } from '../../services/auth/policy-decision.service';
+import { PolicyEngine } from '../../services/auth/policy-engine.service';
+import { InMemoryPolicyStore } from '../../services/auth/policy-store.service';
+import { CacheService } from '../../services/cache.service';
+import { LoggerService } from '../../services/logger.service';
+
+const hrPolicy: Omit<Policy, 'id' | 'createdAt' | 'updatedAt'> = {
+  name: 'HR Employee Access',
+  version: '1.0.0',
+  enabled: true,
+  target: { resources: ['employee'], actions: ['read'] },
+  rules: [
+    {
+      id: 'hr-rule',
+      conditions: {
+        operator: LogicalOperator.AND,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.USER, key: 'department' },
+            operator: ComparisonOperator.EQUALS,
+            value: 'HR',
+          },
+        ],
+      },
+      effect: PolicyEffect.ALLOW,
+    },
+  ],
+};
+
+const context = (department: string, extra: Record<string, unknown> = {}): PolicyContext => ({
+  user: { id: 'u1', department, ...extra },
+  resource: { type: 'employee' },
+  environment: {},
+  action: 'read',
+});
+
+describe('policy compiler', () => {
+  it('should compile conditions into synchronous predicates', () => {
+    const predicate = compileConditions({
+      operator: LogicalOperator.OR,
+      conditions: [
+        {
+          attribute: { source: AttributeSource.USER, key: 'profile.level' },
+          operator: ComparisonOperator.GREATER_THAN_OR_EQUAL,
+          value: 5,
+        },
+        {
+          attribute: { source: AttributeSource.USER, key: 'email' },
+          operator: ComparisonOperator.MATCHES,
+          value: '@example\\.com$',
+        },
+      ],
+    });
+
+    expect(predicate({ ...context('HR'), user: { profile: { level: 7 } } })).toBe(true);
+    expect(predicate({ ...context('HR'), user: { email: 'a@example.com' } })).toBe(true);
+    expect(predicate({ ...context('HR'), user: { email: 'a@other.com' } })).toBe(false);
+  });
+
+  it('should compile unsupported operators to conditions that never match', () => {
+    const warnings: string[] = [];
+    const predicate = compileConditions(
+      {
+        operator: LogicalOperator.OR,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.USER, key: 'department' },
+            operator: 'startsWith' as ComparisonOperator,
+            value: 'H',
+          },
+        ],
+      },
+      new Set(),
+      warnings
+    );
+
+    expect(predicate(context('HR'))).toBe(false);
+    expect(warnings).toEqual(['Unsupported comparison operator: startsWith']);
+  });
+
+  it('should index policies by resource and action with wildcards', async () => {
+    const store = new InMemoryPolicyStore();
+    const targeted = await store.createPolicy(hrPolicy);
+    const global = await store.createPolicy({ ...hrPolicy, name: 'Global', target: undefined });
+    const anyAction = await store.createPolicy({
+      ...hrPolicy,
+      name: 'Any action',
+      target: { resources: ['employee'], actions: ['*'] },
+    });
+    await store.createPolicy({ ...hrPolicy, name: 'Disabled', enabled: false });
+
+    const index = new PolicyIndex(await store.listPolicies());
+
+    expect(index.size).toBe(3);
+    expect(index.lookup(context('HR')).map((c) => c.policy.id)).toEqual([
+      targeted.id,
+      global.id,
+      anyAction.id,
+    ]);
+    expect(index.lookup({ ...context('HR'), action: 'delete' }).map((c) => c.policy.id)).toEqual([
+      global.id,
+      anyAction.id,
+    ]);
+    expect(index.lookup(context('HR'))[0]?.attributes).toEqual(['user.department']);
+  });
+});
+
+describe('PolicyDecisionService', () => {
+  let store: InMemoryPolicyStore;
+  let engine: PolicyEngine;
+  let metrics: Pick<IMetricsService, 'observeHistogram' | 'incrementCounter'>;
+  let service: PolicyDecisionService;
+
+  beforeEach(() => {
+    metrics = { observeHistogram: vi.fn(), incrementCounter: vi.fn() };
+    container.register('MetricsService', { useValue: metrics });
+
+    store = new InMemoryPolicyStore();
+    engine = new PolicyEngine();
+    service = new PolicyDecisionService(store, engine, container.resolve(CacheService));
+  });
+
+  it('should return null when no policy targets the resource', async () => {
+    await store.createPolicy(hrPolicy);
+    expect(await service.decide({ ...context('HR'), resource: { type: 'invoice' } })).toBeNull();
+  });
+
+  it('should cache decisions on the attributes policies read', async () => {
+    await store.createPolicy(hrPolicy);
+    const evaluate = vi.spyOn(engine, 'evaluateCompiled');
+
+    expect((await service.decide(context('HR')))?.effect).toBe(PolicyEffect.ALLOW);
+    // Attributes no policy reads do not affect the cache key
+    expect((await service.decide(context('HR', { nickname: 'x' })))?.effect).toBe(
+      PolicyEffect.ALLOW
+    );
+    expect(evaluate).toHaveBeenCalledTimes(1);
+
+    expect((await service.decide(context('Sales')))?.effect).toBe(PolicyEffect.DENY);
+    expect(evaluate).toHaveBeenCalledTimes(2);
+
+    expect(metrics.incrementCounter).toHaveBeenCalledWith('cache_hits_total', {
+      cache_name: 'abac_decisions',
+    });
+    expect(metrics.observeHistogram).toHaveBeenCalledWith(
+      'abac_evaluation_duration_seconds',
+      expect.any(Number),
+      { cache: 'miss' }
+    );
+  });
+
+  it('should keep deciding when a stored policy uses an unsupported operator', async () => {
+    const warn = vi.fn();
+    container.register(LoggerService, { useValue: { warn } as unknown as LoggerService });
+    service = new PolicyDecisionService(store, engine, container.resolve(CacheService));
+    await store.createPolicy(hrPolicy);
+    const broken = await store.createPolicy({
+      ...hrPolicy,
+      name: 'Broken',
+      rules: [
+        {
+          id: 'broken-rule',
+          conditions: {
+            operator: 'XOR' as LogicalOperator,
+            conditions: [
+              {
+                attribute: { source: AttributeSource.USER, key: 'department' },
+                operator: 'startsWith' as ComparisonOperator,
+                value: 'H',
+              },
+            ],
+          },
+          effect: PolicyEffect.DENY,
+        },
+      ],
+    });
+
+    expect((await service.decide(context('HR')))?.effect).toBe(PolicyEffect.ALLOW);
+    expect(warn).toHaveBeenCalledWith('ABAC policy has conditions that never match', {
+      policyId: broken.id,
+      warnings: [
+        'Unsupported comparison operator: startsWith',
+        'Unsupported logical operator: XOR',
+      ],
+    });
+  });
+
+  it('should invalidate compiled policies and cached decisions when the store changes', async () => {
+    const policy = await store.createPolicy(hrPolicy);
+    expect((await service.decide(context('HR')))?.effect).toBe(PolicyEffect.ALLOW);
+
+    await store.updatePolicy(policy.id, {
+      rules: [{ ...hrPolicy.rules[0]!, effect: PolicyEffect.DENY }],
+    });
+    expect((await service.decide(context('HR')))?.effect).toBe(PolicyEffect.DENY);
+
+    await store.deletePolicy(policy.id);
+    expect(await service.decide(context('HR'))).toBeNull();
+  });
+});
@@ -1,7 +1,9 @@
 import {
   AttributeSource,
+  CombiningAlgorithm,
   ComparisonOperator,
   LogicalOperator,
+  ObligationType,
   Policy,
   PolicyContext,
   PolicyEffect,
@@ -654,6 +656,164 @@ describe('PolicyEngine', () => {
     });
   });
 
+  describe('Combining Algorithms', () => {
+    const context: PolicyContext = {
+      user: { id: '123', role: 'admin' },
+      resource: {},
+      environment: {},
+      action: 'delete',
+    };
+
+    const roleRule = (id: string, role: string, effect: PolicyEffect, priority?: number) => ({
+      id,
+      priority,
+      conditions: {
+        operator: LogicalOperator.AND,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.USER, key: 'role' },
+            operator: ComparisonOperator.EQUALS,
+            value: role,
+          },
+        ],
+      },
+      effect,
+    });
+
+    const makePolicy = (id: string, overrides: Partial<Policy>): Policy => ({
+      id,
+      name: id,
+      version: '1.0',
+      enabled: true,
+      rules: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+    // A general deny for deletes plus an admin exception
+    const generalDeny = makePolicy('general-deny', {
+      rules: [roleRule('deny-delete', 'admin', PolicyEffect.DENY)],
+    });
+    const adminException = makePolicy('admin-exception', {
+      priority: 10,
+      rules: [roleRule('allow-admin-delete', 'admin', PolicyEffect.ALLOW)],
+    });
+
+    it('should default to deny-overrides across policies', async () => {
+      const result = await policyEngine.evaluatePolicies([generalDeny, adminException], context);
+      expect(result.effect).toBe(PolicyEffect.DENY);
+      expect(result.matchedRules).toEqual(['deny-delete']);
+    });
+
+    it('should let an exception win under permit-overrides', async () => {
+      const result = await policyEngine.evaluatePolicies([generalDeny, adminException], context, {
+        combiningAlgorithm: CombiningAlgorithm.PERMIT_OVERRIDES,
+      });
+      expect(result.effect).toBe(PolicyEffect.ALLOW);
+      expect(result.matchedRules).toEqual(['allow-admin-delete']);
+    });
+
+    it('should use the highest priority policy under first-applicable', async () => {
+      const trace = await policyEngine.explainPolicies([generalDeny, adminException], context, {
+        combiningAlgorithm: CombiningAlgorithm.FIRST_APPLICABLE,
+      });
+      expect(trace.effect).toBe(PolicyEffect.ALLOW);
+      expect(trace.combiningAlgorithm).toBe(CombiningAlgorithm.FIRST_APPLICABLE);
+      expect(trace.policies.map((p) => p.policyId)).toEqual(['admin-exception', 'general-deny']);
+    });
+
+    it('should deny when more than one policy applies under only-one-applicable', async () => {
+      const result = await policyEngine.evaluatePolicies([generalDeny, adminException], context, {
+        combiningAlgorithm: CombiningAlgorithm.ONLY_ONE_APPLICABLE,
+      });
+      expect(result.effect).toBe(PolicyEffect.DENY);
+      expect(result.reason).toContain('more than one applicable policy');
+
+      const single = await policyEngine.evaluatePolicies([adminException], context, {
+        combiningAlgorithm: CombiningAlgorithm.ONLY_ONE_APPLICABLE,
+      });
+      expect(single.effect).toBe(PolicyEffect.ALLOW);
+    });
+
+    it('should combine rules with the policy algorithm', async () => {
+      const policy = makePolicy('rule-combining', {
+        combiningAlgorithm: CombiningAlgorithm.FIRST_APPLICABLE,
+        rules: [
+          roleRule('deny-admin', 'admin', PolicyEffect.DENY),
+          roleRule('allow-admin', 'admin', PolicyEffect.ALLOW, 5),
+        ],
+      });
+
+      const result = await policyEngine.evaluatePolicy(policy, context);
+      expect(result.effect).toBe(PolicyEffect.ALLOW);
+      expect(result.matchedRules).toEqual(['allow-admin']);
+
+      const permit = await policyEngine.evaluatePolicy(
+        {
+          ...policy,
+          combiningAlgorithm: CombiningAlgorithm.PERMIT_OVERRIDES,
+          rules: [
+            roleRule('deny-admin', 'admin', PolicyEffect.DENY, 5),
+            roleRule('allow-admin', 'admin', PolicyEffect.ALLOW),
+          ],
+        },
+        context
+      );
+      expect(permit.effect).toBe(PolicyEffect.ALLOW);
+    });
+
+    it('should only return obligations of rules that produced the decision', async () => {
+      const policy = makePolicy('obligations', {
+        rules: [
+          {
+            ...roleRule('allow-admin', 'admin', PolicyEffect.ALLOW),
+            obligations: [{ type: ObligationType.REDACT_FIELDS, params: { fields: ['ssn'] } }],
+          },
+          {
+            ...roleRule('deny-admin-delete', 'admin', PolicyEffect.DENY),
+            obligations: [{ type: ObligationType.AUDIT_SEVERITY, params: { severity: 'high' } }],
+            advice: [{ type: 'contact-owner' }],
+          },
+        ],
+      });
+
+      const denied = await policyEngine.evaluatePolicies([policy], context);
+      expect(denied.effect).toBe(PolicyEffect.DENY);
+      expect(denied.obligations).toEqual([
+        { type: ObligationType.AUDIT_SEVERITY, params: { severity: 'high' } },
+      ]);
+      expect(denied.advice).toEqual([{ type: 'contact-owner' }]);
+
+      const allowed = await policyEngine.evaluatePolicies(
+        [{ ...policy, combiningAlgorithm: CombiningAlgorithm.PERMIT_OVERRIDES }],
+        context
+      );
+      expect(allowed.effect).toBe(PolicyEffect.ALLOW);
+      expect(allowed.obligations).toEqual([
+        { type: ObligationType.REDACT_FIELDS, params: { fields: ['ssn'] } },
+      ]);
+      expect(allowed.advice).toEqual([]);
+    });
+
+    it('should read the default algorithm from ABAC_COMBINING_ALGORITHM', () => {
+      const previous = process.env['ABAC_COMBINING_ALGORITHM'];
+      try {
+        process.env['ABAC_COMBINING_ALGORITHM'] = CombiningAlgorithm.PERMIT_OVERRIDES;
+        expect(new PolicyEngine().getDefaultAlgorithm()).toBe(CombiningAlgorithm.PERMIT_OVERRIDES);
+
+        process.env['ABAC_COMBINING_ALGORITHM'] = 'not-an-algorithm';
+        expect(new PolicyEngine().getDefaultAlgorithm()).toBe(CombiningAlgorithm.DENY_OVERRIDES);
+      } finally {
+        if (previous === undefined) {
+          delete process.env['ABAC_COMBINING_ALGORITHM'];
+        } else {
+          process.env['ABAC_COMBINING_ALGORITHM'] = previous;
+        }
+      }
+    });
+  });
+
   describe('Time-Based Access', () => {
     it('should allow access during business hours', async () => {
       // Wednesday at 2 PM
@@ -0,0 +1,206 @@
+import {
+  AttributeSource,
+  ComparisonOperator,
+  LogicalOperator,
+  PolicyContext,
+  PolicyEffect,
+} from '@repo/types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { EXAMPLE_POLICIES, PolicyDefinition } from '../../services/auth/example-policies';
+import { InMemoryPolicyStore } from '../../services/auth/policy-store.service';
+import { PrismaPolicyStore } from '../../services/auth/prisma-policy-store.service';
+import type { DatabaseService } from '../../services/database.service';
+
+const basePolicy: PolicyDefinition = {
+  name: 'Employee Read',
+  version: '1.0.0',
+  enabled: true,
+  rules: [
+    {
+      id: 'hr-read',
+      conditions: {
+        operator: LogicalOperator.AND,
+        conditions: [
+          {
+            attribute: { source: AttributeSource.USER, key: 'department' },
+            operator: ComparisonOperator.EQUALS,
+            value: 'HR',
+          },
+          {
+            operator: LogicalOperator.NOT,
+            conditions: [
+              {
+                attribute: { source: AttributeSource.RESOURCE, key: 'archived' },
+                operator: ComparisonOperator.EQUALS,
+                value: true,
+              },
+            ],
+          },
+        ],
+      },
+      effect: PolicyEffect.ALLOW,
+      priority: 5,
+    },
+  ],
+};
+
+const contextFor = (type: string, action: string): PolicyContext => ({
+  user: { id: 'u1' },
+  resource: { type },
+  environment: {},
+  action,
+});
+
+describe('InMemoryPolicyStore', () => {
+  let store: InMemoryPolicyStore;
+
+  beforeEach(() => {
+    store = new InMemoryPolicyStore();
+  });
+
+  it('returns only policies whose target matches the resource and action', async () => {
+    await store.createPolicy({
+      ...basePolicy,
+      name: 'Targeted',
+      target: { resources: ['employee'], actions: ['read'] },
+    });
+    await store.createPolicy({ ...basePolicy, name: 'Global' });
+    await store.createPolicy({
+      ...basePolicy,
+      name: 'Wildcard actions',
+      target: { resources: ['employee'], actions: ['*'] },
+    });
+    await store.createPolicy({
+      ...basePolicy,
+      name: 'Other resource',
+      target: { resources: ['document'] },
+    });
+
+    const employeeRead = await store.findApplicablePolicies(contextFor('employee', 'read'));
+    expect(employeeRead.map((p) => p.name).sort()).toEqual([
+      'Global',
+      'Targeted',
+      'Wildcard actions',
+    ]);
+
+    const employeeDelete = await store.findApplicablePolicies(contextFor('employee', 'delete'));
+    expect(employeeDelete.map((p) => p.name).sort()).toEqual(['Global', 'Wildcard actions']);
+  });
+
+  it('skips disabled policies', async () => {
+    await store.createPolicy({ ...basePolicy, enabled: false });
+
+    const policies = await store.findApplicablePolicies(contextFor('employee', 'read'));
+    expect(policies).toHaveLength(0);
+  });
+
+  it('loads the example policies', async () => {
+    await store.initializeExamplePolicies();
+
+    const policies = await store.listPolicies();
+    expect(policies).toHaveLength(EXAMPLE_POLICIES.length);
+  });
+});
+
+describe('PrismaPolicyStore', () => {
+  let db: {
+    abacPolicy: Record<string, ReturnType<typeof vi.fn>>;
+  };
+  let store: PrismaPolicyStore;
+
+  beforeEach(() => {
+    db = {
+      abacPolicy: {
+        create: vi.fn(),
+        findMany: vi.fn().mockResolvedValue([]),
+        findUnique: vi.fn(),
+        deleteMany: vi.fn(),
+      },
+    };
+    store = new PrismaPolicyStore(db as unknown as DatabaseService);
+  });
+
+  it('flattens the condition tree on create and rebuilds it on read', async () => {
+    db.abacPolicy.create!.mockImplementation(async ({ data }) => ({
+      id: 'policy-1',
+      name: data.name,
+      description: null,
+      version: data.version,
+      enabled: data.enabled,
+      resources: data.resources,
+      actions: data.actions,
+      createdBy: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      tags: data.tags.create.map((t: { tag: string }, i: number) => ({
+        id: `tag-${i}`,
+        policyId: 'policy-1',
+        tag: t.tag,
+      })),
+      rules: data.rules.create.map(
+        (
+          r: {
+            ruleKey: string;
+            effect: string;
+            priority: number;
+            position: number;
+            conditions: { createMany: { data: Record<string, unknown>[] } };
+          },
+          i: number
+        ) => ({
+          id: `rule-${i}`,
+          policyId: 'policy-1',
+          ruleKey: r.ruleKey,
+          description: null,
+          effect: r.effect,
+          priority: r.priority,
+          position: r.position,
+          // Reverse row order to prove the tree is rebuilt from parent/position links
+          conditions: [...r.conditions.createMany.data].reverse().map((c) => ({
+            ruleId: `rule-${i}`,
+            logicalOperator: null,
+            attributeSource: null,
+            attributeKey: null,
+            comparisonOperator: null,
+            value: null,
+            ...c,
+          })),
+        })
+      ),
+    }));
+
+    const created = await store.createPolicy({
+      ...basePolicy,
+      tags: ['hr'],
+      target: { resources: ['employee'], actions: ['read'] },
+    });
+
+    const createArgs = db.abacPolicy.create!.mock.calls[0]![0];
+    expect(createArgs.data.rules.create[0].conditions.createMany.data).toHaveLength(4);
+    expect(createArgs.data.versions.create.version).toBe('1.0.0');
+
+    expect(created.id).toBe('policy-1');
+    expect(created.tags).toEqual(['hr']);
+    expect(created.target).toEqual({ resources: ['employee'], actions: ['read'] });
+    expect(created.rules[0]!.id).toBe('hr-read');
+    expect(created.rules[0]!.conditions).toEqual(basePolicy.rules[0]!.conditions);
+  });
+
+  it('filters applicable policies by resource type and action in the query', async () => {
+    await store.findApplicablePolicies(contextFor('employee', 'read'));
+
+    const where = db.abacPolicy.findMany!.mock.calls[0]![0].where;
+    expect(where.enabled).toBe(true);
+    expect(where.AND[0].OR).toContainEqual({ resources: { has: 'employee' } });
+    expect(where.AND[1].OR).toContainEqual({ actions: { hasSome: ['*', 'read'] } });
+  });
+
+  it('reports whether a policy was deleted', async () => {
+    db.abacPolicy.deleteMany!.mockResolvedValueOnce({ count: 1 });
+    db.abacPolicy.deleteMany!.mockResolvedValueOnce({ count: 0 });
+
+    expect(await store.deletePolicy('policy-1')).toBe(true);
+    expect(await store.deletePolicy('missing')).toBe(false);
+  });
+});
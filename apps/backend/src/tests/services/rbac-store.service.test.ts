@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AuthorizationService } from '../../services/auth/authorization.service';
+import { PrismaRbacStore } from '../../services/auth/prisma-rbac-store.service';
+import { InMemoryRbacStore } from '../../services/auth/rbac-store.service';
+import type { DatabaseService } from '../../services/database.service';
+
+describe('InMemoryRbacStore', () => {
+  let store: InMemoryRbacStore;
+
+  beforeEach(() => {
+    store = new InMemoryRbacStore();
+  });
+
+  it('loads the default role permissions', async () => {
+    expect(await store.getRolePermissions(['guest'])).toEqual(['posts:read', 'profile:read']);
+    expect(await store.getRolePermissions(['unknown'])).toEqual([]);
+  });
+
+  it('assigns and revokes roles and direct permissions', async () => {
+    await store.assignRole('u1', 'admin');
+    await store.grantPermission('u1', 'reports:export');
+    expect(await store.getUserRoles('u1')).toEqual(['admin']);
+    expect(await store.getUserPermissions('u1')).toEqual(['reports:export']);
+
+    await store.revokeRole('u1', 'admin');
+    await store.revokePermission('u1', 'reports:export');
+    expect(await store.getUserRoles('u1')).toEqual([]);
+    expect(await store.getUserPermissions('u1')).toEqual([]);
+  });
+});
+
+describe('PrismaRbacStore', () => {
+  type Mocked = Record<string, ReturnType<typeof vi.fn>>;
+  let db: Record<string, Mocked> & { $transaction: ReturnType<typeof vi.fn> };
+  let store: PrismaRbacStore;
+
+  beforeEach(() => {
+    db = {
+      role: { upsert: vi.fn(async ({ where }) => ({ id: `role-${where.name}` })) },
+      permission: {
+        upsert: vi.fn(async ({ where }) => ({ id: `perm-${where.name}` })),
+        findMany: vi.fn().mockResolvedValue([{ name: 'posts:read' }]),
+      },
+      rolePermission: {
+        deleteMany: vi.fn().mockReturnValue('delete-op'),
+        createMany: vi.fn().mockReturnValue('create-op'),
+      },
+      userRoleAssignment: {
+        upsert: vi.fn(),
+        deleteMany: vi.fn(),
+        findMany: vi.fn().mockResolvedValue([{ role: { name: 'admin' } }]),
+      },
+      userPermission: { upsert: vi.fn(), deleteMany: vi.fn(), findMany: vi.fn() },
+      roleInheritance: {
+        deleteMany: vi.fn().mockReturnValue('delete-parents'),
+        createMany: vi.fn().mockReturnValue('create-parents'),
+        findMany: vi.fn().mockResolvedValue([
+          { role: { name: 'admin' }, parent: { name: 'moderator' } },
+          { role: { name: 'admin' }, parent: { name: 'auditor' } },
+        ]),
+      },
+      $transaction: vi.fn(),
+    };
+    store = new PrismaRbacStore(db as unknown as DatabaseService);
+  });
+
+  it('upserts the role before writing the assignment', async () => {
+    await store.assignRole('u1', 'editor');
+
+    expect(db.role.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { name: 'editor' }, create: { name: 'editor' } })
+    );
+    expect(db.userRoleAssignment.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId_roleId: { userId: 'u1', roleId: 'role-editor' } } })
+    );
+    expect(await store.getUserRoles('u1')).toEqual(['admin']);
+  });
+
+  it('grants and revokes direct permissions by name', async () => {
+    await store.grantPermission('u1', 'reports:export');
+    await store.revokePermission('u1', 'reports:export');
+
+    expect(db.userPermission.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { userId: 'u1', permissionId: 'perm-reports:export' },
+      })
+    );
+    expect(db.userPermission.deleteMany).toHaveBeenCalledWith({
+      where: { userId: 'u1', permission: { name: 'reports:export' } },
+    });
+  });
+
+  it('replaces a role permission set in one transaction', async () => {
+    await store.setRolePermissions('editor', ['posts:read', 'posts:update']);
+
+    expect(db.rolePermission.createMany).toHaveBeenCalledWith({
+      data: [
+        { roleId: 'role-editor', permissionId: 'perm-posts:read' },
+        { roleId: 'role-editor', permissionId: 'perm-posts:update' },
+      ],
+      skipDuplicates: true,
+    });
+    expect(db.$transaction).toHaveBeenCalledWith(['delete-op', 'create-op']);
+  });
+
+  it('replaces and groups role parents', async () => {
+    await store.setRoleParents('editor', ['user']);
+
+    expect(db.roleInheritance.createMany).toHaveBeenCalledWith({
+      data: [{ roleId: 'role-editor', parentId: 'role-user' }],
+      skipDuplicates: true,
+    });
+    expect(db.$transaction).toHaveBeenCalledWith(['delete-parents', 'create-parents']);
+    expect(await store.getRoleParents(['admin'])).toEqual({ admin: ['moderator', 'auditor'] });
+  });
+
+  it('skips the query for an empty role list', async () => {
+    expect(await store.getRolePermissions([])).toEqual([]);
+    expect(await store.getRolePermissions(['guest'])).toEqual(['posts:read']);
+    expect(db.permission.findMany).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AuthorizationService token claims', () => {
+  it('keeps the base role first and merges assigned role and direct permissions', async () => {
+    const store = new InMemoryRbacStore();
+    const authz = new AuthorizationService(undefined, undefined, undefined, store);
+
+    await store.assignRole('u1', 'guest');
+    await store.assignRole('u1', 'user');
+    await store.grantPermission('u1', 'reports:export');
+
+    const claims = await authz.getTokenClaims('u1', 'USER');
+
+    expect(claims.roles).toEqual(['USER', 'guest']);
+    expect(claims.permissions).toEqual([
+      'posts:create',
+      'posts:delete:own',
+      'posts:read',
+      'posts:update:own',
+      'profile:read',
+      'profile:update',
+      'reports:export',
+    ]);
+  });
+});
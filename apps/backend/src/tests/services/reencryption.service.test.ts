@@ -0,0 +1,105 @@
+import { randomBytes } from 'crypto';
+
+import type { ISecretsManager } from '@repo/types';
+import { describe, expect, it } from 'vitest';
+
+import { EncryptionService } from '../../services/auth/encryption.service';
+import { ReencryptionService } from '../../services/auth/reencryption.service';
+import type { DatabaseService } from '../../services/database.service';
+
+type Row = Record<string, unknown> & { id: string };
+
+// Tables of the client without field encryption, supporting the queries the job makes
+function fakeDb(tables: Record<string, Row[]>) {
+  const delegate = (rows: Row[]) => ({
+    findMany: async ({ where, take }: { where: Record<string, unknown>; take: number }) => {
+      const field = Object.keys(where).find((key) => key !== 'id')!;
+      const after = (where['id'] as { gt: string } | undefined)?.gt;
+      return (
+        rows
+          // eslint-disable-next-line security/detect-object-injection -- Column named by the job
+          .filter((row) => row[field] != null && (!after || row.id > after))
+          .sort((a, b) => a.id.localeCompare(b.id))
+          .slice(0, take)
+      );
+    },
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: Record<string, unknown>;
+      data: Record<string, unknown>;
+    }) => {
+      const row = rows.find((r) =>
+        // eslint-disable-next-line security/detect-object-injection -- Columns named by the job
+        Object.entries(where).every(([key, value]) => r[key] === value)
+      );
+      if (row) Object.assign(row, data);
+      return { count: row ? 1 : 0 };
+    },
+  });
+  return {
+    withoutFieldEncryption: {
+      user: delegate(tables['user'] ?? []),
+      account: delegate(tables['account'] ?? []),
+      profile: delegate(tables['profile'] ?? []),
+    },
+  } as unknown as DatabaseService;
+}
+
+function masterKey(kid: string): { kid: string; key: string } {
+  return { kid, key: randomBytes(32).toString('base64') };
+}
+
+async function withKeys(...keys: Array<{ kid: string; key: string }>): Promise<EncryptionService> {
+  const service = new EncryptionService();
+  await service.loadKeys({
+    getSecret: async (name: string) => {
+      if (name !== 'ENCRYPTION_MASTER_KEYS') throw new Error(`Secret not found: ${name}`);
+      return JSON.stringify(keys);
+    },
+  } as unknown as ISecretsManager);
+  return service;
+}
+
+describe('ReencryptionService', () => {
+  it('moves every encrypted field to the current master key', async () => {
+    const oldKey = masterKey('old');
+    const old = await withKeys(oldKey);
+    const users: Row[] = [
+      { id: 'u1', email: 'a@example.com', mfaSecret: await old.encrypt('secret-1') },
+      { id: 'u2', email: 'b@example.com', mfaSecret: null },
+      { id: 'u3', email: 'c@example.com', mfaSecret: await old.encrypt('secret-3') },
+      { id: 'u4', email: 'd@example.com', mfaSecret: 'corrupt' },
+    ];
+
+    // The rotated keyring keeps "old" for decryption only
+    const rotated = await withKeys(masterKey('new'), oldKey);
+    const result = await new ReencryptionService(fakeDb({ user: users }), rotated).reencryptAll({
+      batchSize: 2,
+    });
+
+    // 4 plaintext emails and 3 MFA secrets, one of them unreadable
+    expect(result).toEqual({ keyId: 'new', scanned: 7, reencrypted: 6, failed: 1 });
+    expect(rotated.getKeyId(users[0]!['mfaSecret'] as string)).toBe('new');
+    expect(await rotated.decrypt(users[2]!['mfaSecret'] as string)).toBe('secret-3');
+    expect(users[3]!['mfaSecret']).toBe('corrupt');
+  });
+
+  it('encrypts plaintext left in fields declared for field encryption', async () => {
+    const encryption = await withKeys(masterKey('k1'));
+    const users: Row[] = [{ id: 'u1', email: 'user@example.com', emailHash: null }];
+    const accounts: Row[] = [{ id: 'a1', access_token: 'oauth-token', refresh_token: null }];
+
+    const service = new ReencryptionService(fakeDb({ user: users, account: accounts }), encryption);
+    await service.reencryptAll();
+
+    expect(encryption.getKeyId(users[0]!['email'] as string)).toBe('k1');
+    expect(await encryption.decrypt(users[0]!['email'] as string)).toBe('user@example.com');
+    expect(users[0]!['emailHash']).toBe(encryption.blindIndex('user@example.com', 'User.email'));
+    expect(await encryption.decrypt(accounts[0]!['access_token'] as string)).toBe('oauth-token');
+
+    // A second run finds nothing to do
+    expect(await service.reencryptAll()).toMatchObject({ scanned: 2, reencrypted: 0 });
+  });
+});
@@ -0,0 +1,204 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { JwtService } from '../../services/auth/jwt.service';
+import { RefreshTokenService } from '../../services/auth/refresh-token.service';
+import type { DatabaseService } from '../../services/database.service';
+
+type TokenRecord = Record<string, unknown> & { id: string };
+
+type Where = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the RefreshToken and Session delegates; `where` matches on field
+ * equality, except `expires: { gt }` for session listing
+ */
+function createFakeDb() {
+  const records: TokenRecord[] = [];
+  const sessions: TokenRecord[] = [];
+  const matches = (record: TokenRecord, where: Where) =>
+    Object.entries(where).every(([key, value]) =>
+      value instanceof Object && 'gt' in value
+        ? // eslint-disable-next-line security/detect-object-injection -- Keys come from the test's own where clauses
+          (record[key] as Date) > (value.gt as Date)
+        : // eslint-disable-next-line security/detect-object-injection -- Keys come from the test's own where clauses
+          (record[key] ?? null) === value
+    );
+
+  return {
+    records,
+    sessions,
+    session: {
+      create: vi.fn(async ({ data }: { data: TokenRecord }) => {
+        const session = { createdAt: new Date(), lastSeenAt: new Date(), ...data };
+        sessions.push(session);
+        return session;
+      }),
+      findFirst: vi.fn(
+        async ({ where }: { where: Where }) => sessions.find((s) => matches(s, where)) ?? null
+      ),
+      findMany: vi.fn(async ({ where }: { where: Where }) =>
+        sessions.filter((s) => matches(s, where))
+      ),
+      updateMany: vi.fn(async ({ where, data }: { where: Where; data: Where }) => {
+        const matched = sessions.filter((s) => matches(s, where));
+        matched.forEach((s) => Object.assign(s, data));
+        return { count: matched.length };
+      }),
+      deleteMany: vi.fn(async ({ where }: { where: Where }) => {
+        const remaining = sessions.filter((s) => !matches(s, where));
+        const count = sessions.length - remaining.length;
+        sessions.splice(0, sessions.length, ...remaining);
+        return { count };
+      }),
+    },
+    refreshToken: {
+      create: vi.fn(async ({ data }: { data: TokenRecord }) => {
+        const record = { revokedAt: null, replacedById: null, ...data };
+        records.push(record);
+        return record;
+      }),
+      findUnique: vi.fn(
+        async ({ where }: { where: { id: string } }) =>
+          records.find((r) => r.id === where.id) ?? null
+      ),
+      updateMany: vi.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: Record<string, unknown>;
+          data: Record<string, unknown>;
+        }) => {
+          const matched = records.filter((r) => matches(r, where));
+          matched.forEach((r) => Object.assign(r, data));
+          return { count: matched.length };
+        }
+      ),
+    },
+  };
+}
+
+describe('RefreshTokenService', () => {
+  const payload = { userId: 'u1', email: 'u1@example.com', roles: ['USER'], permissions: [] };
+  let db: ReturnType<typeof createFakeDb>;
+  let jwt: JwtService;
+  let service: RefreshTokenService;
+
+  beforeEach(() => {
+    db = createFakeDb();
+    jwt = new JwtService();
+    service = new RefreshTokenService(db as unknown as DatabaseService, jwt);
+  });
+
+  const claimsOf = (token: string) => jwt.validateRefreshToken(token);
+
+  it('records issued tokens with their family and request details', async () => {
+    const tokens = await service.issue(payload, 0, { ipAddress: '10.0.0.1', userAgent: 'vitest' });
+    const claims = await claimsOf(tokens.refreshToken);
+
+    expect(claims.jti).toBeDefined();
+    expect(db.records).toEqual([
+      expect.objectContaining({
+        id: claims.jti,
+        userId: 'u1',
+        familyId: claims.familyId,
+        ipAddress: '10.0.0.1',
+        userAgent: 'vitest',
+      }),
+    ]);
+    expect((db.records[0]!['expiresAt'] as Date).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('rotates a token into a successor in the same family', async () => {
+    const first = await service.issue(payload, 0);
+    const firstClaims = await claimsOf(first.refreshToken);
+
+    const rotation = await service.rotate(firstClaims, payload, 0);
+    expect(rotation.status).toBe('rotated');
+
+    const next =
+      rotation.status === 'rotated' ? await claimsOf(rotation.tokens.refreshToken) : null;
+    expect(next?.familyId).toBe(firstClaims.familyId);
+    expect(db.records.find((r) => r.id === firstClaims.jti)).toMatchObject({
+      replacedById: next?.jti,
+    });
+    expect(db.records.find((r) => r.id === next?.jti)?.['revokedAt']).toBeNull();
+  });
+
+  it('revokes the whole family when a rotated token is replayed', async () => {
+    const first = await service.issue(payload, 0);
+    const firstClaims = await claimsOf(first.refreshToken);
+    const other = await service.issue(payload, 0);
+
+    await service.rotate(firstClaims, payload, 0);
+    const replay = await service.rotate(firstClaims, payload, 0);
+
+    expect(replay).toEqual({ status: 'reused', familyId: firstClaims.familyId });
+    const family = db.records.filter((r) => r['familyId'] === firstClaims.familyId);
+    expect(family.every((r) => r['revokedAt'] instanceof Date)).toBe(true);
+
+    // Other logins are unaffected
+    const otherClaims = await claimsOf(other.refreshToken);
+    expect(db.records.find((r) => r.id === otherClaims.jti)?.['revokedAt']).toBeNull();
+  });
+
+  it('rejects untracked tokens and tokens presented for another user', async () => {
+    const legacy = await claimsOf(jwt.generateRefreshToken('u1'));
+    expect(await service.rotate(legacy, payload, 0)).toEqual({ status: 'invalid' });
+
+    const tokens = await service.issue(payload, 0);
+    const claims = await claimsOf(tokens.refreshToken);
+    expect(await service.rotate({ ...claims, userId: 'u2' }, payload, 0)).toEqual({
+      status: 'invalid',
+    });
+  });
+
+  it('revokes every active token of a user', async () => {
+    await service.issue(payload, 0);
+    await service.issue(payload, 0);
+    await service.issue({ ...payload, userId: 'u2' }, 0);
+
+    expect(await service.revokeAllForUser('u1')).toBe(2);
+    expect(db.records.filter((r) => r['revokedAt'] === null)).toHaveLength(1);
+    expect(db.sessions.map((s) => s['userId'])).toEqual(['u2']);
+  });
+
+  it('records a session per login and ties access tokens to it', async () => {
+    const userAgent =
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0';
+    const tokens = await service.issue(payload, 0, { ipAddress: '10.0.0.1', userAgent });
+    const { familyId } = await claimsOf(tokens.refreshToken);
+
+    expect(await service.listSessions('u1')).toEqual([
+      expect.objectContaining({
+        id: familyId,
+        ipAddress: '10.0.0.1',
+        device: 'Firefox on Windows',
+      }),
+    ]);
+    expect((await jwt.validateAccessToken(tokens.accessToken)).sessionId).toBe(familyId);
+  });
+
+  it('updates the session on rotation', async () => {
+    const tokens = await service.issue(payload, 0, { ipAddress: '10.0.0.1' });
+    const claims = await claimsOf(tokens.refreshToken);
+    const [session] = db.sessions;
+    session!['lastSeenAt'] = new Date(0);
+
+    await service.rotate(claims, payload, 0, { ipAddress: '10.0.0.2' });
+
+    expect(session).toMatchObject({ ipAddress: '10.0.0.2' });
+    expect((session!['lastSeenAt'] as Date).getTime()).toBeGreaterThan(0);
+  });
+
+  it("revokes a session's tokens, only for its own user", async () => {
+    const tokens = await service.issue(payload, 0);
+    const { jti, familyId } = await claimsOf(tokens.refreshToken);
+
+    expect(await service.revokeSession('u2', familyId!)).toBe(false);
+    expect(await service.revokeSession('u1', familyId!)).toBe(true);
+
+    expect(db.sessions).toHaveLength(0);
+    expect(db.records.find((r) => r.id === jti)?.['revokedAt']).toBeInstanceOf(Date);
+  });
+});
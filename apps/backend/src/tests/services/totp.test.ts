@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTimeStep,
+  verifyTotp,
+} from '../../services/auth/totp';
+
+// RFC 6238 Appendix B test secret (SHA-1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('round-trips base32', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Encode(base32Decode(secret))).toBe(secret);
+    expect(base32Decode('gezd gnbv')).toEqual(Buffer.from('12345'));
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+  });
+
+  it('accepts codes within the drift window and returns their step', () => {
+    const now = 1111111109 * 1000;
+    const previous = generateTotp(RFC_SECRET, now - 30 * 1000);
+
+    expect(verifyTotp(RFC_SECRET, '081804', { timestamp: now })).toBe(getTimeStep(now));
+    expect(verifyTotp(RFC_SECRET, previous, { timestamp: now })).toBe(getTimeStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, previous, { timestamp: now, window: 0 })).toBeNull();
+  });
+
+  it('rejects malformed and replayed codes', () => {
+    const now = 1111111109 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, '08180', { timestamp: now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', { timestamp: now })).toBeNull();
+    expect(
+      verifyTotp(RFC_SECRET, '081804', { timestamp: now, afterStep: getTimeStep(now) })
+    ).toBeNull();
+  });
+
+  it('builds a provisioning URI for authenticator apps', () => {
+    const uri = new URL(buildOtpauthUri(RFC_SECRET, 'jane@example.com', 'Acme'));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/Acme:jane@example.com');
+    expect(uri.searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(uri.searchParams.get('issuer')).toBe('Acme');
+  });
+});
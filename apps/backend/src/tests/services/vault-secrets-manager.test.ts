@@ -0,0 +1,274 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { LoggerService } from '../../services/logger.service';
+import { VaultSecretsManager } from '../../services/secrets/vault-secrets-manager.service';
+
+type Version = { value: string; created_time: string; deletion_time: string; destroyed: boolean };
+type Secret = { versions: Version[]; custom_metadata: Record<string, string> | null };
+type RequestBody = {
+  role_id?: string;
+  secret_id?: string;
+  options?: { cas: number };
+  data?: { value: string };
+  custom_metadata?: Record<string, string>;
+};
+
+/**
+ * The parts of the Vault HTTP API the secrets manager uses: a KV v2 engine at `secret/`,
+ * AppRole login and token lookup/renewal
+ */
+class VaultStub {
+  readonly secrets = new Map<string, Secret>();
+  readonly tokens = new Map<string, { ttl: number; renewable: boolean }>();
+  readonly requests: Array<{ method: string; path: string; token?: string; body?: RequestBody }> =
+    [];
+  leaseDuration = 3600;
+  logins = 0;
+  renewals = 0;
+  private server!: http.Server;
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body = raw ? (JSON.parse(raw) as RequestBody) : undefined;
+        const token = req.headers['x-vault-token'] as string | undefined;
+        const url = new URL(req.url!, 'http://vault');
+        this.requests.push({ method: req.method!, path: url.pathname, token, body });
+        const [status, result] = this.handle(req.method!, url, token, body);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(result === undefined ? '' : JSON.stringify(result));
+      });
+    });
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private handle(method: string, url: URL, token?: string, body?: RequestBody): [number, unknown?] {
+    const path = decodeURIComponent(url.pathname.replace(/^\/v1\//, ''));
+
+    if (path === 'auth/approle/login') {
+      if (body?.role_id !== 'role' || body.secret_id !== 'secret-id') {
+        return [400, { errors: ['invalid role or secret ID'] }];
+      }
+      const clientToken = `approle-token-${++this.logins}`;
+      this.tokens.set(clientToken, { ttl: this.leaseDuration, renewable: true });
+      return [
+        200,
+        {
+          auth: { client_token: clientToken, lease_duration: this.leaseDuration, renewable: true },
+        },
+      ];
+    }
+
+    const session = token ? this.tokens.get(token) : undefined;
+    if (!session) {
+      return [403, { errors: ['permission denied'] }];
+    }
+    if (path === 'auth/token/lookup-self') {
+      return [200, { data: session }];
+    }
+    if (path === 'auth/token/renew-self') {
+      this.renewals++;
+      return [200, { auth: { client_token: token, lease_duration: session.ttl, renewable: true } }];
+    }
+
+    const [, kind, ...rest] = path.split('/');
+    const key = rest.join('/');
+    const secret = this.secrets.get(key);
+
+    if (kind === 'data' && method === 'GET') {
+      const number = Number(url.searchParams.get('version') ?? secret?.versions.length);
+      const version = secret?.versions[number - 1];
+      if (!version) return [404, { errors: [] }];
+      const data = version.deletion_time ? null : { value: version.value };
+      return [200, { data: { data, metadata: { version: number } } }];
+    }
+    if (kind === 'data' && method === 'POST') {
+      const current = secret?.versions.length ?? 0;
+      if (body?.options && body.options.cas !== current) {
+        return [400, { errors: ['check-and-set parameter did not match the current version'] }];
+      }
+      const next = secret ?? { versions: [], custom_metadata: null };
+      next.versions.push({
+        value: body!.data!.value,
+        created_time: new Date().toISOString(),
+        deletion_time: '',
+        destroyed: false,
+      });
+      this.secrets.set(key, next);
+      return [200, { data: { version: next.versions.length } }];
+    }
+    if (kind === 'metadata' && url.searchParams.get('list') === 'true') {
+      const prefix = key ? `${key}/` : '';
+      const keys = [...this.secrets.keys()]
+        .filter((name) => name.startsWith(prefix))
+        .map((name) => name.slice(prefix.length).replace(/\/.*/, '/'));
+      return keys.length ? [200, { data: { keys: [...new Set(keys)] } }] : [404, { errors: [] }];
+    }
+    if (!secret) {
+      return [404, { errors: [] }];
+    }
+    if (kind === 'metadata' && method === 'GET') {
+      return [
+        200,
+        {
+          data: {
+            created_time: secret.versions[0]!.created_time,
+            updated_time: secret.versions.at(-1)!.created_time,
+            current_version: secret.versions.length,
+            custom_metadata: secret.custom_metadata,
+            versions: Object.fromEntries(
+              secret.versions.map((version, i) => [String(i + 1), version])
+            ),
+          },
+        },
+      ];
+    }
+    if (kind === 'metadata' && method === 'POST') {
+      secret.custom_metadata = body?.custom_metadata ?? null;
+      return [204];
+    }
+    if (kind === 'metadata' && method === 'DELETE') {
+      this.secrets.delete(key);
+      return [204];
+    }
+    return [405, { errors: ['unsupported operation'] }];
+  }
+}
+
+describe('VaultSecretsManager', () => {
+  const logger = { warn: vi.fn(), error: vi.fn() } as unknown as LoggerService;
+  let vault: VaultStub;
+  let originalEnv: typeof process.env;
+
+  beforeEach(async () => {
+    originalEnv = { ...process.env };
+    vault = new VaultStub();
+    process.env['VAULT_ADDR'] = await vault.start();
+    process.env['VAULT_KV_PATH'] = 'backend';
+    process.env['VAULT_ROLE_ID'] = 'role';
+    process.env['VAULT_SECRET_ID'] = 'secret-id';
+    delete process.env['VAULT_TOKEN'];
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await vault.stop();
+  });
+
+  it('stores secrets as KV v2 versions and reads any version back', async () => {
+    const secrets = new VaultSecretsManager(logger);
+
+    await secrets.setSecret('JWT_SIGNING_KEYS', 'v1', {
+      description: 'Signing keys',
+      tags: { team: 'platform' },
+    });
+    await secrets.setSecret('JWT_SIGNING_KEYS', 'v2');
+
+    expect(await secrets.getSecret('JWT_SIGNING_KEYS')).toBe('v2');
+    expect(await secrets.getSecret('JWT_SIGNING_KEYS', '1')).toBe('v1');
+    expect(await secrets.getSecretMetadata('JWT_SIGNING_KEYS')).toMatchObject({
+      description: 'Signing keys',
+      tags: { team: 'platform' },
+      version: '2',
+    });
+    expect(vault.secrets.has('backend/JWT_SIGNING_KEYS')).toBe(true);
+    expect(vault.logins).toBe(1);
+
+    await secrets.deleteSecret('JWT_SIGNING_KEYS');
+    await expect(secrets.getSecret('JWT_SIGNING_KEYS')).rejects.toThrow(
+      'Secret not found: JWT_SIGNING_KEYS'
+    );
+  });
+
+  it('rotates with check-and-set and keeps the previous version readable', async () => {
+    const secrets = new VaultSecretsManager(logger);
+    await secrets.setSecret('API_KEY', 'old');
+
+    await secrets.rotateSecret('API_KEY', 'new');
+
+    expect(await secrets.getSecret('API_KEY')).toBe('new');
+    expect(await secrets.getSecret('API_KEY', '1')).toBe('old');
+    expect((await secrets.getSecretMetadata('API_KEY')).rotationEnabled).toBe(true);
+    expect(
+      vault.requests.find((request) => request.method === 'POST' && request.body?.options)?.body
+    ).toEqual({
+      options: { cas: 1 },
+      data: { value: 'new' },
+    });
+    await expect(secrets.rotateSecret('MISSING', 'value')).rejects.toThrow(
+      'Secret not found: MISSING'
+    );
+  });
+
+  it('lists secrets in nested paths by prefix', async () => {
+    const secrets = new VaultSecretsManager(logger);
+    await secrets.setSecret('db/password', 'a');
+    await secrets.setSecret('db/replica/password', 'b');
+    await secrets.setSecret('smtp/password', 'c');
+
+    const listed = await secrets.listSecrets('db/');
+
+    expect(listed.map((secret) => secret.key).sort()).toEqual([
+      'db/password',
+      'db/replica/password',
+    ]);
+    expect(listed[0]!.versions).toEqual(['1']);
+  });
+
+  it('authenticates with a token and fails on unknown secrets', async () => {
+    delete process.env['VAULT_ROLE_ID'];
+    process.env['VAULT_TOKEN'] = 'static-token';
+    vault.tokens.set('static-token', { ttl: 0, renewable: false });
+    const secrets = new VaultSecretsManager(logger);
+
+    await expect(secrets.getSecret('NOPE')).rejects.toThrow('Secret not found: NOPE');
+    expect(vault.requests.map((request) => request.token)).toEqual([
+      'static-token',
+      'static-token',
+    ]);
+  });
+
+  it('requires credentials', () => {
+    delete process.env['VAULT_ROLE_ID'];
+
+    expect(() => new VaultSecretsManager(logger)).toThrow('needs VAULT_TOKEN or VAULT_ROLE_ID');
+  });
+
+  it('renews the token lease and logs in again when the token is rejected', async () => {
+    vault.leaseDuration = 0.15;
+    const secrets = new VaultSecretsManager(logger);
+    await secrets.setSecret('A', 'a');
+
+    await vi.waitFor(() => expect(vault.renewals).toBeGreaterThan(0), { timeout: 2000 });
+
+    // Revoked behind our back (e.g. max TTL reached)
+    vault.tokens.clear();
+    expect(await secrets.getSecret('A')).toBe('a');
+    expect(vault.logins).toBe(2);
+  });
+
+  it('caps the renewal delay for long leases', async () => {
+    delete process.env['VAULT_ROLE_ID'];
+    process.env['VAULT_TOKEN'] = 'periodic-token';
+    vault.tokens.set('periodic-token', { ttl: 8760 * 60 * 60, renewable: true });
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+    const secrets = new VaultSecretsManager(logger);
+
+    await secrets.setSecret('A', 'a');
+
+    const delays = setTimeoutSpy.mock.calls.map(([, delay]) => delay ?? 0);
+    setTimeoutSpy.mockRestore();
+    expect(Math.max(...delays)).toBeLessThan(2 ** 31 - 1);
+    expect(vault.renewals).toBe(0);
+  });
+});
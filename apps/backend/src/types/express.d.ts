@@ -2,7 +2,7 @@
  * Express type extensions for custom properties
  */
 
-import { TokenPayload } from '@repo/types';
+import { AuthorizationDecision, TokenPayload } from '@repo/types';
 
 declare global {
   namespace Express {
@@ -17,6 +17,11 @@ declare global {
        */
       user?: TokenPayload;
 
+      /**
+       * Authorization decision (with obligations/advice) set by requireAccess
+       */
+      authorization?: AuthorizationDecision;
+
       /**
        * Request correlation ID (from X-Correlation-ID or generated).
        */
@@ -0,0 +1,35 @@
+// Checked in order: Edge and Opera identify as Chrome too, and Chrome as Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/\bEdg(e|A|iOS)?\//, 'Edge'],
+  [/\bOPR\//, 'Opera'],
+  [/\bFirefox\/|\bFxiOS\//, 'Firefox'],
+  [/\bChrome\/|\bCriOS\//, 'Chrome'],
+  [/\bSafari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/\biPhone|\biPad|\biPod/, 'iOS'],
+  [/\bAndroid\b/, 'Android'],
+  [/\bWindows\b/, 'Windows'],
+  [/\bMac OS X\b|\bMacintosh\b/, 'macOS'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bLinux\b/, 'Linux'],
+];
+
+/**
+ * Short human-readable device description ("Firefox on Windows") from a User-Agent header
+ * Returns the raw product token (e.g. "curl") for non-browser clients, or null without a header
+ */
+export function describeUserAgent(userAgent: string | undefined): string | null {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+
+  return browser ?? platform ?? userAgent.split(/[\s/]/)[0]!.slice(0, 64);
+}
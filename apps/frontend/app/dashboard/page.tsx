@@ -1,3 +1,4 @@
+import Link from 'next/link';
 import type { JSX } from 'react';
 
 import { DashboardClient } from '@/components/dashboard-client';
@@ -15,6 +16,12 @@ export default async function DashboardPage(): Promise<JSX.Element> {
               <h1 className="text-xl font-bold">Dashboard</h1>
             </div>
             <div className="flex items-center gap-4">
+              <Link
+                href="/dashboard/sessions"
+                className="text-sm font-medium text-gray-600 hover:text-gray-900"
+              >
+                Sessions
+              </Link>
               <div className="flex items-center gap-3">
                 <span className="text-sm font-medium">User</span>
               </div>
@@ -0,0 +1,68 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, type JSX } from 'react';
+
+import { authApi, type ActiveSession } from '@/lib/api/auth-api';
+
+export function SessionList({ sessions }: Readonly<{ sessions: ActiveSession[] }>): JSX.Element {
+  const router = useRouter();
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function revoke(session: ActiveSession): Promise<void> {
+    setRevokingId(session.id);
+    setError(null);
+    try {
+      await authApi.revokeSession(session.id);
+      if (session.current) {
+        router.push('/auth/signin');
+      } else {
+        router.refresh();
+      }
+    } catch {
+      setError('Failed to revoke the session. Please try again.');
+    } finally {
+      setRevokingId(null);
+    }
+  }
+
+  if (sessions.length === 0) {
+    return <p className="mt-6 text-sm text-gray-700">No active sessions.</p>;
+  }
+
+  return (
+    <div className="mt-6">
+      {error ? <p className="mb-4 text-sm text-red-600">{error}</p> : null}
+      <ul className="divide-y rounded-lg border bg-white">
+        {sessions.map((session) => (
+          <li key={session.id} className="flex items-center justify-between gap-4 p-4">
+            <div>
+              <div className="text-sm font-medium">
+                {session.device ?? 'Unknown device'}
+                {session.current ? (
+                  <span className="ml-2 rounded bg-green-100 px-2 py-0.5 text-xs text-green-800">
+                    This device
+                  </span>
+                ) : null}
+              </div>
+              <div className="mt-1 text-xs text-gray-500">
+                {session.ipAddress ?? 'Unknown address'} · Signed in{' '}
+                {new Date(session.createdAt).toLocaleString()} · Last active{' '}
+                {new Date(session.lastSeenAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => void revoke(session)}
+              disabled={revokingId !== null}
+              className="rounded-md border px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              {revokingId === session.id ? 'Revoking…' : 'Revoke'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { redirect } from 'next/navigation';
+import type { JSX } from 'react';
+
+import { SessionList } from './SessionList';
+
+import { getActiveSessions } from '@/src/server/auth/get-active-sessions';
+import { requireCurrentUser } from '@/src/server/auth/require-current-user';
+
+export default async function SessionsPage(): Promise<JSX.Element> {
+  await requireCurrentUser();
+
+  const sessionsResult = await getActiveSessions();
+
+  if (sessionsResult.kind === 'unauthenticated') {
+    redirect('/auth/signin');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-2xl font-bold">Active sessions</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          Devices currently signed in to your account. Revoke any session you do not recognise.
+        </p>
+        {sessionsResult.kind === 'error' ? (
+          <p className="mt-6 text-sm text-gray-700">Failed to load your sessions.</p>
+        ) : (
+          <SessionList sessions={sessionsResult.sessions} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -2,8 +2,10 @@ import type { Metadata } from 'next';
 import type { JSX, ReactNode } from 'react';
 
 import { RootErrorBoundary } from '@/components/error-boundary';
+import { ImpersonationBanner } from '@/components/impersonation-banner';
 import { LanguageSwitcher } from '@/components/language-switcher';
 import { Providers } from '@/components/providers';
+import { getImpersonation } from '@/src/server/auth/get-impersonation';
 import './globals.css';
 
 export const metadata: Metadata = {
@@ -11,11 +13,13 @@ export const metadata: Metadata = {
   description: 'Production-ready monorepo with Next.js and Node.js',
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: ReactNode;
-}>): JSX.Element {
+}>): Promise<JSX.Element> {
+  const impersonation = await getImpersonation();
+
   return (
     <html lang="en">
       <body>
@@ -23,6 +27,7 @@ export default function RootLayout({
           <Providers>
             <div className="min-h-screen">
               <header className="border-b">
+                {impersonation ? <ImpersonationBanner impersonation={impersonation} /> : null}
                 <div className="container mx-auto px-4 py-4 flex justify-between items-center">
                   <div className="font-bold text-xl">Next Node App Base</div>
                   <LanguageSwitcher />
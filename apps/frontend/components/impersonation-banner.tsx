@@ -0,0 +1,48 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, type JSX } from 'react';
+
+import { authApi, type ActiveImpersonation } from '@/lib/api/auth-api';
+
+export function ImpersonationBanner({
+  impersonation,
+}: Readonly<{ impersonation: ActiveImpersonation }>): JSX.Element {
+  const router = useRouter();
+  const [ending, setEnding] = useState(false);
+
+  async function endImpersonation(): Promise<void> {
+    setEnding(true);
+    try {
+      await authApi.endImpersonation();
+    } finally {
+      // Whether or not the admin session could be restored, leave the impersonated view
+      router.push('/dashboard');
+      router.refresh();
+      setEnding(false);
+    }
+  }
+
+  const actor = impersonation.actor.email ?? impersonation.actor.id;
+
+  return (
+    <div
+      role="alert"
+      className="bg-amber-500 text-amber-950 px-4 py-2 text-sm flex flex-wrap items-center justify-center gap-x-4 gap-y-1"
+    >
+      <span>
+        <strong>Impersonating {impersonation.user.email}</strong> as {actor}
+        {impersonation.readOnly ? ' (read-only)' : ' (read and write)'} until{' '}
+        {new Date(impersonation.expiresAt).toLocaleTimeString()}
+      </span>
+      <button
+        type="button"
+        onClick={() => void endImpersonation()}
+        disabled={ending}
+        className="rounded-md border border-amber-950 px-3 py-1 font-medium hover:bg-amber-400 disabled:opacity-50"
+      >
+        {ending ? 'Ending…' : 'End impersonation'}
+      </button>
+    </div>
+  );
+}
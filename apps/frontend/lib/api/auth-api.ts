@@ -19,12 +19,61 @@ export interface LoginResponse {
   tokenType: string;
 }
 
+export interface ActiveSession {
+  id: string;
+  device: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expires: string;
+  current: boolean;
+}
+
+export interface ActiveSessionsResponse {
+  sessions: ActiveSession[];
+}
+
+export interface ImpersonationInfo {
+  actor: { id: string; email: string | null; name: string | null };
+  readOnly: boolean;
+  expiresAt: string;
+}
+
+export interface ActiveImpersonation extends ImpersonationInfo {
+  user: AuthenticatedUser;
+}
+
+export interface CurrentUserResponse {
+  user: AuthenticatedUser;
+  impersonation?: ImpersonationInfo;
+}
+
 class AuthApi {
   async login(credentials: LoginCredentials): Promise<LoginResponse> {
     return apiClient.post<LoginResponse>('/api/auth/login', credentials, {
       credentials: 'include',
     });
   }
+
+  /**
+   * Revoke the impersonation token, then restore the admin's own session from their
+   * refresh token
+   */
+  async endImpersonation(): Promise<void> {
+    await apiClient.delete<{ success: boolean }>('/api/admin/impersonate', {
+      credentials: 'include',
+      retries: 0,
+    });
+    await apiClient.post('/api/auth/refresh', undefined, { credentials: 'include', retries: 0 });
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await apiClient.delete<{ success: boolean }>(
+      `/api/auth/sessions/${encodeURIComponent(sessionId)}`,
+      { credentials: 'include', retries: 0 }
+    );
+  }
 }
 
 export const authApi = new AuthApi();
@@ -0,0 +1,28 @@
+import 'server-only';
+
+import { type ActiveSession, type ActiveSessionsResponse } from '@/lib/api/auth-api';
+import { serverApiFetch } from '@/src/server/http/server-api-client';
+
+export type ActiveSessionsResult =
+  | { kind: 'success'; sessions: ActiveSession[] }
+  | { kind: 'unauthenticated' }
+  | { kind: 'error' };
+
+export async function getActiveSessions(): Promise<ActiveSessionsResult> {
+  const response = await serverApiFetch('/api/auth/sessions');
+
+  if (response.status === 401) {
+    return { kind: 'unauthenticated' };
+  }
+
+  if (!response.ok) {
+    return { kind: 'error' };
+  }
+
+  try {
+    const data = (await response.json()) as ActiveSessionsResponse;
+    return { kind: 'success', sessions: data.sessions };
+  } catch {
+    return { kind: 'error' };
+  }
+}
@@ -0,0 +1,28 @@
+import 'server-only';
+
+import { cookies } from 'next/headers';
+
+import { type ActiveImpersonation, type CurrentUserResponse } from '@/lib/api/auth-api';
+import { serverApiFetch } from '@/src/server/http/server-api-client';
+
+/**
+ * The impersonation the current request is made under, or null (also when signed out or
+ * the backend is unreachable, so that pages render without it)
+ */
+export async function getImpersonation(): Promise<ActiveImpersonation | null> {
+  const cookieStore = await cookies();
+  if (!cookieStore.has('access_token')) {
+    return null;
+  }
+
+  try {
+    const response = await serverApiFetch('/api/auth/me');
+    if (!response.ok) {
+      return null;
+    }
+    const data = (await response.json()) as CurrentUserResponse;
+    return data.impersonation ? { ...data.impersonation, user: data.user } : null;
+  } catch {
+    return null;
+  }
+}
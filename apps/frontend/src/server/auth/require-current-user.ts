@@ -2,13 +2,9 @@ import 'server-only';
 
 import { redirect } from 'next/navigation';
 
-import { type AuthenticatedUser } from '@/lib/api/auth-api';
+import { type AuthenticatedUser, type CurrentUserResponse } from '@/lib/api/auth-api';
 import { serverApiFetch } from '@/src/server/http/server-api-client';
 
-interface CurrentUserResponse {
-  user: AuthenticatedUser;
-}
-
 export async function requireCurrentUser(): Promise<AuthenticatedUser> {
   const response = await serverApiFetch('/api/auth/me');
 
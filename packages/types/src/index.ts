@@ -1,5 +1,6 @@
 export * from './interfaces/abac';
 export * from './interfaces/analytics';
+export * from './interfaces/audit';
 export * from './interfaces/authentication';
 export * from './interfaces/cache';
 export * from './interfaces/encryption';
@@ -11,6 +11,17 @@ export enum PolicyEffect {
   DENY = 'deny',
 }
 
+/**
+ * XACML-style combining algorithms
+ * Used to combine matched rules within a policy and applicable policies across a decision
+ */
+export enum CombiningAlgorithm {
+  DENY_OVERRIDES = 'deny-overrides', // any deny wins
+  PERMIT_OVERRIDES = 'permit-overrides', // any allow wins
+  FIRST_APPLICABLE = 'first-applicable', // first match in priority order wins
+  ONLY_ONE_APPLICABLE = 'only-one-applicable', // more than one match is a conflict (deny)
+}
+
 /**
  * Comparison operators for condition evaluation
  */
@@ -72,6 +83,25 @@ export interface LogicalCondition {
   conditions: (Condition | LogicalCondition)[];
 }
 
+/**
+ * Well-known obligation/advice types understood by the backend helpers
+ * Custom string types are allowed and are passed through to route handlers
+ */
+export enum ObligationType {
+  REDACT_FIELDS = 'redact-fields', // params: { fields: string[] } (dot notation supported)
+  REQUIRE_MFA = 'require-mfa',
+  AUDIT_SEVERITY = 'audit-severity', // params: { severity: 'low' | 'medium' | 'high' | 'critical' }
+}
+
+/**
+ * Instruction attached to a rule and returned with the decision it contributes to
+ * Obligations must be fulfilled by the enforcement point; advice may be ignored
+ */
+export interface PolicyObligation {
+  type: string; // An ObligationType or a custom type
+  params?: Record<string, unknown>;
+}
+
 /**
  * Policy rule combining conditions with an effect
  */
@@ -81,6 +111,17 @@ export interface PolicyRule {
   conditions: LogicalCondition;
   effect: PolicyEffect;
   priority?: number; // Higher priority rules are evaluated first
+  obligations?: PolicyObligation[]; // Returned when this rule contributes to the decision
+  advice?: PolicyObligation[];
+}
+
+/**
+ * Policy target - limits which resources/actions a policy applies to
+ * Empty or missing lists match everything; '*' acts as a wildcard entry
+ */
+export interface PolicyTarget {
+  resources?: string[];
+  actions?: string[];
 }
 
 /**
@@ -92,6 +133,9 @@ export interface Policy {
   description?: string;
   version: string;
   enabled: boolean;
+  target?: PolicyTarget;
+  priority?: number; // Higher priority policies are evaluated first
+  combiningAlgorithm?: CombiningAlgorithm; // Rule-combining algorithm (default: deny-overrides)
   rules: PolicyRule[];
   createdAt: Date;
   updatedAt: Date;
@@ -117,6 +161,44 @@ export interface PolicyEvaluationResult {
   effect: PolicyEffect;
   matchedRules: string[]; // IDs of rules that matched
   reason?: string;
+  obligations?: PolicyObligation[]; // From the rules that produced the decision
+  advice?: PolicyObligation[];
+}
+
+/**
+ * Options for evaluating a set of policies
+ */
+export interface PolicyEvaluationOptions {
+  combiningAlgorithm?: CombiningAlgorithm; // Policy-combining algorithm (overrides the engine default)
+}
+
+/**
+ * Per-rule outcome recorded during a traced evaluation
+ */
+export interface RuleEvaluationTrace {
+  ruleId: string;
+  effect: PolicyEffect;
+  priority: number;
+  matched: boolean;
+}
+
+/**
+ * Per-policy outcome recorded during a traced evaluation
+ */
+export interface PolicyEvaluationTrace extends PolicyEvaluationResult {
+  policyId: string;
+  policyName: string;
+  priority: number;
+  combiningAlgorithm: CombiningAlgorithm;
+  rules: RuleEvaluationTrace[];
+}
+
+/**
+ * Combined decision plus the trace of every evaluated policy and rule
+ */
+export interface PolicyDecisionTrace extends PolicyEvaluationResult {
+  combiningAlgorithm: CombiningAlgorithm;
+  policies: PolicyEvaluationTrace[];
 }
 
 /**
@@ -152,6 +234,11 @@ export interface IPolicyStore {
    * Find policies applicable to a given context
    */
   findApplicablePolicies(context: PolicyContext): Promise<Policy[]>;
+
+  /**
+   * Subscribe to policy changes (create/update/delete); returns an unsubscribe function
+   */
+  onChange?(listener: () => void): () => void;
 }
 
 /**
@@ -0,0 +1,135 @@
+/**
+ * A recorded security or data event
+ */
+export interface AuditLogEntry {
+  timestamp: Date;
+  userId?: string;
+  action: string;
+  resource: string;
+  resourceId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  success: boolean;
+  errorMessage?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Filter for reading audit log entries
+ */
+export interface AuditLogFilter {
+  userId?: string;
+  action?: string;
+  resource?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+/**
+ * A stored audit log entry with its position in the log
+ */
+export interface AuditLogRecord extends AuditLogEntry {
+  id: string;
+  sequence: number;
+}
+
+/**
+ * Fields audit log queries can filter and sort on
+ */
+export type AuditLogQueryField =
+  | 'sequence'
+  | 'timestamp'
+  | 'userId'
+  | 'action'
+  | 'resource'
+  | 'resourceId'
+  | 'success'
+  | 'ipAddress';
+
+/**
+ * A single audit log filter condition
+ * Values are typed like the field (Date for timestamp, boolean for success, number for
+ * sequence, string otherwise); `in` takes an array of them
+ */
+export interface AuditLogCondition {
+  field: AuditLogQueryField;
+  operator: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'startsWith';
+  value: unknown;
+}
+
+/**
+ * Query for a page of audit log records
+ */
+export interface AuditLogQuery {
+  /**
+   * Conditions that must all match
+   */
+  conditions?: AuditLogCondition[];
+
+  /**
+   * Sort order; ties are broken by sequence (default: sequence ascending)
+   */
+  orderBy?: Array<{ field: AuditLogQueryField; order: 'asc' | 'desc' }>;
+
+  /**
+   * Cursor paging: only records past this sequence number in sort order
+   * Requires orderBy to be empty or by sequence only
+   */
+  afterSequence?: number;
+
+  offset?: number;
+  limit: number;
+
+  /**
+   * Count every record matching the conditions (costly over large ranges)
+   */
+  withTotal?: boolean;
+}
+
+/**
+ * A page of audit log records
+ */
+export interface AuditLogPage {
+  records: AuditLogRecord[];
+  hasMore: boolean;
+  total?: number;
+}
+
+/**
+ * Persistence for audit log entries
+ * Entries are append-only; stores return them oldest first
+ */
+export interface IAuditLogStore {
+  /**
+   * Record an entry
+   */
+  append(entry: AuditLogEntry): Promise<void>;
+
+  /**
+   * Entries matching the filter
+   */
+  find(filter?: AuditLogFilter): Promise<AuditLogEntry[]>;
+
+  /**
+   * A page of records matching the query
+   */
+  query(query: AuditLogQuery): Promise<AuditLogPage>;
+}
+
+/**
+ * Sends audit log entries to an external system (e.g. a SIEM)
+ */
+export interface IAuditLogForwarder {
+  readonly name: string;
+
+  /**
+   * Deliver a batch of entries; rejects when the batch was not accepted
+   */
+  forward(entries: AuditLogEntry[]): Promise<void>;
+
+  /**
+   * Release connections
+   */
+  close?(): Promise<void>;
+}
@@ -1,3 +1,5 @@
+import { PolicyObligation } from './abac';
+
 /**
  * Authentication provider interface for OAuth 2.0 + OIDC
  */
@@ -55,6 +57,15 @@ export interface TokenPayload {
   email: string;
   roles: string[];
   permissions: string[];
+  mfaVerified?: boolean; // Set when the login completed a second factor
+  apiKeyId?: string; // Set for API key requests
+  scopes?: string[]; // API key scopes; they limit what the owner's roles and permissions allow
+  jti?: string; // Access token id, for revocation before expiry
+  sessionId?: string; // Login session (refresh token family) the access token belongs to
+  actorId?: string; // Impersonation: the admin acting as the user
+  subjectId?: string; // Impersonation: the impersonated user (same as userId)
+  readOnly?: boolean; // Impersonation: limit the token to reads (the default)
+  iatMs?: number; // Access tokens: issue time in milliseconds, to order them against revocations
   iat: number;
   exp: number;
 }
@@ -76,12 +87,13 @@ export interface UserProfile {
  */
 export interface IAuthorizationService {
   /**
-   * Check if user has required role
+   * Check if user has required role (directly or through role inheritance)
    */
   hasRole(userId: string, role: string): Promise<boolean>;
 
   /**
    * Check if user has required permission
+   * Granted permissions may be patterns such as "users:*"
    */
   hasPermission(userId: string, permission: string): Promise<boolean>;
 
@@ -96,13 +108,18 @@ export interface IAuthorizationService {
    */
   canAccessWithContext(context: AuthorizationContext): Promise<boolean>;
 
+  /**
+   * Authorize with full ABAC context and return the decision with its obligations
+   */
+  authorizeWithContext(context: AuthorizationContext): Promise<AuthorizationDecision>;
+
   /**
    * Get user roles
    */
   getUserRoles(userId: string): Promise<string[]>;
 
   /**
-   * Get user permissions
+   * Get user permissions (direct and from assigned and inherited roles)
    */
   getUserPermissions(userId: string): Promise<string[]>;
 
@@ -117,6 +134,18 @@ export interface IAuthorizationService {
   removePolicy?(policyId: string): Promise<void>;
 }
 
+/**
+ * Detailed authorization decision, including ABAC obligations and advice
+ */
+export interface AuthorizationDecision {
+  allowed: boolean;
+  evaluationMethod: 'RBAC' | 'ABAC';
+  matchedRules: string[];
+  reason?: string;
+  obligations: PolicyObligation[];
+  advice: PolicyObligation[];
+}
+
 export interface AuthorizationContext {
   userId: string;
   resource: string;
@@ -126,3 +155,59 @@ export interface AuthorizationContext {
   resourceAttributes?: Record<string, any>;
   environmentAttributes?: Record<string, any>;
 }
+
+/**
+ * Persistence for RBAC roles, permissions and their assignments
+ * Role and permission names are stored as given; callers normalise case
+ */
+export interface IRbacStore {
+  /**
+   * Roles explicitly assigned to a user
+   */
+  getUserRoles(userId: string): Promise<string[]>;
+
+  /**
+   * Permissions granted directly to a user (excluding role permissions)
+   */
+  getUserPermissions(userId: string): Promise<string[]>;
+
+  /**
+   * Union of the permissions of the given roles
+   */
+  getRolePermissions(roles: string[]): Promise<string[]>;
+
+  /**
+   * Assign a role to a user (the role is created if it does not exist)
+   */
+  assignRole(userId: string, role: string): Promise<void>;
+
+  /**
+   * Remove a role from a user
+   */
+  revokeRole(userId: string, role: string): Promise<void>;
+
+  /**
+   * Grant a permission directly to a user (the permission is created if needed)
+   */
+  grantPermission(userId: string, permission: string): Promise<void>;
+
+  /**
+   * Remove a directly granted permission from a user
+   */
+  revokePermission(userId: string, permission: string): Promise<void>;
+
+  /**
+   * Create a role if needed and replace its permission set
+   */
+  setRolePermissions(role: string, permissions: string[]): Promise<void>;
+
+  /**
+   * Roles directly inherited by each of the given roles (role name -> parent role names)
+   */
+  getRoleParents(roles: string[]): Promise<Record<string, string[]>>;
+
+  /**
+   * Create a role (and its parents) if needed and replace the roles it inherits from
+   */
+  setRoleParents(role: string, parents: string[]): Promise<void>;
+}
@@ -1,3 +1,5 @@
+import { AuditLogEntry } from './audit';
+
 /**
  * Job options for queue operations
  */
@@ -54,6 +56,16 @@ export interface IQueueService {
     jobs: Array<{ name: string; data: T; opts?: QueueJobOptions }>
   ): Promise<QueueJob<T>[]>;
 
+  /**
+   * Create or update a repeating job; jobs with the same scheduler ID replace each other
+   */
+  scheduleRepeatingJob<T = unknown>(
+    queueName: string,
+    schedulerId: string,
+    repeat: { pattern?: string; every?: number },
+    data: T
+  ): Promise<void>;
+
   /**
    * Get job by ID
    */
@@ -202,6 +214,7 @@ export enum QueueName {
   DATA_EXPORT = 'data-export',
   REPORT_GENERATION = 'report-generation',
   CLEANUP = 'cleanup',
+  AUDIT_LOG = 'audit-log',
 }
 
 /**
@@ -279,6 +292,17 @@ export interface DataExportJobData {
   destination?: string;
 }
 
+/**
+ * Audit log export job data (runs on the data export queue)
+ * `filter` holds the raw `filter[field][operator]` query object, re-validated by the processor
+ */
+export interface AuditLogExportJobData {
+  resourceType: 'audit-logs';
+  requestedBy: string;
+  format: 'csv' | 'ndjson';
+  filter?: Record<string, unknown>;
+}
+
 /**
  * Report generation job data
  */
@@ -302,6 +326,32 @@ export interface CleanupJobData {
   pattern?: string;
 }
 
+/**
+ * Re-encryption job data (runs on the cleanup queue)
+ * Moves encrypted fields to the current encryption master key after a rotation
+ */
+export interface ReencryptionJobData {
+  resourceType: 'encrypted-fields';
+  batchSize?: number;
+}
+
+/**
+ * Audit log retention job data (runs on the cleanup queue)
+ * Archives audit log rows past their retention period to storage, then deletes them
+ */
+export interface AuditLogRetentionJobData {
+  resourceType: 'audit-logs';
+  batchSize?: number;
+}
+
+/**
+ * Audit log job data: an entry to persist (see IAuditLogStore)
+ * The timestamp is an ISO string once serialized into the job
+ */
+export interface AuditLogJobData {
+  entry: Omit<AuditLogEntry, 'timestamp'> & { timestamp: string };
+}
+
 /**
  * Job result interface
  */